@@ -1,11 +1,15 @@
 import { useState, useEffect } from 'react';
 import SaveImport from './components/SaveImport';
+import PokemonFileImport from './components/PokemonFileImport';
 import VaultView from './components/VaultView';
 import PokemonDetail from './components/PokemonDetail';
+import QuarantineView from './components/QuarantineView';
 import { ExportSave } from './components/ExportSave';
+import { SaveEditor } from './components/SaveEditor';
+import { SaveHistoryView } from './components/SaveHistoryView';
 import { StoredPokemon, getAllPokemon } from './lib/db/vaultDb';
 
-type Tab = 'import' | 'vault' | 'export';
+type Tab = 'import' | 'vault' | 'export' | 'editor' | 'history';
 
 function App() {
   const [activeTab, setActiveTab] = useState<Tab>('import');
@@ -103,35 +107,81 @@ function App() {
         >
           💉 Inject
         </button>
+        <button
+          onClick={() => setActiveTab('editor')}
+          style={{
+            padding: '12px 24px',
+            background: activeTab === 'editor' ? '#667eea' : 'rgba(255, 255, 255, 0.9)',
+            color: activeTab === 'editor' ? '#fff' : '#667eea',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+            transition: 'all 0.3s'
+          }}
+        >
+          🛠️ Save Editor
+        </button>
+        <button
+          onClick={() => setActiveTab('history')}
+          style={{
+            padding: '12px 24px',
+            background: activeTab === 'history' ? '#667eea' : 'rgba(255, 255, 255, 0.9)',
+            color: activeTab === 'history' ? '#fff' : '#667eea',
+            border: 'none',
+            borderRadius: '8px',
+            fontSize: '16px',
+            fontWeight: 'bold',
+            cursor: 'pointer',
+            transition: 'all 0.3s'
+          }}
+        >
+          🗄️ Save History
+        </button>
       </nav>
 
       <main className="container">
         <div style={{ display: 'grid', gridTemplateColumns: '1fr', gap: '20px' }}>
           {activeTab === 'import' && (
-            <SaveImport onImportComplete={handleImportComplete} />
+            <>
+              <SaveImport onImportComplete={handleImportComplete} />
+              <PokemonFileImport onImportComplete={handleImportComplete} />
+            </>
           )}
           
           {activeTab === 'vault' && (
-            <div style={{ display: 'grid', gridTemplateColumns: selectedPokemon ? '2fr 1fr' : '1fr', gap: '20px' }}>
-              <VaultView
-                key={vaultKey}
-                onSelectPokemon={setSelectedPokemon}
-                selectedPokemon={selectedPokemon}
-              />
-              
-              {selectedPokemon && (
-                <PokemonDetail
-                  pokemon={selectedPokemon}
-                  onClose={() => setSelectedPokemon(null)}
-                  onDelete={handlePokemonDeleted}
+            <>
+              <div style={{ display: 'grid', gridTemplateColumns: selectedPokemon ? '2fr 1fr' : '1fr', gap: '20px' }}>
+                <VaultView
+                  key={vaultKey}
+                  onSelectPokemon={setSelectedPokemon}
+                  selectedPokemon={selectedPokemon}
                 />
-              )}
-            </div>
+              
+                {selectedPokemon && (
+                  <PokemonDetail
+                    pokemon={selectedPokemon}
+                    onClose={() => setSelectedPokemon(null)}
+                    onDelete={handlePokemonDeleted}
+                  />
+                )}
+              </div>
+              <QuarantineView key={vaultKey} onRecovered={() => setVaultKey(prev => prev + 1)} />
+            </>
           )}
 
           {activeTab === 'export' && (
             <ExportSave vaultPokemon={vaultPokemon} />
           )}
+
+          {activeTab === 'editor' && (
+            <SaveEditor />
+          )}
+
+          {activeTab === 'history' && (
+            <SaveHistoryView />
+          )}
         </div>
       </main>
 
@@ -0,0 +1,66 @@
+/**
+ * 6×5 PC box grid preview of planned box placements
+ * Shows each box that receives a Pokémon, with its current occupants
+ */
+import { useMemo } from 'react';
+import { loadGen3Save, extractBoxPokemonFromSave } from '../lib/gen3/save/gen3Save';
+import { decodeGen3String, getSpeciesName } from '../lib/species/speciesTranscode';
+import type { PlannedPlacement } from '../lib/injection/transaction';
+
+interface BoxPlacementGridProps {
+  saveBuffer: ArrayBuffer;
+  placements: PlannedPlacement[];
+  boxNames: string[];
+}
+
+export function BoxPlacementGrid({ saveBuffer, placements, boxNames }: BoxPlacementGridProps) {
+  const occupants = useMemo(() => {
+    const names = new Map<string, string>();
+    for (const entry of extractBoxPokemonFromSave(loadGen3Save(saveBuffer))) {
+      names.set(`${entry.box}-${entry.slot}`, decodeGen3String(entry.pk3.nickname));
+    }
+    return names;
+  }, [saveBuffer]);
+
+  const planned = new Map<string, PlannedPlacement>();
+  for (const placement of placements) {
+    if (!placement.target.location) {
+      planned.set(`${placement.target.boxIndex}-${placement.target.slotIndex}`, placement);
+    }
+  }
+
+  const boxes = [...new Set([...planned.keys()].map(key => Number(key.split('-')[0])))].sort((a, b) => a - b);
+
+  return (
+    <div className="box-grid-preview">
+      {boxes.map((box) => (
+        <div key={box} className="box-grid-box">
+          <h4>{boxNames[box]?.trim() || `Box ${box + 1}`}</h4>
+          <div className="box-grid">
+            {Array.from({ length: 30 }, (_, slot) => {
+              const placement = planned.get(`${box}-${slot}`);
+              const occupant = occupants.get(`${box}-${slot}`);
+              const className = placement
+                ? `box-grid-cell planned${placement.errors.length > 0 ? ' invalid' : ''}`
+                : `box-grid-cell${occupant ? ' occupied' : ''}`;
+
+              return (
+                <div
+                  key={slot}
+                  className={className}
+                  title={placement ? [
+                    `Slot ${slot + 1}: ${placement.nickname} (${getSpeciesName(placement.nationalDex)})`,
+                    ...(placement.replaces ? [`replaces ${placement.replaces}`] : []),
+                    ...placement.errors,
+                  ].join('\n') : `Slot ${slot + 1}${occupant ? `: ${occupant}` : ''}`}
+                >
+                  {placement ? `#${placement.nationalDex}` : occupant ?? ''}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
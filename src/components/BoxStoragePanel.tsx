@@ -0,0 +1,170 @@
+/**
+ * PC box storage panel for the save editor
+ * Moves, swaps and releases boxed Pokémon, and sorts or compacts a box range
+ */
+import { useState } from 'react';
+import { extractBoxPokemonFromSave, type Gen3Save } from '../lib/gen3/save/gen3Save';
+import { getBoxNames } from '../lib/gen3/save/boxes';
+import {
+  moveBoxPokemon,
+  swapBoxPokemon,
+  releaseBoxPokemon,
+  sortBoxes,
+  compactBoxes,
+  isBoxSlotOccupied,
+  type BoxSlotRef,
+  type BoxSortKey,
+} from '../lib/gen3/save/boxStorage';
+import { parseGrowth } from '../lib/gen3/pk3/substruct';
+import { decryptAndUnshufflePk3 } from '../lib/gen3/pk3/pk3';
+import { NUM_BOXES, BOX_SIZE } from '../lib/gen3/save/constants';
+import { decodeGen3String, gen3InternalToNational, getSpeciesName } from '../lib/species/speciesTranscode';
+
+interface BoxStoragePanelProps {
+  save: Gen3Save;
+  onChange: (save: Gen3Save) => void;
+  onError: (error: unknown) => void;
+}
+
+export function BoxStoragePanel({ save, onChange, onError }: BoxStoragePanelProps) {
+  const [box, setBox] = useState<number>(0);
+  const [selected, setSelected] = useState<BoxSlotRef | null>(null);
+  const [rangeStart, setRangeStart] = useState<number>(0);
+  const [rangeEnd, setRangeEnd] = useState<number>(NUM_BOXES - 1);
+  const [sortKey, setSortKey] = useState<BoxSortKey>('species');
+  const [descending, setDescending] = useState<boolean>(false);
+
+  const boxNames = getBoxNames(save);
+  const boxLabel = (index: number) => boxNames[index]?.trim() || `Box ${index + 1}`;
+
+  const contents = new Map<number, string>();
+  for (const entry of extractBoxPokemonFromSave(save)) {
+    if (entry.box === box) {
+      const species = gen3InternalToNational(parseGrowth(decryptAndUnshufflePk3(entry.pk3).growth).species);
+      contents.set(entry.slot, `${decodeGen3String(entry.pk3.nickname)} (${getSpeciesName(species)})`);
+    }
+  }
+
+  const edit = (apply: () => Gen3Save) => {
+    try {
+      onChange(apply());
+      setSelected(null);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  // The first click picks a Pokémon; the second moves it there, or swaps with the Pokémon already there
+  const handleSlotClick = (slot: number) => {
+    const target = { box, slot };
+
+    if (!selected) {
+      if (contents.has(slot)) setSelected(target);
+      return;
+    }
+    if (selected.box === box && selected.slot === slot) {
+      setSelected(null);
+      return;
+    }
+
+    edit(() => isBoxSlotOccupied(save, target)
+      ? swapBoxPokemon(save, selected, target)
+      : moveBoxPokemon(save, selected, target));
+  };
+
+  const handleRelease = () => {
+    if (!selected) return;
+    if (!window.confirm(`Release the Pokémon in ${boxLabel(selected.box)} slot ${selected.slot + 1}? This cannot be undone after saving.`)) {
+      return;
+    }
+    edit(() => releaseBoxPokemon(save, selected));
+  };
+
+  return (
+    <div className="export-section">
+      <h3>PC Boxes</h3>
+      <p>Click a Pokémon, then click another slot to move it there or swap the two. The selection carries across boxes.</p>
+
+      <div className="target-controls">
+        <label>
+          Box:
+          <select value={box} onChange={(e) => setBox(parseInt(e.target.value))}>
+            {Array.from({ length: NUM_BOXES }, (_, i) => (
+              <option key={i} value={i}>
+                {boxLabel(i)}
+              </option>
+            ))}
+          </select>
+        </label>
+        {selected && (
+          <>
+            <span>Selected: {boxLabel(selected.box)} slot {selected.slot + 1}</span>
+            <button onClick={handleRelease}>Release</button>
+            <button onClick={() => setSelected(null)}>Cancel</button>
+          </>
+        )}
+      </div>
+
+      <div className="box-grid-preview">
+        <div className="box-grid">
+          {Array.from({ length: BOX_SIZE }, (_, slot) => {
+            const isSelected = selected?.box === box && selected.slot === slot;
+            return (
+              <div
+                key={slot}
+                className={`box-grid-cell${contents.has(slot) ? ' occupied' : ''}${isSelected ? ' planned' : ''}`}
+                title={`Slot ${slot + 1}${contents.has(slot) ? `: ${contents.get(slot)}` : ''}`}
+                onClick={() => handleSlotClick(slot)}
+              >
+                {contents.get(slot)?.split(' (')[0] ?? ''}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <h4>Sort and Compact</h4>
+      <div className="target-controls">
+        <label>
+          From:
+          <select value={rangeStart} onChange={(e) => setRangeStart(parseInt(e.target.value))}>
+            {Array.from({ length: NUM_BOXES }, (_, i) => (
+              <option key={i} value={i}>
+                {boxLabel(i)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          To:
+          <select value={rangeEnd} onChange={(e) => setRangeEnd(parseInt(e.target.value))}>
+            {Array.from({ length: NUM_BOXES }, (_, i) => (
+              <option key={i} value={i}>
+                {boxLabel(i)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Sort by:
+          <select value={sortKey} onChange={(e) => setSortKey(e.target.value as BoxSortKey)}>
+            <option value="species">National Dex number</option>
+            <option value="level">Level</option>
+            <option value="ot">Original Trainer</option>
+            <option value="shiny">Shiny first</option>
+          </select>
+        </label>
+        <label>
+          <input type="checkbox" checked={descending} onChange={(e) => setDescending(e.target.checked)} />
+          Descending
+        </label>
+        <button onClick={() => edit(() => sortBoxes(save, rangeStart, rangeEnd, { key: sortKey, descending }))}>
+          Sort
+        </button>
+        <button onClick={() => edit(() => compactBoxes(save, rangeStart, rangeEnd))}>
+          Compact
+        </button>
+      </div>
+    </div>
+  );
+}
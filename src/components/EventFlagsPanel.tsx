@@ -0,0 +1,90 @@
+/**
+ * Event flag panel for the save editor
+ * Unlocks ticket islands, toggles named flags and lists every set flag
+ */
+import type { Gen3Save } from '../lib/gen3/save/gen3Save';
+import {
+  GEN3_TICKET_ISLANDS,
+  GEN3_EVENT_FLAGS,
+  getEventFlag,
+  setEventFlag,
+  getSetEventFlags,
+  getEventFlagName,
+  unlockTicketIsland,
+  type Gen3TicketItem,
+} from '../lib/gen3/save/events';
+
+interface EventFlagsPanelProps {
+  save: Gen3Save;
+  onChange: (save: Gen3Save) => void;
+  onError: (error: unknown) => void;
+}
+
+export function EventFlagsPanel({ save, onChange, onError }: EventFlagsPanelProps) {
+  const setFlags = getSetEventFlags(save);
+
+  const edit = (apply: () => Gen3Save) => {
+    try {
+      onChange(apply());
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const handleUnlock = (item: Gen3TicketItem) => edit(() => unlockTicketIsland(save, item));
+  const handleToggle = (flag: number, value: boolean) => edit(() => setEventFlag(save, flag, value));
+
+  return (
+    <div className="export-section">
+      <h3>Event Flags</h3>
+
+      <h4>Ticket Islands</h4>
+      <p>Unlocking an island enables the ferry route and adds its ticket to the Key Items pocket.</p>
+      <ul>
+        {GEN3_TICKET_ISLANDS[save.game].map((island) => {
+          const unlocked = getEventFlag(save, island.flag);
+          return (
+            <li key={island.item}>
+              {island.location} ({island.species}): {unlocked ? '✓ Unlocked' : 'Locked'}
+              {!unlocked && (
+                <button onClick={() => handleUnlock(island.item)}>Unlock</button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <h4>Named Flags</h4>
+      <ul>
+        {GEN3_EVENT_FLAGS[save.game].map((definition) => (
+          <li key={definition.id}>
+            <label>
+              <input
+                type="checkbox"
+                checked={getEventFlag(save, definition.id)}
+                onChange={(e) => handleToggle(definition.id, e.target.checked)}
+              />
+              {definition.name} <code>0x{definition.id.toString(16).toUpperCase()}</code>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      <h4>Set Flags ({setFlags.length})</h4>
+      {setFlags.length === 0 ? (
+        <p>No event flags are set.</p>
+      ) : (
+        <p>
+          {setFlags.map((flag) => {
+            const name = getEventFlagName(save.game, flag);
+            return (
+              <code key={flag} title={name}>
+                0x{flag.toString(16).toUpperCase().padStart(3, '0')}{name ? ` ${name}` : ''}{' '}
+              </code>
+            );
+          })}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -2,14 +2,24 @@
  * Export/Injection component for injecting Pokémon into Gen 3 saves
  */
 import { useState } from 'react';
-import { injectPokemonToGen3Save, findEmptySlots, validateInjectionTarget, type InjectionTarget } from '../lib/injection/gen3';
-import type { StoredPokemon } from '../lib/db/vaultDb';
+import { findEmptySlots, type BoxInjectionTarget } from '../lib/injection/gen3';
+import { planBoxPlacements, type BoxPlacementStrategy } from '../lib/injection/placement';
+import { planInjectionTransaction, commitInjectionTransaction, type InjectionPlacement, type InjectionPlan } from '../lib/injection/transaction';
+import { addSaveBackup, type StoredPokemon } from '../lib/db/vaultDb';
 import { decodePk3 } from '../lib/gen3/pk3/pk3';
-import { loadGen3Save } from '../lib/gen3/save/gen3Save';
+import { loadGen3Save, getPartyCount } from '../lib/gen3/save/gen3Save';
+import { getBoxNames } from '../lib/gen3/save/boxes';
+import { extractDaycareFromSave } from '../lib/gen3/save/daycare';
+import { PARTY_SIZE, DAYCARE_SLOT_COUNT, GEN3_GAME_GROUP_NAMES, type Gen3GameGroup } from '../lib/gen3/save/constants';
+import { decodeGen3String, getSpeciesName } from '../lib/species/speciesTranscode';
 import { makeErrorUserFriendly, formatErrorForDisplay } from '../lib/utils/errorMessages';
+import { downloadBuffer } from '../lib/utils/download';
+import { verifyInjection } from '../lib/injection/verify';
+import { sha256Hex } from '../lib/utils/hash';
+import { checkInjectionCompatibility, formatCompatibilityFindings, type CompatibilityReport } from '../lib/injection/compatibility';
+import { BoxPlacementGrid } from './BoxPlacementGrid';
 
-// Delay before cleaning up download link to ensure download starts
-const DOWNLOAD_CLEANUP_DELAY_MS = 100;
+type InjectionDestination = 'box' | 'party' | 'daycare';
 
 interface ExportSaveProps {
   vaultPokemon: StoredPokemon[];
@@ -21,7 +31,20 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
   const [selectedPokemon, setSelectedPokemon] = useState<StoredPokemon[]>([]);
   const [targetBox, setTargetBox] = useState<number>(0);
   const [targetSlot, setTargetSlot] = useState<number>(0);
-  const [emptySlots, setEmptySlots] = useState<InjectionTarget[]>([]);
+  const [emptySlots, setEmptySlots] = useState<BoxInjectionTarget[]>([]);
+  const [destination, setDestination] = useState<InjectionDestination>('box');
+  const [partyCount, setPartyCount] = useState<number>(0);
+  const [daycareNames, setDaycareNames] = useState<string[]>([]);
+  const [daycareSlot, setDaycareSlot] = useState<number>(0);
+  const [boxNames, setBoxNames] = useState<string[]>([]);
+  const [targetGame, setTargetGame] = useState<Gen3GameGroup | null>(null);
+  const [registerPokedex, setRegisterPokedex] = useState<boolean>(true);
+  const [boxStrategy, setBoxStrategy] = useState<BoxPlacementStrategy>('sequential');
+  const [dexBoxRange, setDexBoxRange] = useState<[number, number]>([0, 13]);
+  const [reservedBoxes, setReservedBoxes] = useState<number[]>([]);
+  const [replaceOccupied, setReplaceOccupied] = useState<boolean>(false);
+  const [plan, setPlan] = useState<InjectionPlan | null>(null);
+  const [compatibility, setCompatibility] = useState<CompatibilityReport | null>(null);
   const [status, setStatus] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
 
@@ -39,10 +62,18 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
 
       // Validate save structure before allowing injection
       // This will throw an error if the save has corrupted section IDs
-      loadGen3Save(arrayBuffer);
+      const save = loadGen3Save(arrayBuffer);
 
       setSaveFile(arrayBuffer);
       setSaveFileName(file.name);
+      setPartyCount(getPartyCount(save));
+      setDaycareNames(extractDaycareFromSave(save).map(entry => decodeGen3String(entry.pk3.nickname)));
+      setDaycareSlot(0);
+      setBoxNames(getBoxNames(save));
+      setTargetGame(save.game);
+      setPlan(null);
+      setCompatibility(null);
+      backupSave(arrayBuffer, file.name, 'original');
 
       // Find empty slots
       const slots = findEmptySlots(arrayBuffer);
@@ -60,6 +91,71 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
     }
   };
 
+  /**
+   * Lay the selected Pokémon out using the chosen destination and box placement
+   */
+  const buildPlacements = (saveBuffer: ArrayBuffer): InjectionPlacement[] => {
+    if (destination === 'party' && partyCount + selectedPokemon.length > PARTY_SIZE) {
+      throw new Error(`Not enough room in the party: ${PARTY_SIZE - partyCount} free slot(s) for ${selectedPokemon.length} Pokémon`);
+    }
+    if (destination === 'daycare' && daycareSlot + selectedPokemon.length > DAYCARE_SLOT_COUNT) {
+      throw new Error(`Not enough room in the Daycare: ${DAYCARE_SLOT_COUNT - daycareSlot} slot(s) from Slot ${daycareSlot + 1} for ${selectedPokemon.length} Pokémon`);
+    }
+
+    const pokemonData = selectedPokemon.map((pokemon) => {
+      // Get pk3 data from vault Pokémon
+      if (!pokemon.pk3Data) {
+        throw new Error(`Pokémon ${pokemon.nickname || pokemon.species} has no pk3 data`);
+      }
+
+      return decodePk3(pokemon.pk3Data);
+    });
+
+    if (destination === 'box') {
+      return planBoxPlacements(saveBuffer, pokemonData, {
+        strategy: boxStrategy,
+        start: { boxIndex: targetBox, slotIndex: targetSlot },
+        boxRange: dexBoxRange,
+        reservedBoxes,
+      });
+    }
+
+    // Party and Daycare slots fill in order from the first free one
+    const firstSlot = destination === 'party' ? partyCount : daycareSlot;
+    return pokemonData.map((pk3Data, i): InjectionPlacement => ({
+      pk3Data,
+      target: { location: destination, slotIndex: firstSlot + i },
+    }));
+  };
+
+  const transactionOptions = { registerPokedex, replaceOccupied };
+
+  // Replacing has to be allowed again for each destination, so a box choice never overwrites the Daycare
+  const handleDestinationChange = (next: InjectionDestination) => {
+    setDestination(next);
+    setReplaceOccupied(false);
+    setPlan(null);
+  };
+
+  const handlePreview = () => {
+    if (!saveFile || selectedPokemon.length === 0) {
+      setError('Please select a save file and at least one Pokémon to inject');
+      return;
+    }
+
+    try {
+      const placements = buildPlacements(saveFile);
+      setPlan(planInjectionTransaction(saveFile, placements, transactionOptions));
+      setCompatibility(checkInjectionCompatibility(saveFile, placements.map(placement => placement.pk3Data)));
+      setError(null);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error('Unknown error occurred');
+      setError(formatErrorForDisplay(makeErrorUserFriendly(error), true));
+      setPlan(null);
+      setCompatibility(null);
+    }
+  };
+
   const handleInject = () => {
     if (!saveFile || selectedPokemon.length === 0) {
       setError('Please select a save file and at least one Pokémon to inject');
@@ -67,68 +163,41 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
     }
 
     try {
-      let currentSave = saveFile;
-      let currentBox = targetBox;
-      let currentSlot = targetSlot;
-
-      for (const pokemon of selectedPokemon) {
-        // Validate target
-        const validation = validateInjectionTarget(currentSave, {
-          boxIndex: currentBox,
-          slotIndex: currentSlot,
-        });
-
-        if (!validation.valid) {
-          throw new Error(`Invalid injection target Box ${currentBox + 1}, Slot ${currentSlot + 1}: ${validation.reason}`);
-        }
+      const placements = buildPlacements(saveFile);
 
-        // Get pk3 data from vault Pokémon
-        if (!pokemon.pk3Data) {
-          throw new Error(`Pokémon ${pokemon.nickname || pokemon.species} has no pk3 data`);
+      // Problems with the target game block the injection; warnings are the user's call
+      const report = checkInjectionCompatibility(saveFile, placements.map(placement => placement.pk3Data));
+      if (report.hasErrors) {
+        throw new Error(`Injection blocked by compatibility problems:\n${formatCompatibilityFindings(report, 'error').join('\n')}`);
+      }
+      if (report.hasWarnings) {
+        const warnings = formatCompatibilityFindings(report, 'warning');
+        if (!window.confirm(`These Pokémon may not work as expected in ${GEN3_GAME_GROUP_NAMES[report.game]}:\n\n${warnings.join('\n')}\n\nInject anyway?`)) {
+          setCompatibility(report);
+          setStatus('Injection cancelled; nothing was written.');
+          return;
         }
+      }
 
-        const pk3Buffer = pokemon.pk3Data;
-        const pk3 = decodePk3(pk3Buffer);
-
-        // Inject
-        currentSave = injectPokemonToGen3Save(currentSave, pk3, {
-          boxIndex: currentBox,
-          slotIndex: currentSlot,
-        });
-
-        // Move to next slot
-        currentSlot++;
-        if (currentSlot >= 30) {
-          currentSlot = 0;
-          currentBox++;
-          if (currentBox >= 14) {
-            throw new Error('Ran out of space in save file');
-          }
-        }
+      // Every placement is checked before anything is written; the batch commits once or not at all
+      const currentSave = commitInjectionTransaction(saveFile, placements, transactionOptions);
+
+      // Refuse the export unless the output reloads cleanly and only the expected bytes changed
+      const verification = verifyInjection(saveFile, currentSave, placements, { registerPokedex });
+      if (!verification.valid) {
+        throw new Error(`Injection verification failed; the save was not exported:\n${verification.errors.join('\n')}`);
       }
 
       // Download modified save
       try {
-        const blob = new Blob([currentSave], { type: 'application/octet-stream' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
         const downloadName = saveFileName.replace('.sav', '_modified.sav');
-        a.href = url;
-        a.download = downloadName;
-        a.style.display = 'none';
-        document.body.appendChild(a);
-        
-        // Trigger download
-        a.click();
-        
-        // Clean up after a short delay to ensure download starts
-        setTimeout(() => {
-          document.body.removeChild(a);
-          URL.revokeObjectURL(url);
-        }, DOWNLOAD_CLEANUP_DELAY_MS);
-
-        setStatus(`✅ Successfully injected ${selectedPokemon.length} Pokémon! Download started: "${downloadName}"`);
+        downloadBuffer(currentSave, downloadName);
+        backupSave(currentSave, downloadName, 'injected');
+
+        setStatus(`✅ Successfully injected and verified ${selectedPokemon.length} Pokémon! Download started: "${downloadName}"`);
         setError(null);
+        setPlan(null);
+        setCompatibility(null);
       } catch (downloadErr) {
         console.error('Download error:', downloadErr);
         throw new Error(`Failed to download modified save: ${downloadErr instanceof Error ? downloadErr.message : String(downloadErr)}`);
@@ -143,7 +212,12 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
     }
   };
 
+  // Fall back to the numbered label for blank names or before a save is loaded
+  const boxLabel = (box: number) => boxNames[box]?.trim() || `Box ${box + 1}`;
+
   const togglePokemonSelection = (pokemon: StoredPokemon) => {
+    setPlan(null);
+    setCompatibility(null);
     if (selectedPokemon.includes(pokemon)) {
       setSelectedPokemon(selectedPokemon.filter((p) => p !== pokemon));
     } else {
@@ -167,7 +241,10 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
         {saveFile && (
           <div className="save-info">
             <p>✓ Loaded: {saveFileName}</p>
+            {targetGame && <p>Game: {GEN3_GAME_GROUP_NAMES[targetGame]}</p>}
             <p>Empty slots: {emptySlots.length}</p>
+            <p>Party: {partyCount}/{PARTY_SIZE}</p>
+            <p>Daycare: {daycareNames.length > 0 ? daycareNames.join(', ') : 'empty'}</p>
           </div>
         )}
       </div>
@@ -202,32 +279,175 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
         <h3>3. Choose Injection Target</h3>
         <div className="target-controls">
           <label>
-            Box:
-            <select value={targetBox} onChange={(e) => setTargetBox(parseInt(e.target.value))}>
-              {Array.from({ length: 14 }, (_, i) => (
-                <option key={i} value={i}>
-                  Box {i + 1}
-                </option>
-              ))}
-            </select>
-          </label>
-          <label>
-            Starting Slot:
-            <select value={targetSlot} onChange={(e) => setTargetSlot(parseInt(e.target.value))}>
-              {Array.from({ length: 30 }, (_, i) => (
-                <option key={i} value={i}>
-                  Slot {i + 1}
-                </option>
-              ))}
+            Destination:
+            <select value={destination} onChange={(e) => handleDestinationChange(e.target.value as InjectionDestination)}>
+              <option value="box">PC Boxes</option>
+              <option value="party">Party</option>
+              <option value="daycare">Daycare</option>
             </select>
           </label>
+          {destination === 'daycare' && (
+            <label>
+              Starting Slot:
+              <select value={daycareSlot} onChange={(e) => setDaycareSlot(parseInt(e.target.value))}>
+                {Array.from({ length: Math.min(daycareNames.length + 1, DAYCARE_SLOT_COUNT) }, (_, i) => (
+                  <option key={i} value={i}>
+                    Slot {i + 1}{daycareNames[i] ? ` (replaces ${daycareNames[i]})` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          {destination === 'box' && (
+            <label>
+              Placement:
+              <select value={boxStrategy} onChange={(e) => setBoxStrategy(e.target.value as BoxPlacementStrategy)}>
+                <option value="sequential">From a starting slot</option>
+                <option value="first-empty">First empty slots</option>
+                <option value="same-box">Together in one box</option>
+                <option value="dex-order">National Dex order in a box range</option>
+              </select>
+            </label>
+          )}
+          {destination === 'box' && boxStrategy === 'sequential' && (
+            <>
+              <label>
+                Box:
+                <select value={targetBox} onChange={(e) => setTargetBox(parseInt(e.target.value))}>
+                  {Array.from({ length: 14 }, (_, i) => (
+                    <option key={i} value={i}>
+                      {boxLabel(i)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Starting Slot:
+                <select value={targetSlot} onChange={(e) => setTargetSlot(parseInt(e.target.value))}>
+                  {Array.from({ length: 30 }, (_, i) => (
+                    <option key={i} value={i}>
+                      Slot {i + 1}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          {destination === 'box' && boxStrategy === 'dex-order' && (
+            <>
+              <label>
+                From:
+                <select value={dexBoxRange[0]} onChange={(e) => setDexBoxRange([parseInt(e.target.value), dexBoxRange[1]])}>
+                  {Array.from({ length: 14 }, (_, i) => (
+                    <option key={i} value={i}>
+                      {boxLabel(i)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                To:
+                <select value={dexBoxRange[1]} onChange={(e) => setDexBoxRange([dexBoxRange[0], parseInt(e.target.value)])}>
+                  {Array.from({ length: 14 }, (_, i) => (
+                    <option key={i} value={i}>
+                      {boxLabel(i)}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
         </div>
         <p className="target-info">
-          Pokémon will be injected starting at Box {targetBox + 1}, Slot {targetSlot + 1}
+          {destination === 'party'
+            ? `Pokémon will be added to the party starting at Slot ${partyCount + 1}, with battle stats calculated from their level, IVs, EVs and nature`
+            : destination === 'daycare'
+              ? `Pokémon will be left at the Daycare starting at Slot ${daycareSlot + 1}. Import this save first to keep a copy of any Pokémon you allow to be replaced`
+              : boxStrategy === 'sequential'
+                ? `Pokémon will be injected starting at ${boxLabel(targetBox)}, Slot ${targetSlot + 1}`
+                : 'Pokémon will be placed in empty box slots; use "Preview placements" to see the layout'}
         </p>
+        {destination === 'box' && (
+          <div className="target-controls">
+            Reserved boxes:
+            {Array.from({ length: 14 }, (_, i) => (
+              <label key={i}>
+                <input
+                  type="checkbox"
+                  checked={reservedBoxes.includes(i)}
+                  onChange={(e) => setReservedBoxes(e.target.checked
+                    ? [...reservedBoxes, i]
+                    : reservedBoxes.filter(box => box !== i))}
+                />
+                {boxLabel(i)}
+              </label>
+            ))}
+          </div>
+        )}
+        <label>
+          <input
+            type="checkbox"
+            checked={registerPokedex}
+            onChange={(e) => setRegisterPokedex(e.target.checked)}
+          />
+          Mark injected species as seen and owned in the Pokédex
+        </label>
+        {destination !== 'party' && (
+          <label>
+            <input
+              type="checkbox"
+              checked={replaceOccupied}
+              onChange={(e) => setReplaceOccupied(e.target.checked)}
+            />
+            {destination === 'daycare'
+              ? 'Allow replacing Pokémon already left at the Daycare'
+              : 'Allow replacing Pokémon already in the target box slots'}
+          </label>
+        )}
       </div>
 
       <div className="export-section">
+        <button
+          onClick={handlePreview}
+          disabled={!saveFile || selectedPokemon.length === 0}
+        >
+          Preview placements
+        </button>
+        {plan && (
+          <div className="save-info">
+            <p>{plan.valid ? '✓ All placements are valid' : '✗ Nothing will be written until these problems are fixed'}</p>
+            <ul>
+              {plan.placements.map((placement) => (
+                <li key={placement.label}>
+                  {placement.label}: {placement.nickname} ({getSpeciesName(placement.nationalDex)})
+                  {placement.replaces && `, replacing ${placement.replaces}`}
+                  {placement.errors.length > 0 && ` ⚠️ ${placement.errors.join('; ')}`}
+                </li>
+              ))}
+            </ul>
+            {saveFile && destination === 'box' && (
+              <BoxPlacementGrid saveBuffer={saveFile} placements={plan.placements} boxNames={boxNames} />
+            )}
+          </div>
+        )}
+        {compatibility && (
+          <div className="save-info">
+            {compatibility.pokemon.length === 0 ? (
+              <p>✓ No compatibility problems with {GEN3_GAME_GROUP_NAMES[compatibility.game]}</p>
+            ) : (
+              <>
+                <p>Compatibility with {GEN3_GAME_GROUP_NAMES[compatibility.game]}:</p>
+                <ul>
+                  {compatibility.pokemon.flatMap((entry) => entry.findings.map((finding) => (
+                    <li key={`${entry.index}-${finding.issue}`}>
+                      {finding.severity === 'error' ? '✗' : '⚠️'} {entry.nickname}: {finding.message}
+                    </li>
+                  )))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
         <button
           onClick={handleInject}
           disabled={!saveFile || selectedPokemon.length === 0}
@@ -267,8 +487,9 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
         <h4>⚠️ Important Notes:</h4>
         <ul>
           <li>Always keep backups of your original save files</li>
-          <li>Injected Pokémon will overwrite existing data at the target slots</li>
+          <li>Occupied box and Daycare slots are refused unless replacing them is allowed; no Pokémon are written if any placement fails</li>
           <li>Checksums are automatically recalculated to maintain save integrity</li>
+          <li>Changes are written to the inactive save slot, leaving your previous save intact as the game's fallback</li>
           <li>Test the modified save in your game before discarding the original</li>
           <li>Only Gen 3 saves are currently supported for injection</li>
         </ul>
@@ -276,3 +497,23 @@ export function ExportSave({ vaultPokemon }: ExportSaveProps) {
     </div>
   );
 }
+
+/**
+ * Keep a copy of a save in the save history; failures are logged rather than
+ * blocking the injection
+ */
+function backupSave(buffer: ArrayBuffer, fileName: string, kind: 'original' | 'injected'): void {
+  Promise.resolve()
+    .then(() => loadGen3Save(buffer))
+    .then(async ({ game, trainer }) => addSaveBackup({
+      sha256: await sha256Hex(buffer),
+      fileName,
+      kind,
+      game: GEN3_GAME_GROUP_NAMES[game],
+      trainerName: trainer.name,
+      trainerId: trainer.trainerId,
+      data: buffer.slice(0),
+      createdAt: Date.now(),
+    }))
+    .catch(err => console.error('Failed to back up save:', err));
+}
@@ -0,0 +1,89 @@
+/**
+ * Read-only Hall of Fame view
+ * Shows the champion teams recorded in a Gen 3 save and archives them in the vault
+ */
+import { useState, useEffect } from 'react';
+import type { Gen3Save } from '../lib/gen3/save/gen3Save';
+import { parseHallOfFame, type Gen3HallOfFameTeam } from '../lib/gen3/save/hallOfFame';
+import { GEN3_GAME_GROUP_NAMES } from '../lib/gen3/save/constants';
+import { getSpeciesName, gen3InternalToNational } from '../lib/species/speciesTranscode';
+import { addHallOfFameTeams, getAllHallOfFameTeams, type StoredHallOfFameTeam } from '../lib/db/vaultDb';
+
+interface HallOfFameViewProps {
+  save: Gen3Save;
+  onError: (error: unknown) => void;
+}
+
+export function HallOfFameView({ save, onError }: HallOfFameViewProps) {
+  const hallOfFame = parseHallOfFame(save.buffer);
+  const [archived, setArchived] = useState<StoredHallOfFameTeam[]>([]);
+  const [message, setMessage] = useState<string>('');
+
+  useEffect(() => {
+    getAllHallOfFameTeams().then(setArchived).catch(console.error);
+  }, []);
+
+  // A team is already archived if the same trainer's entry holds the same Pokémon
+  const isArchived = (team: Gen3HallOfFameTeam) => archived.some(stored =>
+    stored.sourceTrainerId === save.trainer.trainerId
+    && stored.sourceTrainerName === save.trainer.name
+    && stored.pokemon.map(p => p.personality).join() === team.pokemon.map(p => p.personality).join()
+  );
+
+  const handleArchive = async () => {
+    const teams = hallOfFame.teams.filter(team => !isArchived(team));
+
+    try {
+      await addHallOfFameTeams(teams.map(team => ({
+        entry: team.entry,
+        pokemon: team.pokemon,
+        sourceGame: GEN3_GAME_GROUP_NAMES[save.game],
+        sourceTrainerName: save.trainer.name,
+        sourceTrainerId: save.trainer.trainerId,
+        importedAt: Date.now(),
+      })));
+      setArchived(await getAllHallOfFameTeams());
+      setMessage(`Archived ${teams.length} Hall of Fame team(s)`);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const unarchivedCount = hallOfFame.teams.filter(team => !isArchived(team)).length;
+
+  return (
+    <div className="export-section">
+      <h3>Hall of Fame</h3>
+
+      {hallOfFame.teams.length === 0 ? (
+        <p>No Hall of Fame records in this save.</p>
+      ) : (
+        <>
+          {!hallOfFame.valid && (
+            <p className="error-message">⚠️ Hall of Fame checksum mismatch: the game will not show these records.</p>
+          )}
+          {hallOfFame.teams.map((team) => (
+            <div key={team.entry} className="save-info">
+              <h4>Entry #{team.entry}</h4>
+              <ul>
+                {team.pokemon.map((mon, i) => (
+                  <li key={i}>
+                    {mon.nickname} ({getSpeciesName(gen3InternalToNational(mon.species))}) Lv. {mon.level}
+                    {' '}• OT ID {mon.trainerId.toString().padStart(5, '0')}
+                    {' '}• PID {mon.personality.toString(16).toUpperCase().padStart(8, '0')}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+          <button onClick={handleArchive} disabled={unarchivedCount === 0}>
+            {unarchivedCount > 0 ? `Archive ${unarchivedCount} team(s) in vault` : 'All teams archived'}
+          </button>
+        </>
+      )}
+
+      {message && <p className="status-message success">{message}</p>}
+      <p>Archived teams in vault: {archived.length}</p>
+    </div>
+  );
+}
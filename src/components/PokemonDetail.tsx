@@ -1,7 +1,13 @@
-import { StoredPokemon, deletePokemon, deserializePk3FromStorage } from '../lib/db/vaultDb';
+import { useState } from 'react';
+import { StoredPokemon, deletePokemon } from '../lib/db/vaultDb';
+import { deserializePk3FromStorage } from '../lib/db/vaultRows';
 import { getSpeciesName } from '../lib/species/speciesTranscode';
 import { decryptAndUnshufflePk3, verifyPk3Checksum } from '../lib/gen3/pk3/pk3';
 import { parseGrowth, parseAttacks, parseEVs, parseMisc, extractIVs } from '../lib/gen3/pk3/substruct';
+import { writePk3File, getPk3FileName, type Pk3FileFormat } from '../lib/gen3/pk3/pk3File';
+import { convertPk3ToPk4 } from '../lib/gen4/pk4/palPark';
+import { convertPk3ToGen12, writeGen12File, type Gen12Generation } from '../lib/conversion/gen12Downgrade';
+import { downloadBuffer } from '../lib/utils/download';
 
 interface PokemonDetailProps {
   pokemon: StoredPokemon;
@@ -10,6 +16,8 @@ interface PokemonDetailProps {
 }
 
 export default function PokemonDetail({ pokemon, onClose, onDelete }: PokemonDetailProps) {
+  const [partyFormat, setPartyFormat] = useState(false);
+
   const handleDelete = async () => {
     if (!confirm(`Are you sure you want to delete ${pokemon.nickname} from the vault?`)) {
       return;
@@ -26,6 +34,40 @@ export default function PokemonDetail({ pokemon, onClose, onDelete }: PokemonDet
     }
   };
 
+  const handleExport = (format: Pk3FileFormat) => {
+    try {
+      const pk3 = deserializePk3FromStorage(pokemon.pk3Data);
+      downloadBuffer(writePk3File(pk3, format, { party: partyFormat }), getPk3FileName(pk3, format));
+    } catch (err) {
+      console.error('Failed to export:', err);
+      alert(`Failed to export Pokémon: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleExportPk4 = () => {
+    try {
+      const pk3 = deserializePk3FromStorage(pokemon.pk3Data);
+      downloadBuffer(convertPk3ToPk4(pk3), getPk3FileName(pk3, 'pk3').replace(/\.pk3$/, '.pk4'));
+    } catch (err) {
+      console.error('Failed to export to Gen 4:', err);
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExportGen12 = (generation: Gen12Generation) => {
+    try {
+      const pk3 = deserializePk3FromStorage(pokemon.pk3Data);
+      const converted = convertPk3ToGen12(pk3, generation);
+      if (converted.changes.length > 0 && !confirm(`Some details change in Gen ${generation}:\n${converted.changes.join('\n')}\n\nDownload anyway?`)) {
+        return;
+      }
+      downloadBuffer(writeGen12File(converted), getPk3FileName(pk3, 'pk3').replace(/\.pk3$/, `.pk${generation}`));
+    } catch (err) {
+      console.error(`Failed to export to Gen ${generation}:`, err);
+      alert(err instanceof Error ? err.message : String(err));
+    }
+  };
+
   // Parse detailed data
   let details = null;
   try {
@@ -94,6 +136,13 @@ export default function PokemonDetail({ pokemon, onClose, onDelete }: PokemonDet
         <DetailRow label="TID" value={pokemon.tid.toString()} />
         <DetailRow label="SID" value={pokemon.sid.toString()} />
         <DetailRow label="PID" value={`0x${pokemon.personality.toString(16).toUpperCase().padStart(8, '0')}`} />
+        {pokemon.sourceGame && <DetailRow label="Source Game" value={pokemon.sourceGame} />}
+        {pokemon.sourceTrainerName !== undefined && (
+          <DetailRow
+            label="Source Save"
+            value={`${pokemon.sourceTrainerName} (TID ${(pokemon.sourceTrainerId ?? 0).toString().padStart(5, '0')})`}
+          />
+        )}
 
         {details && (
           <>
@@ -144,6 +193,34 @@ export default function PokemonDetail({ pokemon, onClose, onDelete }: PokemonDet
         />
       </div>
 
+      {details && (
+        <div style={{ marginTop: '20px' }}>
+          <div style={{ display: 'flex', gap: '8px' }}>
+            <button onClick={() => handleExport('pk3')} style={{ flex: 1 }}>
+              Download .pk3
+            </button>
+            <button onClick={() => handleExport('ek3')} style={{ flex: 1 }}>
+              Download .ek3
+            </button>
+          </div>
+          <label style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '8px', color: '#4a5568', fontSize: '14px' }}>
+            <input type="checkbox" checked={partyFormat} onChange={(e) => setPartyFormat(e.target.checked)} />
+            Party format (100 bytes, with battle stats)
+          </label>
+          <button onClick={handleExportPk4} style={{ width: '100%', marginTop: '8px' }}>
+            Migrate to Gen 4 (.pk4, Pal Park rules)
+          </button>
+          <div style={{ display: 'flex', gap: '8px', marginTop: '8px' }}>
+            <button onClick={() => handleExportGen12(2)} style={{ flex: 1 }}>
+              Move back to Gen 2 (.pk2)
+            </button>
+            <button onClick={() => handleExportGen12(1)} style={{ flex: 1 }}>
+              Move back to Gen 1 (.pk1)
+            </button>
+          </div>
+        </div>
+      )}
+
       <button
         className="btn-danger"
         onClick={handleDelete}
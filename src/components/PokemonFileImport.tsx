@@ -0,0 +1,120 @@
+/**
+ * Single-Pokémon file import
+ * Drag-and-drop or pick .pk3/.ek3 files (80-byte box or 100-byte party) into the vault
+ */
+import { useState } from 'react';
+import { addMultiplePokemon, addQuarantinedPokemon, StoredPokemon, StoredQuarantinedPokemon } from '../lib/db/vaultDb';
+import { createFileVaultRow } from '../lib/db/pk3FileRows';
+
+interface PokemonFileImportProps {
+  onImportComplete: () => void;
+}
+
+export default function PokemonFileImport({ onImportComplete }: PokemonFileImportProps) {
+  const [loading, setLoading] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const importFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+
+    setLoading(true);
+    setErrors([]);
+    setSuccess(null);
+
+    const toStore: StoredPokemon[] = [];
+    const quarantined: StoredQuarantinedPokemon[] = [];
+    const failed: string[] = [];
+
+    for (const file of files) {
+      try {
+        const row = createFileVaultRow(await file.arrayBuffer(), file.name);
+        if ('diagnosis' in row) {
+          quarantined.push(row);
+        } else {
+          toStore.push(row);
+        }
+      } catch (err) {
+        failed.push(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+
+    try {
+      if (toStore.length > 0 || quarantined.length > 0) {
+        await addMultiplePokemon(toStore);
+        await addQuarantinedPokemon(quarantined);
+        setSuccess(`Imported ${toStore.length} Pokémon from ${toStore.length === 1 ? 'file' : 'files'}.`
+          + (quarantined.length > 0 ? ` ${quarantined.length} Bad Egg${quarantined.length === 1 ? ' was' : 's were'} moved to quarantine.` : ''));
+        onImportComplete();
+      }
+    } catch (err) {
+      failed.push(err instanceof Error ? err.message : String(err));
+    }
+
+    setErrors(failed);
+    setLoading(false);
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setDragging(false);
+    void importFiles(Array.from(event.dataTransfer.files));
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    void importFiles(Array.from(event.target.files ?? []));
+    event.target.value = '';
+  };
+
+  return (
+    <div className="card">
+      <h2 style={{ marginBottom: '16px', fontSize: '24px', fontWeight: 'bold' }}>
+        Import Pokémon Files
+      </h2>
+      <p style={{ color: '#666', marginBottom: '20px' }}>
+        Add single Pokémon from .pk3 (decrypted) or .ek3 (encrypted) files, including 100-byte party files.
+        The format is detected from the file's checksum.
+      </p>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={handleDrop}
+        style={{
+          border: `2px dashed ${dragging ? '#667eea' : '#cbd5e0'}`,
+          background: dragging ? '#ebf4ff' : 'transparent',
+          borderRadius: '8px',
+          padding: '24px',
+          textAlign: 'center',
+          marginBottom: '16px',
+          color: '#4a5568',
+        }}
+      >
+        <p style={{ marginBottom: '12px' }}>Drop .pk3 or .ek3 files here, or</p>
+        <input
+          type="file"
+          accept=".pk3,.ek3"
+          multiple
+          onChange={handleFileSelect}
+          disabled={loading}
+        />
+      </div>
+
+      {loading && <p style={{ color: '#666' }}>Importing...</p>}
+
+      {errors.length > 0 && (
+        <div className="error">
+          <strong>Some files could not be imported:</strong>
+          <pre style={{ marginTop: '8px', whiteSpace: 'pre-wrap', fontSize: '14px' }}>{errors.join('\n')}</pre>
+        </div>
+      )}
+
+      {success && (
+        <div className="success">
+          <strong>Success!</strong> {success}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * Bad Egg quarantine
+ * Lists the Pokémon kept out of the vault because the game would show them as
+ * Bad Eggs, with what is wrong and a repair for the recoverable ones
+ */
+import { useState, useEffect } from 'react';
+import {
+  getAllQuarantinedPokemon,
+  deleteQuarantinedPokemon,
+  releaseFromQuarantine,
+  type StoredQuarantinedPokemon,
+} from '../lib/db/vaultDb';
+import { serializePk3ForStorage, deserializePk3FromStorage } from '../lib/db/vaultRows';
+import { recoverBadEgg, type BadEggCause } from '../lib/gen3/pk3/badEgg';
+import { decryptAndUnshufflePk3 } from '../lib/gen3/pk3/pk3';
+import { parseGrowth, calculateLevel } from '../lib/gen3/pk3/substruct';
+
+const CAUSE_LABELS: Record<BadEggCause, string> = {
+  'checksum-mismatch': 'Checksum mismatch',
+  'bad-egg-flag': 'Bad Egg flag set',
+  'species-out-of-range': 'Species out of range',
+  'shuffle-mismatch': 'Shuffled for a different PID',
+};
+
+interface QuarantineViewProps {
+  onRecovered: () => void;
+}
+
+export default function QuarantineView({ onRecovered }: QuarantineViewProps) {
+  const [entries, setEntries] = useState<StoredQuarantinedPokemon[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllQuarantinedPokemon().then(setEntries).catch(console.error);
+  }, []);
+
+  const handleRecover = async (entry: StoredQuarantinedPokemon) => {
+    try {
+      const pk3 = recoverBadEgg(deserializePk3FromStorage(entry.pk3Data));
+      const growth = parseGrowth(decryptAndUnshufflePk3(pk3).growth);
+      const { id, diagnosis: _diagnosis, foundAt: _foundAt, ...stored } = entry;
+
+      await releaseFromQuarantine(id!, {
+        ...stored,
+        pk3Data: serializePk3ForStorage(pk3),
+        species: growth.species,
+        level: calculateLevel(growth.experience, growth.species),
+        isValid: true,
+      });
+      setEntries(await getAllQuarantinedPokemon());
+      setError(null);
+      onRecovered();
+    } catch (err) {
+      console.error('Failed to recover:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleDelete = async (entry: StoredQuarantinedPokemon) => {
+    if (!confirm(`Delete this Bad Egg (${entry.foundAt}) from quarantine?`)) {
+      return;
+    }
+
+    try {
+      await deleteQuarantinedPokemon(entry.id!);
+      setEntries(await getAllQuarantinedPokemon());
+    } catch (err) {
+      console.error('Failed to delete:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="card">
+      <h2 style={{ marginBottom: '16px', fontSize: '24px', fontWeight: 'bold' }}>
+        Quarantine ({entries.length})
+      </h2>
+      <p style={{ color: '#666', marginBottom: '20px' }}>
+        These Pokémon would appear as Bad Eggs in game, so they are kept out of the vault.
+        Recoverable ones can be repaired and moved into the vault.
+      </p>
+
+      {error && (
+        <div className="error" style={{ marginBottom: '12px' }}>
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gap: '12px' }}>
+        {entries.map((entry) => (
+          <div key={entry.id} style={{ padding: '12px 16px', background: '#fffaf0', borderRadius: '8px', color: '#4a5568' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '4px' }}>
+              <strong>{entry.nickname || 'Bad Egg'}</strong>
+              <span style={{ fontSize: '14px' }}>
+                {entry.sourceGame} • {entry.foundAt}
+              </span>
+            </div>
+            <div style={{ fontSize: '14px', marginBottom: '4px' }}>
+              {entry.diagnosis.causes.map(cause => CAUSE_LABELS[cause]).join(', ')}
+              {' — '}
+              {entry.diagnosis.recoverable ? 'recoverable' : 'not recoverable'}
+            </div>
+            <ul style={{ paddingLeft: '20px', fontSize: '14px', marginBottom: '8px' }}>
+              {entry.diagnosis.details.map((detail, i) => (
+                <li key={i}>{detail}</li>
+              ))}
+            </ul>
+            <div style={{ display: 'flex', gap: '8px' }}>
+              {entry.diagnosis.recoverable && (
+                <button onClick={() => handleRecover(entry)}>Repair and move to vault</button>
+              )}
+              <button className="btn-danger" onClick={() => handleDelete(entry)}>Delete</button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,178 @@
+/**
+ * Save diff view for the save editor
+ * Compares the loaded save with another file, or with its pending edits;
+ * the report itself is shared with the save history
+ */
+import { useState } from 'react';
+import { loadGen3Save, loadGen3SaveSlot, type Gen3Save } from '../lib/gen3/save/gen3Save';
+import { hasPendingChanges } from '../lib/gen3/save/commit';
+import { diffGen3Saves, type Gen3SaveDiff, type Gen3PokemonChange } from '../lib/gen3/save/diff';
+import { decryptAndUnshufflePk3, type Pk3Data } from '../lib/gen3/pk3/pk3';
+import { parseGrowth } from '../lib/gen3/pk3/substruct';
+import { getSpeciesName, gen3InternalToNational, decodeGen3String } from '../lib/species/speciesTranscode';
+
+interface SaveDiffViewProps {
+  save: Gen3Save;
+  onError: (error: unknown) => void;
+}
+
+export function SaveDiffView({ save, onError }: SaveDiffViewProps) {
+  const [diff, setDiff] = useState<Gen3SaveDiff | null>(null);
+  const [label, setLabel] = useState<string>('');
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setDiff(diffGen3Saves(save, loadGen3Save(await file.arrayBuffer())));
+      setLabel(`Loaded save → ${file.name}`);
+    } catch (err) {
+      onError(err);
+      setDiff(null);
+    }
+  };
+
+  const handleShowPending = () => {
+    try {
+      setDiff(diffGen3Saves(loadGen3SaveSlot(save.buffer, save.activeSlot), save));
+      setLabel('Loaded save → pending edits');
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <div className="export-section">
+      <h3>Compare Saves</h3>
+      <p>Compare with another version of this save, such as the file written after an injection or a play session.</p>
+      <input type="file" accept=".sav" onChange={handleFileSelect} className="file-input" />
+      <button onClick={handleShowPending} disabled={!hasPendingChanges(save)}>Show pending edits</button>
+
+      {diff && <SaveDiffReport diff={diff} label={label} />}
+    </div>
+  );
+}
+
+interface SaveDiffReportProps {
+  diff: Gen3SaveDiff;
+  label: string;
+}
+
+/**
+ * Render a save diff, grouped by what changed
+ */
+export function SaveDiffReport({ diff, label }: SaveDiffReportProps) {
+  return (
+    <div className="save-info">
+      <h4>{label}</h4>
+      {diff.identical ? (
+        <p>The saves are identical.</p>
+      ) : (
+        <>
+          <p>
+            Changed sections:{' '}
+            {diff.sections.map(s =>
+              `${s.id} (${s.changedBytes} bytes, checksum 0x${hex(s.checksumBefore, 4)} → 0x${hex(s.checksumAfter, 4)})`
+            ).join(', ')}
+          </p>
+  
+          {diff.pokemon.length > 0 && (
+            <>
+              <h4>Pokémon</h4>
+              <ul>
+                {diff.pokemon.map((change) => (
+                  <li key={`${change.location}-${change.box ?? ''}-${change.slot}`}>{describePokemonChange(change)}</li>
+                ))}
+              </ul>
+            </>
+          )}
+  
+          {diff.trainer.length > 0 && (
+            <>
+              <h4>Trainer</h4>
+              <ul>
+                {diff.trainer.map((change) => (
+                  <li key={change.field}>{change.field}: {String(change.before)} → {String(change.after)}</li>
+                ))}
+              </ul>
+            </>
+          )}
+  
+          {diff.items.length > 0 && (
+            <>
+              <h4>Items</h4>
+              <ul>
+                {diff.items.map((change) => (
+                  <li key={`${change.pocket}-${change.itemId}`}>
+                    {change.pocket}: item #{change.itemId} ×{change.before} → ×{change.after}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+  
+          {diff.pokedex.length > 0 && (
+            <>
+              <h4>Pokédex</h4>
+              <ul>
+                {diff.pokedex.map((change) => (
+                  <li key={`${change.field}-${change.nationalDex}`}>
+                    #{change.nationalDex} {getSpeciesName(change.nationalDex)}: {change.after ? '' : 'no longer '}{change.field}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+  
+          {(diff.flags.length > 0 || diff.vars.length > 0) && (
+            <>
+              <h4>Flags and Variables</h4>
+              <ul>
+                {diff.flags.map((change) => (
+                  <li key={`flag-${change.flag}`}>
+                    Flag 0x{hex(change.flag, 3)}{change.name && ` (${change.name})`}: {change.after ? 'set' : 'cleared'}
+                  </li>
+                ))}
+                {diff.vars.map((change) => (
+                  <li key={`var-${change.id}`}>Variable 0x{hex(change.id, 4)}: {change.before} → {change.after}</li>
+                ))}
+              </ul>
+            </>
+          )}
+  
+          {diff.unexplained.length > 0 && (
+            <>
+              <h4>Other Changed Bytes</h4>
+              <ul>
+                {diff.unexplained.map((range) => (
+                  <li key={`${range.sectionId}-${range.start}`}>
+                    Section {range.sectionId}: 0x{hex(range.start, 3)}-0x{hex(range.end - 1, 3)} ({range.end - range.start} bytes)
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function describePokemonChange(change: Gen3PokemonChange): string {
+  const where = change.location === 'box' ? `Box ${change.box! + 1} slot ${change.slot + 1}`
+    : `${change.location === 'party' ? 'Party' : 'Daycare'} slot ${change.slot + 1}`;
+
+  if (change.change === 'added') return `${where}: added ${describePk3(change.after!)}`;
+  if (change.change === 'removed') return `${where}: removed ${describePk3(change.before!)}`;
+  return `${where}: ${describePk3(change.after!)} changed (${change.fields.join(', ')})`;
+}
+
+function describePk3(pk3: Pk3Data): string {
+  const species = parseGrowth(decryptAndUnshufflePk3(pk3).growth).species;
+  return `${decodeGen3String(pk3.nickname)} (${getSpeciesName(gen3InternalToNational(species))})`;
+}
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
@@ -0,0 +1,128 @@
+/**
+ * Save editor for Gen 3 saves
+ * Loads a save, lets panels edit it in memory and commits the result on download
+ */
+import { useState } from 'react';
+import { loadGen3Save, exportGen3Save, type Gen3Save } from '../lib/gen3/save/gen3Save';
+import { hasPendingChanges } from '../lib/gen3/save/commit';
+import { isPreviousGen3Save } from '../lib/gen3/save/slots';
+import { GEN3_GAME_GROUP_NAMES } from '../lib/gen3/save/constants';
+import { makeErrorUserFriendly, formatErrorForDisplay } from '../lib/utils/errorMessages';
+import { downloadBuffer } from '../lib/utils/download';
+import { BoxStoragePanel } from './BoxStoragePanel';
+import { EventFlagsPanel } from './EventFlagsPanel';
+import { HallOfFameView } from './HallOfFameView';
+import { SaveSlotBrowser } from './SaveSlotBrowser';
+import { SaveDiffView } from './SaveDiffView';
+
+export function SaveEditor() {
+  const [save, setSave] = useState<Gen3Save | null>(null);
+  const [saveFileName, setSaveFileName] = useState<string>('');
+  const [status, setStatus] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      setSave(loadGen3Save(await file.arrayBuffer()));
+      setSaveFileName(file.name);
+      setStatus(`Loaded ${file.name}`);
+      setError(null);
+    } catch (err) {
+      showError(err);
+      setSave(null);
+    }
+  };
+
+  const handleChange = (edited: Gen3Save) => {
+    setSave(edited);
+    setError(null);
+  };
+
+  const handleOpen = (opened: Gen3Save, message: string) => {
+    setSave(opened);
+    setStatus(message);
+    setError(null);
+  };
+
+  const handleDownload = () => {
+    if (!save) return;
+    if (isPreviousGen3Save(save) && !window.confirm(
+      `You are editing the previous save in slot ${save.activeSlot}. Saving makes these edits the save the game loads, replacing the current save. Continue?`
+    )) {
+      setStatus('Download cancelled; nothing was written.');
+      return;
+    }
+
+    try {
+      const downloadName = saveFileName.replace('.sav', '_edited.sav');
+      downloadBuffer(exportGen3Save(save), downloadName);
+      setStatus(`✅ Changes saved. Download started: "${downloadName}"`);
+      setError(null);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const showError = (err: unknown) => {
+    console.error('Save editor error:', err);
+    const error = err instanceof Error ? err : new Error('Unknown error occurred');
+    setError(formatErrorForDisplay(makeErrorUserFriendly(error), true));
+    setStatus('');
+  };
+
+  return (
+    <div className="export-save">
+      <h2>Save Editor</h2>
+
+      <div className="export-section">
+        <h3>Load Gen 3 Save File</h3>
+        <input type="file" accept=".sav" onChange={handleFileSelect} className="file-input" />
+        {save && (
+          <div className="save-info">
+            <p>✓ Loaded: {saveFileName}</p>
+            <p>Game: {GEN3_GAME_GROUP_NAMES[save.game]}</p>
+            <p>Save slot: {save.activeSlot}</p>
+            {isPreviousGen3Save(save) && <p>⚠️ Editing the previous save; saving will replace the current save</p>}
+            <p>Trainer: {save.trainer.name} (ID {save.trainer.trainerId.toString().padStart(5, '0')})</p>
+          </div>
+        )}
+      </div>
+
+      {save && <SaveSlotBrowser save={save} fileName={saveFileName} onOpen={handleOpen} onError={showError} />}
+
+      {save && <BoxStoragePanel save={save} onChange={handleChange} onError={showError} />}
+
+      {save && <EventFlagsPanel save={save} onChange={handleChange} onError={showError} />}
+
+      {save && <HallOfFameView save={save} onError={showError} />}
+
+      {save && <SaveDiffView save={save} onError={showError} />}
+
+      {save && (
+        <div className="export-section">
+          <button onClick={handleDownload} disabled={!hasPendingChanges(save)} className="inject-button">
+            Save & Download
+          </button>
+          <p className="button-hint">
+            Changes are written to the inactive save slot; the current save is kept as the game's backup.
+          </p>
+        </div>
+      )}
+
+      {status && (
+        <div className="status-message success">
+          {status}
+        </div>
+      )}
+
+      {error && (
+        <div className="error-message">
+          ⚠️ {error}
+        </div>
+      )}
+    </div>
+  );
+}
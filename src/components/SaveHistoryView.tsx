@@ -0,0 +1,124 @@
+/**
+ * Save history
+ * Lists the backups taken of every save loaded for injection and every
+ * injected output, to re-download any version or compare two of them
+ */
+import { useState, useEffect } from 'react';
+import { loadGen3Save } from '../lib/gen3/save/gen3Save';
+import { diffGen3Saves, type Gen3SaveDiff } from '../lib/gen3/save/diff';
+import { getAllSaveBackups, deleteSaveBackup, type StoredSaveBackup } from '../lib/db/vaultDb';
+import { downloadBuffer } from '../lib/utils/download';
+import { makeErrorUserFriendly, formatErrorForDisplay } from '../lib/utils/errorMessages';
+import { SaveDiffReport } from './SaveDiffView';
+
+export function SaveHistoryView() {
+  const [backups, setBackups] = useState<StoredSaveBackup[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<{ result: Gen3SaveDiff; label: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAllSaveBackups().then(setBackups).catch(console.error);
+  }, []);
+
+  const showError = (err: unknown) => {
+    console.error('Save history error:', err);
+    const error = err instanceof Error ? err : new Error('Unknown error occurred');
+    setError(formatErrorForDisplay(makeErrorUserFriendly(error), true));
+  };
+
+  // Keep the two most recently ticked backups selected
+  const toggleSelected = (id: number) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+    setDiff(null);
+  };
+
+  const handleCompare = () => {
+    // Compare in chronological order
+    const [older, newer] = backups
+      .filter(backup => selected.includes(backup.id!))
+      .sort((a, b) => a.createdAt - b.createdAt);
+    if (!older || !newer) return;
+
+    try {
+      setDiff({
+        result: diffGen3Saves(loadGen3Save(older.data), loadGen3Save(newer.data)),
+        label: `${older.fileName} (${formatDate(older.createdAt)}) → ${newer.fileName} (${formatDate(newer.createdAt)})`,
+      });
+      setError(null);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    try {
+      await deleteSaveBackup(id);
+      setBackups(await getAllSaveBackups());
+      setSelected(prev => prev.filter(x => x !== id));
+      setDiff(null);
+    } catch (err) {
+      showError(err);
+    }
+  };
+
+  return (
+    <div className="export-save">
+      <h2>Save History</h2>
+
+      <div className="export-section">
+        <p>
+          A copy of every save loaded for injection and every injected save is kept in your browser.
+          Tick two versions to compare them.
+        </p>
+
+        {backups.length === 0 ? (
+          <p>No saves stored yet.</p>
+        ) : (
+          <ul style={{ listStyle: 'none', padding: 0 }}>
+            {backups.map((backup) => (
+              <li key={backup.id} className="save-info">
+                <label style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                  <input
+                    type="checkbox"
+                    checked={selected.includes(backup.id!)}
+                    onChange={() => toggleSelected(backup.id!)}
+                  />
+                  <strong>{backup.fileName}</strong>
+                  {backup.kind === 'injected' ? ' (injected)' : ' (original)'}
+                </label>
+                <p>
+                  {backup.game} • {backup.trainerName} (ID {backup.trainerId.toString().padStart(5, '0')})
+                  {' '}• {formatDate(backup.createdAt)}
+                </p>
+                <p style={{ fontFamily: 'monospace', fontSize: '12px' }}>SHA-256 {backup.sha256}</p>
+                <button onClick={() => downloadBuffer(backup.data, backup.fileName)}>Download</button>
+                <button onClick={() => handleDelete(backup.id!)}>Delete</button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button onClick={handleCompare} disabled={selected.length !== 2} className="inject-button">
+          Compare selected
+        </button>
+      </div>
+
+      {diff && (
+        <div className="export-section">
+          <SaveDiffReport diff={diff.result} label={diff.label} />
+        </div>
+      )}
+
+      {error && (
+        <div className="error-message">
+          ⚠️ {error}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString();
+}
@@ -1,6 +1,11 @@
 import { useState } from 'react';
-import { loadGen3Save, extractPokemonFromSave, canSafelyModifySave } from '../lib/gen3/save/gen3Save';
-import { addMultiplePokemon, serializePk3ForStorage, StoredPokemon } from '../lib/db/vaultDb';
+import { loadGen3Save, extractPokemonFromSave, canSafelyModifySave, type Gen3Save, type ExtractedPokemon } from '../lib/gen3/save/gen3Save';
+import { recoverGen3Save, type Gen3DamageReport } from '../lib/gen3/save/recovery';
+import { loadPreviousGen3Save } from '../lib/gen3/save/slots';
+import { formatPlayTime, Gen3TrainerInfo } from '../lib/gen3/save/trainer';
+import { GEN3_GAME_GROUP_NAMES } from '../lib/gen3/save/constants';
+import { addMultiplePokemon, addQuarantinedPokemon, StoredPokemon, StoredQuarantinedPokemon } from '../lib/db/vaultDb';
+import { serializePk3ForStorage } from '../lib/db/vaultRows';
 import { decryptAndUnshufflePk3 } from '../lib/gen3/pk3/pk3';
 import { parseGrowth, calculateLevel, extractTrainerIds } from '../lib/gen3/pk3/substruct';
 import { decodeGen3String } from '../lib/species/speciesTranscode';
@@ -21,6 +26,12 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
+  const [includeParty, setIncludeParty] = useState(true);
+  const [includeDaycare, setIncludeDaycare] = useState(true);
+  const [recoveryMode, setRecoveryMode] = useState(false);
+  const [usePreviousSave, setUsePreviousSave] = useState(false);
+  const [damageReport, setDamageReport] = useState<Gen3DamageReport | null>(null);
+  const [importedTrainer, setImportedTrainer] = useState<{ info: Gen3TrainerInfo; game: string } | null>(null);
 
   const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -29,6 +40,8 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
     setLoading(true);
     setError(null);
     setSuccess(null);
+    setImportedTrainer(null);
+    setDamageReport(null);
 
     try {
       // Read file as ArrayBuffer
@@ -43,24 +56,31 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
       }
 
       let toStore: StoredPokemon[] = [];
+      let quarantined: StoredQuarantinedPokemon[] = [];
 
       if (generation === 1 || generation === 2) {
         // Gen 1/2 save
         toStore = await importGen12Save(normalized, generation);
       } else {
         // Gen 3 save
-        toStore = await importGen3Save(normalized);
+        ({ toStore, quarantined } = await importGen3Save(normalized));
       }
 
-      if (toStore.length === 0) {
-        setSuccess(`Save file loaded successfully${statusMsg}, but no Pokémon found in PC boxes.`);
+      if (toStore.length === 0 && quarantined.length === 0) {
+        setSuccess(`Save file loaded successfully${statusMsg}, but no Pokémon found in the party or PC boxes.`);
         return;
       }
 
-      // Store in vault
+      // Store in vault, keeping Bad Eggs out of the main list
       await addMultiplePokemon(toStore);
+      if (quarantined.length > 0) {
+        await addQuarantinedPokemon(quarantined);
+        statusMsg += `\n${quarantined.length} Bad Egg${quarantined.length === 1 ? ' was' : 's were'} moved to quarantine; see the Vault tab for details.`;
+      }
 
-      setSuccess(`Successfully imported ${toStore.length} Pokémon from ${file.name}!${statusMsg}`);
+      setSuccess(toStore.length === 0
+        ? `No Pokémon were imported from ${file.name}; every Pokémon found was quarantined.${statusMsg}`
+        : `Successfully imported ${toStore.length} Pokémon from ${file.name}!${statusMsg}`);
       onImportComplete();
 
       // Reset file input
@@ -76,21 +96,44 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
     }
   };
 
-  async function importGen3Save(buffer: ArrayBuffer): Promise<StoredPokemon[]> {
-    // Load and validate save
-    const save = loadGen3Save(buffer);
+  async function importGen3Save(buffer: ArrayBuffer): Promise<{ toStore: StoredPokemon[]; quarantined: StoredQuarantinedPokemon[] }> {
+    let save: Gen3Save;
+    let allPokemon: ExtractedPokemon[];
+
+    if (recoveryMode) {
+      // Salvage what still verifies from both slots; checksum failures go to quarantine below
+      const recovery = recoverGen3Save(buffer);
+      save = recovery.save;
+      allPokemon = [...recovery.pokemon, ...recovery.damaged];
+      setDamageReport(recovery.report);
+    } else {
+      // Load and validate save (or the backup copy in the other slot)
+      save = usePreviousSave ? loadPreviousGen3Save(buffer) : loadGen3Save(buffer);
 
-    // Check if we can safely modify
-    const safetyCheck = canSafelyModifySave(save);
-    if (!safetyCheck.canModify) {
-      throw new Error(`Save file failed integrity checks:\n${safetyCheck.reasons.join('\n')}`);
+      // Check if we can safely modify
+      const safetyCheck = canSafelyModifySave(save);
+      if (!safetyCheck.canModify) {
+        throw new Error(`Save file failed integrity checks:\n${safetyCheck.reasons.join('\n')}`);
+      }
+      allPokemon = extractPokemonFromSave(save);
     }
 
-    // Extract Pokémon
-    const extracted = extractPokemonFromSave(save);
+    const sourceGame = GEN3_GAME_GROUP_NAMES[save.game];
+    setImportedTrainer({ info: save.trainer, game: sourceGame });
+
+    // Extract Pokémon (party first, then the Daycare, then boxes)
+    const extracted = allPokemon
+      .filter(entry => entry.location === 'box'
+        || (entry.location === 'party' && includeParty)
+        || (entry.location === 'daycare' && includeDaycare));
     const toStore: StoredPokemon[] = [];
+    const quarantined: StoredQuarantinedPokemon[] = [];
 
-    for (const { pk3, box, slot, isValid } of extracted) {
+    for (const entry of extracted) {
+      const { pk3, isValid, badEgg } = entry;
+      const where = entry.location === 'party' ? `Party slot ${entry.slot + 1}`
+        : entry.location === 'daycare' ? `Daycare slot ${entry.slot + 1}`
+        : `Box ${entry.box + 1}, slot ${entry.slot + 1}`;
       try {
         const substructs = decryptAndUnshufflePk3(pk3);
         const growth = parseGrowth(substructs.growth);
@@ -98,9 +141,12 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
         
         const nickname = decodeGen3String(pk3.nickname);
         const otName = decodeGen3String(pk3.otName);
-        const level = calculateLevel(growth.experience, growth.species);
+        // Party Pokémon carry their level in the battle stats
+        const level = entry.location === 'party'
+          ? entry.stats.level
+          : calculateLevel(growth.experience, growth.species);
 
-        toStore.push({
+        const stored: StoredPokemon = {
           pk3Data: serializePk3ForStorage(pk3),
           personality: pk3.personality,
           species: growth.species,
@@ -110,16 +156,24 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
           tid,
           sid,
           isValid,
-          sourceGame: 'Gen 3 Native',
+          sourceGame,
           sourceGeneration: 3,
+          sourceTrainerName: save.trainer.name,
+          sourceTrainerId: save.trainer.trainerId,
           importedAt: Date.now(),
-        });
+        };
+
+        if (badEgg) {
+          quarantined.push({ ...stored, diagnosis: badEgg, foundAt: where });
+        } else {
+          toStore.push(stored);
+        }
       } catch (err) {
-        console.warn(`Failed to parse Pokémon at box ${box}, slot ${slot}:`, err);
+        console.warn(`Failed to parse Pokémon at ${where}:`, err);
       }
     }
 
-    return toStore;
+    return { toStore, quarantined };
   }
 
   async function importGen12Save(buffer: ArrayBuffer, generation: 1 | 2): Promise<StoredPokemon[]> {
@@ -171,6 +225,8 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
             isValid: legalityCheck.isLegal,
             sourceGame: `${parsedSave.metadata.game} (Gen ${parsedSave.metadata.generation} → Gen 3)`,
             sourceGeneration: parsedSave.metadata.generation,
+            sourceTrainerName: parsedSave.metadata.trainerName,
+            sourceTrainerId: parsedSave.metadata.trainerId,
             importedAt: Date.now(),
           });
         } catch (err) {
@@ -192,6 +248,46 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
         Gen 1/2 Pokémon will be automatically converted to Gen 3 format using PCCS standards.
       </p>
 
+      <label style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '16px', color: '#4a5568' }}>
+        <input
+          type="checkbox"
+          checked={includeParty}
+          onChange={(e) => setIncludeParty(e.target.checked)}
+          disabled={loading}
+        />
+        Also import party Pokémon (Gen 3)
+      </label>
+
+      <label style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '16px', color: '#4a5568' }}>
+        <input
+          type="checkbox"
+          checked={includeDaycare}
+          onChange={(e) => setIncludeDaycare(e.target.checked)}
+          disabled={loading}
+        />
+        Also import Daycare Pokémon (Gen 3)
+      </label>
+
+      <label style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '16px', color: '#4a5568' }}>
+        <input
+          type="checkbox"
+          checked={recoveryMode}
+          onChange={(e) => setRecoveryMode(e.target.checked)}
+          disabled={loading}
+        />
+        Recovery mode: salvage Pokémon from a damaged Gen 3 save
+      </label>
+
+      <label style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '16px', color: '#4a5568' }}>
+        <input
+          type="checkbox"
+          checked={usePreviousSave}
+          onChange={(e) => setUsePreviousSave(e.target.checked)}
+          disabled={loading || recoveryMode}
+        />
+        Import from the previous save (Gen 3 backup slot)
+      </label>
+
       {error && (
         <div className="error">
           <strong>Error:</strong>
@@ -205,6 +301,50 @@ export default function SaveImport({ onImportComplete }: SaveImportProps) {
         </div>
       )}
 
+      {damageReport && (
+        <div style={{ marginBottom: '16px', padding: '12px 16px', background: damageReport.intact ? '#f0fff4' : '#fffaf0', borderRadius: '8px', color: '#4a5568' }}>
+          <strong>{damageReport.intact ? 'No damage found' : 'Damage report'}</strong>
+          <ul style={{ paddingLeft: '20px', marginTop: '4px', fontSize: '14px' }}>
+            <li>Newest save: slot {damageReport.primarySlot}</li>
+            {damageReport.damagedSections.map((section) => (
+              <li key={`${section.slot}-${section.position}`}>
+                Slot {section.slot}, position {section.position} (section {section.id}): {section.errors.join('; ')}
+              </li>
+            ))}
+            {damageReport.sectionSources.filter(source => source.fromBackup).map((source) => (
+              <li key={`source-${source.id}`}>Section {source.id} restored from the older slot {source.slot}</li>
+            ))}
+            {damageReport.missingSections.length > 0 && (
+              <li>Lost in both slots: sections {damageReport.missingSections.join(', ')}</li>
+            )}
+            {!damageReport.gameDetected && <li>Trainer data was lost; the game version was guessed</li>}
+            {damageReport.unreadableSlots.length > 0 && (
+              <li>
+                Unreadable Pokémon slots ({damageReport.unreadableSlots.length}):{' '}
+                {damageReport.unreadableSlots.slice(0, 20).map((unreadable) =>
+                  unreadable.location === 'box' ? `Box ${unreadable.box! + 1} slot ${unreadable.slot! + 1}`
+                    : unreadable.slot === undefined ? unreadable.location
+                    : `${unreadable.location} slot ${unreadable.slot + 1}`
+                ).join(', ')}
+                {damageReport.unreadableSlots.length > 20 && ', …'}
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {importedTrainer && (
+        <div style={{ marginBottom: '16px', padding: '12px 16px', background: '#f7fafc', borderRadius: '8px', color: '#4a5568' }}>
+          <strong>{importedTrainer.info.name || '(no name)'}</strong>
+          {' '}({importedTrainer.info.gender === 'female' ? '♀' : '♂'}) • Pokémon {importedTrainer.game}
+          <div style={{ fontSize: '14px', marginTop: '4px' }}>
+            TID {importedTrainer.info.trainerId.toString().padStart(5, '0')} •
+            SID {importedTrainer.info.secretId.toString().padStart(5, '0')} •
+            Play time {formatPlayTime(importedTrainer.info.playTime)}
+          </div>
+        </div>
+      )}
+
       <div style={{ display: 'flex', gap: '12px', alignItems: 'center' }}>
         <label
           htmlFor="save-file-input"
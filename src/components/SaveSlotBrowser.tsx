@@ -0,0 +1,106 @@
+/**
+ * Save slot browser for the save editor
+ * Shows both save slots side by side, opens either one for editing and
+ * restores the previous save as the one the game loads
+ */
+import { useMemo } from 'react';
+import { loadGen3Save, loadGen3SaveSlot, type Gen3Save } from '../lib/gen3/save/gen3Save';
+import { summarizeGen3Slots, isPreviousGen3Save, restorePreviousSave } from '../lib/gen3/save/slots';
+import { formatPlayTime } from '../lib/gen3/save/trainer';
+import { GEN3_GAME_GROUP_NAMES } from '../lib/gen3/save/constants';
+import { getSpeciesName, gen3InternalToNational } from '../lib/species/speciesTranscode';
+import { downloadBuffer } from '../lib/utils/download';
+
+interface SaveSlotBrowserProps {
+  save: Gen3Save;
+  fileName: string;
+  onOpen: (save: Gen3Save, message: string) => void;
+  onError: (error: unknown) => void;
+}
+
+export function SaveSlotBrowser({ save, fileName, onOpen, onError }: SaveSlotBrowserProps) {
+  const summaries = useMemo(() => summarizeGen3Slots(save.buffer), [save.buffer]);
+
+  const handleOpen = (slot: 'A' | 'B') => {
+    try {
+      const opened = loadGen3SaveSlot(save.buffer, slot);
+      onOpen(opened, isPreviousGen3Save(opened)
+        ? `Opened save slot ${slot}. This is the previous save; saving it will replace the current save`
+        : `Opened save slot ${slot}`);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  const handleRestore = () => {
+    try {
+      const restored = restorePreviousSave(save.buffer);
+      const downloadName = fileName.replace('.sav', '_restored.sav');
+      downloadBuffer(restored, downloadName);
+      onOpen(loadGen3Save(restored), `✅ Previous save restored. Download started: "${downloadName}"`);
+    } catch (err) {
+      onError(err);
+    }
+  };
+
+  return (
+    <div className="export-section">
+      <h3>Save Slots</h3>
+      <p>The game keeps the previous save in the second slot as a backup.</p>
+
+      <div style={{ display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+        {summaries.map((summary) => (
+          <div key={summary.slot} className="save-info" style={{ flex: '1 1 250px' }}>
+            <h4>
+              Slot {summary.slot} {summary.active ? '(current save)' : '(previous save)'}
+              {summary.slot === save.activeSlot && ' • editing'}
+            </h4>
+            <p>Save index: {summary.saveIndex}</p>
+
+            {summary.contents ? (
+              <>
+                <p>Game: {GEN3_GAME_GROUP_NAMES[summary.contents.game]}</p>
+                <p>
+                  Trainer: {summary.contents.trainer.name} (ID {summary.contents.trainer.trainerId.toString().padStart(5, '0')})
+                </p>
+                <p>Play time: {formatPlayTime(summary.contents.trainer.playTime)}</p>
+                <p>
+                  Party:{' '}
+                  {summary.contents.party.length === 0 ? 'empty' : summary.contents.party.map((member) =>
+                    member.isEgg ? 'Egg' : `${getSpeciesName(gen3InternalToNational(member.species))} Lv. ${member.level}`
+                  ).join(', ')}
+                </p>
+                <p>
+                  PC: {summary.contents.boxTotal} Pokémon
+                  {summary.contents.boxTotal > 0 && ` (${summary.contents.boxCounts
+                    .map((count, box) => count > 0 ? `Box ${box + 1}: ${count}` : null)
+                    .filter(Boolean)
+                    .join(', ')})`}
+                </p>
+                {summary.slot !== save.activeSlot && (
+                  <button onClick={() => handleOpen(summary.slot)}>Edit this slot</button>
+                )}
+                {!summary.active && (
+                  <button onClick={handleRestore}>Restore previous save</button>
+                )}
+              </>
+            ) : (
+              <>
+                <p>⚠️ This slot cannot be loaded.</p>
+                <ul>
+                  {summary.errors.slice(0, 5).map((error, i) => <li key={i}>{error}</li>)}
+                  {summary.errors.length > 5 && <li>… and {summary.errors.length - 5} more</li>}
+                </ul>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="button-hint">
+        Restoring makes the previous save the one the game loads and keeps the current save as the backup,
+        so restoring again undoes it.
+      </p>
+    </div>
+  );
+}
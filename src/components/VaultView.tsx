@@ -392,6 +392,7 @@ export default function VaultView({ onSelectPokemon, selectedPokemon }: VaultVie
               </div>
               <div style={{ marginTop: '8px', fontSize: '12px', color: '#999' }}>
                 OT: {p.otName} • {p.sourceGame || 'Gen 3'}
+                {p.sourceTrainerName !== undefined && ` • from ${p.sourceTrainerName}'s save`}
                 {p.sourceGeneration && p.sourceGeneration !== 3 && (
                   <span style={{
                     marginLeft: '8px',
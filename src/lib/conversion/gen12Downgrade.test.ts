@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkGen12Eligibility,
+  convertPk3ToGen12,
+  writeGen12File,
+  convertItemToGen2,
+  convertEVToStatExp,
+} from './gen12Downgrade';
+import { decodeGen12String } from '../parsers/utils';
+import { nationalToGen3Internal } from '../species/speciesTranscode';
+import { createTestPk3 } from '../../test/gen3SaveFixture';
+
+// Packed Gen 3 IV word: HP, Attack, Defense, Speed, Sp. Atk, Sp. Def (5 bits each)
+function packIVs(hp: number, attack: number, defense: number, speed: number, spAtk: number, spDef: number): number {
+  return hp | (attack << 5) | (defense << 10) | (speed << 15) | (spAtk << 20) | (spDef << 25);
+}
+
+describe('Gen 1/2 downgrade', () => {
+  it('should build a big-endian Gen 2 box structure', () => {
+    const pk3 = createTestPk3({
+      species: 25,
+      heldItem: 200,
+      moves: [84, 98],
+      evs: [4, 0, 0, 252, 0, 0],
+      ivs: packIVs(31, 24, 12, 30, 6, 6),
+    });
+    const { data, level } = convertPk3ToGen12(pk3, 2);
+    const view = new DataView(data.buffer);
+
+    expect(data.byteLength).toBe(32);
+    expect(data[0x00]).toBe(25);
+    expect(data[0x01]).toBe(0x92); // Leftovers
+    expect([...data.slice(0x02, 0x06)]).toEqual([84, 98, 0, 0]);
+    expect(view.getUint16(0x06, false)).toBe(0xE240);
+    expect([...data.slice(0x08, 0x0B)]).toEqual([0x00, 0x03, 0xE8]); // 1000 experience
+    expect(view.getUint16(0x0B, false)).toBe(16);
+    expect(view.getUint16(0x11, false)).toBe(63504);
+    expect([data[0x15], data[0x16]]).toEqual([0xC6, 0xF3]);
+    expect([data[0x17], data[0x18]]).toEqual([35, 35]);
+    expect(data[0x1B]).toBe(70);
+    expect(data[0x1F]).toBe(level);
+    expect(level).toBe(10);
+  });
+
+  it('should encode the nickname and OT name in the Gen 1/2 charset', () => {
+    const { nickname, otName } = convertPk3ToGen12(createTestPk3({ species: 25 }), 2);
+    const decode = (bytes: Uint8Array) => decodeGen12String(new DataView(bytes.buffer), 0, bytes.byteLength);
+
+    expect([...nickname.slice(0, 4)]).toEqual([0x80, 0x81, 0x82, 0x50]);
+    expect(decode(nickname)).toBe('ABC');
+    expect(decode(otName)).toBe('TEST');
+  });
+
+  it('should build a Gen 1 box structure with the Gen 1 species index and types', () => {
+    const pk3 = createTestPk3({ species: 1, heldItem: 200, moves: [33, 45] });
+    const { data, level } = convertPk3ToGen12(pk3, 1);
+    const view = new DataView(data.buffer);
+
+    expect(data.byteLength).toBe(33);
+    expect(data[0x00]).toBe(153); // Bulbasaur
+    expect(level).toBe(12);
+    expect(view.getUint16(0x01, false)).toBe(36); // Full HP at level 12 with all DVs 15
+    expect(data[0x03]).toBe(12);
+    expect([data[0x05], data[0x06]]).toEqual([22, 3]); // Grass, Poison
+    expect(data[0x07]).toBe(0x92); // Held item kept in the catch rate byte
+    expect([...data.slice(0x08, 0x0C)]).toEqual([33, 45, 0, 0]);
+    expect([data[0x1B], data[0x1C]]).toEqual([0xFF, 0xFF]);
+  });
+
+  it('should explain what the DVs cannot keep', () => {
+    // DVs 10/10/10/10 are shiny in Gen 2, and the HP DV derived from them is 0
+    const { changes } = convertPk3ToGen12(createTestPk3({ species: 25, ivs: packIVs(31, 21, 21, 21, 21, 31) }), 2);
+
+    expect(changes).toContain('HP DV becomes 0, as it is derived from the other DVs');
+    expect(changes).toContain('Special DV 10 comes from the Sp. Atk IV; the Sp. Def IV (31) is dropped');
+    expect(changes).toContain('It will be shiny in Gen 2, where shininess comes from the DVs');
+  });
+
+  it('should refuse what Gen 1/2 cannot represent', () => {
+    expect(checkGen12Eligibility(createTestPk3({ species: 25 }), 1)).toEqual([]);
+
+    expect(checkGen12Eligibility(createTestPk3({ species: 152 }), 1))
+      .toEqual(['Species #152 does not exist in Gen 1']);
+    expect(checkGen12Eligibility(createTestPk3({ species: nationalToGen3Internal(252) }), 2))
+      .toEqual(['Species #252 does not exist in Gen 2']);
+    expect(checkGen12Eligibility(createTestPk3({ species: 25, moves: [33, 200] }), 1))
+      .toEqual(['It knows moves from a later generation (#200)']);
+    expect(checkGen12Eligibility(createTestPk3({ species: 25, moves: [33, 200] }), 2)).toEqual([]);
+    expect(checkGen12Eligibility(createTestPk3({ species: 25, heldItem: 133 }), 2))
+      .toEqual(['Held item #133 has no Gen 2 equivalent']);
+    expect(checkGen12Eligibility(createTestPk3({ species: 25, ivs: 0x7FFFFFFF }), 2))
+      .toEqual(['Eggs cannot be moved back']);
+
+    expect(() => convertPk3ToGen12(createTestPk3({ species: 152 }), 1)).toThrow('Cannot move this Pokémon to Gen 1');
+  });
+
+  it('should write single-Pokémon .pk1 and .pk2 files', () => {
+    const gen1 = new Uint8Array(writeGen12File(convertPk3ToGen12(createTestPk3({ species: 1 }), 1)));
+    expect(gen1.byteLength).toBe(69);
+    expect([...gen1.slice(0, 3)]).toEqual([1, 153, 0xFF]);
+    expect(gen1[3 + 0x21]).toBe(12);
+    expect(new DataView(gen1.buffer).getUint16(3 + 0x22, false)).toBe(36);
+    expect(gen1[3 + 44 + 11]).toBe(0x80); // Nickname "ABC"
+
+    const gen2 = new Uint8Array(writeGen12File(convertPk3ToGen12(createTestPk3({ species: 25 }), 2)));
+    const view = new DataView(gen2.buffer);
+    expect(gen2.byteLength).toBe(73);
+    expect([...gen2.slice(0, 3)]).toEqual([1, 25, 0xFF]);
+    expect(view.getUint16(3 + 0x22, false)).toBe(view.getUint16(3 + 0x24, false));
+    expect(gen2[3 + 48]).toBe(0x93); // OT name "TEST"
+  });
+
+  it('should convert items and EVs', () => {
+    expect(convertItemToGen2(1)).toBe(0x01); // Master Ball
+    expect(convertItemToGen2(68)).toBe(0x20); // Rare Candy
+    expect(convertItemToGen2(121)).toBeNull(); // Mail
+    expect(convertEVToStatExp(0)).toBe(0);
+    expect(convertEVToStatExp(255)).toBe(65025);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Downgrade conversion from pk3 back to Gen 1/2
+ * The reverse of convertGen12ToGen3: recovers DVs from IVs and stat experience
+ * from EVs, and builds the box structures the Game Boy games store
+ */
+
+import { readPk3Pokemon, type Pk3Pokemon } from '../gen3/pk3/pk3Pokemon.js';
+import { verifyPk3Checksum, type Pk3Data } from '../gen3/pk3/pk3.js';
+import { calculateLevel, isShiny } from '../gen3/pk3/substruct.js';
+import { gen3InternalToNational, decodeGen3String } from '../species/speciesTranscode.js';
+import { getGen1SpeciesData } from '../species/gen1Species.js';
+import { getBaseStats } from '../parsers/baseStats.js';
+import { calcGen1HP, calcGen1Stat, calcGen2HP, calcGen2Stat } from '../parsers/statCalculations.js';
+import { determineGen3Gender, determineGen2Gender } from '../parsers/genderDetermination.js';
+import { encodeGen12String, isGen12Encodable } from '../parsers/utils.js';
+import { GEN1_POKEMON_BOX_DATA_SIZE, GEN1_POKEMON_DATA_SIZE, GEN1_NICKNAME_LENGTH, GEN1_OT_NAME_LENGTH } from '../constants/gen1.js';
+import { GEN2_POKEMON_BOX_DATA_SIZE, GEN2_POKEMON_DATA_SIZE } from '../constants/gen2.js';
+import { extractDVsFromIVs, isShinyDVs } from './dvToIv.js';
+import type { DVs } from '../types/index.js';
+
+export type Gen12Generation = 1 | 2;
+
+const LAST_SPECIES: Record<Gen12Generation, number> = { 1: 151, 2: 251 };
+const LAST_MOVE: Record<Gen12Generation, number> = { 1: 165, 2: 251 }; // Struggle, Beat Up
+
+const MAX_STAT_EXP = 0xFFFF;
+const LIST_TERMINATOR = 0xFF;
+
+// Gen 3 items with an exact Gen 2 counterpart (Gen 3 ID → Gen 2 ID)
+const GEN3_TO_GEN2_ITEMS: Record<number, number> = {
+  1: 0x01, 2: 0x02, 3: 0x04, 4: 0x05, // Master, Ultra, Great, Poké Ball
+  13: 0x12, 14: 0x09, 15: 0x0A, 16: 0x0B, 17: 0x0C, 18: 0x0D, // Potion - Parlyz Heal
+  19: 0x0E, 20: 0x0F, 21: 0x10, 22: 0x11, 23: 0x26, 24: 0x27, 25: 0x28, // Full Restore - Max Revive
+  26: 0x2E, 27: 0x2F, 28: 0x30, 29: 0x48, // Fresh Water, Soda Pop, Lemonade, Moomoo Milk
+  30: 0x79, 31: 0x7A, 32: 0x7B, 33: 0x7C, // EnergyPowder, Energy Root, Heal Powder, Revival Herb
+  34: 0x3F, 35: 0x40, 36: 0x41, 37: 0x15, // Ether, Max Ether, Elixir, Max Elixir
+  44: 0x8B, 45: 0x9C, // Berry Juice, Sacred Ash
+  63: 0x1A, 64: 0x1B, 65: 0x1C, 66: 0x1D, 67: 0x1F, 68: 0x20, 69: 0x3E, // HP Up - PP Up
+  73: 0x29, 74: 0x2C, 75: 0x31, 76: 0x33, 77: 0x34, 78: 0x21, 79: 0x35, 80: 0x25, // Guard Spec. - Poké Doll
+  83: 0x2A, 84: 0x2B, 85: 0x13, 86: 0x14, // Super Repel, Max Repel, Escape Rope, Repel
+  93: 0xA9, 94: 0x08, 95: 0x16, 96: 0x17, 97: 0x18, 98: 0x22, // Evolution stones
+  103: 0x56, 104: 0x57, 106: 0x6E, 107: 0x6F, 108: 0x83, 109: 0x84, 110: 0x24, // TinyMushroom - Nugget
+  179: 0x03, 182: 0x39, 183: 0x49, 187: 0x52, 188: 0x58, 189: 0x5B, 190: 0x5E, // BrightPowder - Cleanse Tag
+  194: 0x6A, 195: 0x70, 196: 0x77, 197: 0x7E, 198: 0x8C, 199: 0x8F, 200: 0x92, // Smoke Ball - Leftovers
+  201: 0x97, 202: 0xA3, 203: 0x4C, 204: 0x7D, 205: 0x75, 206: 0x66, 207: 0x62, // Dragon Scale - Black Belt
+  208: 0x6C, 209: 0x5F, 210: 0x4D, 211: 0x51, 212: 0x6B, 213: 0x71, 214: 0x60, // Magnet - TwistedSpoon
+  215: 0x8A, 216: 0x90, 218: 0xAC, 222: 0x1E, 223: 0x23, 224: 0x76, 225: 0x69, // Charcoal - Stick
+};
+
+export interface Gen12BoxPokemon {
+  generation: Gen12Generation;
+  species: number; // National Dex number
+  level: number;
+  data: Uint8Array; // 33-byte Gen 1 or 32-byte Gen 2 box structure, big-endian as on the cartridge
+  otName: Uint8Array; // 11 bytes, Gen 1/2 encoded
+  nickname: Uint8Array; // 11 bytes, Gen 1/2 encoded
+  changes: string[]; // What could not be carried over exactly
+}
+
+/**
+ * Reasons a Pokémon cannot be moved to a Gen 1/2 game (empty if it can)
+ */
+export function checkGen12Eligibility(pk3: Pk3Data, generation: Gen12Generation): string[] {
+  if (!verifyPk3Checksum(pk3)) {
+    return ['Its data fails the checksum (it would be a Bad Egg)'];
+  }
+
+  const pokemon = readPk3Pokemon(pk3);
+  const nationalDex = gen3InternalToNational(pokemon.species);
+  const reasons: string[] = [];
+
+  if (pokemon.isEgg || pokemon.sanityFlags.isBadEgg) {
+    reasons.push('Eggs cannot be moved back');
+  }
+  if (nationalDex === 0 || nationalDex > LAST_SPECIES[generation]) {
+    reasons.push(`Species #${nationalDex} does not exist in Gen ${generation}`);
+  }
+
+  const newMoves = pokemon.moves.filter(move => move.id > LAST_MOVE[generation]);
+  if (newMoves.length > 0) {
+    reasons.push(`It knows moves from a later generation (#${newMoves.map(move => move.id).join(', #')})`);
+  }
+
+  if (pokemon.heldItem !== 0 && convertItemToGen2(pokemon.heldItem) === null) {
+    reasons.push(`Held item #${pokemon.heldItem} has no Gen 2 equivalent`);
+  }
+
+  for (const [label, name] of [['Nickname', pokemon.nickname], ['OT name', pokemon.otName]] as const) {
+    const text = toGen12Text(decodeGen3String(name));
+    if (!isGen12Encodable(text)) {
+      reasons.push(`${label} "${text}" uses characters Gen ${generation} cannot display`);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Convert a Gen 3 Pokémon to a Gen 1 or Gen 2 box structure with its names
+ */
+export function convertPk3ToGen12(pk3: Pk3Data, generation: Gen12Generation): Gen12BoxPokemon {
+  const reasons = checkGen12Eligibility(pk3, generation);
+  if (reasons.length > 0) {
+    throw new Error(`Cannot move this Pokémon to Gen ${generation}:\n${reasons.join('\n')}`);
+  }
+
+  const pokemon = readPk3Pokemon(pk3);
+  const nationalDex = gen3InternalToNational(pokemon.species);
+  const level = calculateLevel(pokemon.experience, pokemon.species);
+  const item = pokemon.heldItem === 0 ? 0 : convertItemToGen2(pokemon.heldItem)!;
+  const { ivs, evs } = pokemon;
+  const dvs = extractDVsFromIVs({
+    hp: ivs.hp, attack: ivs.attack, defense: ivs.defense,
+    speed: ivs.speed, specialAttack: ivs.spAtk, specialDefense: ivs.spDef,
+  });
+  dvs.hp = deriveHpDV(dvs);
+  const statExp = [evs.hp, evs.attack, evs.defense, evs.speed, evs.spAtk].map(convertEVToStatExp);
+
+  const gen1 = generation === 1;
+  const data = new Uint8Array(gen1 ? GEN1_POKEMON_BOX_DATA_SIZE : GEN2_POKEMON_BOX_DATA_SIZE);
+  const view = new DataView(data.buffer);
+  const base = gen1 ? 0x08 : 0x02; // Moves through PP share one layout, shifted by six bytes in Gen 1
+  const moves = pokemon.moves.filter(move => move.id !== 0);
+
+  moves.forEach((move, i) => {
+    view.setUint8(base + i, move.id);
+    view.setUint8(base + 0x15 + i, (move.ppUps << 6) | Math.min(move.pp, 0x3F));
+  });
+  view.setUint16(base + 0x04, pokemon.otId & 0xFFFF, false);
+  view.setUint8(base + 0x06, (pokemon.experience >>> 16) & 0xFF);
+  view.setUint16(base + 0x07, pokemon.experience & 0xFFFF, false);
+  statExp.forEach((value, i) => view.setUint16(base + 0x09 + i * 2, value, false));
+  view.setUint8(base + 0x13, (dvs.attack << 4) | dvs.defense);
+  view.setUint8(base + 0x14, (dvs.speed << 4) | dvs.special);
+
+  if (gen1) {
+    const species = getGen1SpeciesData(nationalDex)!;
+    view.setUint8(0x00, species.index);
+    view.setUint16(0x01, gen1Stats(nationalDex, level, dvs, statExp)[0]!, false);
+    view.setUint8(0x03, level);
+    view.setUint8(0x05, species.types[0]);
+    view.setUint8(0x06, species.types[1]);
+    view.setUint8(0x07, item); // Catch rate, where the Time Capsule keeps a Gen 2 held item
+  } else {
+    view.setUint8(0x00, nationalDex);
+    view.setUint8(0x01, item);
+    view.setUint8(0x1B, pokemon.friendship);
+    view.setUint8(0x1C, (pokemon.pokerus.strain << 4) | pokemon.pokerus.days);
+    view.setUint8(0x1F, level); // Caught data (0x1D-0x1E) stays empty, as for Gold/Silver catches
+  }
+
+  return {
+    generation,
+    species: nationalDex,
+    level,
+    data,
+    otName: new Uint8Array(encodeGen12String(toGen12Text(decodeGen3String(pokemon.otName)), GEN1_OT_NAME_LENGTH)),
+    nickname: new Uint8Array(encodeGen12String(toGen12Text(decodeGen3String(pokemon.nickname)), GEN1_NICKNAME_LENGTH)),
+    changes: describeChanges(pokemon, generation, nationalDex, dvs),
+  };
+}
+
+/**
+ * Write a converted Pokémon as a single-Pokémon .pk1/.pk2 file: a one-entry
+ * party list (count, species, terminator, party data, OT name, nickname)
+ */
+export function writeGen12File(pokemon: Gen12BoxPokemon): ArrayBuffer {
+  const gen1 = pokemon.generation === 1;
+  const partySize = gen1 ? GEN1_POKEMON_DATA_SIZE : GEN2_POKEMON_DATA_SIZE;
+  const bytes = new Uint8Array(3 + partySize + GEN1_OT_NAME_LENGTH + GEN1_NICKNAME_LENGTH);
+  const view = new DataView(bytes.buffer, 3, partySize);
+  const box = new DataView(pokemon.data.buffer, pokemon.data.byteOffset, pokemon.data.byteLength);
+
+  bytes[0] = 1;
+  bytes[1] = box.getUint8(0x00);
+  bytes[2] = LIST_TERMINATOR;
+  bytes.set(pokemon.data, 3);
+
+  const base = gen1 ? 0x08 : 0x02;
+  const dvs: DVs = {
+    hp: 0,
+    attack: box.getUint8(base + 0x13) >> 4,
+    defense: box.getUint8(base + 0x13) & 0x0F,
+    speed: box.getUint8(base + 0x14) >> 4,
+    special: box.getUint8(base + 0x14) & 0x0F,
+  };
+  dvs.hp = deriveHpDV(dvs);
+  const statExp = [0, 1, 2, 3, 4].map(i => box.getUint16(base + 0x09 + i * 2, false));
+
+  if (gen1) {
+    // Level, then max HP, Attack, Defense, Speed and Special
+    view.setUint8(0x21, pokemon.level);
+    gen1Stats(pokemon.species, pokemon.level, dvs, statExp)
+      .forEach((stat, i) => view.setUint16(0x22 + i * 2, stat, false));
+  } else {
+    // Status, unused byte, current HP, then max HP, Attack, Defense, Speed, Sp. Atk and Sp. Def
+    const stats = gen2Stats(pokemon.species, pokemon.level, dvs, statExp);
+    view.setUint16(0x22, stats[0]!, false);
+    stats.forEach((stat, i) => view.setUint16(0x24 + i * 2, stat, false));
+  }
+
+  bytes.set(pokemon.otName, 3 + partySize);
+  bytes.set(pokemon.nickname, 3 + partySize + GEN1_OT_NAME_LENGTH);
+  return bytes.buffer;
+}
+
+/**
+ * Gen 2 ID of a Gen 3 item, or null if Gen 2 has no equivalent
+ */
+export function convertItemToGen2(gen3Item: number): number | null {
+  return GEN3_TO_GEN2_ITEMS[gen3Item] ?? null;
+}
+
+/**
+ * Gen 1/2 stat experience for a Gen 3 EV; the inverse of the square root
+ * convertGen12EVs takes on the way up
+ */
+export function convertEVToStatExp(ev: number): number {
+  return Math.min(MAX_STAT_EXP, ev * ev);
+}
+
+/**
+ * What the Gen 1/2 data cannot keep: the Sp. Def IV and HP IV beyond what the
+ * DVs hold, and shininess and gender, which the DVs decide there
+ */
+function describeChanges(pokemon: Pk3Pokemon, generation: Gen12Generation, nationalDex: number, dvs: DVs): string[] {
+  const changes: string[] = [];
+
+  if (Math.floor(pokemon.ivs.hp / 2) !== dvs.hp) {
+    changes.push(`HP DV becomes ${dvs.hp}, as it is derived from the other DVs`);
+  }
+  if (Math.floor(pokemon.ivs.spDef / 2) !== dvs.special) {
+    changes.push(`Special DV ${dvs.special} comes from the Sp. Atk IV; the Sp. Def IV (${pokemon.ivs.spDef}) is dropped`);
+  }
+
+  const wasShiny = isShiny(pokemon.personality, pokemon.otId);
+  if (wasShiny !== isShinyDVs(dvs)) {
+    changes.push(wasShiny
+      ? 'It will not be shiny: Gen 2 shininess comes from the DVs'
+      : 'It will be shiny in Gen 2, where shininess comes from the DVs');
+  }
+
+  const gender = determineGen3Gender(nationalDex, pokemon.personality);
+  const dvGender = determineGen2Gender(nationalDex, dvs.attack);
+  if (gender !== dvGender) {
+    changes.push(`Its gender becomes ${dvGender === 'F' ? 'female' : 'male'}: Gen 2 gender comes from the Attack DV`);
+  }
+
+  if (generation === 1 && (pokemon.pokerus.strain !== 0 || pokemon.pokerus.days !== 0)) {
+    changes.push('Pokérus does not exist in Gen 1');
+  }
+
+  return changes;
+}
+
+/**
+ * The HP DV is not stored; the games derive it from the low bits of the others
+ */
+function deriveHpDV(dvs: DVs): number {
+  return ((dvs.attack & 1) << 3) | ((dvs.defense & 1) << 2) | ((dvs.speed & 1) << 1) | (dvs.special & 1);
+}
+
+function gen1Stats(nationalDex: number, level: number, dvs: DVs, statExp: number[]): number[] {
+  const base = getBaseStats(nationalDex);
+  const [hp = 0, attack = 0, defense = 0, speed = 0, special = 0] = statExp;
+  return [
+    calcGen1HP(base.hp, dvs.hp, hp, level),
+    calcGen1Stat(base.attack, dvs.attack, attack, level),
+    calcGen1Stat(base.defense, dvs.defense, defense, level),
+    calcGen1Stat(base.speed, dvs.speed, speed, level),
+    calcGen1Stat(getGen1SpeciesData(nationalDex)?.special ?? base.specialAttack, dvs.special, special, level),
+  ];
+}
+
+function gen2Stats(nationalDex: number, level: number, dvs: DVs, statExp: number[]): number[] {
+  const base = getBaseStats(nationalDex);
+  const [hp = 0, attack = 0, defense = 0, speed = 0, special = 0] = statExp;
+  return [
+    calcGen2HP(base.hp, dvs.hp, hp, level),
+    calcGen2Stat(base.attack, dvs.attack, attack, level),
+    calcGen2Stat(base.defense, dvs.defense, defense, level),
+    calcGen2Stat(base.speed, dvs.speed, speed, level),
+    calcGen2Stat(base.specialAttack, dvs.special, special, level),
+    calcGen2Stat(base.specialDefense, dvs.special, special, level),
+  ];
+}
+
+/**
+ * Gen 3 text with its curly apostrophe swapped for the one Gen 1/2 has
+ */
+function toGen12Text(text: string): string {
+  return text.replace(/’/g, "'");
+}
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { createFileVaultRow } from './pk3FileRows';
+import { writePk3File } from '../gen3/pk3/pk3File';
+import { PK3_DATA_OFFSET } from '../gen3/save/constants';
+import { createTestPk3 } from '../../test/gen3SaveFixture';
+
+describe('Pokémon file vault rows', () => {
+  const pk3 = createTestPk3({ species: 25, personality: 0x1A2B3C4D, experience: 1000 });
+
+  it('should read a healthy file into a vault row', () => {
+    const row = createFileVaultRow(writePk3File(pk3, 'pk3'), 'pikachu.pk3');
+
+    expect(row).not.toHaveProperty('diagnosis');
+    expect(row).toMatchObject({ species: 25, nickname: 'ABC', isValid: true, sourceGame: 'Emerald (.pk3 file)' });
+  });
+
+  it('should send a corrupted .ek3 to quarantine', () => {
+    const corrupted = writePk3File(pk3, 'ek3');
+    new Uint8Array(corrupted)[PK3_DATA_OFFSET + 5]! ^= 0xFF;
+    const row = createFileVaultRow(corrupted, 'pikachu.ek3');
+
+    expect(row).toMatchObject({ isValid: false, foundAt: 'pikachu.ek3', sourceGame: 'Emerald (.ek3 file)' });
+    expect('diagnosis' in row && row.diagnosis.causes).toEqual(['checksum-mismatch']);
+  });
+});
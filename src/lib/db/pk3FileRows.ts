@@ -0,0 +1,53 @@
+/**
+ * Vault rows for single-Pokémon files
+ * Turns a .pk3/.ek3 file into a vault row, or a quarantine row when the game
+ * would show it as a Bad Egg
+ */
+
+import { readPk3File } from '../gen3/pk3/pk3File';
+import { diagnoseBadEgg } from '../gen3/pk3/badEgg';
+import { decryptAndUnshufflePk3, verifyPk3Checksum } from '../gen3/pk3/pk3';
+import { parseGrowth, parseMisc, calculateLevel, extractTrainerIds } from '../gen3/pk3/substruct';
+import { decodeGen3String } from '../species/speciesTranscode';
+import { Gen3GameOrigin } from '../constants/gen3';
+import { serializePk3ForStorage, type StoredPokemon, type StoredQuarantinedPokemon } from './vaultRows';
+
+const ORIGIN_GAME_NAMES: Record<number, string> = {
+  [Gen3GameOrigin.SAPPHIRE]: 'Sapphire',
+  [Gen3GameOrigin.RUBY]: 'Ruby',
+  [Gen3GameOrigin.EMERALD]: 'Emerald',
+  [Gen3GameOrigin.FIRERED]: 'FireRed',
+  [Gen3GameOrigin.LEAFGREEN]: 'LeafGreen',
+  [Gen3GameOrigin.COLOSSEUM_XD]: 'Colosseum/XD',
+};
+
+/**
+ * Read a Pokémon file into a row for the vault, or for quarantine if it is a
+ * Bad Egg (which carries a diagnosis)
+ */
+export function createFileVaultRow(buffer: ArrayBuffer, fileName: string): StoredPokemon | StoredQuarantinedPokemon {
+  const { pk3, format, partyStats } = readPk3File(buffer, fileName);
+  const substructs = decryptAndUnshufflePk3(pk3);
+  const growth = parseGrowth(substructs.growth);
+  const misc = parseMisc(substructs.misc);
+  const { tid, sid } = extractTrainerIds(pk3.otId);
+  const originGame = ORIGIN_GAME_NAMES[(misc.origins >>> 7) & 0xF] ?? 'Unknown game';
+
+  const stored: StoredPokemon = {
+    pk3Data: serializePk3ForStorage(pk3),
+    personality: pk3.personality,
+    species: growth.species,
+    nickname: decodeGen3String(pk3.nickname),
+    otName: decodeGen3String(pk3.otName),
+    level: partyStats?.level ?? calculateLevel(growth.experience, growth.species),
+    tid,
+    sid,
+    isValid: verifyPk3Checksum(pk3),
+    sourceGame: `${originGame} (.${format} file)`,
+    sourceGeneration: 3,
+    importedAt: Date.now(),
+  };
+
+  const badEgg = diagnoseBadEgg(pk3);
+  return badEgg ? { ...stored, diagnosis: badEgg, foundAt: fileName } : stored;
+}
@@ -0,0 +1,188 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { openDB } from 'idb';
+import {
+  getVaultDb,
+  addPokemon,
+  getAllPokemon,
+  addQuarantinedPokemon,
+  getAllQuarantinedPokemon,
+  releaseFromQuarantine,
+  addSaveBackup,
+  getAllSaveBackups,
+  closeVaultDb,
+  type StoredSaveBackup,
+} from './vaultDb';
+import {
+  serializePk3ForStorage,
+  PK3_LAYOUT_VERSION,
+  type StoredPokemon,
+  type StoredQuarantinedPokemon,
+} from './vaultRows';
+import type { BadEggDiagnosis } from '../gen3/pk3/badEgg';
+import { createTestPk3 } from '../../test/gen3SaveFixture';
+
+const DB_NAME = 'professors-pc-vault';
+
+const STALE_DIAGNOSIS: BadEggDiagnosis = {
+  causes: ['species-out-of-range'],
+  details: ['Species index 0 is not a Pokémon'],
+  recoverable: false,
+  shuffleOrder: null,
+};
+
+function storedRow(overrides: Partial<StoredPokemon> = {}): StoredPokemon {
+  const pk3 = createTestPk3({ species: 25, personality: 3, experience: 8000 });
+  return {
+    pk3Data: serializePk3ForStorage(pk3),
+    personality: pk3.personality,
+    species: 0,
+    nickname: '',
+    otName: '',
+    level: 0,
+    tid: 0,
+    sid: 0,
+    isValid: true,
+    sourceGame: 'Emerald',
+    sourceGeneration: 3,
+    importedAt: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * Create a vault as an older version left it, with some Pokémon already stored
+ */
+async function createOldVault(
+  version: 2 | 4,
+  pokemon: StoredPokemon[],
+  quarantined: StoredQuarantinedPokemon[] = [],
+): Promise<void> {
+  const db = await openDB(DB_NAME, version, {
+    upgrade(db) {
+      const pokemonStore = db.createObjectStore('pokemon', { keyPath: 'id', autoIncrement: true });
+      pokemonStore.createIndex('personality', 'personality', { unique: false });
+      pokemonStore.createIndex('species', 'species', { unique: false });
+      pokemonStore.createIndex('tid', 'tid', { unique: false });
+      pokemonStore.createIndex('importedAt', 'importedAt', { unique: false });
+      db.createObjectStore('hallOfFame', { keyPath: 'id', autoIncrement: true })
+        .createIndex('sourceTrainerId', 'sourceTrainerId', { unique: false });
+      if (version === 4) {
+        const backupStore = db.createObjectStore('saveBackups', { keyPath: 'id', autoIncrement: true });
+        backupStore.createIndex('sha256', 'sha256', { unique: true });
+        backupStore.createIndex('createdAt', 'createdAt', { unique: false });
+        db.createObjectStore('quarantine', { keyPath: 'id', autoIncrement: true })
+          .createIndex('importedAt', 'importedAt', { unique: false });
+      }
+    },
+  });
+  for (const row of pokemon) {
+    await db.add('pokemon', row);
+  }
+  for (const row of quarantined) {
+    await db.add('quarantine', row);
+  }
+  db.close();
+}
+
+function saveBackup(overrides: Partial<StoredSaveBackup> = {}): StoredSaveBackup {
+  return {
+    sha256: 'ab'.repeat(32),
+    fileName: 'emerald.sav',
+    kind: 'original',
+    game: 'Emerald',
+    trainerName: 'MAY',
+    trainerId: 12345,
+    data: new ArrayBuffer(16),
+    createdAt: 0,
+    ...overrides,
+  };
+}
+
+describe('Vault database', () => {
+  beforeEach(() => {
+    globalThis.indexedDB = new IDBFactory();
+  });
+
+  afterEach(async () => {
+    await closeVaultDb();
+    vi.restoreAllMocks();
+  });
+
+  it('should keep Bad Eggs out of the main list until released', async () => {
+    const [id] = await addQuarantinedPokemon([{ ...storedRow(), diagnosis: STALE_DIAGNOSIS, foundAt: 'Box 1, slot 1' }]);
+
+    expect(await getAllPokemon()).toEqual([]);
+    expect(await getAllQuarantinedPokemon()).toEqual([expect.objectContaining({ id, foundAt: 'Box 1, slot 1' })]);
+
+    const newId = await releaseFromQuarantine(id!, storedRow({ species: 25 }));
+
+    expect(await getAllQuarantinedPokemon()).toEqual([]);
+    expect(await getAllPokemon()).toEqual([expect.objectContaining({ id: newId, species: 25, layoutVersion: PK3_LAYOUT_VERSION })]);
+  });
+
+  it('should leave a Bad Egg in quarantine when adding the repaired row fails', async () => {
+    const existingId = await addPokemon(storedRow());
+    const [id] = await addQuarantinedPokemon([{ ...storedRow(), diagnosis: STALE_DIAGNOSIS, foundAt: 'Box 1, slot 1' }]);
+
+    await expect(releaseFromQuarantine(id!, storedRow({ id: existingId }))).rejects.toThrow();
+
+    expect(await getAllQuarantinedPokemon()).toEqual([expect.objectContaining({ id })]);
+    expect(await getAllPokemon()).toHaveLength(1);
+  });
+
+  it('should migrate v4 rows and leave malformed ones as they are', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const malformed = storedRow({ pk3Data: new ArrayBuffer(10), species: 77 });
+    await createOldVault(4, [storedRow(), malformed]);
+
+    await getVaultDb();
+    const [migrated, untouched] = await getAllPokemon();
+
+    expect(migrated).toMatchObject({ species: 25, level: 20, nickname: 'ABC', layoutVersion: PK3_LAYOUT_VERSION });
+    expect(untouched).toEqual({ ...malformed, id: 2 });
+    expect(warn).toHaveBeenCalledWith('Left vault row 2 unmigrated:', expect.any(RangeError));
+  });
+
+  it('should diagnose quarantined v4 rows again and move clean ones into the vault', async () => {
+    const pk3 = createTestPk3({ species: 25, personality: 3, experience: 8000 });
+    const damaged = serializePk3ForStorage({ ...pk3, checksum: pk3.checksum ^ 1 });
+    await createOldVault(4, [], [
+      { ...storedRow(), isValid: false, diagnosis: STALE_DIAGNOSIS, foundAt: 'Box 1, slot 1' },
+      { ...storedRow({ pk3Data: damaged }), isValid: false, diagnosis: STALE_DIAGNOSIS, foundAt: 'Box 1, slot 2' },
+    ]);
+
+    await getVaultDb();
+    const vault = await getAllPokemon();
+    const quarantine = await getAllQuarantinedPokemon();
+
+    expect(vault).toHaveLength(1);
+    expect(vault[0]).toMatchObject({ species: 25, isValid: true, layoutVersion: PK3_LAYOUT_VERSION });
+    expect(vault[0]).not.toHaveProperty('diagnosis');
+    expect(vault[0]).not.toHaveProperty('foundAt');
+
+    expect(quarantine).toHaveLength(1);
+    expect(quarantine[0]).toMatchObject({ id: 2, species: 25, foundAt: 'Box 1, slot 2' });
+    expect(quarantine[0]!.diagnosis.causes).toEqual(['checksum-mismatch']);
+  });
+
+  it('should return the existing backup for a save with the same contents', async () => {
+    const id = await addSaveBackup(saveBackup());
+
+    await expect(addSaveBackup(saveBackup({ kind: 'injected', createdAt: 1 }))).resolves.toBe(id);
+    await expect(Promise.all([addSaveBackup(saveBackup()), addSaveBackup(saveBackup())])).resolves.toEqual([id, id]);
+    expect(await getAllSaveBackups()).toEqual([{ ...saveBackup(), id }]);
+  });
+
+  it('should add the backup and quarantine stores to a v2 vault', async () => {
+    await createOldVault(2, [storedRow()]);
+
+    const db = await getVaultDb();
+    expect([...db.objectStoreNames].sort()).toEqual(['hallOfFame', 'pokemon', 'quarantine', 'saveBackups']);
+    expect(await getAllPokemon()).toEqual([expect.objectContaining({ id: 1, species: 25, layoutVersion: PK3_LAYOUT_VERSION })]);
+
+    const id = await addSaveBackup(saveBackup());
+    await expect(addSaveBackup(saveBackup())).resolves.toBe(id);
+  });
+});
@@ -4,24 +4,34 @@
  */
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Pk3Data } from '../gen3/pk3/pk3';
+import type { Gen3HallOfFameMon } from '../gen3/save/hallOfFame';
+import { PK3_LAYOUT_VERSION, type StoredPokemon, type StoredQuarantinedPokemon } from './vaultRows';
+import { migrateSubstructureOrder, migrateQuarantinedPokemon } from './vaultMigrations';
 
-export interface StoredPokemon {
+export type { StoredPokemon, StoredQuarantinedPokemon } from './vaultRows';
+
+export interface StoredHallOfFameTeam {
   id?: number; // Auto-generated primary key
-  pk3Data: ArrayBuffer; // Serialized pk3 structure
-  personality: number; // PID (for indexing)
-  species: number; // Species ID
-  nickname: string; // Decoded nickname
-  otName: string; // Decoded OT name
-  level: number; // Calculated level
-  tid: number; // Trainer ID
-  sid: number; // Secret ID
-  isValid: boolean; // Checksum validity
-  sourceGame?: string; // Ruby/Sapphire/Emerald/FireRed/LeafGreen or "Gen 1/2 (Converted)"
-  sourceGeneration?: number; // 1, 2, or 3 - tracks original generation
+  entry: number; // Entry order within the source save's Hall of Fame
+  pokemon: Gen3HallOfFameMon[];
+  sourceGame: string;
+  sourceTrainerName: string;
+  sourceTrainerId: number;
   importedAt: number; // Timestamp
 }
 
+export interface StoredSaveBackup {
+  id?: number; // Auto-generated primary key
+  sha256: string; // Hex digest of the file contents
+  fileName: string;
+  kind: 'original' | 'injected'; // Loaded for injection, or produced by it
+  game: string; // Detected game group name
+  trainerName: string;
+  trainerId: number;
+  data: ArrayBuffer; // Full 128KB save file
+  createdAt: number; // Timestamp
+}
+
 interface VaultDB extends DBSchema {
   pokemon: {
     key: number;
@@ -33,10 +43,32 @@ interface VaultDB extends DBSchema {
       importedAt: number;
     };
   };
+  hallOfFame: {
+    key: number;
+    value: StoredHallOfFameTeam;
+    indexes: {
+      sourceTrainerId: number;
+    };
+  };
+  saveBackups: {
+    key: number;
+    value: StoredSaveBackup;
+    indexes: {
+      sha256: string;
+      createdAt: number;
+    };
+  };
+  quarantine: {
+    key: number;
+    value: StoredQuarantinedPokemon;
+    indexes: {
+      importedAt: number;
+    };
+  };
 }
 
 const DB_NAME = 'professors-pc-vault';
-const DB_VERSION = 1;
+const DB_VERSION = 5;
 
 let dbInstance: IDBPDatabase<VaultDB> | null = null;
 
@@ -49,18 +81,85 @@ export async function getVaultDb(): Promise<IDBPDatabase<VaultDB>> {
   }
 
   dbInstance = await openDB<VaultDB>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      // Create pokemon store
-      const pokemonStore = db.createObjectStore('pokemon', {
-        keyPath: 'id',
-        autoIncrement: true,
-      });
-
-      // Create indexes
-      pokemonStore.createIndex('personality', 'personality', { unique: false });
-      pokemonStore.createIndex('species', 'species', { unique: false });
-      pokemonStore.createIndex('tid', 'tid', { unique: false });
-      pokemonStore.createIndex('importedAt', 'importedAt', { unique: false });
+    async upgrade(db, oldVersion, _newVersion, transaction) {
+      if (oldVersion < 1) {
+        // Create pokemon store
+        const pokemonStore = db.createObjectStore('pokemon', {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+
+        // Create indexes
+        pokemonStore.createIndex('personality', 'personality', { unique: false });
+        pokemonStore.createIndex('species', 'species', { unique: false });
+        pokemonStore.createIndex('tid', 'tid', { unique: false });
+        pokemonStore.createIndex('importedAt', 'importedAt', { unique: false });
+      }
+
+      if (oldVersion < 2) {
+        // Hall of Fame snapshots
+        const hallOfFameStore = db.createObjectStore('hallOfFame', {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        hallOfFameStore.createIndex('sourceTrainerId', 'sourceTrainerId', { unique: false });
+      }
+
+      if (oldVersion < 3) {
+        // Copies of every save loaded for injection and every injected output
+        const backupStore = db.createObjectStore('saveBackups', {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        backupStore.createIndex('sha256', 'sha256', { unique: true });
+        backupStore.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+
+      if (oldVersion < 4) {
+        // Bad Eggs kept out of the main list
+        const quarantineStore = db.createObjectStore('quarantine', {
+          keyPath: 'id',
+          autoIncrement: true,
+        });
+        quarantineStore.createIndex('importedAt', 'importedAt', { unique: false });
+      }
+
+      if (oldVersion >= 1 && oldVersion < 5) {
+        // Species, level and names were derived with the substructure order misread.
+        // Rows that cannot be read are left as they are rather than failing the upgrade
+        let cursor = await transaction.objectStore('pokemon').openCursor();
+        while (cursor) {
+          let migrated: StoredPokemon | null = null;
+          try {
+            migrated = migrateSubstructureOrder(cursor.value);
+          } catch (err) {
+            console.warn(`Left vault row ${cursor.primaryKey} unmigrated:`, err);
+          }
+          if (migrated) {
+            await cursor.update(migrated);
+          }
+          cursor = await cursor.continue();
+        }
+
+        // Bad Eggs were diagnosed under the same misreading; those that read
+        // cleanly now move into the vault
+        let quarantineCursor = await transaction.objectStore('quarantine').openCursor();
+        while (quarantineCursor) {
+          let migrated: StoredQuarantinedPokemon | StoredPokemon | null = null;
+          try {
+            migrated = migrateQuarantinedPokemon(quarantineCursor.value);
+          } catch (err) {
+            console.warn(`Left quarantined row ${quarantineCursor.primaryKey} unmigrated:`, err);
+          }
+          if (migrated && 'diagnosis' in migrated) {
+            await quarantineCursor.update(migrated);
+          } else if (migrated) {
+            await transaction.objectStore('pokemon').add(migrated);
+            await quarantineCursor.delete();
+          }
+          quarantineCursor = await quarantineCursor.continue();
+        }
+      }
     },
   });
 
@@ -72,7 +171,7 @@ export async function getVaultDb(): Promise<IDBPDatabase<VaultDB>> {
  */
 export async function addPokemon(pokemon: StoredPokemon): Promise<number> {
   const db = await getVaultDb();
-  return await db.add('pokemon', pokemon);
+  return await db.add('pokemon', withLayout(pokemon));
 }
 
 /**
@@ -83,7 +182,7 @@ export async function addMultiplePokemon(pokemon: StoredPokemon[]): Promise<numb
   const tx = db.transaction('pokemon', 'readwrite');
   const store = tx.objectStore('pokemon');
 
-  const ids = await Promise.all(pokemon.map(p => store.add(p)));
+  const ids = await Promise.all(pokemon.map(p => store.add(withLayout(p))));
   await tx.done;
 
   return ids;
@@ -129,7 +228,7 @@ export async function updatePokemon(pokemon: StoredPokemon): Promise<void> {
     throw new Error('Cannot update Pokémon without ID');
   }
   const db = await getVaultDb();
-  await db.put('pokemon', pokemon);
+  await db.put('pokemon', withLayout(pokemon));
 }
 
 /**
@@ -180,52 +279,125 @@ export async function getRecentPokemon(limit = 10): Promise<StoredPokemon[]> {
 }
 
 /**
- * Close the database connection
+ * Quarantine Pokémon that the game would show as Bad Eggs
  */
-export async function closeVaultDb(): Promise<void> {
-  if (dbInstance) {
-    dbInstance.close();
-    dbInstance = null;
-  }
+export async function addQuarantinedPokemon(pokemon: StoredQuarantinedPokemon[]): Promise<number[]> {
+  const db = await getVaultDb();
+  const tx = db.transaction('quarantine', 'readwrite');
+  const store = tx.objectStore('quarantine');
+
+  const ids = await Promise.all(pokemon.map(p => store.add(withLayout(p))));
+  await tx.done;
+
+  return ids;
 }
 
 /**
- * Helper to serialize Pk3Data to ArrayBuffer for storage
+ * Get all quarantined Pokémon
  */
-export function serializePk3ForStorage(pk3: Pk3Data): ArrayBuffer {
-  const buffer = new ArrayBuffer(80); // pk3 is 80 bytes
-  const view = new DataView(buffer);
+export async function getAllQuarantinedPokemon(): Promise<StoredQuarantinedPokemon[]> {
+  const db = await getVaultDb();
+  return await db.getAll('quarantine');
+}
 
-  view.setUint32(0x00, pk3.personality, true);
-  view.setUint32(0x04, pk3.otId, true);
+/**
+ * Delete a quarantined Pokémon
+ */
+export async function deleteQuarantinedPokemon(id: number): Promise<void> {
+  const db = await getVaultDb();
+  await db.delete('quarantine', id);
+}
 
-  new Uint8Array(buffer, 0x08, 10).set(pk3.nickname);
-  view.setUint16(0x12, pk3.language, true);
-  new Uint8Array(buffer, 0x14, 7).set(pk3.otName);
-  
-  view.setUint8(0x1B, pk3.markings);
-  view.setUint16(0x1C, pk3.checksum, true);
-  view.setUint16(0x1E, pk3.unknown, true);
-  new Uint8Array(buffer, 0x20, 48).set(pk3.data);
+/**
+ * Move a repaired Pokémon out of quarantine and into the vault; if it cannot
+ * be added, the transaction aborts and the Bad Egg stays in quarantine
+ */
+export async function releaseFromQuarantine(id: number, repaired: StoredPokemon): Promise<number> {
+  const db = await getVaultDb();
+  const tx = db.transaction(['quarantine', 'pokemon'], 'readwrite');
+  const [newId] = await Promise.all([
+    tx.objectStore('pokemon').add(withLayout(repaired)),
+    tx.objectStore('quarantine').delete(id),
+    tx.done,
+  ]);
+
+  return newId;
+}
+
+/**
+ * Archive Hall of Fame teams
+ */
+export async function addHallOfFameTeams(teams: StoredHallOfFameTeam[]): Promise<number[]> {
+  const db = await getVaultDb();
+  const tx = db.transaction('hallOfFame', 'readwrite');
+  const store = tx.objectStore('hallOfFame');
+
+  const ids = await Promise.all(teams.map(t => store.add(t)));
+  await tx.done;
 
-  return buffer;
+  return ids;
 }
 
 /**
- * Helper to deserialize Pk3Data from ArrayBuffer
+ * Get all archived Hall of Fame teams
  */
-export function deserializePk3FromStorage(buffer: ArrayBuffer): Pk3Data {
-  const view = new DataView(buffer);
+export async function getAllHallOfFameTeams(): Promise<StoredHallOfFameTeam[]> {
+  const db = await getVaultDb();
+  return await db.getAll('hallOfFame');
+}
 
-  return {
-    personality: view.getUint32(0x00, true),
-    otId: view.getUint32(0x04, true),
-    nickname: new Uint8Array(buffer, 0x08, 10),
-    language: view.getUint16(0x12, true),
-    otName: new Uint8Array(buffer, 0x14, 7),
-    markings: view.getUint8(0x1B),
-    checksum: view.getUint16(0x1C, true),
-    unknown: view.getUint16(0x1E, true),
-    data: new Uint8Array(buffer, 0x20, 48),
-  };
+/**
+ * Store a save backup, unless a file with the same contents is already stored
+ * Returns the ID of the new or existing backup
+ */
+export async function addSaveBackup(backup: StoredSaveBackup): Promise<number> {
+  const db = await getVaultDb();
+  const tx = db.transaction('saveBackups', 'readwrite');
+  const existing = await tx.store.index('sha256').getKey(backup.sha256);
+  const id = existing ?? await tx.store.add(backup);
+  await tx.done;
+
+  return id;
+}
+
+/**
+ * Get a stored save backup
+ */
+export async function getSaveBackup(id: number): Promise<StoredSaveBackup | undefined> {
+  const db = await getVaultDb();
+  return await db.get('saveBackups', id);
+}
+
+/**
+ * Get all save backups, newest first
+ */
+export async function getAllSaveBackups(): Promise<StoredSaveBackup[]> {
+  const db = await getVaultDb();
+  const all = await db.getAllFromIndex('saveBackups', 'createdAt');
+  return all.reverse();
+}
+
+/**
+ * Delete a save backup
+ */
+export async function deleteSaveBackup(id: number): Promise<void> {
+  const db = await getVaultDb();
+  await db.delete('saveBackups', id);
+}
+
+/**
+ * Record the pk3 layout a row is written in, so later migrations need not guess
+ */
+function withLayout<T extends StoredPokemon>(pokemon: T): T {
+  return { ...pokemon, layoutVersion: PK3_LAYOUT_VERSION };
+}
+
+/**
+ * Close the database connection
+ */
+export async function closeVaultDb(): Promise<void> {
+  if (dbInstance) {
+    dbInstance.close();
+    dbInstance = null;
+  }
 }
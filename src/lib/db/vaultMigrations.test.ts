@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { migrateSubstructureOrder } from './vaultMigrations';
+import { serializePk3ForStorage, deserializePk3FromStorage, PK3_LAYOUT_VERSION, type StoredPokemon } from './vaultRows';
+import { decryptAndUnshufflePk3, encryptPk3Data, verifyPk3Checksum, type Pk3Data } from '../gen3/pk3/pk3';
+import { parseGrowth } from '../gen3/pk3/substruct';
+import { createTestPk3 } from '../../test/gen3SaveFixture';
+
+// Order 3 stores GEMA; the old reading put the substructures in G, M, A, E order
+const PERSONALITY = 3;
+
+function storedRow(pk3: Pk3Data, source: Partial<StoredPokemon>): StoredPokemon {
+  return {
+    pk3Data: serializePk3ForStorage(pk3),
+    personality: pk3.personality,
+    species: 0,
+    nickname: '',
+    otName: '',
+    level: 0,
+    tid: 0,
+    sid: 0,
+    isValid: true,
+    importedAt: 0,
+    ...source,
+  };
+}
+
+/**
+ * Write a pk3 the way the old shuffle did: position p holds substructure order[p]
+ */
+function withLegacyLayout(pk3: Pk3Data): Pk3Data {
+  const { growth, attacks, evs, misc } = decryptAndUnshufflePk3(pk3);
+  const data = new Uint8Array(48);
+  [growth, misc, attacks, evs].forEach((substructure, position) => data.set(substructure, position * 12));
+  return { ...pk3, data: encryptPk3Data(data, pk3.personality, pk3.otId) };
+}
+
+describe('Vault migrations', () => {
+  it('should re-derive species, level and names for rows already in the game layout', () => {
+    const pk3 = createTestPk3({ species: 25, personality: PERSONALITY, experience: 8000 });
+    const migrated = migrateSubstructureOrder(storedRow(pk3, { sourceGame: 'Emerald', sourceGeneration: 3 }));
+
+    expect(new Uint8Array(migrated.pk3Data)).toEqual(new Uint8Array(serializePk3ForStorage(pk3)));
+    expect(migrated.species).toBe(25);
+    expect(migrated.level).toBe(20);
+    expect(migrated.nickname).toBe('ABC');
+    expect(migrated.otName).toBe('TEST');
+    expect(migrated.layoutVersion).toBe(PK3_LAYOUT_VERSION);
+  });
+
+  it('should move bytes this app shuffled in the old layout into the game layout', () => {
+    const pk3 = createTestPk3({ species: 25, personality: PERSONALITY });
+
+    const sources = [
+      { sourceGame: 'Gold (Gen 2 → Gen 3)', sourceGeneration: 2 },
+      { sourceGame: 'Emerald (.pk3 file)', sourceGeneration: 3 },
+    ];
+    for (const source of sources) {
+      const migrated = migrateSubstructureOrder(storedRow(withLegacyLayout(pk3), source));
+      const repaired = deserializePk3FromStorage(migrated.pk3Data);
+
+      expect(repaired.data).toEqual(pk3.data);
+      expect(verifyPk3Checksum(repaired)).toBe(true);
+      expect(parseGrowth(decryptAndUnshufflePk3(repaired).growth).species).toBe(25);
+      expect(migrated.species).toBe(25);
+    }
+  });
+
+  it('should leave rows that record their layout alone', () => {
+    const legacy = storedRow(withLegacyLayout(createTestPk3({ species: 25, personality: PERSONALITY })), {
+      sourceGame: 'Emerald (.pk3 file)',
+      sourceGeneration: 3,
+      layoutVersion: PK3_LAYOUT_VERSION,
+    });
+
+    expect(migrateSubstructureOrder(legacy)).toBe(legacy);
+  });
+
+  it('should only stamp generated event Pokémon, which are never shuffled', () => {
+    const event = storedRow(createTestPk3({ species: 25, personality: PERSONALITY }), {
+      species: 251,
+      sourceGame: 'Event: CELEBI',
+      sourceGeneration: 2,
+    });
+    const migrated = migrateSubstructureOrder(event);
+
+    expect(migrated.pk3Data).toBe(event.pk3Data);
+    expect(migrated.species).toBe(251);
+    expect(migrated.layoutVersion).toBe(PK3_LAYOUT_VERSION);
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Vault row migrations
+ * Repairs rows written while the pk3 substructure order table was read
+ * backwards: positions were taken as substructure indexes, which misplaces
+ * the data for 14 of the 24 orders
+ */
+
+import {
+  decryptPk3Data,
+  shuffleAndEncryptPk3,
+  unshufflePk3Data,
+  type Pk3Substructures,
+} from '../gen3/pk3/pk3';
+import { parseGrowth, calculateLevel } from '../gen3/pk3/substruct';
+import { PK3_SUBSTRUCTURE_ORDERS } from '../gen3/save/constants';
+import { diagnoseBadEgg } from '../gen3/pk3/badEgg';
+import { decodeGen3String } from '../species/speciesTranscode';
+import {
+  serializePk3ForStorage,
+  deserializePk3FromStorage,
+  PK3_LAYOUT_VERSION,
+  type StoredPokemon,
+  type StoredQuarantinedPokemon,
+} from './vaultRows';
+
+const SUBSTRUCTURE_SIZE = 12;
+
+/**
+ * Re-derive a row's species, level and names from its pk3 bytes, first moving
+ * the bytes into the game's layout if this app wrote them in the old one
+ *
+ * Rows without a layoutVersion predate it, so their layout follows from where
+ * they came from: bytes taken straight from a save or .ek3 are already in the
+ * game's layout, while Gen 1/2 conversions and decrypted .pk3 imports were
+ * shuffled by this app. Bad Eggs repaired before the layout was recorded keep
+ * their source game and cannot be told apart, so they are read as game layout
+ */
+export function migrateSubstructureOrder<T extends StoredPokemon>(stored: T): T {
+  if (stored.layoutVersion === PK3_LAYOUT_VERSION) {
+    return stored;
+  }
+  // Generated event Pokémon are written unshuffled and unencrypted either way
+  if (stored.sourceGame?.startsWith('Event')) {
+    return { ...stored, layoutVersion: PK3_LAYOUT_VERSION };
+  }
+
+  let pk3 = deserializePk3FromStorage(stored.pk3Data);
+  if (shuffledByApp(stored)) {
+    const decrypted = decryptPk3Data(pk3.data, pk3.personality, pk3.otId);
+    pk3 = { ...pk3, data: shuffleAndEncryptPk3(unshuffleLegacy(decrypted, pk3.personality), pk3.personality, pk3.otId) };
+  }
+
+  const growth = parseGrowth(unshufflePk3Data(decryptPk3Data(pk3.data, pk3.personality, pk3.otId), pk3.personality).growth);
+  return {
+    ...stored,
+    pk3Data: serializePk3ForStorage(pk3),
+    species: growth.species,
+    level: calculateLevel(growth.experience, growth.species),
+    nickname: decodeGen3String(pk3.nickname),
+    otName: decodeGen3String(pk3.otName),
+    layoutVersion: PK3_LAYOUT_VERSION,
+  };
+}
+
+/**
+ * Migrate a quarantined row and diagnose it again, since its diagnosis was made
+ * with the order misread. Returns the row for the vault if it is not a Bad Egg
+ */
+export function migrateQuarantinedPokemon(stored: StoredQuarantinedPokemon): StoredQuarantinedPokemon | StoredPokemon {
+  const migrated = migrateSubstructureOrder(stored);
+  const diagnosis = diagnoseBadEgg(deserializePk3FromStorage(migrated.pk3Data));
+  if (diagnosis) {
+    return { ...migrated, diagnosis };
+  }
+
+  const { id: _id, diagnosis: _diagnosis, foundAt: _foundAt, ...pokemon } = migrated;
+  return { ...pokemon, isValid: true };
+}
+
+function shuffledByApp(stored: StoredPokemon): boolean {
+  return stored.sourceGeneration === 1
+    || stored.sourceGeneration === 2
+    || (stored.sourceGame?.endsWith('(.pk3 file)') ?? false);
+}
+
+/**
+ * The old reading: the substructure stored at position p is order[p]
+ */
+function unshuffleLegacy(decrypted: Uint8Array, personality: number): Pk3Substructures {
+  const order = PK3_SUBSTRUCTURE_ORDERS[personality % 24]!;
+  const at = (index: number) => {
+    const position = order.indexOf(index);
+    return decrypted.slice(position * SUBSTRUCTURE_SIZE, (position + 1) * SUBSTRUCTURE_SIZE);
+  };
+  return { growth: at(0), attacks: at(1), evs: at(2), misc: at(3) };
+}
@@ -0,0 +1,79 @@
+/**
+ * Vault row formats
+ * The rows kept in the vault's Pokémon stores and the 80-byte pk3 layout
+ * each one carries in pk3Data
+ */
+
+import type { Pk3Data } from '../gen3/pk3/pk3';
+import type { BadEggDiagnosis } from '../gen3/pk3/badEgg';
+
+/**
+ * Substructure layout of the pk3 bytes this app writes; rows stored before the
+ * layout was recorded have no layoutVersion
+ */
+export const PK3_LAYOUT_VERSION = 1;
+
+export interface StoredPokemon {
+  id?: number; // Auto-generated primary key
+  pk3Data: ArrayBuffer; // Serialized pk3 structure
+  personality: number; // PID (for indexing)
+  species: number; // Species ID
+  nickname: string; // Decoded nickname
+  otName: string; // Decoded OT name
+  level: number; // Calculated level
+  tid: number; // Trainer ID
+  sid: number; // Secret ID
+  isValid: boolean; // Checksum validity
+  sourceGame?: string; // Ruby/Sapphire/Emerald/FireRed/LeafGreen or "Gen 1/2 (Converted)"
+  sourceGeneration?: number; // 1, 2, or 3 - tracks original generation
+  sourceTrainerName?: string; // Owner of the save the Pokémon was imported from
+  sourceTrainerId?: number; // Public TID of the save owner
+  importedAt: number; // Timestamp
+  layoutVersion?: number; // PK3_LAYOUT_VERSION of the app that wrote pk3Data
+}
+
+export interface StoredQuarantinedPokemon extends StoredPokemon {
+  diagnosis: BadEggDiagnosis;
+  foundAt: string; // Where in the source save it was found, e.g. "Box 3, slot 12"
+}
+
+/**
+ * Helper to serialize Pk3Data to ArrayBuffer for storage
+ */
+export function serializePk3ForStorage(pk3: Pk3Data): ArrayBuffer {
+  const buffer = new ArrayBuffer(80); // pk3 is 80 bytes
+  const view = new DataView(buffer);
+
+  view.setUint32(0x00, pk3.personality, true);
+  view.setUint32(0x04, pk3.otId, true);
+
+  new Uint8Array(buffer, 0x08, 10).set(pk3.nickname);
+  view.setUint16(0x12, pk3.language, true);
+  new Uint8Array(buffer, 0x14, 7).set(pk3.otName);
+  
+  view.setUint8(0x1B, pk3.markings);
+  view.setUint16(0x1C, pk3.checksum, true);
+  view.setUint16(0x1E, pk3.unknown, true);
+  new Uint8Array(buffer, 0x20, 48).set(pk3.data);
+
+  return buffer;
+}
+
+/**
+ * Helper to deserialize Pk3Data from ArrayBuffer
+ */
+export function deserializePk3FromStorage(buffer: ArrayBuffer): Pk3Data {
+  const view = new DataView(buffer);
+
+  return {
+    personality: view.getUint32(0x00, true),
+    otId: view.getUint32(0x04, true),
+    nickname: new Uint8Array(buffer, 0x08, 10),
+    language: view.getUint16(0x12, true),
+    otName: new Uint8Array(buffer, 0x14, 7),
+    markings: view.getUint8(0x1B),
+    checksum: view.getUint16(0x1C, true),
+    unknown: view.getUint16(0x1E, true),
+    data: new Uint8Array(buffer, 0x20, 48),
+  };
+}
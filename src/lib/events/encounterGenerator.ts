@@ -15,7 +15,8 @@ import {
 } from './encounterTypes';
 import { Pk3Data } from '../gen3/pk3/pk3';
 import { encodeGen3String } from '../species/speciesTranscode';
-import { StoredPokemon, serializePk3ForStorage } from '../db/vaultDb';
+import { StoredPokemon } from '../db/vaultDb';
+import { serializePk3ForStorage } from '../db/vaultRows';
 
 /**
  * Generate a random personality value (PID)
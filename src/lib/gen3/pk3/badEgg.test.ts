@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseBadEgg, recoverBadEgg } from './badEgg';
+import {
+  decryptAndUnshufflePk3,
+  shuffleAndEncryptPk3,
+  shufflePk3Data,
+  encryptPk3Data,
+  calculatePk3Checksum,
+  verifyPk3Checksum,
+  type Pk3Data,
+} from './pk3';
+import { parseGrowth } from './substruct';
+import { createTestPk3 } from '../../../test/gen3SaveFixture';
+
+// PID 0x12345678 uses substructure order 0 (Growth, Attacks, EVs, Misc)
+const PERSONALITY = 0x12345678;
+
+describe('Bad Egg detection', () => {
+  it('should not flag a healthy Pokémon', () => {
+    expect(diagnoseBadEgg(createTestPk3({ species: 25, personality: PERSONALITY }))).toBeNull();
+  });
+
+  it('should repair a checksum mismatch', () => {
+    const pk3 = createTestPk3({ species: 25, personality: PERSONALITY });
+    const damaged = { ...pk3, checksum: (pk3.checksum + 1) & 0xFFFF };
+
+    const diagnosis = diagnoseBadEgg(damaged)!;
+    expect(diagnosis.causes).toEqual(['checksum-mismatch']);
+    expect(diagnosis.recoverable).toBe(true);
+
+    const recovered = recoverBadEgg(damaged);
+    expect(verifyPk3Checksum(recovered)).toBe(true);
+    expect(recovered.data).toEqual(pk3.data);
+  });
+
+  it('should not repair a checksum mismatch over data that is no longer a Pokémon', () => {
+    const pk3 = createTestPk3({ species: 25, personality: PERSONALITY });
+    const substructures = decryptAndUnshufflePk3(pk3);
+    new DataView(substructures.attacks.buffer).setUint16(0, 0xFFFF, true); // No such move
+    const damaged: Pk3Data = {
+      ...pk3,
+      data: shuffleAndEncryptPk3(substructures, pk3.personality, pk3.otId),
+    };
+
+    const diagnosis = diagnoseBadEgg(damaged)!;
+    expect(diagnosis.causes).toEqual(['checksum-mismatch']);
+    expect(diagnosis.recoverable).toBe(false);
+    expect(diagnosis.details).toContainEqual(expect.stringContaining('more than the checksum is damaged'));
+    expect(() => recoverBadEgg(damaged)).toThrow('Bad Egg cannot be recovered');
+  });
+
+  it('should read and clear the Bad Egg flag in the sanity byte', () => {
+    const pk3 = createTestPk3({ species: 25, personality: PERSONALITY });
+    const flagged = { ...pk3, language: pk3.language | 0x0100 };
+
+    expect(diagnoseBadEgg(flagged)!.causes).toEqual(['bad-egg-flag']);
+
+    const recovered = recoverBadEgg(flagged);
+    expect(recovered.language).toBe(pk3.language);
+    expect(diagnoseBadEgg(recovered)).toBeNull();
+  });
+
+  it('should find data shuffled for a different PID and reshuffle it', () => {
+    const pk3 = createTestPk3({ species: 25, personality: PERSONALITY });
+    const substructures = decryptAndUnshufflePk3(pk3);
+    // Order 12 puts the EVs first, where this PID expects the species
+    const misshuffled: Pk3Data = {
+      ...pk3,
+      data: encryptPk3Data(shufflePk3Data(substructures, 12), pk3.personality, pk3.otId),
+    };
+
+    const diagnosis = diagnoseBadEgg(misshuffled)!;
+    expect(diagnosis.causes).toEqual(['shuffle-mismatch']);
+    expect(diagnosis.shuffleOrder).toBe(12);
+    expect(diagnosis.recoverable).toBe(true);
+
+    const recovered = recoverBadEgg(misshuffled);
+    expect(recovered.data).toEqual(pk3.data);
+    expect(parseGrowth(decryptAndUnshufflePk3(recovered).growth).species).toBe(25);
+  });
+
+  it('should report an unknown species as unrecoverable', () => {
+    const pk3 = createTestPk3({ species: 25, personality: PERSONALITY });
+    const substructures = decryptAndUnshufflePk3(pk3);
+    new DataView(substructures.growth.buffer).setUint16(0, 260, true); // Unused placeholder index
+    const garbage: Pk3Data = {
+      ...pk3,
+      checksum: calculatePk3Checksum(substructures),
+      data: shuffleAndEncryptPk3(substructures, pk3.personality, pk3.otId),
+    };
+
+    const diagnosis = diagnoseBadEgg(garbage)!;
+    expect(diagnosis.causes).toEqual(['species-out-of-range']);
+    expect(diagnosis.recoverable).toBe(false);
+    expect(() => recoverBadEgg(garbage)).toThrow('Bad Egg cannot be recovered');
+  });
+});
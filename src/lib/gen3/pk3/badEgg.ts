@@ -0,0 +1,133 @@
+/**
+ * Bad Egg detection
+ * Classifies why a pk3 would show up as a Bad Egg in game, and repairs the
+ * ones whose data is still intact
+ */
+
+import {
+  decryptPk3Data,
+  unshufflePk3Data,
+  shuffleAndEncryptPk3,
+  calculatePk3Checksum,
+  type Pk3Data,
+  type Pk3Substructures,
+} from './pk3';
+import { parseGrowth, parseAttacks, parseEVs, parseMisc } from './substruct';
+import { gen3InternalToNational } from '../../species/speciesTranscode';
+import { GEN3_NUM_MOVES, GEN3_EV_TOTAL_MAX, Gen3GameOrigin } from '../../constants/gen3';
+
+const SANITY_IS_BAD_EGG = 0x01;
+const SUBSTRUCTURE_ORDER_COUNT = 24;
+
+export type BadEggCause = 'checksum-mismatch' | 'bad-egg-flag' | 'species-out-of-range' | 'shuffle-mismatch';
+
+export interface BadEggDiagnosis {
+  causes: BadEggCause[];
+  details: string[]; // Explanations for the report
+  recoverable: boolean;
+  shuffleOrder: number | null; // Substructure order the data actually decodes under
+}
+
+/**
+ * Diagnose a pk3, or null if the game would load it normally
+ */
+export function diagnoseBadEgg(pk3: Pk3Data): BadEggDiagnosis | null {
+  const decrypted = decryptPk3Data(pk3.data, pk3.personality, pk3.otId);
+  const expectedOrder = pk3.personality % SUBSTRUCTURE_ORDER_COUNT;
+  const substructures = unshufflePk3Data(decrypted, pk3.personality);
+  const causes: BadEggCause[] = [];
+  const details: string[] = [];
+
+  // The checksum is a plain sum of the data, so it does not depend on the shuffle order
+  const checksum = calculatePk3Checksum(substructures);
+  const checksumValid = checksum === pk3.checksum;
+  if (!checksumValid) {
+    causes.push('checksum-mismatch');
+    details.push(`Stored checksum 0x${hex(pk3.checksum, 4)} does not match the data (0x${hex(checksum, 4)})`);
+  }
+
+  if (((pk3.language >>> 8) & SANITY_IS_BAD_EGG) !== 0) {
+    causes.push('bad-egg-flag');
+    details.push('The Bad Egg flag is set');
+  }
+
+  let shuffleOrder: number | null = null;
+  const species = parseGrowth(substructures.growth).species;
+  if (gen3InternalToNational(species) === 0) {
+    for (let order = 0; order < SUBSTRUCTURE_ORDER_COUNT && shuffleOrder === null; order++) {
+      if (order !== expectedOrder && isPlausible(unshufflePk3Data(decrypted, order))) {
+        shuffleOrder = order;
+      }
+    }
+
+    if (shuffleOrder !== null) {
+      causes.push('shuffle-mismatch');
+      details.push(`The data is shuffled in order ${shuffleOrder}, which belongs to a different PID (this PID uses order ${expectedOrder})`);
+    } else {
+      causes.push('species-out-of-range');
+      details.push(`Species index ${species} is not a Pokémon`);
+    }
+  }
+
+  if (causes.length === 0) {
+    return null;
+  }
+
+  // Without a readable species there is nothing to repair. A checksum mismatch
+  // can only be rewritten while the rest of the data still reads as a Pokémon;
+  // otherwise the flag, shuffle and checksum can all be rewritten
+  let recoverable = !causes.includes('species-out-of-range');
+  if (!checksumValid && recoverable) {
+    recoverable = isPlausible(shuffleOrder === null ? substructures : unshufflePk3Data(decrypted, shuffleOrder));
+    details.push(recoverable
+      ? 'Recomputing the checksum keeps the data as it is; stats may be wrong if the data itself was damaged'
+      : 'The moves, EVs or origin game are not valid, so more than the checksum is damaged');
+  }
+
+  return { causes, details, recoverable, shuffleOrder };
+}
+
+/**
+ * Repair a recoverable Bad Egg: reshuffle its data for its PID, clear the Bad
+ * Egg flag and recompute the checksum
+ */
+export function recoverBadEgg(pk3: Pk3Data): Pk3Data {
+  const diagnosis = diagnoseBadEgg(pk3);
+  if (!diagnosis) {
+    return pk3;
+  }
+  if (!diagnosis.recoverable) {
+    throw new Error(`Bad Egg cannot be recovered: ${diagnosis.details.join('; ')}`);
+  }
+
+  const decrypted = decryptPk3Data(pk3.data, pk3.personality, pk3.otId);
+  const substructures = unshufflePk3Data(decrypted, diagnosis.shuffleOrder ?? pk3.personality);
+
+  return {
+    ...pk3,
+    language: pk3.language & ~(SANITY_IS_BAD_EGG << 8),
+    checksum: calculatePk3Checksum(substructures),
+    data: shuffleAndEncryptPk3(substructures, pk3.personality, pk3.otId),
+  };
+}
+
+/**
+ * Whether the substructures decode to a real species with real moves, legal
+ * EVs and a known origin game
+ */
+export function isPlausible(substructures: Pk3Substructures): boolean {
+  const species = parseGrowth(substructures.growth).species;
+  const { move1, move2, move3, move4 } = parseAttacks(substructures.attacks);
+  const { hp, attack, defense, speed, spAtk, spDef } = parseEVs(substructures.evs);
+  const originGame = (parseMisc(substructures.misc).origins >>> 7) & 0xF;
+
+  return gen3InternalToNational(species) !== 0
+    && move1 !== 0
+    && [move1, move2, move3, move4].every(move => move <= GEN3_NUM_MOVES)
+    && hp + attack + defense + speed + spAtk + spDef <= GEN3_EV_TOTAL_MAX
+    && Object.values(Gen3GameOrigin).includes(originGame);
+}
+
+function hex(value: number, digits: number): string {
+  return value.toString(16).toUpperCase().padStart(digits, '0');
+}
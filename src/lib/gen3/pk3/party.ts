@@ -0,0 +1,156 @@
+/**
+ * Gen 3 party Pokémon (100-byte structure) implementation
+ * A party Pokémon is a regular 80-byte pk3 followed by 20 bytes of
+ * unencrypted battle data (status, level, HP and computed stats)
+ */
+
+import { readU8, readU16, readU32, writeU8, writeU16, writeU32, safeSlice } from '../../utils/bin';
+import { decodePk3, encodePk3, decryptAndUnshufflePk3, Pk3Data } from './pk3';
+import { parseGrowth, parseEVs, parseMisc, extractIVs, calculateLevel } from './substruct';
+import { calcGen3HP, calcGen3Stat, applyNatureModifier } from '../../parsers/statCalculations';
+import { getBaseStats } from '../../parsers/baseStats';
+import { gen3InternalToNational } from '../../species/speciesTranscode';
+import {
+  PK3_SIZE,
+  PK3_PARTY_SIZE,
+  PARTY_STATUS_OFFSET,
+  PARTY_LEVEL_OFFSET,
+  PARTY_MAIL_ID_OFFSET,
+  PARTY_CURRENT_HP_OFFSET,
+  PARTY_MAX_HP_OFFSET,
+  PARTY_ATTACK_OFFSET,
+  PARTY_DEFENSE_OFFSET,
+  PARTY_SPEED_OFFSET,
+  PARTY_SPATK_OFFSET,
+  PARTY_SPDEF_OFFSET,
+} from '../save/constants';
+import {
+  GEN3_STATUS_SLEEP_MASK,
+  GEN3_STATUS_POISONED,
+  GEN3_STATUS_BURNED,
+  GEN3_STATUS_FROZEN,
+  GEN3_STATUS_PARALYZED,
+  GEN3_STATUS_TOXIC,
+} from '../../constants/gen3';
+import { StatusCondition } from '../../types';
+
+// Shedinja always has exactly 1 max HP
+const SHEDINJA_NATIONAL_DEX = 292;
+// Mail ID stored when the Pokémon is not holding mail
+const NO_MAIL_ID = 0xFF;
+
+export interface PartyStats {
+  status: number; // Raw status condition bitfield
+  level: number;
+  mailId: number; // 0xFF when not holding mail
+  currentHp: number;
+  maxHp: number;
+  attack: number;
+  defense: number;
+  speed: number;
+  spAtk: number;
+  spDef: number;
+}
+
+export interface PartyPk3Data {
+  pk3: Pk3Data;
+  stats: PartyStats;
+}
+
+/**
+ * Decode a 100-byte party Pokémon
+ */
+export function decodePartyPk3(buffer: ArrayBuffer): PartyPk3Data {
+  if (buffer.byteLength !== PK3_PARTY_SIZE) {
+    throw new Error(`Invalid party pk3 size: expected ${PK3_PARTY_SIZE}, got ${buffer.byteLength}`);
+  }
+
+  const view = new DataView(buffer);
+  const pk3 = decodePk3(safeSlice(buffer, 0, PK3_SIZE));
+
+  return {
+    pk3,
+    stats: {
+      status: readU32(view, PARTY_STATUS_OFFSET),
+      level: readU8(view, PARTY_LEVEL_OFFSET),
+      mailId: readU8(view, PARTY_MAIL_ID_OFFSET),
+      currentHp: readU16(view, PARTY_CURRENT_HP_OFFSET),
+      maxHp: readU16(view, PARTY_MAX_HP_OFFSET),
+      attack: readU16(view, PARTY_ATTACK_OFFSET),
+      defense: readU16(view, PARTY_DEFENSE_OFFSET),
+      speed: readU16(view, PARTY_SPEED_OFFSET),
+      spAtk: readU16(view, PARTY_SPATK_OFFSET),
+      spDef: readU16(view, PARTY_SPDEF_OFFSET),
+    },
+  };
+}
+
+/**
+ * Encode a party Pokémon to a 100-byte ArrayBuffer
+ */
+export function encodePartyPk3(pk3: Pk3Data, stats: PartyStats): ArrayBuffer {
+  const buffer = new ArrayBuffer(PK3_PARTY_SIZE);
+  const view = new DataView(buffer);
+
+  new Uint8Array(buffer).set(new Uint8Array(encodePk3(pk3)), 0);
+
+  writeU32(view, PARTY_STATUS_OFFSET, stats.status >>> 0);
+  writeU8(view, PARTY_LEVEL_OFFSET, stats.level);
+  writeU8(view, PARTY_MAIL_ID_OFFSET, stats.mailId);
+  writeU16(view, PARTY_CURRENT_HP_OFFSET, stats.currentHp);
+  writeU16(view, PARTY_MAX_HP_OFFSET, stats.maxHp);
+  writeU16(view, PARTY_ATTACK_OFFSET, stats.attack);
+  writeU16(view, PARTY_DEFENSE_OFFSET, stats.defense);
+  writeU16(view, PARTY_SPEED_OFFSET, stats.speed);
+  writeU16(view, PARTY_SPATK_OFFSET, stats.spAtk);
+  writeU16(view, PARTY_SPDEF_OFFSET, stats.spDef);
+
+  return buffer;
+}
+
+/**
+ * Map the raw status bitfield to a status condition
+ * Bits 0-2 hold remaining sleep turns; toxic is reported as poisoned
+ */
+export function getStatusCondition(status: number): StatusCondition {
+  if ((status & GEN3_STATUS_SLEEP_MASK) !== 0) return StatusCondition.ASLEEP;
+  if ((status & (GEN3_STATUS_POISONED | GEN3_STATUS_TOXIC)) !== 0) return StatusCondition.POISONED;
+  if ((status & GEN3_STATUS_BURNED) !== 0) return StatusCondition.BURNED;
+  if ((status & GEN3_STATUS_FROZEN) !== 0) return StatusCondition.FROZEN;
+  if ((status & GEN3_STATUS_PARALYZED) !== 0) return StatusCondition.PARALYZED;
+  return StatusCondition.NONE;
+}
+
+/**
+ * Compute the party battle stats for a boxed Pokémon, as the game does when
+ * it moves a Pokémon into the party: level from experience, stats from base
+ * stats, IVs, EVs and nature, full HP and no status condition
+ */
+export function calculatePartyStats(pk3: Pk3Data): PartyStats {
+  const substructs = decryptAndUnshufflePk3(pk3);
+  const growth = parseGrowth(substructs.growth);
+  const evs = parseEVs(substructs.evs);
+  const ivs = extractIVs(parseMisc(substructs.misc).ivs);
+
+  const nationalDex = gen3InternalToNational(growth.species);
+  const base = getBaseStats(nationalDex);
+  const level = calculateLevel(growth.experience, growth.species);
+  const nature = pk3.personality % 25;
+
+  const maxHp = nationalDex === SHEDINJA_NATIONAL_DEX
+    ? 1
+    : calcGen3HP(base.hp, ivs.hp, evs.hp, level);
+
+  return {
+    status: 0,
+    level,
+    mailId: NO_MAIL_ID,
+    currentHp: maxHp,
+    maxHp,
+    attack: applyNatureModifier(calcGen3Stat(base.attack, ivs.attack, evs.attack, level), nature, 'attack'),
+    defense: applyNatureModifier(calcGen3Stat(base.defense, ivs.defense, evs.defense, level), nature, 'defense'),
+    speed: applyNatureModifier(calcGen3Stat(base.speed, ivs.speed, evs.speed, level), nature, 'speed'),
+    spAtk: applyNatureModifier(calcGen3Stat(base.specialAttack, ivs.spAtk, evs.spAtk, level), nature, 'specialAttack'),
+    spDef: applyNatureModifier(calcGen3Stat(base.specialDefense, ivs.spDef, evs.spDef, level), nature, 'specialDefense'),
+  };
+}
@@ -129,6 +129,40 @@ describe('pk3 Structure', () => {
       });
     });
 
+    it('should place each substructure at the position its order gives', () => {
+      const substructs = {
+        growth: new Uint8Array(12).fill(1),
+        attacks: new Uint8Array(12).fill(2),
+        evs: new Uint8Array(12).fill(3),
+        misc: new Uint8Array(12).fill(4),
+      };
+
+      // Order 8 (GAEM positions 2, 0, 1, 3) is stored as Attacks, EVs, Growth, Misc
+      const shuffled = shufflePk3Data(substructs, 8);
+      expect([shuffled[0], shuffled[12], shuffled[24], shuffled[36]]).toEqual([2, 3, 1, 4]);
+      expect(unshufflePk3Data(shuffled, 8)).toEqual(substructs);
+    });
+
+    it('should match the substructure layout of every order in pokeemerald', () => {
+      // Stored layout for PID % 24 (G = Growth, A = Attacks, E = EVs, M = Misc)
+      const layouts = [
+        'GAEM', 'GAME', 'GEAM', 'GEMA', 'GMAE', 'GMEA', 'AGEM', 'AGME', 'AEGM', 'AEMG', 'AMGE', 'AMEG',
+        'EGAM', 'EGMA', 'EAGM', 'EAMG', 'EMGA', 'EMAG', 'MGAE', 'MGEA', 'MAGE', 'MAEG', 'MEGA', 'MEAG',
+      ];
+      const substructs = {
+        growth: new Uint8Array(12).fill('G'.charCodeAt(0)),
+        attacks: new Uint8Array(12).fill('A'.charCodeAt(0)),
+        evs: new Uint8Array(12).fill('E'.charCodeAt(0)),
+        misc: new Uint8Array(12).fill('M'.charCodeAt(0)),
+      };
+
+      layouts.forEach((layout, order) => {
+        const shuffled = shufflePk3Data(substructs, order);
+        expect(String.fromCharCode(shuffled[0]!, shuffled[12]!, shuffled[24]!, shuffled[36]!)).toBe(layout);
+        expect(unshufflePk3Data(shuffled, order)).toEqual(substructs);
+      });
+    });
+
     it('should throw on invalid data size', () => {
       const invalidData = new Uint8Array(30);
       expect(() => unshufflePk3Data(invalidData, 0)).toThrow();
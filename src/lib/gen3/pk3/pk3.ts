@@ -22,7 +22,7 @@ export interface Pk3Data {
   personality: number; // PID
   otId: number; // Original Trainer ID (TID in lower 16 bits, SID in upper 16 bits)
   nickname: Uint8Array; // 10 bytes
-  language: number;
+  language: number; // Language in the low byte, sanity flags in the high byte
   otName: Uint8Array; // 7 bytes
   markings: number;
   checksum: number;
@@ -184,9 +184,9 @@ export function unshufflePk3Data(decryptedData: Uint8Array, personality: number)
 
   const outputs = [growth, attacks, evs, misc];
 
-  // Unshuffle: read from shuffled positions, write to correct substructure
+  // Unshuffle: read each substructure from the position the order gives it
   for (let i = 0; i < 4; i++) {
-    const sourceIndex = order.indexOf(i);
+    const sourceIndex = order[i] ?? 0;
     const sourceOffset = sourceIndex * 12;
     const output = outputs[i];
     
@@ -214,17 +214,17 @@ export function shufflePk3Data(substructures: Pk3Substructures, personality: num
   const shuffled = new Uint8Array(PK3_DATA_SIZE);
   const inputs = [substructures.growth, substructures.attacks, substructures.evs, substructures.misc];
 
-  // Shuffle: read from correct substructure, write to shuffled position
+  // Shuffle: write each substructure to the position the order gives it
   for (let i = 0; i < 4; i++) {
     const targetIndex = order[i];
     if (targetIndex === undefined) {
       throw new Error(`Invalid order value at index ${i}`);
     }
-    const targetOffset = i * 12;
-    const input = inputs[targetIndex];
+    const targetOffset = targetIndex * 12;
+    const input = inputs[i];
     
     if (!input) {
-      throw new Error(`Invalid input array at index ${targetIndex}`);
+      throw new Error(`Invalid input array at index ${i}`);
     }
 
     for (let j = 0; j < 12; j++) {
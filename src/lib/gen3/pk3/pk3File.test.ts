@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { readPk3File, writePk3File, getPk3FileName } from './pk3File';
+import { encodePk3, decryptAndUnshufflePk3, verifyPk3Checksum } from './pk3';
+import { calculatePartyStats } from './party';
+import { PK3_SIZE, PK3_PARTY_SIZE, PK3_DATA_OFFSET } from '../save/constants';
+import { createTestPk3 } from '../../../test/gen3SaveFixture';
+
+describe('Pokémon interchange files', () => {
+  const pk3 = createTestPk3({ species: 25, personality: 0x1A2B3C4D, experience: 1000 });
+  const stored = new Uint8Array(encodePk3(pk3));
+
+  it('should write .ek3 as the stored encrypted bytes and .pk3 with the data decrypted in order', () => {
+    expect(new Uint8Array(writePk3File(pk3, 'ek3'))).toEqual(stored);
+
+    const decrypted = new Uint8Array(writePk3File(pk3, 'pk3'));
+    const { growth, misc } = decryptAndUnshufflePk3(pk3);
+    expect(decrypted.subarray(0, PK3_DATA_OFFSET)).toEqual(stored.subarray(0, PK3_DATA_OFFSET));
+    expect(decrypted.subarray(PK3_DATA_OFFSET, PK3_DATA_OFFSET + 12)).toEqual(growth);
+    expect(decrypted.subarray(PK3_SIZE - 12)).toEqual(misc);
+  });
+
+  it('should read both formats back to the stored form', () => {
+    for (const format of ['pk3', 'ek3'] as const) {
+      const file = readPk3File(writePk3File(pk3, format), `pikachu.${format}`);
+      expect(file.format).toBe(format);
+      expect(file.partyStats).toBeNull();
+      expect(new Uint8Array(encodePk3(file.pk3))).toEqual(stored);
+    }
+  });
+
+  it('should detect the format when the extension is wrong or missing', () => {
+    expect(readPk3File(writePk3File(pk3, 'pk3'), 'pikachu.ek3').format).toBe('pk3');
+    expect(readPk3File(writePk3File(pk3, 'ek3')).format).toBe('ek3');
+  });
+
+  it('should read and write 100-byte party files', () => {
+    const buffer = writePk3File(pk3, 'pk3', { party: true });
+    expect(buffer.byteLength).toBe(PK3_PARTY_SIZE);
+
+    const file = readPk3File(buffer, 'pikachu.pk3');
+    expect(file.partyStats).toEqual(calculatePartyStats(pk3));
+    expect(new Uint8Array(encodePk3(file.pk3))).toEqual(stored);
+  });
+
+  it('should reject bad sizes, empty files and corrupted data', () => {
+    expect(() => readPk3File(new ArrayBuffer(136))).toThrow('Invalid Pokémon file size: 136 bytes');
+    expect(() => readPk3File(new ArrayBuffer(PK3_SIZE))).toThrow('Pokémon file is empty');
+
+    const corrupted = writePk3File(pk3, 'ek3');
+    new Uint8Array(corrupted)[PK3_DATA_OFFSET + 5]! ^= 0xFF;
+    expect(() => readPk3File(corrupted)).toThrow('fails its checksum');
+  });
+
+  it('should read corrupted data in the format its extension names', () => {
+    const corrupted = writePk3File(pk3, 'ek3');
+    new Uint8Array(corrupted)[PK3_DATA_OFFSET + 5]! ^= 0xFF;
+    const file = readPk3File(corrupted, 'pikachu.ek3');
+
+    expect(file.format).toBe('ek3');
+    expect(new Uint8Array(encodePk3(file.pk3))).toEqual(new Uint8Array(corrupted));
+    expect(verifyPk3Checksum(file.pk3)).toBe(false);
+  });
+
+  it('should name files by dex number, nickname and PID', () => {
+    expect(getPk3FileName(pk3, 'pk3')).toBe('025 - ABC - 1A2B3C4D.pk3');
+  });
+});
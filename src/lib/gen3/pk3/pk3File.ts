@@ -0,0 +1,107 @@
+/**
+ * Single-Pokémon interchange files
+ * Reads and writes .pk3 (decrypted, unshuffled) and .ek3 (encrypted, as stored
+ * in a save) files, in both the 80-byte box and 100-byte party variants
+ */
+
+import { isAllZero } from '../../utils/bin';
+import {
+  decodePk3,
+  encodePk3,
+  decryptAndUnshufflePk3,
+  shuffleAndEncryptPk3,
+  verifyPk3Checksum,
+  type Pk3Data,
+  type Pk3Substructures,
+} from './pk3';
+import { decodePartyPk3, encodePartyPk3, calculatePartyStats, type PartyStats } from './party';
+import { parseGrowth } from './substruct';
+import { gen3InternalToNational, decodeGen3String } from '../../species/speciesTranscode';
+import {
+  PK3_SIZE,
+  PK3_PARTY_SIZE,
+  PK3_DATA_OFFSET,
+  PK3_GROWTH_SIZE,
+  PK3_ATTACKS_SIZE,
+  PK3_EVS_SIZE,
+} from '../save/constants';
+
+export type Pk3FileFormat = 'pk3' | 'ek3';
+
+export interface Pk3File {
+  pk3: Pk3Data; // Always the encrypted form used in saves and the vault
+  format: Pk3FileFormat;
+  partyStats: PartyStats | null; // Battle stats from a 100-byte file
+}
+
+/**
+ * Read a .pk3 or .ek3 file; the format whose checksum verifies wins, and when
+ * neither does the extension decides, leaving the damage for Bad Egg diagnosis
+ */
+export function readPk3File(buffer: ArrayBuffer, fileName = ''): Pk3File {
+  if (buffer.byteLength !== PK3_SIZE && buffer.byteLength !== PK3_PARTY_SIZE) {
+    throw new Error(`Invalid Pokémon file size: ${buffer.byteLength} bytes (expected ${PK3_SIZE} or ${PK3_PARTY_SIZE})`);
+  }
+  if (isAllZero(new DataView(buffer), 0, PK3_SIZE)) {
+    throw new Error('Pokémon file is empty');
+  }
+
+  const partyStats = buffer.byteLength === PK3_PARTY_SIZE ? decodePartyPk3(buffer).stats : null;
+  const stored = decodePk3(buffer.slice(0, PK3_SIZE));
+  const candidates: Record<Pk3FileFormat, Pk3Data> = {
+    ek3: stored,
+    pk3: encryptDecryptedPk3(stored),
+  };
+  const extension = fileName.toLowerCase().split('.').pop();
+  const hinted = extension === 'pk3' || extension === 'ek3' ? extension : null;
+  const order: Pk3FileFormat[] = hinted === 'ek3' ? ['ek3', 'pk3'] : ['pk3', 'ek3'];
+
+  const format = order.find(candidate => verifyPk3Checksum(candidates[candidate])) ?? hinted;
+  if (!format) {
+    throw new Error('Pokémon file fails its checksum as both a .pk3 and an .ek3 file');
+  }
+
+  return { pk3: candidates[format], format, partyStats };
+}
+
+/**
+ * Write a Pokémon as a .pk3 or .ek3 file, optionally with party battle stats
+ */
+export function writePk3File(pk3: Pk3Data, format: Pk3FileFormat, options: { party?: boolean } = {}): ArrayBuffer {
+  const buffer = options.party ? encodePartyPk3(pk3, calculatePartyStats(pk3)) : encodePk3(pk3);
+
+  if (format === 'pk3') {
+    const { growth, attacks, evs, misc } = decryptAndUnshufflePk3(pk3);
+    const data = new Uint8Array(buffer, PK3_DATA_OFFSET);
+    data.set(growth, 0);
+    data.set(attacks, PK3_GROWTH_SIZE);
+    data.set(evs, PK3_GROWTH_SIZE + PK3_ATTACKS_SIZE);
+    data.set(misc, PK3_GROWTH_SIZE + PK3_ATTACKS_SIZE + PK3_EVS_SIZE);
+  }
+
+  return buffer;
+}
+
+/**
+ * File name in the usual "025 - PIKACHU - 1A2B3C4D.pk3" form
+ */
+export function getPk3FileName(pk3: Pk3Data, format: Pk3FileFormat): string {
+  const nationalDex = gen3InternalToNational(parseGrowth(decryptAndUnshufflePk3(pk3).growth).species);
+  const nickname = decodeGen3String(pk3.nickname).replace(/[\\/:*?"<>|]/g, '_');
+  const personality = pk3.personality.toString(16).toUpperCase().padStart(8, '0');
+  return `${nationalDex.toString().padStart(3, '0')} - ${nickname} - ${personality}.${format}`;
+}
+
+/**
+ * Encrypt a pk3 whose data is stored decrypted and unshuffled
+ */
+function encryptDecryptedPk3(pk3: Pk3Data): Pk3Data {
+  const substructures: Pk3Substructures = {
+    growth: pk3.data.slice(0, PK3_GROWTH_SIZE),
+    attacks: pk3.data.slice(PK3_GROWTH_SIZE, PK3_GROWTH_SIZE + PK3_ATTACKS_SIZE),
+    evs: pk3.data.slice(PK3_GROWTH_SIZE + PK3_ATTACKS_SIZE, PK3_GROWTH_SIZE + PK3_ATTACKS_SIZE + PK3_EVS_SIZE),
+    misc: pk3.data.slice(PK3_GROWTH_SIZE + PK3_ATTACKS_SIZE + PK3_EVS_SIZE),
+  };
+
+  return { ...pk3, data: shuffleAndEncryptPk3(substructures, pk3.personality, pk3.otId) };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { decodePk3Pokemon, encodePk3Pokemon, readPk3Pokemon, writePk3Pokemon } from './pk3Pokemon';
+import {
+  decodePk3,
+  encodePk3,
+  decryptAndUnshufflePk3,
+  shuffleAndEncryptPk3,
+  calculatePk3Checksum,
+  verifyPk3Checksum,
+  type Pk3Data,
+} from './pk3';
+import { parseGrowth, parseMisc, parseEVs, extractIVs } from './substruct';
+import { createTestPk3 } from '../../../test/gen3SaveFixture';
+
+/**
+ * A pk3 with every byte (including unused bits) filled from a seeded generator
+ */
+function createRandomPk3(seed: number): ArrayBuffer {
+  let state = seed;
+  const next = () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state >>> 24;
+  };
+  const bytes = (length: number) => Uint8Array.from({ length }, next);
+  const substructures = { growth: bytes(12), attacks: bytes(12), evs: bytes(12), misc: bytes(12) };
+  const personality = (next() << 24 | next() << 16 | next() << 8 | next()) >>> 0;
+  const otId = (next() << 24 | next() << 16 | next() << 8 | next()) >>> 0;
+
+  return encodePk3({
+    personality,
+    otId,
+    nickname: bytes(10),
+    language: next() | (next() << 8),
+    otName: bytes(7),
+    markings: next(),
+    checksum: calculatePk3Checksum(substructures),
+    unknown: next() | (next() << 8),
+    data: shuffleAndEncryptPk3(substructures, personality, otId),
+  });
+}
+
+describe('Pk3Pokemon model', () => {
+  it('should round-trip every bit of a pk3', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const buffer = createRandomPk3(seed);
+      expect(new Uint8Array(encodePk3Pokemon(decodePk3Pokemon(buffer)))).toEqual(new Uint8Array(buffer));
+    }
+  });
+
+  it('should read typed fields', () => {
+    const pokemon = readPk3Pokemon(createTestPk3({
+      species: 25,
+      heldItem: 13,
+      experience: 1000,
+      moves: [84, 45],
+      evs: [1, 2, 3, 4, 5, 6],
+      metLocation: 0x10,
+      origins: (3 << 7) | (4 << 11) | 5 | 0x8000,
+      ivs: 31 | (30 << 5) | (1 << 30) | (1 << 31),
+    }));
+
+    expect(pokemon).toMatchObject({
+      species: 25,
+      heldItem: 13,
+      experience: 1000,
+      metLocation: 0x10,
+      origins: { metLevel: 5, game: 3, ball: 4, otGender: 'female' },
+      evs: { hp: 1, attack: 2, defense: 3, speed: 4, spAtk: 5, spDef: 6 },
+      isEgg: true,
+      abilitySlot: 1,
+      fatefulEncounter: false,
+    });
+    expect(pokemon.ivs).toMatchObject({ hp: 31, attack: 30, defense: 0 });
+    expect(pokemon.moves.map(move => move.id)).toEqual([84, 45, 0, 0]);
+  });
+
+  it('should write edited fields with a valid checksum', () => {
+    const pokemon = readPk3Pokemon(createTestPk3({ species: 25 }));
+    pokemon.heldItem = 44;
+    pokemon.ivs = { hp: 31, attack: 31, defense: 31, speed: 31, spAtk: 31, spDef: 31 };
+    pokemon.moves[1] = { id: 85, pp: 15, ppUps: 3 };
+    pokemon.contest.sheen = 200;
+    pokemon.ribbons.cool = 4;
+    pokemon.ribbons.world = true;
+    pokemon.fatefulEncounter = true;
+    pokemon.sanityFlags.isBadEgg = true;
+    pokemon.language = 0x05;
+
+    const pk3: Pk3Data = writePk3Pokemon(pokemon);
+    expect(verifyPk3Checksum(pk3)).toBe(true);
+
+    const substructures = decryptAndUnshufflePk3(pk3);
+    const growth = parseGrowth(substructures.growth);
+    const misc = parseMisc(substructures.misc);
+    expect(growth.item).toBe(44);
+    expect((growth.ppBonuses >> 2) & 0x3).toBe(3);
+    expect(extractIVs(misc.ivs)).toMatchObject({ hp: 31, spDef: 31, isEgg: false });
+    expect(parseEVs(substructures.evs).feel).toBe(200);
+    expect(misc.ribbons & 0x7).toBe(4);
+    expect((misc.ribbons >>> 26) & 0x1).toBe(1);
+    expect(misc.ribbons >>> 31).toBe(1);
+    expect(pk3.language).toBe(0x0305); // The fixture already sets hasSpecies
+
+    expect(readPk3Pokemon(decodePk3(encodePk3(pk3)))).toEqual(pokemon);
+  });
+
+  it('should reject values that do not fit their fields', () => {
+    const pokemon = readPk3Pokemon(createTestPk3({ species: 25 }));
+
+    expect(() => writePk3Pokemon({ ...pokemon, ivs: { ...pokemon.ivs, speed: 32 } })).toThrow('Invalid pk3 speed IV: 32 (must be 0-31)');
+    expect(() => writePk3Pokemon({ ...pokemon, origins: { ...pokemon.origins, metLevel: 128 } })).toThrow('Invalid pk3 met level');
+    expect(() => writePk3Pokemon({ ...pokemon, moves: pokemon.moves.slice(0, 3) })).toThrow('expected 4, got 3');
+    expect(() => writePk3Pokemon({ ...pokemon, nickname: new Uint8Array(5) })).toThrow('expected 10 bytes');
+  });
+});
@@ -0,0 +1,348 @@
+/**
+ * Gen 3 editable Pokémon model
+ * Decodes every field of a pk3 into typed values and serializes it back to a
+ * shuffled, encrypted and checksummed 80-byte structure without losing bits
+ */
+
+import { readU8, readU16, readU32, writeU8, writeU16, writeU32 } from '../../utils/bin';
+import {
+  decodePk3,
+  encodePk3,
+  decryptAndUnshufflePk3,
+  shuffleAndEncryptPk3,
+  calculatePk3Checksum,
+  type Pk3Data,
+  type Pk3Substructures,
+} from './pk3';
+import {
+  PK3_GROWTH_SIZE,
+  PK3_ATTACKS_SIZE,
+  PK3_EVS_SIZE,
+  PK3_MISC_SIZE,
+  GROWTH_SPECIES_OFFSET,
+  GROWTH_ITEM_OFFSET,
+  GROWTH_EXPERIENCE_OFFSET,
+  GROWTH_PP_BONUSES_OFFSET,
+  GROWTH_FRIENDSHIP_OFFSET,
+  ATTACKS_MOVE1_OFFSET,
+  ATTACKS_PP1_OFFSET,
+  EVS_HP_OFFSET,
+  EVS_COOLNESS_OFFSET,
+  MISC_POKERUS_OFFSET,
+  MISC_MET_LOCATION_OFFSET,
+  MISC_ORIGINS_OFFSET,
+  MISC_IVS_OFFSET,
+  MISC_RIBBONS_OFFSET,
+} from '../save/constants';
+
+// Unused trailing bytes of the Growth substructure
+const GROWTH_FILLER_OFFSET = 10;
+
+const STAT_KEYS = ['hp', 'attack', 'defense', 'speed', 'spAtk', 'spDef'] as const;
+const CONTEST_KEYS = ['coolness', 'beauty', 'cuteness', 'smartness', 'toughness', 'sheen'] as const;
+const CONTEST_RIBBON_KEYS = ['cool', 'beauty', 'cute', 'smart', 'tough'] as const;
+const RIBBON_FLAG_KEYS = [
+  'champion', 'winning', 'victory', 'artist', 'effort',
+  'marine', 'land', 'sky', 'country', 'national', 'earth', 'world',
+] as const;
+
+export interface Pk3Stats {
+  hp: number;
+  attack: number;
+  defense: number;
+  speed: number;
+  spAtk: number;
+  spDef: number;
+}
+
+export interface Pk3ContestStats {
+  coolness: number;
+  beauty: number;
+  cuteness: number;
+  smartness: number;
+  toughness: number;
+  sheen: number;
+}
+
+export interface Pk3Move {
+  id: number; // 0 for an empty move slot
+  pp: number;
+  ppUps: number; // 0-3
+}
+
+export interface Pk3Pokerus {
+  strain: number; // 0-15; 0 means never infected
+  days: number; // 0-15; 0 once cured
+}
+
+export interface Pk3Origins {
+  metLevel: number; // 0-127; 0 for hatched Pokémon
+  game: number; // Gen3GameOrigin (0-15)
+  ball: number; // 0-15
+  otGender: 'male' | 'female';
+}
+
+export interface Pk3Ribbons {
+  // Contest ribbons: 0 none, 1 Normal, 2 Super, 3 Hyper, 4 Master (5-7 are unused but kept)
+  cool: number;
+  beauty: number;
+  cute: number;
+  smart: number;
+  tough: number;
+  champion: boolean;
+  winning: boolean;
+  victory: boolean;
+  artist: boolean;
+  effort: boolean;
+  marine: boolean;
+  land: boolean;
+  sky: boolean;
+  country: boolean;
+  national: boolean;
+  earth: boolean;
+  world: boolean;
+  unused: number; // Bits 27-30, kept as found
+}
+
+export interface Pk3SanityFlags {
+  isBadEgg: boolean;
+  hasSpecies: boolean;
+  useEggName: boolean;
+  unused: number; // Bits 3-7, kept as found
+}
+
+export interface Pk3Pokemon {
+  personality: number;
+  otId: number; // TID in the lower 16 bits, SID in the upper 16 bits
+  nickname: Uint8Array; // 10 bytes, Gen 3 encoded
+  language: number; // Byte at 0x12
+  sanityFlags: Pk3SanityFlags; // Byte at 0x13
+  otName: Uint8Array; // 7 bytes, Gen 3 encoded
+  markings: number; // Circle, square, triangle and heart bits
+  filler: number; // u16 at 0x1E, kept as found
+
+  // Growth
+  species: number; // Gen 3 internal species index
+  heldItem: number;
+  experience: number;
+  friendship: number;
+  growthFiller: number; // u16 at the end of Growth, kept as found
+
+  // Attacks (always four; PP Ups come from the Growth substructure)
+  moves: Pk3Move[];
+
+  // EVs & Condition
+  evs: Pk3Stats;
+  contest: Pk3ContestStats;
+
+  // Misc
+  pokerus: Pk3Pokerus;
+  metLocation: number;
+  origins: Pk3Origins;
+  ivs: Pk3Stats;
+  isEgg: boolean;
+  abilitySlot: 0 | 1;
+  ribbons: Pk3Ribbons;
+  fatefulEncounter: boolean;
+}
+
+/**
+ * Read every field of a decoded pk3
+ */
+export function readPk3Pokemon(pk3: Pk3Data): Pk3Pokemon {
+  const { growth, attacks, evs, misc } = decryptAndUnshufflePk3(pk3);
+  const growthView = viewOf(growth);
+  const attacksView = viewOf(attacks);
+  const evsView = viewOf(evs);
+  const miscView = viewOf(misc);
+
+  const ppBonuses = readU8(growthView, GROWTH_PP_BONUSES_OFFSET);
+  const pokerus = readU8(miscView, MISC_POKERUS_OFFSET);
+  const origins = readU16(miscView, MISC_ORIGINS_OFFSET);
+  const ivs = readU32(miscView, MISC_IVS_OFFSET);
+  const ribbons = readU32(miscView, MISC_RIBBONS_OFFSET);
+  const sanity = pk3.language >>> 8;
+
+  return {
+    personality: pk3.personality,
+    otId: pk3.otId,
+    nickname: pk3.nickname.slice(),
+    language: pk3.language & 0xFF,
+    sanityFlags: {
+      isBadEgg: (sanity & 0x01) !== 0,
+      hasSpecies: (sanity & 0x02) !== 0,
+      useEggName: (sanity & 0x04) !== 0,
+      unused: sanity >>> 3,
+    },
+    otName: pk3.otName.slice(),
+    markings: pk3.markings,
+    filler: pk3.unknown,
+
+    species: readU16(growthView, GROWTH_SPECIES_OFFSET),
+    heldItem: readU16(growthView, GROWTH_ITEM_OFFSET),
+    experience: readU32(growthView, GROWTH_EXPERIENCE_OFFSET),
+    friendship: readU8(growthView, GROWTH_FRIENDSHIP_OFFSET),
+    growthFiller: readU16(growthView, GROWTH_FILLER_OFFSET),
+
+    moves: Array.from({ length: 4 }, (_, i) => ({
+      id: readU16(attacksView, ATTACKS_MOVE1_OFFSET + i * 2),
+      pp: readU8(attacksView, ATTACKS_PP1_OFFSET + i),
+      ppUps: (ppBonuses >>> (i * 2)) & 0x3,
+    })),
+
+    evs: readStats(STAT_KEYS, i => readU8(evsView, EVS_HP_OFFSET + i)),
+    contest: readStats(CONTEST_KEYS, i => readU8(evsView, EVS_COOLNESS_OFFSET + i)),
+
+    pokerus: { strain: pokerus >>> 4, days: pokerus & 0xF },
+    metLocation: readU8(miscView, MISC_MET_LOCATION_OFFSET),
+    origins: {
+      metLevel: origins & 0x7F,
+      game: (origins >>> 7) & 0xF,
+      ball: (origins >>> 11) & 0xF,
+      otGender: origins & 0x8000 ? 'female' : 'male',
+    },
+    ivs: readStats(STAT_KEYS, i => (ivs >>> (i * 5)) & 0x1F),
+    isEgg: ((ivs >>> 30) & 0x1) === 1,
+    abilitySlot: ((ivs >>> 31) & 0x1) as 0 | 1,
+    ribbons: {
+      ...readStats(CONTEST_RIBBON_KEYS, i => (ribbons >>> (i * 3)) & 0x7),
+      ...Object.fromEntries(RIBBON_FLAG_KEYS.map((key, i) => [key, ((ribbons >>> (15 + i)) & 0x1) === 1])) as Record<typeof RIBBON_FLAG_KEYS[number], boolean>,
+      unused: (ribbons >>> 27) & 0xF,
+    },
+    fatefulEncounter: ((ribbons >>> 31) & 0x1) === 1,
+  };
+}
+
+/**
+ * Build a pk3 from the model, with a freshly calculated checksum
+ */
+export function writePk3Pokemon(pokemon: Pk3Pokemon): Pk3Data {
+  validatePk3Pokemon(pokemon);
+
+  const substructures: Pk3Substructures = {
+    growth: new Uint8Array(PK3_GROWTH_SIZE),
+    attacks: new Uint8Array(PK3_ATTACKS_SIZE),
+    evs: new Uint8Array(PK3_EVS_SIZE),
+    misc: new Uint8Array(PK3_MISC_SIZE),
+  };
+  const growthView = viewOf(substructures.growth);
+  const attacksView = viewOf(substructures.attacks);
+  const evsView = viewOf(substructures.evs);
+  const miscView = viewOf(substructures.misc);
+
+  writeU16(growthView, GROWTH_SPECIES_OFFSET, pokemon.species);
+  writeU16(growthView, GROWTH_ITEM_OFFSET, pokemon.heldItem);
+  writeU32(growthView, GROWTH_EXPERIENCE_OFFSET, pokemon.experience);
+  writeU8(growthView, GROWTH_PP_BONUSES_OFFSET, pokemon.moves.reduce((bits, move, i) => bits | (move.ppUps << (i * 2)), 0));
+  writeU8(growthView, GROWTH_FRIENDSHIP_OFFSET, pokemon.friendship);
+  writeU16(growthView, GROWTH_FILLER_OFFSET, pokemon.growthFiller);
+
+  pokemon.moves.forEach((move, i) => {
+    writeU16(attacksView, ATTACKS_MOVE1_OFFSET + i * 2, move.id);
+    writeU8(attacksView, ATTACKS_PP1_OFFSET + i, move.pp);
+  });
+
+  STAT_KEYS.forEach((key, i) => writeU8(evsView, EVS_HP_OFFSET + i, pokemon.evs[key]));
+  CONTEST_KEYS.forEach((key, i) => writeU8(evsView, EVS_COOLNESS_OFFSET + i, pokemon.contest[key]));
+
+  const { origins, ribbons } = pokemon;
+  writeU8(miscView, MISC_POKERUS_OFFSET, (pokemon.pokerus.strain << 4) | pokemon.pokerus.days);
+  writeU8(miscView, MISC_MET_LOCATION_OFFSET, pokemon.metLocation);
+  writeU16(miscView, MISC_ORIGINS_OFFSET,
+    origins.metLevel | (origins.game << 7) | (origins.ball << 11) | (origins.otGender === 'female' ? 0x8000 : 0));
+  writeU32(miscView, MISC_IVS_OFFSET,
+    STAT_KEYS.reduce((bits, key, i) => bits | (pokemon.ivs[key] << (i * 5)), 0)
+    | (pokemon.isEgg ? 1 << 30 : 0)
+    | (pokemon.abilitySlot << 31));
+  writeU32(miscView, MISC_RIBBONS_OFFSET,
+    CONTEST_RIBBON_KEYS.reduce((bits, key, i) => bits | (ribbons[key] << (i * 3)), 0)
+    | RIBBON_FLAG_KEYS.reduce((bits, key, i) => bits | (ribbons[key] ? 1 << (15 + i) : 0), 0)
+    | (ribbons.unused << 27)
+    | (pokemon.fatefulEncounter ? 1 << 31 : 0));
+
+  const { sanityFlags } = pokemon;
+  const sanity = (sanityFlags.isBadEgg ? 0x01 : 0)
+    | (sanityFlags.hasSpecies ? 0x02 : 0)
+    | (sanityFlags.useEggName ? 0x04 : 0)
+    | (sanityFlags.unused << 3);
+
+  return {
+    personality: pokemon.personality,
+    otId: pokemon.otId,
+    nickname: pokemon.nickname.slice(),
+    language: pokemon.language | (sanity << 8),
+    otName: pokemon.otName.slice(),
+    markings: pokemon.markings,
+    checksum: calculatePk3Checksum(substructures),
+    unknown: pokemon.filler,
+    data: shuffleAndEncryptPk3(substructures, pokemon.personality, pokemon.otId),
+  };
+}
+
+/**
+ * Decode an 80-byte pk3 buffer into the model
+ */
+export function decodePk3Pokemon(buffer: ArrayBuffer): Pk3Pokemon {
+  return readPk3Pokemon(decodePk3(buffer));
+}
+
+/**
+ * Serialize the model to an 80-byte pk3 buffer
+ */
+export function encodePk3Pokemon(pokemon: Pk3Pokemon): ArrayBuffer {
+  return encodePk3(writePk3Pokemon(pokemon));
+}
+
+/**
+ * Reject values that do not fit their bit fields, rather than silently truncating them
+ */
+function validatePk3Pokemon(pokemon: Pk3Pokemon): void {
+  const check = (field: string, value: number, max: number) => {
+    if (!Number.isInteger(value) || value < 0 || value > max) {
+      throw new Error(`Invalid pk3 ${field}: ${value} (must be 0-${max})`);
+    }
+  };
+
+  check('personality', pokemon.personality, 0xFFFFFFFF);
+  check('OT ID', pokemon.otId, 0xFFFFFFFF);
+  check('language', pokemon.language, 0xFF);
+  check('markings', pokemon.markings, 0xFF);
+  check('filler', pokemon.filler, 0xFFFF);
+  check('species', pokemon.species, 0xFFFF);
+  check('held item', pokemon.heldItem, 0xFFFF);
+  check('experience', pokemon.experience, 0xFFFFFFFF);
+  check('friendship', pokemon.friendship, 0xFF);
+  check('growth filler', pokemon.growthFiller, 0xFFFF);
+  check('met location', pokemon.metLocation, 0xFF);
+  check('met level', pokemon.origins.metLevel, 0x7F);
+  check('origin game', pokemon.origins.game, 0xF);
+  check('ball', pokemon.origins.ball, 0xF);
+  check('Pokérus strain', pokemon.pokerus.strain, 0xF);
+  check('Pokérus days', pokemon.pokerus.days, 0xF);
+  check('unused sanity flags', pokemon.sanityFlags.unused, 0x1F);
+  check('unused ribbon bits', pokemon.ribbons.unused, 0xF);
+
+  if (pokemon.nickname.length !== 10) throw new Error(`Invalid pk3 nickname: expected 10 bytes, got ${pokemon.nickname.length}`);
+  if (pokemon.otName.length !== 7) throw new Error(`Invalid pk3 OT name: expected 7 bytes, got ${pokemon.otName.length}`);
+  if (pokemon.moves.length !== 4) throw new Error(`Invalid pk3 moves: expected 4, got ${pokemon.moves.length}`);
+
+  pokemon.moves.forEach((move, i) => {
+    check(`move ${i + 1}`, move.id, 0xFFFF);
+    check(`move ${i + 1} PP`, move.pp, 0xFF);
+    check(`move ${i + 1} PP Ups`, move.ppUps, 3);
+  });
+  STAT_KEYS.forEach(key => {
+    check(`${key} EV`, pokemon.evs[key], 0xFF);
+    check(`${key} IV`, pokemon.ivs[key], 31);
+  });
+  CONTEST_KEYS.forEach(key => check(key, pokemon.contest[key], 0xFF));
+  CONTEST_RIBBON_KEYS.forEach(key => check(`${key} ribbon`, pokemon.ribbons[key], 7));
+}
+
+function readStats<K extends string>(keys: readonly K[], read: (index: number) => number): Record<K, number> {
+  return Object.fromEntries(keys.map((key, i) => [key, read(i)])) as Record<K, number>;
+}
+
+function viewOf(data: Uint8Array): DataView {
+  return new DataView(data.buffer, data.byteOffset, data.byteLength);
+}
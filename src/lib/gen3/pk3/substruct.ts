@@ -202,3 +202,11 @@ export function extractTrainerIds(otId: number): { tid: number; sid: number } {
     sid: (otId >>> 16) & 0xFFFF,
   };
 }
+
+/**
+ * Whether a PID is shiny for an OTID: TID ^ SID ^ both PID halves below 8
+ */
+export function isShiny(personality: number, otId: number): boolean {
+  const { tid, sid } = extractTrainerIds(otId);
+  return (tid ^ sid ^ (personality >>> 16) ^ (personality & 0xFFFF)) < 8;
+}
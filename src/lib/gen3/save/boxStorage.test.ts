@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isBoxSlotOccupied,
+  moveBoxPokemon,
+  swapBoxPokemon,
+  releaseBoxPokemon,
+  sortBoxes,
+  compactBoxes,
+} from './boxStorage';
+import { loadGen3Save, extractBoxPokemonFromSave, type Gen3Save } from './gen3Save';
+import { commitGen3Save } from './commit';
+import { getBoxSlotOffset } from './layout';
+import { encodePk3, type Pk3Data } from '../pk3/pk3';
+import { SECTION_ID_PC_BUFFER_A } from './constants';
+import { createTestSave, createTestPk3, writeTestBlock } from '../../../test/gen3SaveFixture';
+
+function createSaveWithBoxes(pokemon: Array<{ box: number; slot: number; pk3: Pk3Data }>): Gen3Save {
+  return loadGen3Save(createTestSave({
+    setup: (sections) => {
+      for (const { box, slot, pk3 } of pokemon) {
+        writeTestBlock(sections, SECTION_ID_PC_BUFFER_A, getBoxSlotOffset(box, slot), new Uint8Array(encodePk3(pk3)));
+      }
+    },
+  }));
+}
+
+const layout = (save: Gen3Save) =>
+  extractBoxPokemonFromSave(save).map(entry => [entry.box, entry.slot, entry.pk3.personality]);
+
+describe('Gen 3 PC box storage editing', () => {
+  const pikachu = createTestPk3({ species: 25, personality: 1, experience: 100000 });
+  const bulbasaur = createTestPk3({ species: 1, personality: 2, experience: 1000 });
+  const charmander = createTestPk3({ species: 4, personality: 3, experience: 50000, otId: 0x00100001 });
+
+  it('should move a Pokémon into an empty slot in another box', () => {
+    const save = moveBoxPokemon(createSaveWithBoxes([{ box: 0, slot: 0, pk3: pikachu }]), { box: 0, slot: 0 }, { box: 5, slot: 12 });
+
+    expect(layout(save)).toEqual([[5, 12, 1]]);
+    expect(isBoxSlotOccupied(save, { box: 0, slot: 0 })).toBe(false);
+  });
+
+  it('should refuse to move onto an occupied slot or from an empty one', () => {
+    const save = createSaveWithBoxes([{ box: 0, slot: 0, pk3: pikachu }, { box: 0, slot: 1, pk3: bulbasaur }]);
+
+    expect(() => moveBoxPokemon(save, { box: 0, slot: 0 }, { box: 0, slot: 1 })).toThrow('Box 1 slot 2 is occupied');
+    expect(() => moveBoxPokemon(save, { box: 3, slot: 0 }, { box: 4, slot: 0 })).toThrow('Box 4 slot 1 is empty');
+    expect(() => moveBoxPokemon(save, { box: 14, slot: 0 }, { box: 4, slot: 0 })).toThrow('Invalid box number: 14');
+  });
+
+  it('should swap two slots and release a slot', () => {
+    let save = createSaveWithBoxes([{ box: 0, slot: 0, pk3: pikachu }, { box: 13, slot: 29, pk3: bulbasaur }]);
+    save = swapBoxPokemon(save, { box: 0, slot: 0 }, { box: 13, slot: 29 });
+    expect(layout(save)).toEqual([[0, 0, 2], [13, 29, 1]]);
+
+    save = releaseBoxPokemon(save, { box: 0, slot: 0 });
+    expect(layout(save)).toEqual([[13, 29, 1]]);
+    expect(() => releaseBoxPokemon(save, { box: 0, slot: 0 })).toThrow('Box 1 slot 1 is already empty');
+  });
+
+  it('should sort a box range by each key, packing from the first slot', () => {
+    const shiny = createTestPk3({ species: 7, personality: 0xE2410000 });
+    const save = createSaveWithBoxes([
+      { box: 1, slot: 5, pk3: pikachu },
+      { box: 1, slot: 20, pk3: bulbasaur },
+      { box: 2, slot: 3, pk3: charmander },
+      { box: 2, slot: 29, pk3: shiny },
+      { box: 0, slot: 0, pk3: createTestPk3({ species: 150, personality: 9 }) },
+    ]);
+    const order = (sorted: Gen3Save) => layout(sorted).filter(([box]) => box !== 0).map(([, , personality]) => personality);
+
+    expect(order(sortBoxes(save, 1, 2, { key: 'species' }))).toEqual([2, 3, 0xE2410000, 1]);
+    expect(order(sortBoxes(save, 1, 2, { key: 'level', descending: true }))[0]).toBe(1);
+    expect(order(sortBoxes(save, 1, 2, { key: 'ot' }))[0]).toBe(3);
+    expect(order(sortBoxes(save, 1, 2, { key: 'shiny' }))).toEqual([0xE2410000, 2, 3, 1]);
+
+    // Pokémon outside the range stay where they are
+    expect(layout(sortBoxes(save, 1, 2, { key: 'species' }))).toEqual([[0, 0, 9], [1, 0, 2], [1, 1, 3], [1, 2, 0xE2410000], [1, 3, 1]]);
+    expect(() => sortBoxes(save, 2, 1, { key: 'species' })).toThrow('Invalid box range');
+  });
+
+  it('should compact gaps while keeping order and write valid checksums', () => {
+    const save = compactBoxes(createSaveWithBoxes([
+      { box: 0, slot: 29, pk3: pikachu },
+      { box: 1, slot: 10, pk3: bulbasaur },
+      { box: 3, slot: 0, pk3: charmander },
+    ]), 0, 13);
+    expect(layout(save)).toEqual([[0, 0, 1], [0, 1, 2], [0, 2, 3]]);
+
+    const reloaded = loadGen3Save(commitGen3Save(save));
+    expect(extractBoxPokemonFromSave(reloaded).every(entry => entry.isValid)).toBe(true);
+    expect(layout(reloaded)).toEqual(layout(save));
+  });
+});
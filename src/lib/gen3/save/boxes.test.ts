@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { getCurrentBox, setCurrentBox, getBoxes, getBoxNames, renameBox, setBoxWallpaper } from './boxes';
+import { loadGen3Save, exportGen3Save } from './gen3Save';
+import { createTestSave, writeTestBlock } from '../../../test/gen3SaveFixture';
+import { encodeGen3String, decodeGen3String } from '../../species/speciesTranscode';
+import { SECTION_ID_PC_BUFFER_A, PC_CURRENT_BOX_OFFSET, PC_BOX_NAMES_OFFSET, PC_BOX_WALLPAPERS_OFFSET } from './constants';
+
+function createBoxSave(rotation = 0): ArrayBuffer {
+  return createTestSave({
+    rotation,
+    setup: (sections) => {
+      writeTestBlock(sections, SECTION_ID_PC_BUFFER_A, PC_CURRENT_BOX_OFFSET, [2]);
+      for (let box = 0; box < 14; box++) {
+        writeTestBlock(sections, SECTION_ID_PC_BUFFER_A, PC_BOX_NAMES_OFFSET + box * 9, encodeGen3String(`BOX ${box + 1}`, 9));
+        writeTestBlock(sections, SECTION_ID_PC_BUFFER_A, PC_BOX_WALLPAPERS_OFFSET + box, [box % 16]);
+      }
+    },
+  });
+}
+
+describe('Gen 3 box metadata', () => {
+  it('should read the current box, names and wallpapers', () => {
+    const save = loadGen3Save(createBoxSave(5));
+    const boxes = getBoxes(save);
+
+    expect(getCurrentBox(save)).toBe(2);
+    expect(boxes).toHaveLength(14);
+    expect(boxes[0]).toEqual({ index: 0, name: 'BOX 1', wallpaper: 0 });
+    expect(boxes[13]).toEqual({ index: 13, name: 'BOX 14', wallpaper: 13 });
+  });
+
+  it('should rename boxes and change wallpapers through a commit', () => {
+    let save = loadGen3Save(createBoxSave(13));
+    save = renameBox(save, 3, 'Legends!');
+    save = setBoxWallpaper(save, 3, 15);
+    save = setCurrentBox(save, 3);
+
+    const reloaded = loadGen3Save(exportGen3Save(save));
+    expect(getBoxNames(reloaded)[3]).toBe('Legends!');
+    expect(getBoxNames(reloaded)[4]).toBe('BOX 5');
+    expect(getBoxes(reloaded)[3]!.wallpaper).toBe(15);
+    expect(getCurrentBox(reloaded)).toBe(3);
+  });
+
+  it('should reject invalid names, wallpapers and box numbers', () => {
+    const save = loadGen3Save(createBoxSave());
+
+    expect(() => renameBox(save, 0, 'NINECHARS')).toThrow('too long');
+    expect(() => renameBox(save, 0, 'Box_1')).toThrow('not supported');
+    expect(() => setBoxWallpaper(save, 0, 16)).toThrow('Invalid wallpaper');
+    expect(() => setCurrentBox(save, 14)).toThrow('Invalid box number');
+  });
+
+  it('should decode spaces and punctuation in the Gen 3 charset', () => {
+    expect(decodeGen3String(Uint8Array.of(0xBC, 0xC9, 0xD2, 0x00, 0xA2, 0xB8, 0xB5, 0xFF))).toBe('BOX 1,♂');
+    expect(decodeGen3String(Uint8Array.of(0xBB, 0x00, 0xBC, 0x00, 0x00, 0x00, 0x00, 0x00))).toBe('A B');
+    expect(decodeGen3String(Uint8Array.of(0xBB, 0x00, 0xFF, 0x00))).toBe('A');
+    expect(decodeGen3String(new Uint8Array(10))).toBe('');
+  });
+});
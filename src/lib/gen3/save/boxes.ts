@@ -0,0 +1,101 @@
+/**
+ * Gen 3 PC box metadata
+ * Reads and edits the current box, box names and wallpapers stored in PC storage
+ */
+
+import { readBlockBytes, writeBlockBytes } from './layout';
+import { decodeGen3String, encodeGen3String, isGen3Encodable } from '../../species/speciesTranscode';
+import {
+  SECTION_ID_PC_BUFFER_A,
+  PC_CURRENT_BOX_OFFSET,
+  PC_BOX_NAMES_OFFSET,
+  PC_BOX_WALLPAPERS_OFFSET,
+  BOX_NAME_LENGTH,
+  BOX_WALLPAPER_COUNT,
+  NUM_BOXES,
+} from './constants';
+import type { Gen3Save } from './gen3Save';
+
+// Box names hold up to 8 characters followed by a terminator
+export const MAX_BOX_NAME_CHARS = BOX_NAME_LENGTH - 1;
+
+export interface Gen3BoxInfo {
+  index: number; // 0-13
+  name: string;
+  wallpaper: number; // 0-15
+}
+
+/**
+ * Get the box the PC opens to
+ */
+export function getCurrentBox(save: Gen3Save): number {
+  return readPCBytes(save, PC_CURRENT_BOX_OFFSET, 1)[0]!;
+}
+
+/**
+ * Set the box the PC opens to
+ */
+export function setCurrentBox(save: Gen3Save, box: number): Gen3Save {
+  validateBoxIndex(box);
+  return writeBlockBytes(save, SECTION_ID_PC_BUFFER_A, PC_CURRENT_BOX_OFFSET, Uint8Array.of(box));
+}
+
+/**
+ * Get the name, wallpaper and index of every box
+ */
+export function getBoxes(save: Gen3Save): Gen3BoxInfo[] {
+  const names = readPCBytes(save, PC_BOX_NAMES_OFFSET, NUM_BOXES * BOX_NAME_LENGTH);
+  const wallpapers = readPCBytes(save, PC_BOX_WALLPAPERS_OFFSET, NUM_BOXES);
+
+  return Array.from({ length: NUM_BOXES }, (_, index) => ({
+    index,
+    name: decodeGen3String(names.subarray(index * BOX_NAME_LENGTH, (index + 1) * BOX_NAME_LENGTH)),
+    wallpaper: wallpapers[index]!,
+  }));
+}
+
+/**
+ * Get the names of all 14 boxes
+ */
+export function getBoxNames(save: Gen3Save): string[] {
+  return getBoxes(save).map(box => box.name);
+}
+
+/**
+ * Rename a box
+ */
+export function renameBox(save: Gen3Save, box: number, name: string): Gen3Save {
+  validateBoxIndex(box);
+  if ([...name].length > MAX_BOX_NAME_CHARS) {
+    throw new Error(`Box name "${name}" is too long (max ${MAX_BOX_NAME_CHARS} characters)`);
+  }
+  if (!isGen3Encodable(name)) {
+    throw new Error(`Box name "${name}" contains characters not supported by Gen 3 games`);
+  }
+
+  const offset = PC_BOX_NAMES_OFFSET + box * BOX_NAME_LENGTH;
+  return writeBlockBytes(save, SECTION_ID_PC_BUFFER_A, offset, encodeGen3String(name, BOX_NAME_LENGTH));
+}
+
+/**
+ * Change a box's wallpaper
+ */
+export function setBoxWallpaper(save: Gen3Save, box: number, wallpaper: number): Gen3Save {
+  validateBoxIndex(box);
+  if (!Number.isInteger(wallpaper) || wallpaper < 0 || wallpaper >= BOX_WALLPAPER_COUNT) {
+    throw new Error(`Invalid wallpaper: ${wallpaper} (must be 0-${BOX_WALLPAPER_COUNT - 1})`);
+  }
+
+  const offset = PC_BOX_WALLPAPERS_OFFSET + box;
+  return writeBlockBytes(save, SECTION_ID_PC_BUFFER_A, offset, Uint8Array.of(wallpaper));
+}
+
+function readPCBytes(save: Gen3Save, offset: number, length: number): Uint8Array {
+  return readBlockBytes(save.sections, SECTION_ID_PC_BUFFER_A, offset, length);
+}
+
+function validateBoxIndex(box: number): void {
+  if (!Number.isInteger(box) || box < 0 || box >= NUM_BOXES) {
+    throw new Error(`Invalid box number: ${box} (must be 0-${NUM_BOXES - 1})`);
+  }
+}
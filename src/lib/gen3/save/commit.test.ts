@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { commitGen3Save, replaceSectionData, hasPendingChanges, getSectionRotation } from './commit';
+import { loadGen3Save, exportGen3Save, injectPokemonToSave, extractBoxPokemonFromSave } from './gen3Save';
+import { parseSaveSlot, verifySectionIntegrity } from './sections';
+import { createTestSave, createTestPk3 } from '../../../test/gen3SaveFixture';
+import {
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  GEN3_SAVE_SLOT_SIZE,
+  GEN3_SECTION_DATA_SIZE,
+  SECTION_ID_MISC_DATA,
+} from './constants';
+
+function slotBytes(buffer: ArrayBuffer, slotOffset: number): Uint8Array {
+  return new Uint8Array(buffer, slotOffset, GEN3_SAVE_SLOT_SIZE);
+}
+
+function editSection(buffer: ArrayBuffer, sectionId: number, value: number): ArrayBuffer {
+  const save = loadGen3Save(buffer);
+  const data = new ArrayBuffer(GEN3_SECTION_DATA_SIZE);
+  new Uint8Array(data).fill(value);
+  return commitGen3Save(replaceSectionData(save, sectionId, data));
+}
+
+describe('Gen 3 save commit', () => {
+  it('should write to the inactive slot and leave the active slot intact', () => {
+    for (const activeSlot of ['A', 'B'] as const) {
+      const original = createTestSave({ activeSlot });
+      const committed = editSection(original, SECTION_ID_MISC_DATA, 0x5A);
+
+      const previousOffset = activeSlot === 'A' ? GEN3_SAVE_SLOT_A : GEN3_SAVE_SLOT_B;
+      const targetOffset = activeSlot === 'A' ? GEN3_SAVE_SLOT_B : GEN3_SAVE_SLOT_A;
+      expect(slotBytes(committed, previousOffset)).toEqual(slotBytes(original, previousOffset));
+      expect(slotBytes(committed, targetOffset)).not.toEqual(slotBytes(original, targetOffset));
+
+      const reloaded = loadGen3Save(committed);
+      expect(reloaded.activeSlot).toBe(activeSlot === 'A' ? 'B' : 'A');
+      expect(new Uint8Array(reloaded.sections[SECTION_ID_MISC_DATA]!.data)[0]).toBe(0x5A);
+    }
+  });
+
+  it('should write footers and the incremented save index on all 14 sections', () => {
+    const committed = editSection(createTestSave({ saveIndex: 41 }), SECTION_ID_MISC_DATA, 0x11);
+    const slot = parseSaveSlot(committed, GEN3_SAVE_SLOT_B);
+
+    expect(slot.isValid).toBe(true);
+    expect(slot.sections.every(s => s.saveIndex === 42)).toBe(true);
+    expect(slot.sections.every(s => verifySectionIntegrity(s).valid)).toBe(true);
+  });
+
+  it('should rotate the section order by one position', () => {
+    for (const rotation of [0, 5, 13]) {
+      const original = createTestSave({ rotation });
+      const committed = editSection(original, SECTION_ID_MISC_DATA, 0x22);
+
+      expect(getSectionRotation(loadGen3Save(original).slot)).toBe(rotation);
+      expect(getSectionRotation(loadGen3Save(committed).slot)).toBe((rotation + 1) % 14);
+    }
+  });
+
+  it('should wrap the save index at 32 bits', () => {
+    const committed = editSection(createTestSave({ saveIndex: 0xFFFFFFFF }), SECTION_ID_MISC_DATA, 0x33);
+    expect(parseSaveSlot(committed, GEN3_SAVE_SLOT_B).saveIndex).toBe(0);
+  });
+
+  it('should keep the loaded save unchanged until committed', () => {
+    const save = loadGen3Save(createTestSave());
+    const edited = replaceSectionData(save, SECTION_ID_MISC_DATA, new ArrayBuffer(GEN3_SECTION_DATA_SIZE));
+
+    expect(hasPendingChanges(save)).toBe(false);
+    expect(hasPendingChanges(edited)).toBe(true);
+    expect(exportGen3Save(save)).toEqual(save.buffer);
+    expect(loadGen3Save(exportGen3Save(edited)).activeSlot).toBe('B');
+  });
+
+  it('should commit PC injections through the pipeline', () => {
+    const original = createTestSave({ rotation: 7 });
+    const pk3 = createTestPk3({ species: 25, personality: 0xCAFE });
+    const committed = injectPokemonToSave(loadGen3Save(original), [{ pk3, box: 0, slot: 0 }]);
+
+    const reloaded = loadGen3Save(committed);
+    expect(reloaded.activeSlot).toBe('B');
+    expect(extractBoxPokemonFromSave(reloaded)[0]!.pk3.personality).toBe(0xCAFE);
+    expect(slotBytes(committed, GEN3_SAVE_SLOT_A)).toEqual(slotBytes(original, GEN3_SAVE_SLOT_A));
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Gen 3 save commit pipeline
+ * Writes edits the way the game saves: into the inactive slot, with the
+ * section order rotated by one and the save index incremented, so the
+ * previous save stays intact in the other slot as the fallback
+ */
+
+import { calculateSectionChecksum, SaveSection, SaveSlot } from './sections';
+import { writeU16, writeU32 } from '../../utils/bin';
+import {
+  GEN3_NUM_SECTIONS,
+  GEN3_SECTION_SIZE,
+  GEN3_SECTION_DATA_SIZE,
+  GEN3_SECTION_SIGNATURE,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  SECTION_FOOTER_ID_OFFSET,
+  SECTION_FOOTER_CHECKSUM_OFFSET,
+  SECTION_FOOTER_SIGNATURE_OFFSET,
+  SECTION_FOOTER_SAVE_INDEX_OFFSET,
+  SECTION_ID_TRAINER_INFO,
+} from './constants';
+import type { Gen3Save } from './gen3Save';
+
+/**
+ * Get the physical position of section 0 within a slot
+ * Section N is stored at physical position (N + rotation) % 14
+ */
+export function getSectionRotation(slot: SaveSlot): number {
+  const rotation = slot.sections.findIndex(s => s.id === SECTION_ID_TRAINER_INFO);
+  if (rotation === -1) {
+    throw new Error('Trainer info section not found');
+  }
+  return rotation;
+}
+
+/**
+ * Return a copy of the save with one section's data replaced
+ * The save buffer is left untouched until the save is committed
+ */
+export function replaceSectionData(save: Gen3Save, sectionId: number, data: ArrayBuffer): Gen3Save {
+  if (data.byteLength !== GEN3_SECTION_DATA_SIZE) {
+    throw new Error(`Invalid section data size: expected ${GEN3_SECTION_DATA_SIZE}, got ${data.byteLength}`);
+  }
+
+  const index = save.sections.findIndex(s => s.id === sectionId);
+  const section = save.sections[index];
+  if (!section) {
+    throw new Error(`Section ${sectionId} not found`);
+  }
+
+  const sections = [...save.sections];
+  sections[index] = {
+    ...section,
+    data,
+    checksum: calculateSectionChecksum(data),
+  };
+
+  return { ...save, sections };
+}
+
+/**
+ * Check whether any section has been replaced since the save was loaded
+ */
+export function hasPendingChanges(save: Gen3Save): boolean {
+  return save.sections.some(s => !save.slot.sections.includes(s));
+}
+
+/**
+ * Commit the save's sections to the inactive slot
+ * All 14 sections are written with fresh footers: ID, checksum, signature
+ * and the incremented save index, rotated one position past the active slot
+ */
+export function commitGen3Save(save: Gen3Save): ArrayBuffer {
+  const buffer = save.buffer.slice(0);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  const targetOffset = save.activeSlot === 'A' ? GEN3_SAVE_SLOT_B : GEN3_SAVE_SLOT_A;
+  const saveIndex = (save.slot.saveIndex + 1) >>> 0;
+  const rotation = (getSectionRotation(save.slot) + 1) % GEN3_NUM_SECTIONS;
+
+  for (const section of save.sections) {
+    const sectionOffset = targetOffset + ((section.id + rotation) % GEN3_NUM_SECTIONS) * GEN3_SECTION_SIZE;
+    writeSection(view, bytes, sectionOffset, section, saveIndex);
+  }
+
+  return buffer;
+}
+
+/**
+ * Write a section's data and footer at a physical offset
+ */
+function writeSection(
+  view: DataView,
+  bytes: Uint8Array,
+  sectionOffset: number,
+  section: SaveSection,
+  saveIndex: number
+): void {
+  bytes.set(new Uint8Array(section.data), sectionOffset);
+  writeU16(view, sectionOffset + SECTION_FOOTER_ID_OFFSET, section.id);
+  writeU16(view, sectionOffset + SECTION_FOOTER_CHECKSUM_OFFSET, calculateSectionChecksum(section.data));
+  writeU32(view, sectionOffset + SECTION_FOOTER_SIGNATURE_OFFSET, GEN3_SECTION_SIGNATURE);
+  writeU32(view, sectionOffset + SECTION_FOOTER_SAVE_INDEX_OFFSET, saveIndex);
+}
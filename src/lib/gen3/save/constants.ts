@@ -14,6 +14,15 @@ export const GEN3_NUM_SECTIONS = 14;
 export const GEN3_SAVE_SLOT_A = 0x0000;
 export const GEN3_SAVE_SLOT_B = 0xE000;
 
+// Hall of Fame: two sectors after the save slots, 0xF80 bytes of team data each
+// The game stores each sector's checksum in the footer's ID field
+export const HALL_OF_FAME_OFFSET = 0x1C000;
+export const HALL_OF_FAME_SECTOR_COUNT = 2;
+export const HALL_OF_FAME_CHECKSUM_OFFSET = 0xFF4; // u16
+export const HALL_OF_FAME_MON_SIZE = 20; // u32 OT ID, u32 personality, u16 species/level, 10-byte nickname
+export const HALL_OF_FAME_TEAM_SIZE = 120; // Six entries
+export const HALL_OF_FAME_MAX_TEAMS = 50;
+
 // Section IDs
 export const SECTION_ID_TRAINER_INFO = 0;
 export const SECTION_ID_TEAM_ITEMS = 1;
@@ -59,7 +68,7 @@ export const PK3_CHECKSUM_OFFSET = 0x1C; // u16
 export const PK3_UNKNOWN_OFFSET = 0x1E; // u16
 export const PK3_DATA_OFFSET = 0x20; // 48 bytes of encrypted data
 
-// pk3 substructure order based on PID % 24
+// pk3 substructure order based on PID % 24: the position (0-3) of Growth, Attacks, EVs and Misc
 export const PK3_SUBSTRUCTURE_ORDERS = [
   [0, 1, 2, 3], // Growth, Attacks, EVs, Misc
   [0, 1, 3, 2],
@@ -87,14 +96,217 @@ export const PK3_SUBSTRUCTURE_ORDERS = [
   [3, 2, 1, 0],
 ];
 
+// Party Pokémon structure (pk3 followed by 20 bytes of battle stats)
+export const PK3_PARTY_SIZE = 100;
+export const PARTY_SIZE = 6; // Max Pokémon in the party
+export const PARTY_STATUS_OFFSET = 0x50; // u32 status condition
+export const PARTY_LEVEL_OFFSET = 0x54; // u8
+export const PARTY_MAIL_ID_OFFSET = 0x55; // u8
+export const PARTY_CURRENT_HP_OFFSET = 0x56; // u16
+export const PARTY_MAX_HP_OFFSET = 0x58; // u16
+export const PARTY_ATTACK_OFFSET = 0x5A; // u16
+export const PARTY_DEFENSE_OFFSET = 0x5C; // u16
+export const PARTY_SPEED_OFFSET = 0x5E; // u16
+export const PARTY_SPATK_OFFSET = 0x60; // u16
+export const PARTY_SPDEF_OFFSET = 0x62; // u16
+
+// Game groups sharing a save layout
+export type Gen3GameGroup = 'RS' | 'E' | 'FRLG';
+
+// Display names for each game group (paired versions share a save layout)
+export const GEN3_GAME_GROUP_NAMES: Record<Gen3GameGroup, string> = {
+  RS: 'Ruby/Sapphire',
+  E: 'Emerald',
+  FRLG: 'FireRed/LeafGreen',
+};
+
+// Section 0: trainer info
+export const TRAINER_NAME_OFFSET = 0x00; // 7 characters + terminator
+export const TRAINER_NAME_LENGTH = 8;
+export const TRAINER_GENDER_OFFSET = 0x08; // u8 (0 = male, 1 = female)
+export const TRAINER_ID_OFFSET = 0x0A; // u16 public ID
+export const TRAINER_SECRET_ID_OFFSET = 0x0C; // u16 secret ID
+export const TRAINER_PLAY_HOURS_OFFSET = 0x0E; // u16
+export const TRAINER_PLAY_MINUTES_OFFSET = 0x10; // u8
+export const TRAINER_PLAY_SECONDS_OFFSET = 0x11; // u8
+export const TRAINER_PLAY_FRAMES_OFFSET = 0x12; // u8 (1/60 s)
+export const TRAINER_OPTIONS_BUTTON_MODE_OFFSET = 0x13; // u8
+export const TRAINER_OPTIONS_OFFSET = 0x14; // u16 bitfield: text speed, frame, sound, battle style/scene
+
+// Section 0: game code (RS = 0, FRLG = 1, Emerald stores its security key here)
+export const TRAINER_GAME_CODE_OFFSET = 0xAC; // u32
+export const GAME_CODE_RS = 0;
+export const GAME_CODE_FRLG = 1;
+export const FRLG_SECURITY_KEY_OFFSET = 0xF20; // u32
+
+// Section 0: Pokédex (owned and seen bitfields, one bit per National Dex number)
+export const POKEDEX_NATIONAL_MAGIC_OFFSETS: Record<Gen3GameGroup, number> = {
+  RS: 0x1A,
+  E: 0x1A,
+  FRLG: 0x1B,
+};
+export const POKEDEX_NATIONAL_MAGIC: Record<Gen3GameGroup, number> = {
+  RS: 0xDA,
+  E: 0xDA,
+  FRLG: 0xB9,
+};
+export const POKEDEX_UNOWN_PERSONALITY_OFFSET = 0x1C; // u32, first Unown caught
+export const POKEDEX_SPINDA_PERSONALITY_OFFSET = 0x20; // u32, first Spinda caught
+export const POKEDEX_OWNED_OFFSET = 0x28;
+export const POKEDEX_SEEN_OFFSET = 0x5C;
+export const POKEDEX_FLAGS_LENGTH = 49; // 386 species rounded up to whole bytes
+export const NATIONAL_DEX_COUNT = 386;
+
+// SaveBlock1: duplicate copies of the seen bitfield, kept in sync by the game
+export const POKEDEX_SEEN_COPY_OFFSETS: Record<Gen3GameGroup, [number, number]> = {
+  RS: [0x938, 0x3A8C],
+  E: [0x988, 0x3B24],
+  FRLG: [0x5F8, 0x3A18],
+};
+
+// SaveBlock1: event flags (1 bit each) and variables (u16 each, IDs from 0x4000)
+export const EVENT_FLAGS_OFFSETS: Record<Gen3GameGroup, number> = {
+  RS: 0x1220,
+  E: 0x1270,
+  FRLG: 0xEE0,
+};
+export const EVENT_FLAG_COUNTS: Record<Gen3GameGroup, number> = {
+  RS: 0x900,
+  E: 0x960,
+  FRLG: 0x900,
+};
+export const EVENT_VARS_OFFSETS: Record<Gen3GameGroup, number> = {
+  RS: 0x1340,
+  E: 0x139C,
+  FRLG: 0x1000,
+};
+export const EVENT_VAR_BASE = 0x4000;
+
+// National Dex unlock: a system flag and a variable set alongside the Pokédex magic
+export const NATIONAL_DEX_FLAGS: Record<Gen3GameGroup, number> = {
+  RS: 0x836,
+  E: 0x896,
+  FRLG: 0x840,
+};
+export const NATIONAL_DEX_VARS: Record<Gen3GameGroup, { id: number; value: number }> = {
+  RS: { id: 0x4046, value: 0x0302 },
+  E: { id: 0x4046, value: 0x0302 },
+  FRLG: { id: 0x404E, value: 0x6258 },
+};
+
+// Section 1: party count (u32) followed by the six 100-byte party slots
+export const PARTY_COUNT_OFFSETS: Record<Gen3GameGroup, number> = {
+  RS: 0x234,
+  E: 0x234,
+  FRLG: 0x034,
+};
+export const PARTY_DATA_OFFSETS: Record<Gen3GameGroup, number> = {
+  RS: 0x238,
+  E: 0x238,
+  FRLG: 0x038,
+};
+
+// Section 1+: item pockets and PC item storage (SaveBlock1 offsets)
+// Each slot is a u16 item ID followed by a u16 quantity
+export type Gen3ItemPocket = 'items' | 'keyItems' | 'balls' | 'tmHm' | 'berries' | 'pc';
+
+export interface Gen3PocketLayout {
+  offset: number;
+  capacity: number; // Number of item slots
+}
+
+export const ITEM_SLOT_SIZE = 4;
+export const ITEM_POCKET_LAYOUTS: Record<Gen3GameGroup, Record<Gen3ItemPocket, Gen3PocketLayout>> = {
+  RS: {
+    pc: { offset: 0x498, capacity: 50 },
+    items: { offset: 0x560, capacity: 20 },
+    keyItems: { offset: 0x5B0, capacity: 20 },
+    balls: { offset: 0x600, capacity: 16 },
+    tmHm: { offset: 0x640, capacity: 64 },
+    berries: { offset: 0x740, capacity: 46 },
+  },
+  E: {
+    pc: { offset: 0x498, capacity: 50 },
+    items: { offset: 0x560, capacity: 30 },
+    keyItems: { offset: 0x5D8, capacity: 30 },
+    balls: { offset: 0x650, capacity: 16 },
+    tmHm: { offset: 0x690, capacity: 64 },
+    berries: { offset: 0x790, capacity: 46 },
+  },
+  FRLG: {
+    pc: { offset: 0x298, capacity: 30 },
+    items: { offset: 0x310, capacity: 42 },
+    keyItems: { offset: 0x3B8, capacity: 30 },
+    balls: { offset: 0x430, capacity: 13 },
+    tmHm: { offset: 0x464, capacity: 58 },
+    berries: { offset: 0x54C, capacity: 43 },
+  },
+};
+
+// Highest stack size per slot (bag quantities are capped lower than the PC in RS/E)
+export const MAX_BAG_ITEM_QUANTITY: Record<Gen3GameGroup, number> = {
+  RS: 99,
+  E: 99,
+  FRLG: 999,
+};
+export const MAX_PC_ITEM_QUANTITY = 999;
+
+// SaveBlock1: Daycare (two boxed Pokémon, their mail, steps walked and the pending egg)
+export interface Gen3DaycareLayout {
+  slotOffsets: [number, number]; // 80-byte box Pokémon
+  mailOffsets: [number, number]; // 0x38-byte mail held by each Pokémon
+  stepsOffsets: [number, number]; // u32 steps since deposit (one EXP per step)
+  offspringPersonalityOffset: number; // Non-zero while an egg is waiting
+  offspringPersonalitySize: 2 | 4; // Ruby/Sapphire and FRLG only store the low half
+  stepCounterOffset: number; // u8 egg cycle counter
+}
+
+export const DAYCARE_SLOT_COUNT = 2;
+export const DAYCARE_MAIL_SIZE = 0x38;
+export const DAYCARE_LAYOUTS: Record<Gen3GameGroup, Gen3DaycareLayout> = {
+  RS: {
+    slotOffsets: [0x2F9C, 0x2FEC],
+    mailOffsets: [0x303C, 0x3074],
+    stepsOffsets: [0x30AC, 0x30B0],
+    offspringPersonalityOffset: 0x30B4,
+    offspringPersonalitySize: 2,
+    stepCounterOffset: 0x30B6,
+  },
+  E: {
+    slotOffsets: [0x3030, 0x30BC],
+    mailOffsets: [0x3080, 0x310C],
+    stepsOffsets: [0x30B8, 0x3144],
+    offspringPersonalityOffset: 0x3148,
+    offspringPersonalitySize: 4,
+    stepCounterOffset: 0x314C,
+  },
+  FRLG: {
+    slotOffsets: [0x2F80, 0x300C],
+    mailOffsets: [0x2FD0, 0x305C],
+    stepsOffsets: [0x3008, 0x3094],
+    offspringPersonalityOffset: 0x3098,
+    offspringPersonalitySize: 2,
+    stepCounterOffset: 0x309A,
+  },
+};
+
 // PC Box structure
 export const BOX_NAME_LENGTH = 9;
+export const BOX_WALLPAPER_COUNT = 16;
 export const BOX_SIZE = 30; // 30 Pokémon per box
 export const NUM_BOXES = 14; // Gen 3 has 14 boxes
 
+// Blocks spanning several sections store 0xF80 bytes in each section;
+// the final section holds whatever is left over
+export const SECTION_CHUNK_SIZE = 0xF80;
+
 // PC data is stored across sections 5-13 (9 sections)
-// Each section contains partial box data
-export const PC_BUFFER_SIZE = 0xFF4 * 9; // Total PC buffer across 9 sections
+// Sections 5-12 hold 0xF80 bytes each and section 13 holds the last 0x7D0
+export const PC_CURRENT_BOX_OFFSET = 0x0000; // u8 (padded to 4 bytes)
+export const PC_BOXES_OFFSET = 0x0004; // 420 pk3 slots
+export const PC_BOX_NAMES_OFFSET = 0x8344; // 14 names, 9 bytes each
+export const PC_BOX_WALLPAPERS_OFFSET = 0x83C2; // 14 wallpaper IDs, 1 byte each
+export const PC_BUFFER_SIZE = 0x83D0; // Total PC buffer across 9 sections
 
 // Species IDs (subset for now, full table needed for production)
 export const SPECIES_NONE = 0;
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { getDaycare, getDaycareCount, extractDaycareFromSave, setDaycarePokemon } from './daycare';
+import { loadGen3Save, exportGen3Save, extractPokemonFromSave } from './gen3Save';
+import { encodePk3 } from '../pk3/pk3';
+import { injectPokemonToGen3Save, validateInjectionTarget } from '../../injection/gen3';
+import { createTestSave, createTestPk3, writeTestBlock } from '../../../test/gen3SaveFixture';
+import { DAYCARE_LAYOUTS, Gen3GameGroup } from './constants';
+
+function u32(value: number): number[] {
+  return [value & 0xFF, (value >>> 8) & 0xFF, (value >>> 16) & 0xFF, value >>> 24];
+}
+
+function createDaycareSave(game: Gen3GameGroup, species: number[], offspringPersonality = 0): ArrayBuffer {
+  const layout = DAYCARE_LAYOUTS[game];
+
+  return createTestSave({
+    game,
+    setup: (sections) => {
+      species.forEach((s, i) => {
+        const pk3 = createTestPk3({ species: s, personality: 0x2000 + i });
+        writeTestBlock(sections, 1, layout.slotOffsets[i]!, new Uint8Array(encodePk3(pk3)));
+        writeTestBlock(sections, 1, layout.stepsOffsets[i]!, u32(1500 + i));
+      });
+      writeTestBlock(sections, 1, layout.offspringPersonalityOffset, u32(offspringPersonality).slice(0, layout.offspringPersonalitySize));
+      writeTestBlock(sections, 1, layout.stepCounterOffset, [42]);
+    },
+  });
+}
+
+describe('Gen 3 Daycare', () => {
+  it('should decode both Daycare Pokémon with their steps in each game', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const daycare = getDaycare(loadGen3Save(createDaycareSave(game, [25, 132], 0xBEEF)));
+
+      expect(daycare.pokemon.map(p => p.pk3.personality)).toEqual([0x2000, 0x2001]);
+      expect(daycare.pokemon.map(p => p.steps)).toEqual([1500, 1501]);
+      expect(daycare.pokemon.every(p => p.location === 'daycare' && p.isValid)).toBe(true);
+      expect(daycare.eggPending).toBe(true);
+      expect(daycare.offspringPersonality).toBe(0xBEEF);
+      expect(daycare.stepCounter).toBe(42);
+    }
+  });
+
+  it('should read the full 32-bit egg personality in Emerald', () => {
+    const daycare = getDaycare(loadGen3Save(createDaycareSave('E', [25, 132], 0x12345678)));
+    expect(daycare.offspringPersonality).toBe(0x12345678);
+  });
+
+  it('should include Daycare Pokémon in full save extraction', () => {
+    const save = loadGen3Save(createDaycareSave('FRLG', [1]));
+
+    expect(extractPokemonFromSave(save).filter(p => p.location === 'daycare')).toHaveLength(1);
+    expect(getDaycare(save).eggPending).toBe(false);
+  });
+
+  it('should swap a Pokémon into an occupied slot and reset its steps', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const save = setDaycarePokemon(loadGen3Save(createDaycareSave(game, [25, 132])), 1, createTestPk3({ species: 4, personality: 7 }));
+      const reloaded = loadGen3Save(exportGen3Save(save));
+      const daycare = extractDaycareFromSave(reloaded);
+
+      expect(daycare.map(p => p.pk3.personality)).toEqual([0x2000, 7]);
+      expect(daycare[1]!.steps).toBe(0);
+    }
+  });
+
+  it('should fill Daycare slots in order', () => {
+    const save = loadGen3Save(createDaycareSave('E', []));
+    const pk3 = createTestPk3({ species: 1 });
+
+    expect(getDaycareCount(save)).toBe(0);
+    expect(() => setDaycarePokemon(save, 1, pk3)).toThrow('slots must be filled in order');
+    expect(() => setDaycarePokemon(save, 2, pk3)).toThrow('Invalid Daycare slot index');
+    expect(getDaycareCount(setDaycarePokemon(save, 0, pk3))).toBe(1);
+  });
+
+  it('should accept Daycare injection targets', () => {
+    const original = createDaycareSave('RS', [25]);
+    const result = injectPokemonToGen3Save(original, createTestPk3({ species: 7, personality: 9 }), { location: 'daycare', slotIndex: 1 });
+
+    expect(extractDaycareFromSave(loadGen3Save(result)).map(p => p.pk3.personality)).toEqual([0x2000, 9]);
+    expect(validateInjectionTarget(original, { location: 'daycare', slotIndex: 1 }).valid).toBe(true);
+    expect(validateInjectionTarget(createDaycareSave('RS', []), { location: 'daycare', slotIndex: 1 }).valid).toBe(false);
+  });
+});
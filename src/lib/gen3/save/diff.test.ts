@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { diffGen3Saves } from './diff';
+import { loadGen3Save } from './gen3Save';
+import { writeBlockBytes } from './layout';
+import { addItem } from './items';
+import { setEventFlag } from './events';
+import { injectPokemonToGen3Save } from '../../injection/gen3';
+import { createTestSave, createTestPk3 } from '../../../test/gen3SaveFixture';
+import { TRAINER_PLAY_HOURS_OFFSET } from './constants';
+
+describe('Gen 3 save diff', () => {
+  it('should report identical saves as unchanged', () => {
+    const save = loadGen3Save(createTestSave());
+    const diff = diffGen3Saves(save, save);
+
+    expect(diff.identical).toBe(true);
+    expect(diff.sections).toEqual([]);
+    expect(diff.pokemon).toEqual([]);
+    expect(diff.unexplained).toEqual([]);
+  });
+
+  it('should account for every byte an injection writes', () => {
+    const buffer = createTestSave({ game: 'FRLG' });
+    const pk3 = createTestPk3({ species: 25, personality: 0xABCD });
+    const injected = injectPokemonToGen3Save(buffer, pk3, { boxIndex: 1, slotIndex: 4 }, { registerPokedex: true });
+
+    const diff = diffGen3Saves(loadGen3Save(buffer), loadGen3Save(injected));
+
+    expect(diff.identical).toBe(false);
+    expect(diff.pokemon).toHaveLength(1);
+    expect(diff.pokemon[0]).toMatchObject({ location: 'box', box: 1, slot: 4, change: 'added', before: null });
+    expect(diff.pokemon[0]!.after!.personality).toBe(0xABCD);
+    expect(diff.pokedex).toEqual([
+      { nationalDex: 25, field: 'seen', before: false, after: true },
+      { nationalDex: 25, field: 'owned', before: false, after: true },
+    ]);
+    expect(diff.sections.map(s => s.id)).toEqual([0, 1, 4, 5]); // FRLG keeps a Pokédex seen copy in section 4
+    expect(diff.unexplained).toEqual([]);
+  });
+
+  it('should list changed Pokémon fields', () => {
+    const buffer = createTestSave();
+    const before = injectPokemonToGen3Save(buffer, createTestPk3({ species: 25, moves: [33] }), { boxIndex: 0, slotIndex: 0 });
+    const after = injectPokemonToGen3Save(before, createTestPk3({ species: 25, moves: [45], heldItem: 1 }), { boxIndex: 0, slotIndex: 0 });
+
+    const [change] = diffGen3Saves(loadGen3Save(before), loadGen3Save(after)).pokemon;
+
+    expect(change).toMatchObject({ location: 'box', box: 0, slot: 0, change: 'changed' });
+    expect(change!.fields).toEqual(['item', 'moves']);
+  });
+
+  it('should report trainer, item, flag and variable changes', () => {
+    const save = loadGen3Save(createTestSave({ game: 'E' }));
+    let edited = writeBlockBytes(save, 0, TRAINER_PLAY_HOURS_OFFSET, Uint8Array.of(7));
+    edited = addItem(edited, 'balls', 4, 5);
+    edited = setEventFlag(edited, 0x867, true);
+    edited = setEventFlag(edited, 0x95F, true); // Emerald has 0x60 more flags than the other games
+
+    const diff = diffGen3Saves(save, edited);
+
+    expect(diff.trainer).toEqual([{ field: 'playTime', before: '0:00', after: '7:00' }]);
+    expect(diff.items).toEqual([{ pocket: 'balls', itemId: 4, before: 0, after: 5 }]);
+    expect(diff.flags).toEqual([
+      { flag: 0x867, name: 'Stone Badge', before: false, after: true },
+      { flag: 0x95F, before: false, after: true },
+    ]);
+    expect(diff.vars).toEqual([]);
+    expect(diff.unexplained).toEqual([]);
+  });
+
+  it('should list byte ranges outside every decoded structure', () => {
+    const save = loadGen3Save(createTestSave());
+    const edited = writeBlockBytes(save, 1, 0x10, Uint8Array.of(1, 2, 3));
+
+    const diff = diffGen3Saves(save, edited);
+
+    expect(diff.sections).toEqual([expect.objectContaining({ id: 1, changedBytes: 3 })]);
+    expect(diff.unexplained).toEqual([{ sectionId: 1, start: 0x10, end: 0x13 }]);
+  });
+
+  it('should refuse to compare saves from different games', () => {
+    expect(() => diffGen3Saves(loadGen3Save(createTestSave({ game: 'RS' })), loadGen3Save(createTestSave({ game: 'FRLG' }))))
+      .toThrow('Cannot compare saves from different games');
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Gen 3 save diff
+ * Compares two saves of the same game at several levels: section checksums,
+ * Pokémon slots, trainer info, items, Pokédex, event flags and variables,
+ * and lists the changed byte ranges none of those account for
+ */
+
+import { readBlockBytes, getBoxSlotOffset } from './layout';
+import { getPartyCount, type Gen3Save } from './gen3Save';
+import { readInventory, GEN3_ITEM_POCKETS } from './items';
+import { getPokedex } from './pokedex';
+import { getSetEventFlags, getEventFlagName, EVENT_VAR_COUNT } from './events';
+import { parseTrainerInfo, formatPlayTime, type Gen3TrainerInfo } from './trainer';
+import { decodePk3, isProbablyEmptyPk3, decryptAndUnshufflePk3, type Pk3Data } from '../pk3/pk3';
+import { parseGrowth, parseAttacks, parseEVs, parseMisc, type EVsData } from '../pk3/substruct';
+import {
+  GEN3_NUM_SECTIONS,
+  GEN3_SECTION_DATA_SIZE,
+  SECTION_CHUNK_SIZE,
+  SECTION_ID_TRAINER_INFO,
+  SECTION_ID_TEAM_ITEMS,
+  SECTION_ID_PC_BUFFER_A,
+  TRAINER_OPTIONS_OFFSET,
+  TRAINER_GAME_CODE_OFFSET,
+  FRLG_SECURITY_KEY_OFFSET,
+  POKEDEX_NATIONAL_MAGIC_OFFSETS,
+  POKEDEX_UNOWN_PERSONALITY_OFFSET,
+  POKEDEX_OWNED_OFFSET,
+  POKEDEX_SEEN_OFFSET,
+  POKEDEX_FLAGS_LENGTH,
+  POKEDEX_SEEN_COPY_OFFSETS,
+  EVENT_FLAGS_OFFSETS,
+  EVENT_FLAG_COUNTS,
+  EVENT_VARS_OFFSETS,
+  EVENT_VAR_BASE,
+  PARTY_COUNT_OFFSETS,
+  PARTY_DATA_OFFSETS,
+  PARTY_SIZE,
+  DAYCARE_LAYOUTS,
+  DAYCARE_MAIL_SIZE,
+  ITEM_POCKET_LAYOUTS,
+  ITEM_SLOT_SIZE,
+  PK3_SIZE,
+  PK3_PARTY_SIZE,
+  NUM_BOXES,
+  BOX_SIZE,
+  GEN3_GAME_GROUP_NAMES,
+  Gen3ItemPocket,
+} from './constants';
+
+export interface Gen3SectionChange {
+  id: number;
+  checksumBefore: number;
+  checksumAfter: number;
+  changedBytes: number;
+}
+
+export interface Gen3PokemonChange {
+  location: 'party' | 'daycare' | 'box';
+  box?: number;
+  slot: number;
+  change: 'added' | 'removed' | 'changed';
+  before: Pk3Data | null;
+  after: Pk3Data | null;
+  fields: string[]; // Changed fields when the slot holds a Pokémon in both saves
+}
+
+export interface Gen3ValueChange {
+  field: string;
+  before: string | number | boolean;
+  after: string | number | boolean;
+}
+
+export interface Gen3ItemChange {
+  pocket: Gen3ItemPocket;
+  itemId: number;
+  before: number; // Total quantity across the pocket
+  after: number;
+}
+
+export interface Gen3PokedexChange {
+  nationalDex: number;
+  field: 'seen' | 'owned';
+  before: boolean;
+  after: boolean;
+}
+
+export interface Gen3FlagChange {
+  flag: number;
+  name?: string;
+  before: boolean;
+  after: boolean;
+}
+
+export interface Gen3VarChange {
+  id: number;
+  before: number;
+  after: number;
+}
+
+export interface Gen3ByteRange {
+  sectionId: number;
+  start: number; // Offset within the section's data
+  end: number; // Exclusive
+}
+
+export interface Gen3SaveDiff {
+  sections: Gen3SectionChange[];
+  pokemon: Gen3PokemonChange[];
+  trainer: Gen3ValueChange[];
+  items: Gen3ItemChange[];
+  pokedex: Gen3PokedexChange[];
+  flags: Gen3FlagChange[];
+  vars: Gen3VarChange[];
+  unexplained: Gen3ByteRange[]; // Changed bytes outside every structure compared above
+  identical: boolean;
+}
+
+/**
+ * Compare two loaded saves of the same game
+ */
+export function diffGen3Saves(a: Gen3Save, b: Gen3Save): Gen3SaveDiff {
+  if (a.game !== b.game) {
+    throw new Error(
+      `Cannot compare saves from different games: ${GEN3_GAME_GROUP_NAMES[a.game]} and ${GEN3_GAME_GROUP_NAMES[b.game]}`
+    );
+  }
+
+  const sections = diffSections(a, b);
+
+  return {
+    sections,
+    pokemon: diffPokemon(a, b),
+    trainer: diffTrainer(a, b),
+    items: diffItems(a, b),
+    pokedex: diffPokedex(a, b),
+    flags: diffFlags(a, b),
+    vars: diffVars(a, b),
+    unexplained: findUnexplainedRanges(a, b),
+    identical: sections.length === 0,
+  };
+}
+
+function diffSections(a: Gen3Save, b: Gen3Save): Gen3SectionChange[] {
+  const changes: Gen3SectionChange[] = [];
+
+  for (let id = 0; id < GEN3_NUM_SECTIONS; id++) {
+    const before = getSectionBytes(a, id);
+    const after = getSectionBytes(b, id);
+    let changedBytes = 0;
+    for (let i = 0; i < GEN3_SECTION_DATA_SIZE; i++) {
+      if (before[i] !== after[i]) changedBytes++;
+    }
+
+    if (changedBytes > 0) {
+      changes.push({
+        id,
+        checksumBefore: a.sections.find(s => s.id === id)!.checksum,
+        checksumAfter: b.sections.find(s => s.id === id)!.checksum,
+        changedBytes,
+      });
+    }
+  }
+
+  return changes;
+}
+
+function diffPokemon(a: Gen3Save, b: Gen3Save): Gen3PokemonChange[] {
+  const changes: Gen3PokemonChange[] = [];
+  const countA = getPartyCount(a);
+  const countB = getPartyCount(b);
+
+  for (let slot = 0; slot < PARTY_SIZE; slot++) {
+    const offset = PARTY_DATA_OFFSETS[a.game] + slot * PK3_PARTY_SIZE;
+    const change = diffPokemonSlot(
+      slot < countA ? readBlockBytes(a.sections, SECTION_ID_TEAM_ITEMS, offset, PK3_PARTY_SIZE) : null,
+      slot < countB ? readBlockBytes(b.sections, SECTION_ID_TEAM_ITEMS, offset, PK3_PARTY_SIZE) : null
+    );
+    if (change) changes.push({ location: 'party', slot, ...change });
+  }
+
+  DAYCARE_LAYOUTS[a.game].slotOffsets.forEach((offset, slot) => {
+    const change = diffPokemonSlot(
+      readStoredPk3(a, SECTION_ID_TEAM_ITEMS, offset),
+      readStoredPk3(b, SECTION_ID_TEAM_ITEMS, offset)
+    );
+    if (change) changes.push({ location: 'daycare', slot, ...change });
+  });
+
+  for (let box = 0; box < NUM_BOXES; box++) {
+    for (let slot = 0; slot < BOX_SIZE; slot++) {
+      const offset = getBoxSlotOffset(box, slot);
+      const change = diffPokemonSlot(
+        readStoredPk3(a, SECTION_ID_PC_BUFFER_A, offset),
+        readStoredPk3(b, SECTION_ID_PC_BUFFER_A, offset)
+      );
+      if (change) changes.push({ location: 'box', box, slot, ...change });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Compare one slot's bytes (null when empty); party slots carry 20 extra bytes of battle stats
+ */
+function diffPokemonSlot(
+  before: Uint8Array | null,
+  after: Uint8Array | null
+): Pick<Gen3PokemonChange, 'change' | 'before' | 'after' | 'fields'> | null {
+  if (!before && !after) return null;
+  if (before && after && bytesEqual(before, after)) return null;
+
+  const pk3Before = before ? decodeSlot(before) : null;
+  const pk3After = after ? decodeSlot(after) : null;
+
+  if (!pk3Before || !pk3After) {
+    return { change: pk3Before ? 'removed' : 'added', before: pk3Before, after: pk3After, fields: [] };
+  }
+
+  const fields = diffPk3Fields(pk3Before, pk3After);
+  if (!bytesEqual(before!.subarray(PK3_SIZE), after!.subarray(PK3_SIZE))) {
+    fields.push('stats');
+  }
+
+  return { change: 'changed', before: pk3Before, after: pk3After, fields };
+}
+
+/**
+ * List the decoded fields that differ between two Pokémon
+ */
+function diffPk3Fields(a: Pk3Data, b: Pk3Data): string[] {
+  const fields: string[] = [];
+  const compare = (field: string, x: unknown, y: unknown) => {
+    if (JSON.stringify(x) !== JSON.stringify(y)) fields.push(field);
+  };
+
+  compare('personality', a.personality, b.personality);
+  compare('otId', a.otId, b.otId);
+  compare('nickname', Array.from(a.nickname), Array.from(b.nickname));
+  compare('otName', Array.from(a.otName), Array.from(b.otName));
+  compare('language', a.language, b.language);
+  compare('markings', a.markings, b.markings);
+
+  const subA = decryptAndUnshufflePk3(a);
+  const subB = decryptAndUnshufflePk3(b);
+  for (const [field, value] of Object.entries(parseGrowth(subA.growth))) {
+    compare(field, value, parseGrowth(subB.growth)[field as keyof ReturnType<typeof parseGrowth>]);
+  }
+
+  const attacksA = parseAttacks(subA.attacks);
+  const attacksB = parseAttacks(subB.attacks);
+  compare('moves', [attacksA.move1, attacksA.move2, attacksA.move3, attacksA.move4], [attacksB.move1, attacksB.move2, attacksB.move3, attacksB.move4]);
+  compare('pp', [attacksA.pp1, attacksA.pp2, attacksA.pp3, attacksA.pp4], [attacksB.pp1, attacksB.pp2, attacksB.pp3, attacksB.pp4]);
+
+  const evsA = parseEVs(subA.evs);
+  const evsB = parseEVs(subB.evs);
+  compare('evs', listEVs(evsA), listEVs(evsB));
+  compare('contest', listContestStats(evsA), listContestStats(evsB));
+
+  for (const [field, value] of Object.entries(parseMisc(subA.misc))) {
+    compare(field, value, parseMisc(subB.misc)[field as keyof ReturnType<typeof parseMisc>]);
+  }
+
+  if (fields.length === 0 && a.checksum !== b.checksum) {
+    fields.push('checksum');
+  }
+  return fields;
+}
+
+function listEVs(evs: EVsData): number[] {
+  return [evs.hp, evs.attack, evs.defense, evs.speed, evs.spAtk, evs.spDef];
+}
+
+function listContestStats(evs: EVsData): number[] {
+  return [evs.coolness, evs.beauty, evs.cuteness, evs.smartness, evs.toughness, evs.feel];
+}
+
+/**
+ * Compare trainer cards, parsed from the sections since in-memory edits leave `save.trainer` as loaded
+ */
+function diffTrainer(a: Gen3Save, b: Gen3Save): Gen3ValueChange[] {
+  const before = flattenTrainer(parseTrainerInfo(a.sections, a.game));
+  const after = flattenTrainer(parseTrainerInfo(b.sections, b.game));
+
+  return Object.keys(before)
+    .filter(field => before[field] !== after[field])
+    .map(field => ({ field, before: before[field]!, after: after[field]! }));
+}
+
+function flattenTrainer(trainer: Gen3TrainerInfo): Record<string, string | number | boolean> {
+  return {
+    name: trainer.name,
+    gender: trainer.gender,
+    trainerId: trainer.trainerId,
+    secretId: trainer.secretId,
+    playTime: formatPlayTime(trainer.playTime),
+    buttonMode: trainer.options.buttonMode,
+    textSpeed: trainer.options.textSpeed,
+    windowFrame: trainer.options.windowFrame,
+    sound: trainer.options.sound,
+    battleStyle: trainer.options.battleStyle,
+    battleScene: trainer.options.battleScene,
+    securityKey: trainer.securityKey,
+  };
+}
+
+function diffItems(a: Gen3Save, b: Gen3Save): Gen3ItemChange[] {
+  const before = readInventory(a);
+  const after = readInventory(b);
+  const changes: Gen3ItemChange[] = [];
+
+  for (const pocket of GEN3_ITEM_POCKETS) {
+    const totalsBefore = totalQuantities(before[pocket]);
+    const totalsAfter = totalQuantities(after[pocket]);
+    const itemIds = [...new Set([...totalsBefore.keys(), ...totalsAfter.keys()])].sort((x, y) => x - y);
+
+    for (const itemId of itemIds) {
+      const quantityBefore = totalsBefore.get(itemId) ?? 0;
+      const quantityAfter = totalsAfter.get(itemId) ?? 0;
+      if (quantityBefore !== quantityAfter) {
+        changes.push({ pocket, itemId, before: quantityBefore, after: quantityAfter });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function totalQuantities(slots: { itemId: number; quantity: number }[]): Map<number, number> {
+  const totals = new Map<number, number>();
+  for (const { itemId, quantity } of slots) {
+    totals.set(itemId, (totals.get(itemId) ?? 0) + quantity);
+  }
+  return totals;
+}
+
+function diffPokedex(a: Gen3Save, b: Gen3Save): Gen3PokedexChange[] {
+  const before = getPokedex(a);
+  const after = getPokedex(b);
+  const changes: Gen3PokedexChange[] = [];
+
+  for (const field of ['seen', 'owned'] as const) {
+    const setBefore = new Set(before[field]);
+    const setAfter = new Set(after[field]);
+    const species = [...new Set([...before[field], ...after[field]])].sort((x, y) => x - y);
+
+    for (const nationalDex of species) {
+      if (setBefore.has(nationalDex) !== setAfter.has(nationalDex)) {
+        changes.push({ nationalDex, field, before: setBefore.has(nationalDex), after: setAfter.has(nationalDex) });
+      }
+    }
+  }
+
+  return changes.sort((x, y) => x.nationalDex - y.nationalDex);
+}
+
+function diffFlags(a: Gen3Save, b: Gen3Save): Gen3FlagChange[] {
+  const before = new Set(getSetEventFlags(a));
+  const after = new Set(getSetEventFlags(b));
+  const changes: Gen3FlagChange[] = [];
+
+  for (let flag = 0; flag < EVENT_FLAG_COUNTS[a.game]; flag++) {
+    if (before.has(flag) !== after.has(flag)) {
+      const name = getEventFlagName(a.game, flag);
+      changes.push({ flag, ...(name ? { name } : {}), before: before.has(flag), after: after.has(flag) });
+    }
+  }
+
+  return changes;
+}
+
+function diffVars(a: Gen3Save, b: Gen3Save): Gen3VarChange[] {
+  const offset = EVENT_VARS_OFFSETS[a.game];
+  const before = readBlockBytes(a.sections, SECTION_ID_TEAM_ITEMS, offset, EVENT_VAR_COUNT * 2);
+  const after = readBlockBytes(b.sections, SECTION_ID_TEAM_ITEMS, offset, EVENT_VAR_COUNT * 2);
+  const changes: Gen3VarChange[] = [];
+
+  for (let i = 0; i < EVENT_VAR_COUNT; i++) {
+    const valueBefore = before[i * 2]! | (before[i * 2 + 1]! << 8);
+    const valueAfter = after[i * 2]! | (after[i * 2 + 1]! << 8);
+    if (valueBefore !== valueAfter) {
+      changes.push({ id: EVENT_VAR_BASE + i, before: valueBefore, after: valueAfter });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Find changed bytes outside every structure the diff decodes
+ */
+function findUnexplainedRanges(a: Gen3Save, b: Gen3Save): Gen3ByteRange[] {
+  const explained = Array.from({ length: GEN3_NUM_SECTIONS }, () => new Uint8Array(GEN3_SECTION_DATA_SIZE));
+  const explain = (firstSectionId: number, offset: number, length: number) => {
+    for (let i = offset; i < offset + length; i++) {
+      explained[firstSectionId + Math.floor(i / SECTION_CHUNK_SIZE)]![i % SECTION_CHUNK_SIZE] = 1;
+    }
+  };
+
+  for (const region of getExplainedRegions(a)) {
+    explain(...region);
+  }
+
+  const ranges: Gen3ByteRange[] = [];
+  for (let id = 0; id < GEN3_NUM_SECTIONS; id++) {
+    const before = getSectionBytes(a, id);
+    const after = getSectionBytes(b, id);
+    let start = -1;
+
+    for (let i = 0; i <= GEN3_SECTION_DATA_SIZE; i++) {
+      const unexplained = i < GEN3_SECTION_DATA_SIZE && before[i] !== after[i] && explained[id]![i] === 0;
+      if (unexplained && start === -1) {
+        start = i;
+      } else if (!unexplained && start !== -1) {
+        ranges.push({ sectionId: id, start, end: i });
+        start = -1;
+      }
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Block ranges (first section ID, logical offset, length) covered by the decoded comparisons
+ */
+function getExplainedRegions(save: Gen3Save): [number, number, number][] {
+  const { game } = save;
+  const daycare = DAYCARE_LAYOUTS[game];
+  const flagsLength = POKEDEX_FLAGS_LENGTH;
+
+  return [
+    // Trainer card and game code (plus the FRLG security key)
+    [SECTION_ID_TRAINER_INFO, 0, TRAINER_OPTIONS_OFFSET + 2],
+    [SECTION_ID_TRAINER_INFO, TRAINER_GAME_CODE_OFFSET, 4],
+    ...(game === 'FRLG' ? [[SECTION_ID_TRAINER_INFO, FRLG_SECURITY_KEY_OFFSET, 4] as [number, number, number]] : []),
+    // Pokédex
+    [SECTION_ID_TRAINER_INFO, POKEDEX_NATIONAL_MAGIC_OFFSETS[game], 1],
+    [SECTION_ID_TRAINER_INFO, POKEDEX_UNOWN_PERSONALITY_OFFSET, 8],
+    [SECTION_ID_TRAINER_INFO, POKEDEX_OWNED_OFFSET, flagsLength],
+    [SECTION_ID_TRAINER_INFO, POKEDEX_SEEN_OFFSET, flagsLength],
+    ...POKEDEX_SEEN_COPY_OFFSETS[game].map(offset => [SECTION_ID_TEAM_ITEMS, offset, flagsLength] as [number, number, number]),
+    // Party
+    [SECTION_ID_TEAM_ITEMS, PARTY_COUNT_OFFSETS[game], 4],
+    [SECTION_ID_TEAM_ITEMS, PARTY_DATA_OFFSETS[game], PARTY_SIZE * PK3_PARTY_SIZE],
+    // Daycare (the mail and step count are reset along with the Pokémon)
+    ...daycare.slotOffsets.map(offset => [SECTION_ID_TEAM_ITEMS, offset, PK3_SIZE] as [number, number, number]),
+    ...daycare.mailOffsets.map(offset => [SECTION_ID_TEAM_ITEMS, offset, DAYCARE_MAIL_SIZE] as [number, number, number]),
+    ...daycare.stepsOffsets.map(offset => [SECTION_ID_TEAM_ITEMS, offset, 4] as [number, number, number]),
+    // Items
+    ...Object.values(ITEM_POCKET_LAYOUTS[game]).map(layout =>
+      [SECTION_ID_TEAM_ITEMS, layout.offset, layout.capacity * ITEM_SLOT_SIZE] as [number, number, number]
+    ),
+    // Event flags and variables
+    [SECTION_ID_TEAM_ITEMS, EVENT_FLAGS_OFFSETS[game], EVENT_FLAG_COUNTS[game] / 8],
+    [SECTION_ID_TEAM_ITEMS, EVENT_VARS_OFFSETS[game], EVENT_VAR_COUNT * 2],
+    // PC box slots
+    [SECTION_ID_PC_BUFFER_A, getBoxSlotOffset(0, 0), NUM_BOXES * BOX_SIZE * PK3_SIZE],
+  ];
+}
+
+function readStoredPk3(save: Gen3Save, firstSectionId: number, offset: number): Uint8Array | null {
+  const bytes = readBlockBytes(save.sections, firstSectionId, offset, PK3_SIZE);
+  return isProbablyEmptyPk3(copyToBuffer(bytes)) ? null : bytes;
+}
+
+function decodeSlot(bytes: Uint8Array): Pk3Data {
+  return decodePk3(copyToBuffer(bytes.subarray(0, PK3_SIZE)));
+}
+
+function getSectionBytes(save: Gen3Save, id: number): Uint8Array {
+  const section = save.sections.find(s => s.id === id);
+  if (!section) {
+    throw new Error(`Section ${id} not found`);
+  }
+  return new Uint8Array(section.data);
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function copyToBuffer(bytes: Uint8Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(bytes.length);
+  new Uint8Array(buffer).set(bytes);
+  return buffer;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEventFlag,
+  setEventFlag,
+  getSetEventFlags,
+  getEventFlagName,
+  getEventVar,
+  setEventVar,
+  unlockTicketIsland,
+  GEN3_EVENT_FLAGS,
+} from './events';
+import { readItemPocket } from './items';
+import { loadGen3Save, exportGen3Save } from './gen3Save';
+import { createTestSave, writeTestBlock } from '../../../test/gen3SaveFixture';
+import { EVENT_FLAGS_OFFSETS, EVENT_VARS_OFFSETS } from './constants';
+
+describe('Gen 3 event flags', () => {
+  it('should read flags from each game\'s flag table', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const save = loadGen3Save(createTestSave({
+        game,
+        setup: (sections) => {
+          writeTestBlock(sections, 1, EVENT_FLAGS_OFFSETS[game], [0b00000101]); // Flags 0 and 2
+          writeTestBlock(sections, 1, EVENT_FLAGS_OFFSETS[game] + 0x100, [0b10000000]); // Flag 0x807
+        },
+      }));
+
+      expect(getSetEventFlags(save)).toEqual([0, 2, 0x807]);
+      expect(getEventFlag(save, 2)).toBe(true);
+      expect(getEventFlag(save, 1)).toBe(false);
+    }
+  });
+
+  it('should set and clear flags across a commit', () => {
+    let save = loadGen3Save(createTestSave({ game: 'E', rotation: 3 }));
+    save = setEventFlag(save, 0x8B3, true);
+    save = setEventFlag(save, 0x95F, true);
+    save = setEventFlag(save, 0x10, true);
+    save = setEventFlag(save, 0x10, false);
+
+    const reloaded = loadGen3Save(exportGen3Save(save));
+    expect(getSetEventFlags(reloaded)).toEqual([0x8B3, 0x95F]);
+    expect(() => setEventFlag(reloaded, 0x960, true)).toThrow('Invalid event flag');
+    expect(() => setEventFlag(loadGen3Save(createTestSave({ game: 'RS' })), 0x900, true)).toThrow('must be 0x0-0x8ff');
+  });
+
+  it('should read and write variables', () => {
+    const save = loadGen3Save(createTestSave({
+      game: 'FRLG',
+      setup: (sections) => {
+        writeTestBlock(sections, 1, EVENT_VARS_OFFSETS.FRLG + 0x4E * 2, [0x58, 0x62]);
+      },
+    }));
+
+    expect(getEventVar(save, 0x404E)).toBe(0x6258);
+    expect(getEventVar(setEventVar(save, 0x4001, 1234), 0x4001)).toBe(1234);
+    expect(() => getEventVar(save, 0x3FFF)).toThrow('Invalid event variable');
+    expect(() => setEventVar(save, 0x4001, 0x10000)).toThrow('Invalid value');
+  });
+
+  it('should name badges and island flags per game', () => {
+    expect(getEventFlagName('E', 0x867)).toBe('Stone Badge');
+    expect(getEventFlagName('FRLG', 0x827)).toBe('Earth Badge');
+    expect(getEventFlagName('RS', 0x8D5)).toBeUndefined();
+    expect(GEN3_EVENT_FLAGS.E.filter(flag => flag.category === 'island')).toHaveLength(4);
+  });
+});
+
+describe('Gen 3 ticket islands', () => {
+  it('should enable the ferry and hand over the ticket', () => {
+    const save = unlockTicketIsland(loadGen3Save(createTestSave({ game: 'E' })), 'OldSeaMap');
+    const reloaded = loadGen3Save(exportGen3Save(save));
+
+    expect(getEventFlag(reloaded, 0x8D6)).toBe(true);
+    expect(readItemPocket(reloaded, 'keyItems')).toEqual([{ itemId: 376, quantity: 1 }]);
+  });
+
+  it('should not duplicate a ticket the player already has', () => {
+    let save = loadGen3Save(createTestSave({ game: 'FRLG' }));
+    save = unlockTicketIsland(save, 'MysticTicket');
+    save = unlockTicketIsland(save, 'MysticTicket');
+
+    expect(getEventFlag(save, 0x84B)).toBe(true);
+    expect(readItemPocket(save, 'keyItems')).toEqual([{ itemId: 370, quantity: 1 }]);
+  });
+
+  it('should reject islands the game does not have', () => {
+    const save = loadGen3Save(createTestSave({ game: 'RS' }));
+
+    expect(() => unlockTicketIsland(save, 'AuroraTicket')).toThrow('not available');
+    expect(getEventFlag(unlockTicketIsland(save, 'EonTicket'), 0x853)).toBe(true);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Gen 3 event flags and variables
+ * Reads and edits the script flags and variables stored in SaveBlock1,
+ * with named tables for the flags worth editing by hand in each game
+ */
+
+import { readBlockBytes, writeBlockBytes } from './layout';
+import { readItemPocket, addItem } from './items';
+import {
+  SECTION_ID_TEAM_ITEMS,
+  EVENT_FLAGS_OFFSETS,
+  EVENT_FLAG_COUNTS,
+  EVENT_VARS_OFFSETS,
+  EVENT_VAR_BASE,
+  NATIONAL_DEX_FLAGS,
+  NATIONAL_DEX_VARS,
+  Gen3GameGroup,
+} from './constants';
+import type { Gen3Save } from './gen3Save';
+import type { Gen3TicketIslandEncounter } from '../../events/encounterTypes';
+
+export const EVENT_VAR_COUNT = 0x100;
+
+export type Gen3EventFlagCategory = 'island' | 'badge' | 'system';
+
+export interface Gen3EventFlagDefinition {
+  id: number;
+  name: string;
+  category: Gen3EventFlagCategory;
+}
+
+export interface Gen3EventVarDefinition {
+  id: number;
+  name: string;
+}
+
+export type Gen3TicketItem = Gen3TicketIslandEncounter['item'];
+
+export interface Gen3TicketIsland {
+  item: Gen3TicketItem;
+  itemId: number; // Key item handed over at the harbor
+  flag: number; // Lets the ferry sail to the island
+  location: string;
+  species: string;
+}
+
+const HOENN_BADGES = ['Stone', 'Knuckle', 'Dynamo', 'Heat', 'Balance', 'Feather', 'Mind', 'Rain'];
+const KANTO_BADGES = ['Boulder', 'Cascade', 'Thunder', 'Rainbow', 'Soul', 'Marsh', 'Volcano', 'Earth'];
+
+// First badge flag in each game; the other seven follow in order
+const BADGE_FLAG_STARTS: Record<Gen3GameGroup, number> = {
+  RS: 0x807,
+  E: 0x867,
+  FRLG: 0x820,
+};
+
+/**
+ * Islands reached with event tickets, per game
+ */
+export const GEN3_TICKET_ISLANDS: Record<Gen3GameGroup, Gen3TicketIsland[]> = {
+  RS: [
+    { item: 'EonTicket', itemId: 275, flag: 0x853, location: 'Southern Island', species: 'Latias/Latios' },
+  ],
+  E: [
+    { item: 'EonTicket', itemId: 275, flag: 0x8B3, location: 'Southern Island', species: 'Latias/Latios' },
+    { item: 'AuroraTicket', itemId: 371, flag: 0x8D5, location: 'Birth Island', species: 'Deoxys' },
+    { item: 'OldSeaMap', itemId: 376, flag: 0x8D6, location: 'Faraway Island', species: 'Mew' },
+    { item: 'MysticTicket', itemId: 370, flag: 0x8E0, location: 'Navel Rock', species: 'Lugia/Ho-Oh' },
+  ],
+  FRLG: [
+    { item: 'AuroraTicket', itemId: 371, flag: 0x84A, location: 'Birth Island', species: 'Deoxys' },
+    { item: 'MysticTicket', itemId: 370, flag: 0x84B, location: 'Navel Rock', species: 'Lugia/Ho-Oh' },
+  ],
+};
+
+/**
+ * Named event flags, per game
+ */
+export const GEN3_EVENT_FLAGS: Record<Gen3GameGroup, Gen3EventFlagDefinition[]> = {
+  RS: buildFlagTable('RS', HOENN_BADGES),
+  E: buildFlagTable('E', HOENN_BADGES),
+  FRLG: buildFlagTable('FRLG', KANTO_BADGES),
+};
+
+/**
+ * Named event variables, per game
+ */
+export const GEN3_EVENT_VARS: Record<Gen3GameGroup, Gen3EventVarDefinition[]> = {
+  RS: [{ id: NATIONAL_DEX_VARS.RS.id, name: 'National Dex unlock' }],
+  E: [{ id: NATIONAL_DEX_VARS.E.id, name: 'National Dex unlock' }],
+  FRLG: [{ id: NATIONAL_DEX_VARS.FRLG.id, name: 'National Dex unlock' }],
+};
+
+/**
+ * Read an event flag
+ */
+export function getEventFlag(save: Gen3Save, flag: number): boolean {
+  validateFlag(save.game, flag);
+  const byte = readBlockBytes(save.sections, SECTION_ID_TEAM_ITEMS, getFlagByteOffset(save, flag), 1)[0]!;
+  return ((byte >> (flag & 7)) & 1) === 1;
+}
+
+/**
+ * Set or clear an event flag
+ */
+export function setEventFlag(save: Gen3Save, flag: number, value: boolean): Gen3Save {
+  validateFlag(save.game, flag);
+  const offset = getFlagByteOffset(save, flag);
+  const byte = readBlockBytes(save.sections, SECTION_ID_TEAM_ITEMS, offset, 1)[0]!;
+  const updated = value ? byte | (1 << (flag & 7)) : byte & ~(1 << (flag & 7));
+
+  return updated === byte ? save : writeBlockBytes(save, SECTION_ID_TEAM_ITEMS, offset, Uint8Array.of(updated));
+}
+
+/**
+ * List the IDs of every set event flag
+ */
+export function getSetEventFlags(save: Gen3Save): number[] {
+  const count = EVENT_FLAG_COUNTS[save.game];
+  const bytes = readBlockBytes(save.sections, SECTION_ID_TEAM_ITEMS, EVENT_FLAGS_OFFSETS[save.game], count / 8);
+  const flags: number[] = [];
+
+  for (let flag = 0; flag < count; flag++) {
+    if ((bytes[flag >> 3]! >> (flag & 7)) & 1) flags.push(flag);
+  }
+  return flags;
+}
+
+/**
+ * Look up the name of a flag in the game's table
+ */
+export function getEventFlagName(game: Gen3GameGroup, flag: number): string | undefined {
+  return GEN3_EVENT_FLAGS[game].find(definition => definition.id === flag)?.name;
+}
+
+/**
+ * Read an event variable (IDs 0x4000-0x40FF)
+ */
+export function getEventVar(save: Gen3Save, id: number): number {
+  validateVar(id);
+  const bytes = readBlockBytes(save.sections, SECTION_ID_TEAM_ITEMS, getVarOffset(save, id), 2);
+  return bytes[0]! | (bytes[1]! << 8);
+}
+
+/**
+ * Write an event variable
+ */
+export function setEventVar(save: Gen3Save, id: number, value: number): Gen3Save {
+  validateVar(id);
+  if (!Number.isInteger(value) || value < 0 || value > 0xFFFF) {
+    throw new Error(`Invalid value for variable 0x${id.toString(16)}: ${value} (must be 0-65535)`);
+  }
+  return writeBlockBytes(save, SECTION_ID_TEAM_ITEMS, getVarOffset(save, id), Uint8Array.of(value & 0xFF, value >> 8));
+}
+
+/**
+ * Unlock a ticket island: enable the ferry route and hand over the ticket
+ * so the encounter can be reached and caught in-game
+ */
+export function unlockTicketIsland(save: Gen3Save, item: Gen3TicketItem): Gen3Save {
+  const island = GEN3_TICKET_ISLANDS[save.game].find(entry => entry.item === item);
+  if (!island) {
+    throw new Error(`${item} is not available in this game`);
+  }
+
+  let result = setEventFlag(save, island.flag, true);
+  if (!readItemPocket(result, 'keyItems').some(slot => slot.itemId === island.itemId)) {
+    result = addItem(result, 'keyItems', island.itemId, 1);
+  }
+  return result;
+}
+
+function buildFlagTable(game: Gen3GameGroup, badges: string[]): Gen3EventFlagDefinition[] {
+  return [
+    ...badges.map((badge, i) => ({ id: BADGE_FLAG_STARTS[game] + i, name: `${badge} Badge`, category: 'badge' as const })),
+    { id: NATIONAL_DEX_FLAGS[game], name: 'National Dex unlock', category: 'system' },
+    ...GEN3_TICKET_ISLANDS[game].map(island => ({
+      id: island.flag,
+      name: `Ferry to ${island.location} (${island.species})`,
+      category: 'island' as const,
+    })),
+  ];
+}
+
+function getFlagByteOffset(save: Gen3Save, flag: number): number {
+  return EVENT_FLAGS_OFFSETS[save.game] + (flag >> 3);
+}
+
+function getVarOffset(save: Gen3Save, id: number): number {
+  return EVENT_VARS_OFFSETS[save.game] + (id - EVENT_VAR_BASE) * 2;
+}
+
+function validateFlag(game: Gen3GameGroup, flag: number): void {
+  const count = EVENT_FLAG_COUNTS[game];
+  if (!Number.isInteger(flag) || flag < 0 || flag >= count) {
+    throw new Error(`Invalid event flag: 0x${flag.toString(16)} (must be 0x0-0x${(count - 1).toString(16)})`);
+  }
+}
+
+function validateVar(id: number): void {
+  if (!Number.isInteger(id) || id < EVENT_VAR_BASE || id >= EVENT_VAR_BASE + EVENT_VAR_COUNT) {
+    throw new Error(`Invalid event variable: 0x${id.toString(16)} (must be 0x4000-0x40ff)`);
+  }
+}
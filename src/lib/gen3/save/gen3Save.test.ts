@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  loadGen3Save,
+  detectGameGroup,
+  getPartyCount,
+  extractPartyFromSave,
+  extractPokemonFromSave,
+} from './gen3Save';
+import { encodePartyPk3, decodePartyPk3, getStatusCondition, PartyStats } from '../pk3/party';
+import { createTestSave, createTestPk3 } from '../../../test/gen3SaveFixture';
+import { PARTY_COUNT_OFFSETS, PARTY_DATA_OFFSETS, PK3_PARTY_SIZE, Gen3GameGroup } from './constants';
+import { StatusCondition } from '../../types';
+
+const TEST_STATS: PartyStats = {
+  status: 0x10, // Burned
+  level: 12,
+  mailId: 0xFF,
+  currentHp: 20,
+  maxHp: 35,
+  attack: 21,
+  defense: 18,
+  speed: 25,
+  spAtk: 19,
+  spDef: 17,
+};
+
+function createSaveWithParty(game: Gen3GameGroup, species: number[]): ArrayBuffer {
+  return createTestSave({
+    game,
+    setup: (sections) => {
+      const team = sections[1]!;
+      new DataView(team.buffer).setUint32(PARTY_COUNT_OFFSETS[game], species.length, true);
+      species.forEach((s, i) => {
+        const pk3 = createTestPk3({ species: s, personality: 0x1000 + i });
+        team.set(new Uint8Array(encodePartyPk3(pk3, TEST_STATS)), PARTY_DATA_OFFSETS[game] + i * PK3_PARTY_SIZE);
+      });
+    },
+  });
+}
+
+describe('Gen 3 save', () => {
+  describe('detectGameGroup', () => {
+    it('should detect each game group from the game code', () => {
+      for (const game of ['RS', 'E', 'FRLG'] as const) {
+        const save = loadGen3Save(createTestSave({ game }));
+        expect(detectGameGroup(save.sections)).toBe(game);
+        expect(save.game).toBe(game);
+      }
+    });
+  });
+
+  describe('party extraction', () => {
+    it('should roundtrip the 100-byte party structure', () => {
+      const pk3 = createTestPk3({ species: 25 });
+      const decoded = decodePartyPk3(encodePartyPk3(pk3, TEST_STATS));
+
+      expect(decoded.pk3.personality).toBe(pk3.personality);
+      expect(decoded.stats).toEqual(TEST_STATS);
+      expect(getStatusCondition(decoded.stats.status)).toBe(StatusCondition.BURNED);
+    });
+
+    it('should extract party Pokémon for Emerald and FireRed/LeafGreen layouts', () => {
+      for (const game of ['E', 'FRLG'] as const) {
+        const save = loadGen3Save(createSaveWithParty(game, [1, 4, 7]));
+        const party = extractPartyFromSave(save);
+
+        expect(getPartyCount(save)).toBe(3);
+        expect(party).toHaveLength(3);
+        expect(party.map(p => p.slot)).toEqual([0, 1, 2]);
+        expect(party.every(p => p.location === 'party' && p.isValid)).toBe(true);
+        expect(party[0]!.stats.level).toBe(12);
+        expect(party[0]!.stats.maxHp).toBe(35);
+      }
+    });
+
+    it('should include party Pokémon alongside boxes', () => {
+      const save = loadGen3Save(createSaveWithParty('E', [150]));
+      const all = extractPokemonFromSave(save);
+
+      expect(all).toHaveLength(1);
+      expect(all[0]!.location).toBe('party');
+    });
+
+    it('should reject an out-of-range party count', () => {
+      const buffer = createTestSave({
+        setup: (sections) => {
+          new DataView(sections[1]!.buffer).setUint32(PARTY_COUNT_OFFSETS.E, 9, true);
+        },
+      });
+      expect(() => getPartyCount(loadGen3Save(buffer))).toThrow('Invalid party count');
+    });
+
+    it('should still extract the party when its count is corrupted', () => {
+      const buffer = createTestSave({
+        setup: (sections) => {
+          new DataView(sections[1]!.buffer).setUint32(PARTY_COUNT_OFFSETS.E, 0xFFFF, true);
+          [1, 4].forEach((species, i) => {
+            const pk3 = createTestPk3({ species, personality: 0x1000 + i });
+            sections[1]!.set(new Uint8Array(encodePartyPk3(pk3, TEST_STATS)), PARTY_DATA_OFFSETS.E + i * PK3_PARTY_SIZE);
+          });
+        },
+      });
+
+      const party = extractPartyFromSave(loadGen3Save(buffer));
+      expect(party.map(p => p.slot)).toEqual([0, 1]);
+      expect(party.every(p => p.isValid)).toBe(true);
+    });
+  });
+});
@@ -6,9 +6,9 @@
 import {
   validateSaveSize,
   determineActiveSlot,
+  parseSaveSlot,
   getSortedSections,
   verifySectionIntegrity,
-  calculateSectionChecksum,
   SaveSlot,
   SaveSection,
 } from './sections';
@@ -19,29 +19,64 @@ import {
   verifyPk3Checksum,
   Pk3Data,
 } from '../pk3/pk3';
-import { safeSlice, writeU16, writeU32 } from '../../utils/bin';
+import { decodePartyPk3, PartyStats } from '../pk3/party';
+import { diagnoseBadEgg, type BadEggDiagnosis } from '../pk3/badEgg';
+import { commitGen3Save, hasPendingChanges } from './commit';
+import { readBlockBytes, writeBlockBytes, getBoxSlotOffset } from './layout';
+import { parseTrainerInfo, Gen3TrainerInfo } from './trainer';
+import { extractDaycareFromSave } from './daycare';
+import { readU32, safeSlice } from '../../utils/bin';
 import {
-  GEN3_SECTION_DATA_SIZE,
   PK3_SIZE,
+  PK3_PARTY_SIZE,
+  PARTY_SIZE,
   NUM_BOXES,
   BOX_SIZE,
+  SECTION_ID_TRAINER_INFO,
+  SECTION_ID_TEAM_ITEMS,
   SECTION_ID_PC_BUFFER_A,
-  SECTION_FOOTER_CHECKSUM_OFFSET,
-  GEN3_SECTION_SIZE,
+  PC_BUFFER_SIZE,
+  TRAINER_GAME_CODE_OFFSET,
+  GAME_CODE_RS,
+  GAME_CODE_FRLG,
+  PARTY_COUNT_OFFSETS,
+  PARTY_DATA_OFFSETS,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  Gen3GameGroup,
 } from './constants';
 
-export interface ExtractedPokemon {
+interface ExtractedPokemonBase {
   pk3: Pk3Data;
-  box: number; // Box number (0-13)
-  slot: number; // Slot number (0-29)
+  slot: number; // Slot number (0-29 in a box, 0-5 in the party, 0-1 in the Daycare)
   isValid: boolean; // Whether checksum is valid
+  badEgg: BadEggDiagnosis | null; // Why the game would show a Bad Egg, if it would
 }
 
+export interface ExtractedBoxPokemon extends ExtractedPokemonBase {
+  location: 'box';
+  box: number; // Box number (0-13)
+}
+
+export interface ExtractedPartyPokemon extends ExtractedPokemonBase {
+  location: 'party';
+  stats: PartyStats; // Battle stats stored after the pk3
+}
+
+export interface ExtractedDaycarePokemon extends ExtractedPokemonBase {
+  location: 'daycare';
+  steps: number; // Steps walked since deposit, added as EXP on withdrawal
+}
+
+export type ExtractedPokemon = ExtractedBoxPokemon | ExtractedPartyPokemon | ExtractedDaycarePokemon;
+
 export interface Gen3Save {
   buffer: ArrayBuffer;
   activeSlot: 'A' | 'B';
   slot: SaveSlot;
   sections: SaveSection[];
+  game: Gen3GameGroup;
+  trainer: Gen3TrainerInfo;
 }
 
 /**
@@ -51,10 +86,21 @@ export function loadGen3Save(buffer: ArrayBuffer): Gen3Save {
   validateSaveSize(buffer);
 
   const { activeSlot, slotA, slotB } = determineActiveSlot(buffer);
-  const slot = activeSlot === 'A' ? slotA : slotB;
+  return buildSave(buffer, activeSlot, activeSlot === 'A' ? slotA : slotB);
+}
 
+/**
+ * Load a specific save slot, even if it is the older backup copy
+ * Exporting the result commits over the other slot
+ */
+export function loadGen3SaveSlot(buffer: ArrayBuffer, slotName: 'A' | 'B'): Gen3Save {
+  validateSaveSize(buffer);
+  return buildSave(buffer, slotName, parseSaveSlot(buffer, slotName === 'A' ? GEN3_SAVE_SLOT_A : GEN3_SAVE_SLOT_B));
+}
+
+function buildSave(buffer: ArrayBuffer, activeSlot: 'A' | 'B', slot: SaveSlot): Gen3Save {
   if (!slot.isValid) {
-    throw new Error(`Active save slot ${activeSlot} is invalid or corrupted`);
+    throw new Error(`Save slot ${activeSlot} is invalid or corrupted`);
   }
 
   const sections = getSortedSections(slot);
@@ -72,67 +118,136 @@ export function loadGen3Save(buffer: ArrayBuffer): Gen3Save {
     throw new Error(`Invalid sections detected: ${invalidSections.join(', ')}`);
   }
 
+  const game = detectGameGroup(sections);
+
   return {
     buffer,
     activeSlot,
     slot,
     sections,
+    game,
+    trainer: parseTrainerInfo(sections, game),
   };
 }
 
+/**
+ * Detect which game group a save belongs to from the game code in section 0
+ * Emerald has no game code; the same field holds its (random) security key
+ */
+export function detectGameGroup(sections: SaveSection[]): Gen3GameGroup {
+  const trainerSection = sections.find(s => s.id === SECTION_ID_TRAINER_INFO);
+  if (!trainerSection) {
+    throw new Error('Trainer info section not found');
+  }
+
+  return getGameGroupFromCode(readU32(new DataView(trainerSection.data), TRAINER_GAME_CODE_OFFSET));
+}
+
+/**
+ * Map the raw game code field from section 0 to a game group
+ */
+export function getGameGroupFromCode(gameCode: number): Gen3GameGroup {
+  if (gameCode === GAME_CODE_RS) return 'RS';
+  if (gameCode === GAME_CODE_FRLG) return 'FRLG';
+  return 'E';
+}
+
 /**
  * Extract PC buffer data from sections 5-13
- * PC data is stored across 9 sections (IDs 5-13)
+ * PC data is stored across 9 sections (IDs 5-13): the current box, the
+ * 420 box slots, then box names and wallpapers
  */
 export function extractPCBuffer(sections: SaveSection[]): ArrayBuffer {
-  const pcSections = sections.filter(s => s.id >= SECTION_ID_PC_BUFFER_A && s.id <= 13);
+  const pcBuffer = new ArrayBuffer(PC_BUFFER_SIZE);
+  new Uint8Array(pcBuffer).set(readBlockBytes(sections, SECTION_ID_PC_BUFFER_A, 0, PC_BUFFER_SIZE));
+  return pcBuffer;
+}
+
+/**
+ * Extract all Pokémon from the party, the Daycare and PC boxes
+ */
+export function extractPokemonFromSave(save: Gen3Save): ExtractedPokemon[] {
+  return [...extractPartyFromSave(save), ...extractDaycareFromSave(save), ...extractBoxPokemonFromSave(save)];
+}
+
+/**
+ * Read the party count from section 1
+ */
+export function getPartyCount(save: Gen3Save): number {
+  const count = readPartyCount(save);
+  if (count > PARTY_SIZE) {
+    throw new Error(`Invalid party count: ${count} (expected 0-${PARTY_SIZE})`);
+  }
+
+  return count;
+}
+
+function readPartyCount(save: Gen3Save): number {
+  const teamSection = save.sections.find(s => s.id === SECTION_ID_TEAM_ITEMS);
+  if (!teamSection) {
+    throw new Error('Team/items section not found');
+  }
+  return readU32(new DataView(teamSection.data), PARTY_COUNT_OFFSETS[save.game]);
+}
+
+/**
+ * Extract the Pokémon in the party (section 1, 100-byte party format)
+ */
+export function extractPartyFromSave(save: Gen3Save): ExtractedPartyPokemon[] {
+  const teamSection = save.sections.find(s => s.id === SECTION_ID_TEAM_ITEMS);
+  if (!teamSection) {
+    throw new Error('Team/items section not found');
+  }
 
-  if (pcSections.length !== 9) {
-    throw new Error(`Expected 9 PC sections, got ${pcSections.length}`);
+  // A corrupted count still leaves the six slots readable; empty ones are skipped below
+  let count = readPartyCount(save);
+  if (count > PARTY_SIZE) {
+    console.warn(`Invalid party count ${count}; reading all ${PARTY_SIZE} party slots`);
+    count = PARTY_SIZE;
   }
+  const partyOffset = PARTY_DATA_OFFSETS[save.game];
+  const pokemon: ExtractedPartyPokemon[] = [];
 
-  // Sort by ID to ensure correct order
-  pcSections.sort((a, b) => a.id - b.id);
+  for (let slot = 0; slot < count; slot++) {
+    const offset = partyOffset + slot * PK3_PARTY_SIZE;
+    const partyBuffer = safeSlice(teamSection.data, offset, offset + PK3_PARTY_SIZE);
 
-  // Combine all PC section data
-  const totalSize = pcSections.reduce((sum, s) => sum + s.data.byteLength, 0);
-  const pcBuffer = new ArrayBuffer(totalSize);
-  const pcView = new Uint8Array(pcBuffer);
+    if (isProbablyEmptyPk3(safeSlice(partyBuffer, 0, PK3_SIZE))) {
+      continue;
+    }
 
-  let offset = 0;
-  for (const section of pcSections) {
-    pcView.set(new Uint8Array(section.data), offset);
-    offset += section.data.byteLength;
+    try {
+      const { pk3, stats } = decodePartyPk3(partyBuffer);
+      pokemon.push({
+        pk3,
+        location: 'party',
+        slot,
+        isValid: verifyPk3Checksum(pk3),
+        badEgg: diagnoseBadEgg(pk3),
+        stats,
+      });
+    } catch (error) {
+      console.warn(`Failed to parse party Pokémon in slot ${slot}:`, error);
+    }
   }
 
-  return pcBuffer;
+  return pokemon;
 }
 
 /**
  * Extract all Pokémon from PC boxes
  */
-export function extractPokemonFromSave(save: Gen3Save): ExtractedPokemon[] {
+export function extractBoxPokemonFromSave(save: Gen3Save): ExtractedBoxPokemon[] {
   const pcBuffer = extractPCBuffer(save.sections);
-  const pokemon: ExtractedPokemon[] = [];
-
-  // PC buffer structure: box data is sequential
-  // Each box has 30 slots, each slot is 80 bytes
-  let offset = 0;
+  const pokemon: ExtractedBoxPokemon[] = [];
 
   for (let box = 0; box < NUM_BOXES; box++) {
     for (let slot = 0; slot < BOX_SIZE; slot++) {
-      const pk3Offset = offset;
-      
-      // Check if we have enough data
-      if (pk3Offset + PK3_SIZE > pcBuffer.byteLength) {
-        break;
-      }
-
+      const pk3Offset = getBoxSlotOffset(box, slot);
       const pk3Buffer = safeSlice(pcBuffer, pk3Offset, pk3Offset + PK3_SIZE);
 
       // Skip empty slots
       if (isProbablyEmptyPk3(pk3Buffer)) {
-        offset += PK3_SIZE;
         continue;
       }
 
@@ -142,16 +257,16 @@ export function extractPokemonFromSave(save: Gen3Save): ExtractedPokemon[] {
 
         pokemon.push({
           pk3,
+          location: 'box',
           box,
           slot,
           isValid,
+          badEgg: diagnoseBadEgg(pk3),
         });
       } catch (error) {
         // Skip corrupted Pokémon
         console.warn(`Failed to parse Pokémon at box ${box}, slot ${slot}:`, error);
       }
-
-      offset += PK3_SIZE;
     }
   }
 
@@ -160,84 +275,29 @@ export function extractPokemonFromSave(save: Gen3Save): ExtractedPokemon[] {
 
 /**
  * Inject Pokémon back into PC boxes
- * Creates a new save buffer with updated Pokémon data
+ * Creates a new save buffer with the updated Pokémon committed to the inactive slot
  */
 export function injectPokemonToSave(
   originalSave: Gen3Save,
   pokemon: Array<{ pk3: Pk3Data; box: number; slot: number }>
 ): ArrayBuffer {
-  // Create a copy of the original save buffer
-  const newBuffer = originalSave.buffer.slice(0);
-
-  // Extract current PC buffer
-  const pcBuffer = extractPCBuffer(originalSave.sections);
-  const pcBufferCopy = pcBuffer.slice(0);
-  const pcView = new Uint8Array(pcBufferCopy);
+  let save = originalSave;
 
-  // Inject each Pokémon
   for (const { pk3, box, slot } of pokemon) {
-    if (box < 0 || box >= NUM_BOXES) {
-      throw new Error(`Invalid box number: ${box}`);
-    }
-    if (slot < 0 || slot >= BOX_SIZE) {
-      throw new Error(`Invalid slot number: ${slot}`);
-    }
-
-    const offset = (box * BOX_SIZE + slot) * PK3_SIZE;
-    const pk3Buffer = encodePk3(pk3);
-    pcView.set(new Uint8Array(pk3Buffer), offset);
-  }
-
-  // Now we need to write the PC buffer back to sections and update checksums
-  const slotOffset = originalSave.activeSlot === 'A' ? 0 : 0xE000;
-
-  // Write PC data back to sections 5-13
-  let pcOffset = 0;
-  for (let sectionId = SECTION_ID_PC_BUFFER_A; sectionId <= 13; sectionId++) {
-    const sectionOffset = slotOffset + sectionId * GEN3_SECTION_SIZE;
-    const dataSize = Math.min(GEN3_SECTION_DATA_SIZE, pcBufferCopy.byteLength - pcOffset);
-
-    if (dataSize <= 0) break;
-
-    // Copy data to section
-    const newBufferView = new Uint8Array(newBuffer);
-    newBufferView.set(
-      new Uint8Array(pcBufferCopy, pcOffset, dataSize),
-      sectionOffset
-    );
-
-    // Recalculate and update section checksum
-    const sectionData = safeSlice(newBuffer, sectionOffset, sectionOffset + GEN3_SECTION_DATA_SIZE);
-    const checksum = calculateSectionChecksum(sectionData);
-
-    // Write new checksum to section footer
-    const checksumOffset = sectionOffset + SECTION_FOOTER_CHECKSUM_OFFSET;
-    const view = new DataView(newBuffer);
-    writeU16(view, checksumOffset, checksum);
-
-    pcOffset += dataSize;
-  }
-
-  // Increment save index to make this the new active save
-  const saveIndexOffset = slotOffset + (13 * GEN3_SECTION_SIZE) + 0xFFC; // Last section's save index
-  const view = new DataView(newBuffer);
-  const currentIndex = view.getUint32(saveIndexOffset, true);
-  writeU32(view, saveIndexOffset, (currentIndex + 1) >>> 0);
-
-  // Update save index for all sections in this slot
-  for (let sectionId = 0; sectionId < 14; sectionId++) {
-    const saveIdxOffset = slotOffset + (sectionId * GEN3_SECTION_SIZE) + 0xFFC;
-    writeU32(view, saveIdxOffset, (currentIndex + 1) >>> 0);
+    const offset = getBoxSlotOffset(box, slot);
+    save = writeBlockBytes(save, SECTION_ID_PC_BUFFER_A, offset, new Uint8Array(encodePk3(pk3)));
   }
 
-  return newBuffer;
+  return commitGen3Save(save);
 }
 
 /**
- * Export modified save file
+ * Export save file
+ * Saves with edited sections are committed to the inactive slot; unmodified
+ * saves are returned as-is
  */
 export function exportGen3Save(save: Gen3Save): ArrayBuffer {
-  return save.buffer.slice(0);
+  return hasPendingChanges(save) ? commitGen3Save(save) : save.buffer.slice(0);
 }
 
 /**
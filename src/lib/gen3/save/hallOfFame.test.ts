@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { parseHallOfFame } from './hallOfFame';
+import { calculateBlockChecksum } from './sections';
+import { createTestSave } from '../../../test/gen3SaveFixture';
+import {
+  GEN3_SECTION_SIZE,
+  GEN3_SECTION_SIGNATURE,
+  SECTION_CHUNK_SIZE,
+  HALL_OF_FAME_OFFSET,
+  HALL_OF_FAME_TEAM_SIZE,
+  HALL_OF_FAME_MON_SIZE,
+} from './constants';
+
+interface TestHallOfFameMon {
+  species: number;
+  level: number;
+  personality: number;
+  otId: number;
+  nickname: number[];
+}
+
+/**
+ * Write Hall of Fame teams into a save the way the game does: two sectors
+ * holding 0xF80 bytes each, checksummed into the footer's ID field
+ */
+function writeHallOfFame(buffer: ArrayBuffer, teams: TestHallOfFameMon[][]): void {
+  const data = new Uint8Array(2 * SECTION_CHUNK_SIZE);
+  const view = new DataView(data.buffer);
+
+  teams.forEach((team, t) => {
+    team.forEach((mon, slot) => {
+      const offset = t * HALL_OF_FAME_TEAM_SIZE + slot * HALL_OF_FAME_MON_SIZE;
+      view.setUint32(offset, mon.otId, true);
+      view.setUint32(offset + 4, mon.personality, true);
+      view.setUint16(offset + 8, mon.species | (mon.level << 9), true);
+      data.fill(0xFF, offset + 10, offset + 20);
+      data.set(mon.nickname, offset + 10);
+    });
+  });
+
+  for (let i = 0; i < 2; i++) {
+    const sector = new Uint8Array(GEN3_SECTION_SIZE);
+    const sectorView = new DataView(sector.buffer);
+    sector.set(data.subarray(i * SECTION_CHUNK_SIZE, (i + 1) * SECTION_CHUNK_SIZE));
+    sectorView.setUint16(0xFF4, calculateBlockChecksum(sector.buffer, SECTION_CHUNK_SIZE), true);
+    sectorView.setUint32(0xFF8, GEN3_SECTION_SIGNATURE, true);
+    new Uint8Array(buffer).set(sector, HALL_OF_FAME_OFFSET + i * GEN3_SECTION_SIZE);
+  }
+}
+
+const TREECKO = { species: 277, level: 50, personality: 0xAABBCCDD, otId: 0x0001E240, nickname: [0xCE, 0xCC, 0xBF] };
+const PIKACHU = { species: 25, level: 100, personality: 0x11223344, otId: 0x0001E240, nickname: [0xCA, 0xC3, 0xC5, 0xBB] };
+
+describe('Gen 3 Hall of Fame', () => {
+  it('should report no teams for a save that never entered the Hall of Fame', () => {
+    const hallOfFame = parseHallOfFame(createTestSave());
+
+    expect(hallOfFame.teams).toEqual([]);
+    expect(hallOfFame.blocks.map(b => b.present)).toEqual([false, false]);
+    expect(hallOfFame.valid).toBe(false);
+  });
+
+  it('should decode teams in entry order', () => {
+    const buffer = createTestSave();
+    writeHallOfFame(buffer, [[TREECKO], [TREECKO, PIKACHU]]);
+
+    const hallOfFame = parseHallOfFame(buffer);
+    expect(hallOfFame.valid).toBe(true);
+    expect(hallOfFame.teams.map(t => t.entry)).toEqual([1, 2]);
+    expect(hallOfFame.teams[1]!.pokemon).toEqual([
+      { species: 277, level: 50, personality: 0xAABBCCDD, otId: 0x0001E240, trainerId: 0xE240, secretId: 1, nickname: 'TRE' },
+      { species: 25, level: 100, personality: 0x11223344, otId: 0x0001E240, trainerId: 0xE240, secretId: 1, nickname: 'PIKA' },
+    ]);
+  });
+
+  it('should decode teams that continue into the second sector', () => {
+    const buffer = createTestSave();
+    const teams = Array.from({ length: 40 }, (_, i) => [{ ...PIKACHU, personality: i + 1 }]);
+    writeHallOfFame(buffer, teams);
+
+    const hallOfFame = parseHallOfFame(buffer);
+    expect(hallOfFame.teams).toHaveLength(40);
+    expect(hallOfFame.teams[39]!.pokemon[0]!.personality).toBe(40);
+  });
+
+  it('should flag checksum mismatches', () => {
+    const buffer = createTestSave();
+    writeHallOfFame(buffer, [[TREECKO]]);
+    new Uint8Array(buffer)[HALL_OF_FAME_OFFSET + 4] ^= 0xFF;
+
+    const hallOfFame = parseHallOfFame(buffer);
+    expect(hallOfFame.valid).toBe(false);
+    expect(hallOfFame.blocks.map(b => b.checksumValid)).toEqual([false, true]);
+    expect(hallOfFame.teams).toHaveLength(1);
+  });
+});
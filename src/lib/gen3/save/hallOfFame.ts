@@ -0,0 +1,118 @@
+/**
+ * Gen 3 Hall of Fame
+ * Decodes the champion teams stored in the two sectors after the save slots
+ * (from 0x1C000), which are written once per Hall of Fame entry rather than
+ * with every save
+ */
+
+import { calculateBlockChecksum } from './sections';
+import { readU16, readU32, safeSlice } from '../../utils/bin';
+import { decodeGen3String } from '../../species/speciesTranscode';
+import { extractTrainerIds } from '../pk3/substruct';
+import {
+  GEN3_SECTION_SIZE,
+  GEN3_SECTION_SIGNATURE,
+  SECTION_FOOTER_SIGNATURE_OFFSET,
+  SECTION_CHUNK_SIZE,
+  HALL_OF_FAME_OFFSET,
+  HALL_OF_FAME_SECTOR_COUNT,
+  HALL_OF_FAME_CHECKSUM_OFFSET,
+  HALL_OF_FAME_MON_SIZE,
+  HALL_OF_FAME_TEAM_SIZE,
+  HALL_OF_FAME_MAX_TEAMS,
+  PARTY_SIZE,
+} from './constants';
+
+export interface Gen3HallOfFameMon {
+  species: number; // Gen 3 internal species index
+  level: number;
+  personality: number;
+  otId: number;
+  trainerId: number;
+  secretId: number;
+  nickname: string;
+}
+
+export interface Gen3HallOfFameTeam {
+  entry: number; // 1 for the oldest team still on record
+  pokemon: Gen3HallOfFameMon[];
+}
+
+export interface Gen3HallOfFameBlock {
+  offset: number;
+  present: boolean; // Signature found (the block is blank until the first Hall of Fame entry)
+  checksumValid: boolean;
+}
+
+export interface Gen3HallOfFame {
+  teams: Gen3HallOfFameTeam[];
+  blocks: Gen3HallOfFameBlock[];
+  valid: boolean; // Both blocks present with valid checksums, as the game requires
+}
+
+/**
+ * Decode the Hall of Fame from a full 128KB save file
+ */
+export function parseHallOfFame(buffer: ArrayBuffer): Gen3HallOfFame {
+  const data = new Uint8Array(HALL_OF_FAME_SECTOR_COUNT * SECTION_CHUNK_SIZE);
+  const blocks: Gen3HallOfFameBlock[] = [];
+
+  for (let i = 0; i < HALL_OF_FAME_SECTOR_COUNT; i++) {
+    const offset = HALL_OF_FAME_OFFSET + i * GEN3_SECTION_SIZE;
+    const sector = safeSlice(buffer, offset, offset + GEN3_SECTION_SIZE);
+    const view = new DataView(sector);
+    const present = readU32(view, SECTION_FOOTER_SIGNATURE_OFFSET) === GEN3_SECTION_SIGNATURE;
+
+    blocks.push({
+      offset,
+      present,
+      checksumValid: present && calculateBlockChecksum(sector, SECTION_CHUNK_SIZE) === readU16(view, HALL_OF_FAME_CHECKSUM_OFFSET),
+    });
+
+    if (present) {
+      data.set(new Uint8Array(sector, 0, SECTION_CHUNK_SIZE), i * SECTION_CHUNK_SIZE);
+    }
+  }
+
+  return {
+    teams: blocks.some(block => block.present) ? decodeTeams(data) : [],
+    blocks,
+    valid: blocks.every(block => block.checksumValid),
+  };
+}
+
+/**
+ * Decode teams in entry order, stopping at the first empty record
+ */
+function decodeTeams(data: Uint8Array): Gen3HallOfFameTeam[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const teams: Gen3HallOfFameTeam[] = [];
+
+  for (let team = 0; team < HALL_OF_FAME_MAX_TEAMS; team++) {
+    const pokemon: Gen3HallOfFameMon[] = [];
+
+    for (let slot = 0; slot < PARTY_SIZE; slot++) {
+      const offset = team * HALL_OF_FAME_TEAM_SIZE + slot * HALL_OF_FAME_MON_SIZE;
+      const speciesAndLevel = readU16(view, offset + 8);
+      const species = speciesAndLevel & 0x1FF;
+      if (species === 0) continue;
+
+      const otId = readU32(view, offset);
+      const { tid, sid } = extractTrainerIds(otId);
+      pokemon.push({
+        species,
+        level: speciesAndLevel >>> 9,
+        personality: readU32(view, offset + 4),
+        otId,
+        trainerId: tid,
+        secretId: sid,
+        nickname: decodeGen3String(data.subarray(offset + 10, offset + HALL_OF_FAME_MON_SIZE)),
+      });
+    }
+
+    if (pokemon.length === 0) break;
+    teams.push({ entry: team + 1, pokemon });
+  }
+
+  return teams;
+}
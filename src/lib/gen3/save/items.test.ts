@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { readItemPocket, readInventory, writeItemPocket, addItem, removeItem, isItemInGame } from './items';
+import { loadGen3Save, exportGen3Save } from './gen3Save';
+import { createTestSave, writeTestBlock, TEST_EMERALD_SECURITY_KEY } from '../../../test/gen3SaveFixture';
+import { ITEM_POCKET_LAYOUTS, FRLG_SECURITY_KEY_OFFSET, SECTION_ID_TEAM_ITEMS, Gen3GameGroup } from './constants';
+
+const FRLG_KEY = 0x00C0FFEE;
+
+function itemBytes(itemId: number, quantity: number): number[] {
+  return [itemId & 0xFF, itemId >> 8, quantity & 0xFF, (quantity >> 8) & 0xFF];
+}
+
+function createItemSave(game: Gen3GameGroup, rotation = 0): ArrayBuffer {
+  const key = game === 'E' ? TEST_EMERALD_SECURITY_KEY & 0xFFFF : game === 'FRLG' ? FRLG_KEY & 0xFFFF : 0;
+  const layouts = ITEM_POCKET_LAYOUTS[game];
+
+  return createTestSave({
+    game,
+    rotation,
+    setup: (sections) => {
+      new DataView(sections[0]!.buffer).setUint32(FRLG_SECURITY_KEY_OFFSET, FRLG_KEY, true);
+      writeTestBlock(sections, SECTION_ID_TEAM_ITEMS, layouts.items.offset, [
+        ...itemBytes(13, 5 ^ key), // Potion x5
+        ...itemBytes(0, key),
+      ]);
+      writeTestBlock(sections, SECTION_ID_TEAM_ITEMS, layouts.tmHm.offset, itemBytes(314, 1 ^ key)); // TM26
+      writeTestBlock(sections, SECTION_ID_TEAM_ITEMS, layouts.pc.offset, itemBytes(28, 3)); // Revive x3
+    },
+  });
+}
+
+describe('Gen 3 items', () => {
+  it('should decrypt bag quantities with the security key', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const save = loadGen3Save(createItemSave(game));
+
+      expect(readItemPocket(save, 'items')).toEqual([{ itemId: 13, quantity: 5 }]);
+      expect(readItemPocket(save, 'tmHm')).toEqual([{ itemId: 314, quantity: 1 }]);
+    }
+  });
+
+  it('should leave PC item storage unencrypted', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const inventory = readInventory(loadGen3Save(createItemSave(game)));
+      expect(inventory.pc).toEqual([{ itemId: 28, quantity: 3 }]);
+      expect(inventory.keyItems).toEqual([]);
+    }
+  });
+
+  it('should round-trip edits through a commit', () => {
+    for (const game of ['E', 'FRLG'] as const) {
+      let save = loadGen3Save(createItemSave(game, 12));
+      save = addItem(save, 'items', 13, 10);
+      save = addItem(save, 'balls', 4, 20); // Poké Ball
+      save = removeItem(save, 'tmHm', 314, 1);
+
+      const reloaded = loadGen3Save(exportGen3Save(save));
+      expect(readItemPocket(reloaded, 'items')).toEqual([{ itemId: 13, quantity: 15 }]);
+      expect(readItemPocket(reloaded, 'balls')).toEqual([{ itemId: 4, quantity: 20 }]);
+      expect(readItemPocket(reloaded, 'tmHm')).toEqual([]);
+    }
+  });
+
+  it('should enforce pocket capacity and quantity limits', () => {
+    const save = loadGen3Save(createItemSave('E'));
+    const tooMany = Array.from({ length: 17 }, (_, i) => ({ itemId: i + 1, quantity: 1 }));
+
+    expect(() => writeItemPocket(save, 'balls', tooMany)).toThrow('Too many items');
+    expect(() => addItem(save, 'items', 13, 95)).toThrow('Invalid quantity');
+    expect(() => removeItem(save, 'items', 13, 6)).toThrow('Not enough');
+    expect(() => addItem(save, 'keyItems', 376, 1)).not.toThrow();
+  });
+
+  it('should know which items exist in each game', () => {
+    expect(isItemInGame(13, 'RS')).toBe(true);
+    expect(isItemInGame(349, 'RS')).toBe(false); // Oak's Parcel
+    expect(isItemInGame(349, 'FRLG')).toBe(true);
+    expect(isItemInGame(376, 'FRLG')).toBe(false); // Old Sea Map
+    expect(isItemInGame(376, 'E')).toBe(true);
+    expect(isItemInGame(0, 'E')).toBe(false);
+    for (const unused of [52, 62, 72, 82, 92, 105, 120, 176, 226, 253, 267, 347]) {
+      expect(isItemInGame(unused, 'E')).toBe(false);
+    }
+    expect(isItemInGame(51, 'RS')).toBe(true); // Green Shard
+    expect(isItemInGame(268, 'RS')).toBe(true); // Wailmer Pail
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Gen 3 bag and PC item storage
+ * Decodes and edits the item pockets in SaveBlock1 (sections 1-4)
+ * Emerald and FireRed/LeafGreen XOR bag quantities with the low 16 bits of
+ * the security key; PC item storage and Ruby/Sapphire are unencrypted
+ */
+
+import { readBlockBytes, writeBlockBytes } from './layout';
+import {
+  SECTION_ID_TEAM_ITEMS,
+  ITEM_POCKET_LAYOUTS,
+  ITEM_SLOT_SIZE,
+  MAX_BAG_ITEM_QUANTITY,
+  MAX_PC_ITEM_QUANTITY,
+  Gen3GameGroup,
+  Gen3ItemPocket,
+} from './constants';
+import type { Gen3Save } from './gen3Save';
+
+export interface Gen3ItemSlot {
+  itemId: number;
+  quantity: number;
+}
+
+export type Gen3Inventory = Record<Gen3ItemPocket, Gen3ItemSlot[]>;
+
+export const GEN3_ITEM_POCKETS: Gen3ItemPocket[] = ['items', 'keyItems', 'balls', 'tmHm', 'berries', 'pc'];
+
+// Last item ID shared by every Gen 3 game (HM08); IDs 347-348 are unused
+const LAST_COMMON_ITEM_ID = 346;
+// "????????" placeholders within the shared item IDs
+const UNUSED_ITEM_RANGES: readonly [first: number, last: number][] = [
+  [52, 62],
+  [72, 72],
+  [82, 82],
+  [87, 92],
+  [99, 102],
+  [105, 105],
+  [112, 120],
+  [176, 178],
+  [226, 253],
+  [267, 267], // Between Contest Pass and Wailmer Pail
+];
+// FireRed/LeafGreen key items (Oak's Parcel to Sapphire), also present in Emerald's item table
+const FRLG_ITEM_RANGE = { first: 349, last: 374 };
+// Emerald-only key items (Magma Emblem, Old Sea Map)
+const EMERALD_ITEM_RANGE = { first: 375, last: 376 };
+
+/**
+ * Read the occupied slots of one pocket, in stored order
+ */
+export function readItemPocket(save: Gen3Save, pocket: Gen3ItemPocket): Gen3ItemSlot[] {
+  const layout = ITEM_POCKET_LAYOUTS[save.game][pocket];
+  const bytes = readBlockBytes(save.sections, SECTION_ID_TEAM_ITEMS, layout.offset, layout.capacity * ITEM_SLOT_SIZE);
+  const view = new DataView(bytes.buffer);
+  const key = getQuantityKey(save, pocket);
+  const items: Gen3ItemSlot[] = [];
+
+  for (let i = 0; i < layout.capacity; i++) {
+    const itemId = view.getUint16(i * ITEM_SLOT_SIZE, true);
+    if (itemId === 0) continue;
+
+    items.push({
+      itemId,
+      quantity: view.getUint16(i * ITEM_SLOT_SIZE + 2, true) ^ key,
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Read every bag pocket and the PC item storage
+ */
+export function readInventory(save: Gen3Save): Gen3Inventory {
+  return Object.fromEntries(
+    GEN3_ITEM_POCKETS.map(pocket => [pocket, readItemPocket(save, pocket)])
+  ) as Gen3Inventory;
+}
+
+/**
+ * Replace the contents of a pocket
+ * Items are packed from the first slot and the remaining slots are cleared
+ */
+export function writeItemPocket(save: Gen3Save, pocket: Gen3ItemPocket, items: Gen3ItemSlot[]): Gen3Save {
+  const layout = ITEM_POCKET_LAYOUTS[save.game][pocket];
+  if (items.length > layout.capacity) {
+    throw new Error(`Too many items for ${pocket} pocket: ${items.length} (capacity ${layout.capacity})`);
+  }
+
+  const maxQuantity = getMaxQuantity(save.game, pocket);
+  const key = getQuantityKey(save, pocket);
+  const bytes = new Uint8Array(layout.capacity * ITEM_SLOT_SIZE);
+  const view = new DataView(bytes.buffer);
+
+  items.forEach(({ itemId, quantity }, i) => {
+    if (!isItemInGame(itemId, save.game)) {
+      throw new Error(`Item ${itemId} does not exist in this game`);
+    }
+    if (!Number.isInteger(quantity) || quantity < 1 || quantity > maxQuantity) {
+      throw new Error(`Invalid quantity for item ${itemId}: ${quantity} (must be 1-${maxQuantity})`);
+    }
+    view.setUint16(i * ITEM_SLOT_SIZE, itemId, true);
+    view.setUint16(i * ITEM_SLOT_SIZE + 2, quantity ^ key, true);
+  });
+
+  // Empty slots still store the encrypted zero quantity
+  for (let i = items.length; i < layout.capacity; i++) {
+    view.setUint16(i * ITEM_SLOT_SIZE + 2, key, true);
+  }
+
+  return writeBlockBytes(save, SECTION_ID_TEAM_ITEMS, layout.offset, bytes);
+}
+
+/**
+ * Add items to a pocket, stacking onto an existing slot when possible
+ */
+export function addItem(save: Gen3Save, pocket: Gen3ItemPocket, itemId: number, quantity: number): Gen3Save {
+  const items = readItemPocket(save, pocket);
+  const existing = items.find(item => item.itemId === itemId);
+
+  if (existing) {
+    existing.quantity += quantity;
+  } else {
+    items.push({ itemId, quantity });
+  }
+
+  return writeItemPocket(save, pocket, items);
+}
+
+/**
+ * Remove items from a pocket, clearing the slot when the stack runs out
+ */
+export function removeItem(save: Gen3Save, pocket: Gen3ItemPocket, itemId: number, quantity: number): Gen3Save {
+  const items = readItemPocket(save, pocket);
+  const existing = items.find(item => item.itemId === itemId);
+
+  if (!existing || existing.quantity < quantity) {
+    throw new Error(`Not enough of item ${itemId} in ${pocket} pocket`);
+  }
+
+  existing.quantity -= quantity;
+  return writeItemPocket(save, pocket, items.filter(item => item.quantity > 0));
+}
+
+/**
+ * Check whether an item ID exists in a game's item table
+ */
+export function isItemInGame(itemId: number, game: Gen3GameGroup): boolean {
+  if (itemId >= 1 && itemId <= LAST_COMMON_ITEM_ID) {
+    return !UNUSED_ITEM_RANGES.some(([first, last]) => itemId >= first && itemId <= last);
+  }
+  if (itemId >= FRLG_ITEM_RANGE.first && itemId <= FRLG_ITEM_RANGE.last) return game !== 'RS';
+  if (itemId >= EMERALD_ITEM_RANGE.first && itemId <= EMERALD_ITEM_RANGE.last) return game === 'E';
+  return false;
+}
+
+function getQuantityKey(save: Gen3Save, pocket: Gen3ItemPocket): number {
+  return pocket === 'pc' ? 0 : save.trainer.securityKey & 0xFFFF;
+}
+
+function getMaxQuantity(game: Gen3GameGroup, pocket: Gen3ItemPocket): number {
+  return pocket === 'pc' ? MAX_PC_ITEM_QUANTITY : MAX_BAG_ITEM_QUANTITY[game];
+}
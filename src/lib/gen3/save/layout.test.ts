@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveSectionAddress,
+  resolvePCAddress,
+  resolvePhysicalOffset,
+  getBoxSlotOffset,
+  readBlockBytes,
+  writeBlockBytes,
+} from './layout';
+import { loadGen3Save, injectPokemonToSave, extractBoxPokemonFromSave, extractPCBuffer } from './gen3Save';
+import { encodePk3 } from '../pk3/pk3';
+import { createTestSave, createTestPk3, writeTestBlock } from '../../../test/gen3SaveFixture';
+import {
+  SECTION_ID_PC_BUFFER_A,
+  PC_CURRENT_BOX_OFFSET,
+  PC_BOX_NAMES_OFFSET,
+  PC_BOX_WALLPAPERS_OFFSET,
+  PC_BUFFER_SIZE,
+} from './constants';
+
+const BOX_NAME_BYTES = [0xBC, 0xC9, 0xD2, 0x00, 0xA2, 0xFF]; // "BOX 1"
+
+function createRotatedSave(rotation: number): ArrayBuffer {
+  return createTestSave({
+    rotation,
+    setup: (sections) => {
+      writeTestBlock(sections, SECTION_ID_PC_BUFFER_A, PC_CURRENT_BOX_OFFSET, [7]);
+      writeTestBlock(sections, SECTION_ID_PC_BUFFER_A, PC_BOX_NAMES_OFFSET, BOX_NAME_BYTES);
+      writeTestBlock(sections, SECTION_ID_PC_BUFFER_A, PC_BOX_WALLPAPERS_OFFSET, [3, 4]);
+    },
+  });
+}
+
+describe('Gen 3 save layout', () => {
+  describe('resolveSectionAddress', () => {
+    it('should split blocks into 0xF80-byte chunks', () => {
+      expect(resolveSectionAddress(1, 0)).toEqual({ sectionId: 1, offsetInSection: 0 });
+      expect(resolveSectionAddress(1, 0xF7F)).toEqual({ sectionId: 1, offsetInSection: 0xF7F });
+      expect(resolveSectionAddress(1, 0xF80)).toEqual({ sectionId: 2, offsetInSection: 0 });
+      expect(resolveSectionAddress(5, 0x1000)).toEqual({ sectionId: 6, offsetInSection: 0x80 });
+    });
+
+    it('should reject offsets outside the PC buffer', () => {
+      expect(() => resolvePCAddress(-1)).toThrow('out of range');
+      expect(() => resolvePCAddress(PC_BUFFER_SIZE)).toThrow('out of range');
+      expect(resolvePCAddress(PC_BUFFER_SIZE - 1)).toEqual({ sectionId: 13, offsetInSection: 0x7CF });
+    });
+
+    it('should place box names and wallpapers in section 13', () => {
+      expect(resolvePCAddress(PC_BOX_NAMES_OFFSET)).toEqual({ sectionId: 13, offsetInSection: 0x744 });
+      expect(resolvePCAddress(PC_BOX_WALLPAPERS_OFFSET)).toEqual({ sectionId: 13, offsetInSection: 0x7C2 });
+    });
+  });
+
+  describe('resolvePhysicalOffset', () => {
+    it('should follow the rotated section order of the active slot', () => {
+      for (const rotation of [0, 3, 13]) {
+        const buffer = createRotatedSave(rotation);
+        const save = loadGen3Save(buffer);
+        const offset = resolvePhysicalOffset(save, resolvePCAddress(PC_BOX_NAMES_OFFSET));
+
+        expect(Array.from(new Uint8Array(buffer, offset, BOX_NAME_BYTES.length))).toEqual(BOX_NAME_BYTES);
+      }
+    });
+  });
+
+  describe('PC round-trip', () => {
+    it('should not treat the current-box header as Pokémon data', () => {
+      const save = loadGen3Save(createRotatedSave(4));
+      const pcBuffer = new Uint8Array(extractPCBuffer(save.sections));
+
+      expect(pcBuffer.byteLength).toBe(PC_BUFFER_SIZE);
+      expect(pcBuffer[PC_CURRENT_BOX_OFFSET]).toBe(7);
+      expect(extractBoxPokemonFromSave(save)).toHaveLength(0);
+    });
+
+    it('should round-trip Pokémon in every box on rotated saves', () => {
+      for (const rotation of [0, 6, 13]) {
+        const save = loadGen3Save(createRotatedSave(rotation));
+        const pokemon = Array.from({ length: 14 }, (_, box) => ({
+          pk3: createTestPk3({ species: box + 1, personality: 0x1000 + box }),
+          box,
+          slot: (box * 7) % 30,
+        }));
+
+        const reloaded = loadGen3Save(injectPokemonToSave(save, pokemon));
+        const extracted = extractBoxPokemonFromSave(reloaded);
+
+        expect(extracted.map(p => [p.box, p.slot, p.pk3.personality])).toEqual(
+          pokemon.map(p => [p.box, p.slot, p.pk3.personality])
+        );
+        expect(extracted.every(p => p.isValid)).toBe(true);
+      }
+    });
+
+    it('should round-trip Pokémon straddling two sections', () => {
+      // Box 1 slot 19 (PC index 49) starts in section 5 and ends in section 6
+      const save = loadGen3Save(createRotatedSave(9));
+      const pk3 = createTestPk3({ species: 25, personality: 0xDEADBEEF });
+      const offset = getBoxSlotOffset(1, 19);
+
+      const edited = writeBlockBytes(save, SECTION_ID_PC_BUFFER_A, offset, new Uint8Array(encodePk3(pk3)));
+      expect(edited.sections.filter(s => !save.sections.includes(s)).map(s => s.id)).toEqual([5, 6]);
+
+      const reloaded = loadGen3Save(injectPokemonToSave(save, [{ pk3, box: 1, slot: 19 }]));
+      const extracted = extractBoxPokemonFromSave(reloaded);
+      expect(extracted).toHaveLength(1);
+      expect(extracted[0]!.pk3.personality).toBe(0xDEADBEEF);
+      expect(extracted[0]!.isValid).toBe(true);
+    });
+
+    it('should preserve the current box, box names and wallpapers', () => {
+      const save = loadGen3Save(createRotatedSave(11));
+      const pokemon = [{ pk3: createTestPk3({ species: 150 }), box: 13, slot: 29 }];
+      const reloaded = loadGen3Save(injectPokemonToSave(save, pokemon));
+
+      const read = (offset: number, length: number) =>
+        Array.from(readBlockBytes(reloaded.sections, SECTION_ID_PC_BUFFER_A, offset, length));
+      expect(read(PC_CURRENT_BOX_OFFSET, 1)).toEqual([7]);
+      expect(read(PC_BOX_NAMES_OFFSET, BOX_NAME_BYTES.length)).toEqual(BOX_NAME_BYTES);
+      expect(read(PC_BOX_WALLPAPERS_OFFSET, 2)).toEqual([3, 4]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Gen 3 save block layout
+ * Resolves logical offsets in blocks spread across several sections
+ * (SaveBlock1, PC storage) to section addresses and physical save offsets
+ */
+
+import { SaveSection } from './sections';
+import { replaceSectionData } from './commit';
+import {
+  GEN3_NUM_SECTIONS,
+  GEN3_SECTION_SIZE,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  SECTION_CHUNK_SIZE,
+  SECTION_ID_PC_BUFFER_A,
+  PC_BOXES_OFFSET,
+  PC_BUFFER_SIZE,
+  PK3_SIZE,
+  BOX_SIZE,
+  NUM_BOXES,
+} from './constants';
+import type { Gen3Save } from './gen3Save';
+
+export interface SectionAddress {
+  sectionId: number;
+  offsetInSection: number;
+}
+
+/**
+ * Map a logical offset within a block starting at `firstSectionId` to a section address
+ */
+export function resolveSectionAddress(firstSectionId: number, logicalOffset: number): SectionAddress {
+  const sectionId = firstSectionId + Math.floor(logicalOffset / SECTION_CHUNK_SIZE);
+  if (logicalOffset < 0 || sectionId >= GEN3_NUM_SECTIONS) {
+    throw new RangeError(`Logical offset 0x${logicalOffset.toString(16)} is outside the save block`);
+  }
+
+  return {
+    sectionId,
+    offsetInSection: logicalOffset % SECTION_CHUNK_SIZE,
+  };
+}
+
+/**
+ * Map a logical PC storage offset to a section address
+ */
+export function resolvePCAddress(logicalOffset: number): SectionAddress {
+  if (logicalOffset < 0 || logicalOffset >= PC_BUFFER_SIZE) {
+    throw new RangeError(`PC offset 0x${logicalOffset.toString(16)} out of range`);
+  }
+  return resolveSectionAddress(SECTION_ID_PC_BUFFER_A, logicalOffset);
+}
+
+/**
+ * Get the logical PC storage offset of a box slot
+ * Box data starts after the 4-byte current-box header
+ */
+export function getBoxSlotOffset(box: number, slot: number): number {
+  if (box < 0 || box >= NUM_BOXES) {
+    throw new Error(`Invalid box number: ${box}`);
+  }
+  if (slot < 0 || slot >= BOX_SIZE) {
+    throw new Error(`Invalid slot number: ${slot}`);
+  }
+  return PC_BOXES_OFFSET + (box * BOX_SIZE + slot) * PK3_SIZE;
+}
+
+/**
+ * Map a section address to its physical offset in the save file's active slot
+ */
+export function resolvePhysicalOffset(save: Gen3Save, address: SectionAddress): number {
+  const position = save.slot.sections.findIndex(s => s.id === address.sectionId);
+  if (position === -1) {
+    throw new Error(`Section ${address.sectionId} not found`);
+  }
+
+  const slotOffset = save.activeSlot === 'A' ? GEN3_SAVE_SLOT_A : GEN3_SAVE_SLOT_B;
+  return slotOffset + position * GEN3_SECTION_SIZE + address.offsetInSection;
+}
+
+/**
+ * Read a byte range from a block, following it across section boundaries
+ */
+export function readBlockBytes(
+  sections: SaveSection[],
+  firstSectionId: number,
+  logicalOffset: number,
+  length: number
+): Uint8Array {
+  const result = new Uint8Array(length);
+
+  forEachChunk(firstSectionId, logicalOffset, length, (address, start, size) => {
+    const section = findSection(sections, address.sectionId);
+    result.set(new Uint8Array(section.data, address.offsetInSection, size), start);
+  });
+
+  return result;
+}
+
+/**
+ * Write a byte range into a block, following it across section boundaries
+ * Returns a new save with the touched sections replaced
+ */
+export function writeBlockBytes(
+  save: Gen3Save,
+  firstSectionId: number,
+  logicalOffset: number,
+  bytes: Uint8Array
+): Gen3Save {
+  const edited = new Map<number, ArrayBuffer>();
+
+  forEachChunk(firstSectionId, logicalOffset, bytes.length, (address, start, size) => {
+    let data = edited.get(address.sectionId);
+    if (!data) {
+      data = findSection(save.sections, address.sectionId).data.slice(0);
+      edited.set(address.sectionId, data);
+    }
+    new Uint8Array(data).set(bytes.subarray(start, start + size), address.offsetInSection);
+  });
+
+  let result = save;
+  for (const [sectionId, data] of edited) {
+    result = replaceSectionData(result, sectionId, data);
+  }
+  return result;
+}
+
+/**
+ * Split a logical range into per-section chunks
+ */
+function forEachChunk(
+  firstSectionId: number,
+  logicalOffset: number,
+  length: number,
+  callback: (address: SectionAddress, start: number, size: number) => void
+): void {
+  let done = 0;
+  while (done < length) {
+    const address = resolveSectionAddress(firstSectionId, logicalOffset + done);
+    const size = Math.min(length - done, SECTION_CHUNK_SIZE - address.offsetInSection);
+    callback(address, done, size);
+    done += size;
+  }
+}
+
+function findSection(sections: SaveSection[], sectionId: number): SaveSection {
+  const section = sections.find(s => s.id === sectionId);
+  if (!section) {
+    throw new Error(`Section ${sectionId} not found`);
+  }
+  return section;
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getPokedex,
+  isSpeciesSeen,
+  isSpeciesOwned,
+  setSpeciesSeen,
+  setSpeciesOwned,
+  registerPokedexEntry,
+  isNationalDexUnlocked,
+  setNationalDexUnlocked,
+} from './pokedex';
+import { loadGen3Save, exportGen3Save } from './gen3Save';
+import { readBlockBytes } from './layout';
+import { createTestSave, createTestPk3, writeTestBlock } from '../../../test/gen3SaveFixture';
+import {
+  POKEDEX_SEEN_OFFSET,
+  POKEDEX_OWNED_OFFSET,
+  POKEDEX_SEEN_COPY_OFFSETS,
+  POKEDEX_UNOWN_PERSONALITY_OFFSET,
+  POKEDEX_FLAGS_LENGTH,
+  EVENT_FLAGS_OFFSETS,
+  EVENT_VARS_OFFSETS,
+} from './constants';
+
+describe('Gen 3 Pokédex', () => {
+  it('should decode seen and owned species', () => {
+    const save = loadGen3Save(createTestSave({
+      setup: (sections) => {
+        sections[0]![POKEDEX_OWNED_OFFSET] = 0b00000001; // Bulbasaur
+        sections[0]![POKEDEX_SEEN_OFFSET] = 0b00001001; // Bulbasaur, Charmander
+        sections[0]![POKEDEX_SEEN_OFFSET + 48] = 0b00000010; // Deoxys (#386)
+      },
+    }));
+
+    const pokedex = getPokedex(save);
+    expect(pokedex.owned).toEqual([1]);
+    expect(pokedex.seen).toEqual([1, 4, 386]);
+    expect(pokedex.seenCopiesInSync).toBe(false);
+    expect(isSpeciesSeen(save, 386)).toBe(true);
+    expect(isSpeciesOwned(save, 4)).toBe(false);
+  });
+
+  it('should keep all three seen copies in sync', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      let save = loadGen3Save(createTestSave({ game, rotation: 5 }));
+      save = setSpeciesSeen(save, 252);
+      save = setSpeciesOwned(save, 252);
+
+      const reloaded = loadGen3Save(exportGen3Save(save));
+      const pokedex = getPokedex(reloaded);
+      expect(pokedex.seen).toEqual([252]);
+      expect(pokedex.owned).toEqual([252]);
+      expect(pokedex.seenCopiesInSync).toBe(true);
+
+      for (const offset of POKEDEX_SEEN_COPY_OFFSETS[game]) {
+        const copy = readBlockBytes(reloaded.sections, 1, offset, POKEDEX_FLAGS_LENGTH);
+        expect(copy[251 >> 3]).toBe(1 << (251 & 7));
+      }
+    }
+  });
+
+  it('should clear flags', () => {
+    let save = loadGen3Save(createTestSave());
+    save = setSpeciesSeen(save, 25);
+    save = setSpeciesSeen(save, 25, false);
+
+    expect(isSpeciesSeen(save, 25)).toBe(false);
+    expect(() => setSpeciesOwned(save, 387)).toThrow('Invalid National Dex number');
+  });
+
+  it('should register received Pokémon using their National Dex number', () => {
+    // Treecko: Gen 3 internal index 277, National Dex 252
+    const save = registerPokedexEntry(loadGen3Save(createTestSave()), createTestPk3({ species: 277 }));
+
+    expect(isSpeciesSeen(save, 252)).toBe(true);
+    expect(isSpeciesOwned(save, 252)).toBe(true);
+    expect(isSpeciesOwned(save, 277)).toBe(false);
+  });
+
+  it('should record the personality of the first Unown registered', () => {
+    let save = loadGen3Save(createTestSave());
+    save = registerPokedexEntry(save, createTestPk3({ species: 201, personality: 0x11111111 }));
+    save = registerPokedexEntry(save, createTestPk3({ species: 201, personality: 0x22222222 }));
+
+    const personality = readBlockBytes(save.sections, 0, POKEDEX_UNOWN_PERSONALITY_OFFSET, 4);
+    expect(new DataView(personality.buffer).getUint32(0, true)).toBe(0x11111111);
+  });
+
+  it('should not register eggs', () => {
+    const egg = createTestPk3({ species: 1, ivs: 0x7FFFFFFF });
+    const save = registerPokedexEntry(loadGen3Save(createTestSave()), egg);
+
+    expect(getPokedex(save).seen).toEqual([]);
+  });
+
+  it('should read and set the National Dex unlock for each game', () => {
+    const expected = {
+      RS: { flag: 0x836, varId: 0x4046, value: 0x0302, magicOffset: 0x1A, magic: 0xDA },
+      E: { flag: 0x896, varId: 0x4046, value: 0x0302, magicOffset: 0x1A, magic: 0xDA },
+      FRLG: { flag: 0x840, varId: 0x404E, value: 0x6258, magicOffset: 0x1B, magic: 0xB9 },
+    };
+
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const { flag, varId, value, magicOffset, magic } = expected[game];
+      const unlocked = loadGen3Save(createTestSave({
+        game,
+        setup: (sections) => {
+          sections[0]![magicOffset] = magic;
+          writeTestBlock(sections, 1, EVENT_FLAGS_OFFSETS[game] + (flag >> 3), [1 << (flag & 7)]);
+          writeTestBlock(sections, 1, EVENT_VARS_OFFSETS[game] + (varId - 0x4000) * 2, [value & 0xFF, value >> 8]);
+        },
+      }));
+      expect(isNationalDexUnlocked(unlocked)).toBe(true);
+      expect(isNationalDexUnlocked(setNationalDexUnlocked(unlocked, false))).toBe(false);
+
+      const locked = loadGen3Save(createTestSave({ game }));
+      expect(isNationalDexUnlocked(locked)).toBe(false);
+      const reloaded = loadGen3Save(exportGen3Save(setNationalDexUnlocked(locked, true)));
+      expect(isNationalDexUnlocked(reloaded)).toBe(true);
+      expect(getPokedex(reloaded).nationalDexUnlocked).toBe(true);
+    }
+  });
+});
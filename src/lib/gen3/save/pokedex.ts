@@ -0,0 +1,189 @@
+/**
+ * Gen 3 Pokédex flags
+ * Reads and edits the owned/seen bitfields in section 0, the two duplicate
+ * seen bitfields in SaveBlock1, and the National Dex unlock state
+ */
+
+import { readBlockBytes, writeBlockBytes } from './layout';
+import { getEventFlag, setEventFlag, getEventVar, setEventVar } from './events';
+import { decryptAndUnshufflePk3, type Pk3Data } from '../pk3/pk3';
+import { parseGrowth, parseMisc, extractIVs } from '../pk3/substruct';
+import { gen3InternalToNational } from '../../species/speciesTranscode';
+import {
+  SECTION_ID_TRAINER_INFO,
+  SECTION_ID_TEAM_ITEMS,
+  POKEDEX_NATIONAL_MAGIC_OFFSETS,
+  POKEDEX_NATIONAL_MAGIC,
+  POKEDEX_UNOWN_PERSONALITY_OFFSET,
+  POKEDEX_SPINDA_PERSONALITY_OFFSET,
+  POKEDEX_OWNED_OFFSET,
+  POKEDEX_SEEN_OFFSET,
+  POKEDEX_FLAGS_LENGTH,
+  POKEDEX_SEEN_COPY_OFFSETS,
+  NATIONAL_DEX_COUNT,
+  NATIONAL_DEX_FLAGS,
+  NATIONAL_DEX_VARS,
+} from './constants';
+import type { Gen3Save } from './gen3Save';
+
+const NATIONAL_DEX_UNOWN = 201;
+const NATIONAL_DEX_SPINDA = 327;
+
+export interface Gen3PokedexInfo {
+  seen: number[]; // National Dex numbers
+  owned: number[];
+  nationalDexUnlocked: boolean;
+  seenCopiesInSync: boolean; // False when the SaveBlock1 copies disagree with section 0
+}
+
+/**
+ * Read the Pokédex state
+ */
+export function getPokedex(save: Gen3Save): Gen3PokedexInfo {
+  const seen = readDexFlags(save, SECTION_ID_TRAINER_INFO, POKEDEX_SEEN_OFFSET);
+  const copies = POKEDEX_SEEN_COPY_OFFSETS[save.game].map(offset =>
+    readDexFlags(save, SECTION_ID_TEAM_ITEMS, offset)
+  );
+
+  return {
+    seen: listSpecies(seen),
+    owned: listSpecies(readDexFlags(save, SECTION_ID_TRAINER_INFO, POKEDEX_OWNED_OFFSET)),
+    nationalDexUnlocked: isNationalDexUnlocked(save),
+    seenCopiesInSync: copies.every(copy => copy.every((byte, i) => byte === seen[i])),
+  };
+}
+
+/**
+ * Check whether a species is marked as seen
+ */
+export function isSpeciesSeen(save: Gen3Save, nationalDex: number): boolean {
+  validateNationalDex(nationalDex);
+  return getBit(readDexFlags(save, SECTION_ID_TRAINER_INFO, POKEDEX_SEEN_OFFSET), nationalDex - 1);
+}
+
+/**
+ * Check whether a species is marked as owned
+ */
+export function isSpeciesOwned(save: Gen3Save, nationalDex: number): boolean {
+  validateNationalDex(nationalDex);
+  return getBit(readDexFlags(save, SECTION_ID_TRAINER_INFO, POKEDEX_OWNED_OFFSET), nationalDex - 1);
+}
+
+/**
+ * Mark a species as seen or unseen
+ * All three copies of the seen bitfield are updated together
+ */
+export function setSpeciesSeen(save: Gen3Save, nationalDex: number, seen = true): Gen3Save {
+  validateNationalDex(nationalDex);
+
+  let result = updateDexFlag(save, SECTION_ID_TRAINER_INFO, POKEDEX_SEEN_OFFSET, nationalDex, seen);
+  for (const offset of POKEDEX_SEEN_COPY_OFFSETS[save.game]) {
+    result = updateDexFlag(result, SECTION_ID_TEAM_ITEMS, offset, nationalDex, seen);
+  }
+  return result;
+}
+
+/**
+ * Mark a species as owned or not owned
+ */
+export function setSpeciesOwned(save: Gen3Save, nationalDex: number, owned = true): Gen3Save {
+  validateNationalDex(nationalDex);
+  return updateDexFlag(save, SECTION_ID_TRAINER_INFO, POKEDEX_OWNED_OFFSET, nationalDex, owned);
+}
+
+/**
+ * Register a received Pokémon the way the game does: mark its species as
+ * seen and owned, and record the personality of the first Unown or Spinda
+ * Eggs are not registered until they hatch
+ */
+export function registerPokedexEntry(save: Gen3Save, pk3: Pk3Data): Gen3Save {
+  const substructures = decryptAndUnshufflePk3(pk3);
+  if (extractIVs(parseMisc(substructures.misc).ivs).isEgg) {
+    return save;
+  }
+
+  const nationalDex = gen3InternalToNational(parseGrowth(substructures.growth).species);
+  if (nationalDex === 0) {
+    throw new Error('Cannot register an invalid species in the Pokédex');
+  }
+
+  let result = save;
+  if (!isSpeciesOwned(save, nationalDex)) {
+    const personalityOffset = nationalDex === NATIONAL_DEX_UNOWN ? POKEDEX_UNOWN_PERSONALITY_OFFSET
+      : nationalDex === NATIONAL_DEX_SPINDA ? POKEDEX_SPINDA_PERSONALITY_OFFSET
+      : undefined;
+    if (personalityOffset !== undefined) {
+      result = writeBlockBytes(result, SECTION_ID_TRAINER_INFO, personalityOffset, encodeU32(pk3.personality));
+    }
+  }
+
+  result = setSpeciesSeen(result, nationalDex);
+  return setSpeciesOwned(result, nationalDex);
+}
+
+/**
+ * Check whether the National Dex has been unlocked
+ * Requires the Pokédex magic byte, the unlock flag and the unlock variable
+ */
+export function isNationalDexUnlocked(save: Gen3Save): boolean {
+  const { game } = save;
+  const magic = readBlockBytes(save.sections, SECTION_ID_TRAINER_INFO, POKEDEX_NATIONAL_MAGIC_OFFSETS[game], 1)[0];
+
+  return magic === POKEDEX_NATIONAL_MAGIC[game]
+    && getEventFlag(save, NATIONAL_DEX_FLAGS[game])
+    && getEventVar(save, NATIONAL_DEX_VARS[game].id) === NATIONAL_DEX_VARS[game].value;
+}
+
+/**
+ * Unlock or re-lock the National Dex
+ */
+export function setNationalDexUnlocked(save: Gen3Save, unlocked: boolean): Gen3Save {
+  const { game } = save;
+  const nationalVar = NATIONAL_DEX_VARS[game];
+
+  let result = writeBlockBytes(
+    save,
+    SECTION_ID_TRAINER_INFO,
+    POKEDEX_NATIONAL_MAGIC_OFFSETS[game],
+    Uint8Array.of(unlocked ? POKEDEX_NATIONAL_MAGIC[game] : 0)
+  );
+  result = setEventFlag(result, NATIONAL_DEX_FLAGS[game], unlocked);
+  return setEventVar(result, nationalVar.id, unlocked ? nationalVar.value : 0);
+}
+
+function readDexFlags(save: Gen3Save, firstSectionId: number, offset: number): Uint8Array {
+  return readBlockBytes(save.sections, firstSectionId, offset, POKEDEX_FLAGS_LENGTH);
+}
+
+function updateDexFlag(save: Gen3Save, firstSectionId: number, offset: number, nationalDex: number, value: boolean): Gen3Save {
+  const bit = nationalDex - 1;
+  const byteOffset = offset + (bit >> 3);
+  const byte = readBlockBytes(save.sections, firstSectionId, byteOffset, 1)[0]!;
+  const updated = value ? byte | (1 << (bit & 7)) : byte & ~(1 << (bit & 7));
+
+  return updated === byte ? save : writeBlockBytes(save, firstSectionId, byteOffset, Uint8Array.of(updated));
+}
+
+function listSpecies(flags: Uint8Array): number[] {
+  const species: number[] = [];
+  for (let bit = 0; bit < NATIONAL_DEX_COUNT; bit++) {
+    if (getBit(flags, bit)) species.push(bit + 1);
+  }
+  return species;
+}
+
+function getBit(flags: Uint8Array, bit: number): boolean {
+  return ((flags[bit >> 3]! >> (bit & 7)) & 1) === 1;
+}
+
+function validateNationalDex(nationalDex: number): void {
+  if (!Number.isInteger(nationalDex) || nationalDex < 1 || nationalDex > NATIONAL_DEX_COUNT) {
+    throw new Error(`Invalid National Dex number: ${nationalDex} (must be 1-${NATIONAL_DEX_COUNT})`);
+  }
+}
+
+function encodeU32(value: number): Uint8Array {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value >>> 0, true);
+  return bytes;
+}
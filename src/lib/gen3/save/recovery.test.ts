@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { recoverGen3Save } from './recovery';
+import { loadGen3Save, exportGen3Save, extractPokemonFromSave } from './gen3Save';
+import { encodePk3 } from '../pk3/pk3';
+import { getBoxSlotOffset } from './layout';
+import { createTestSave, createTestPk3, writeTestBlock } from '../../../test/gen3SaveFixture';
+import {
+  GEN3_SECTION_SIZE,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  SECTION_CHUNK_SIZE,
+} from './constants';
+
+// Box 1 slot 1 lives in section 5; box 14 slot 30 near the end of section 13
+const LAST_BOX = 13;
+const LAST_SLOT = 29;
+
+function createBoxSave(): ArrayBuffer {
+  return createTestSave({
+    game: 'FRLG',
+    setup: (sections) => {
+      writeTestBlock(sections, 5, getBoxSlotOffset(0, 0), new Uint8Array(encodePk3(createTestPk3({ species: 25, personality: 1 }))));
+      writeTestBlock(sections, 5, getBoxSlotOffset(LAST_BOX, LAST_SLOT), new Uint8Array(encodePk3(createTestPk3({ species: 4, personality: 2 }))));
+    },
+  });
+}
+
+/** Flip a data byte in the section at a physical position, breaking its checksum */
+function damageSection(buffer: ArrayBuffer, slotOffset: number, position: number, byte = 0): void {
+  new Uint8Array(buffer)[slotOffset + position * GEN3_SECTION_SIZE + byte] ^= 0xFF;
+}
+
+describe('Gen 3 save recovery', () => {
+  it('should recover an intact save exactly like a normal load', () => {
+    const buffer = createBoxSave();
+    const { save, pokemon, report } = recoverGen3Save(buffer);
+
+    expect(report.intact).toBe(true);
+    expect(report.primarySlot).toBe('A');
+    expect(report.damagedSections).toEqual([]);
+    expect(report.missingSections).toEqual([]);
+    expect(save.game).toBe('FRLG');
+    expect(pokemon.map(p => p.pk3.personality)).toEqual(
+      extractPokemonFromSave(loadGen3Save(buffer)).map(p => p.pk3.personality)
+    );
+    expect(exportGen3Save(save)).toEqual(buffer);
+  });
+
+  it('should restore a damaged section from the backup slot', () => {
+    const buffer = createBoxSave();
+    damageSection(buffer, GEN3_SAVE_SLOT_A, 5);
+    expect(loadGen3Save(buffer).activeSlot).toBe('B'); // A normal load drops the whole newer slot
+
+    const { save, pokemon, report } = recoverGen3Save(buffer);
+
+    expect(report.intact).toBe(false);
+    expect(report.damagedSections).toEqual([expect.objectContaining({ slot: 'A', position: 5, id: 5 })]);
+    expect(report.sectionSources[5]).toEqual({ id: 5, slot: 'B', fromBackup: true });
+    expect(report.sectionSources[6]).toEqual({ id: 6, slot: 'A', fromBackup: false });
+    expect(report.unreadableSlots).toEqual([]);
+    expect(pokemon.map(p => p.pk3.personality)).toEqual([1, 2]);
+
+    // Exporting writes a clean save with the repaired section
+    const reloaded = loadGen3Save(exportGen3Save(save));
+    expect(reloaded.activeSlot).toBe('B');
+    expect(extractPokemonFromSave(reloaded).map(p => p.pk3.personality)).toEqual([1, 2]);
+  });
+
+  it('should report slots lost in sections damaged in both slots', () => {
+    const buffer = createBoxSave();
+    damageSection(buffer, GEN3_SAVE_SLOT_A, 13);
+    damageSection(buffer, GEN3_SAVE_SLOT_B, 12); // Backup slot is rotated by 13
+
+    const { save, pokemon, report } = recoverGen3Save(buffer);
+
+    expect(report.missingSections).toEqual([13]);
+    expect(report.sectionSources[13]).toEqual({ id: 13, slot: null, fromBackup: false });
+    expect(report.gameDetected).toBe(true);
+    expect(pokemon.map(p => p.pk3.personality)).toEqual([1]);
+    expect(report.unreadableSlots).toContainEqual({
+      location: 'box',
+      box: LAST_BOX,
+      slot: LAST_SLOT,
+      reason: 'Section 13 is damaged in both save slots',
+    });
+    expect(report.unreadableSlots.every(unreadable => unreadable.location === 'box' && unreadable.box === LAST_BOX)).toBe(true);
+
+    expect(() => loadGen3Save(exportGen3Save(save))).not.toThrow();
+  });
+
+  it('should set aside and report Pokémon whose checksum fails', () => {
+    const buffer = createTestSave({
+      setup: (sections) => {
+        const bytes = new Uint8Array(encodePk3(createTestPk3({ species: 25 })));
+        bytes[40] ^= 0xFF;
+        writeTestBlock(sections, 5, getBoxSlotOffset(0, 3), bytes);
+      },
+    });
+
+    const { pokemon, damaged, report } = recoverGen3Save(buffer);
+
+    expect(pokemon).toEqual([]);
+    expect(damaged).toEqual([expect.objectContaining({ location: 'box', box: 0, slot: 3, isValid: false })]);
+    expect(damaged[0]!.badEgg).not.toBeNull();
+    expect(report.intact).toBe(false);
+    expect(report.unreadableSlots).toEqual([{ location: 'box', box: 0, slot: 3, reason: 'pk3 checksum mismatch' }]);
+  });
+
+  it('should use the older slot when the newer one is wholly unreadable', () => {
+    const buffer = createBoxSave();
+    for (let position = 0; position < 14; position++) {
+      damageSection(buffer, GEN3_SAVE_SLOT_A, position, SECTION_CHUNK_SIZE - 1);
+    }
+
+    const { save, pokemon, report } = recoverGen3Save(buffer);
+
+    expect(report.primarySlot).toBe('B');
+    expect(report.damagedSections).toHaveLength(14);
+    expect(report.missingSections).toEqual([]);
+    expect(pokemon).toHaveLength(2);
+    expect(save.activeSlot).toBe('B');
+  });
+
+  it('should reject a save with no readable sections', () => {
+    const buffer = new ArrayBuffer(0x20000);
+    expect(() => recoverGen3Save(buffer)).toThrow('No readable sections found in either save slot');
+  });
+});
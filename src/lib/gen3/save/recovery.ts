@@ -0,0 +1,298 @@
+/**
+ * Gen 3 corrupted-save recovery
+ * Rebuilds a save from the best copy of each section across both slots and
+ * salvages every Pokémon whose pk3 checksum still verifies, reporting the damage
+ */
+
+import {
+  validateSaveSize,
+  parseSaveSlot,
+  verifySectionIntegrity,
+  calculateSectionChecksum,
+  SaveSection,
+  SaveSlot,
+} from './sections';
+import {
+  detectGameGroup,
+  extractPartyFromSave,
+  extractBoxPokemonFromSave,
+  type Gen3Save,
+  type ExtractedPokemon,
+} from './gen3Save';
+import { extractDaycareFromSave } from './daycare';
+import { parseTrainerInfo } from './trainer';
+import { resolveSectionAddress, getBoxSlotOffset } from './layout';
+import {
+  GEN3_NUM_SECTIONS,
+  GEN3_SECTION_DATA_SIZE,
+  GEN3_SECTION_SIGNATURE,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  SECTION_ID_TRAINER_INFO,
+  SECTION_ID_TEAM_ITEMS,
+  SECTION_ID_PC_BUFFER_A,
+  DAYCARE_LAYOUTS,
+  PK3_SIZE,
+  NUM_BOXES,
+  BOX_SIZE,
+} from './constants';
+
+type SlotName = 'A' | 'B';
+
+export interface Gen3DamagedSection {
+  slot: SlotName;
+  position: number; // Physical position within the slot (0-13)
+  id: number; // Section ID as stored in the footer (may itself be corrupted)
+  errors: string[];
+}
+
+export interface Gen3SectionSource {
+  id: number;
+  slot: SlotName | null; // Null when neither slot holds a valid copy
+  fromBackup: boolean; // True when the copy comes from the older slot
+}
+
+export interface Gen3UnreadableSlot {
+  location: 'party' | 'daycare' | 'box';
+  box?: number;
+  slot?: number; // Omitted when the whole location is unreadable
+  reason: string;
+}
+
+export interface Gen3DamageReport {
+  primarySlot: SlotName; // Slot holding the newest valid sections
+  damagedSections: Gen3DamagedSection[];
+  sectionSources: Gen3SectionSource[]; // Indexed by section ID
+  missingSections: number[]; // Section IDs with no valid copy in either slot
+  unreadableSlots: Gen3UnreadableSlot[];
+  gameDetected: boolean; // False when section 0 was lost and the game had to be guessed
+  intact: boolean; // No damage found anywhere
+}
+
+export interface Gen3RecoveryResult {
+  save: Gen3Save; // Exporting commits the rebuilt sections as a clean save
+  pokemon: ExtractedPokemon[]; // Only Pokémon whose checksum verifies
+  damaged: ExtractedPokemon[]; // Pokémon whose checksum fails, kept for quarantine
+  report: Gen3DamageReport;
+}
+
+interface ValidSection {
+  section: SaveSection;
+  position: number;
+}
+
+/**
+ * Recover as much as possible from a damaged Gen 3 save
+ */
+export function recoverGen3Save(buffer: ArrayBuffer): Gen3RecoveryResult {
+  validateSaveSize(buffer);
+
+  const slots: Record<SlotName, SaveSlot> = {
+    A: parseSaveSlot(buffer, GEN3_SAVE_SLOT_A),
+    B: parseSaveSlot(buffer, GEN3_SAVE_SLOT_B),
+  };
+  const damagedSections: Gen3DamagedSection[] = [];
+  const validSections: Record<SlotName, ValidSection[]> = { A: [], B: [] };
+
+  for (const name of ['A', 'B'] as const) {
+    slots[name].sections.forEach((section, position) => {
+      const integrity = verifySectionIntegrity(section);
+      if (integrity.valid) {
+        validSections[name].push({ section, position });
+      } else {
+        damagedSections.push({ slot: name, position, id: section.id, errors: integrity.errors });
+      }
+    });
+  }
+
+  const indexA = getSlotSaveIndex(validSections.A);
+  const indexB = getSlotSaveIndex(validSections.B);
+  if (indexA === null && indexB === null) {
+    throw new Error('No readable sections found in either save slot');
+  }
+
+  const primary: SlotName = indexB === null || (indexA !== null && isNewerSaveIndex(indexA, indexB)) ? 'A' : 'B';
+  const backup: SlotName = primary === 'A' ? 'B' : 'A';
+  const primaryIndex = (primary === 'A' ? indexA : indexB)!;
+
+  // Take each section from the newest slot that holds a valid copy
+  const sections: SaveSection[] = [];
+  const sectionSources: Gen3SectionSource[] = [];
+  const missingSections: number[] = [];
+
+  for (let id = 0; id < GEN3_NUM_SECTIONS; id++) {
+    const fromPrimary = validSections[primary].find(entry => entry.section.id === id);
+    const fromBackup = validSections[backup].find(entry => entry.section.id === id);
+    const chosen = fromPrimary ?? fromBackup;
+
+    if (chosen) {
+      sections.push(chosen.section);
+      sectionSources.push({ id, slot: fromPrimary ? primary : backup, fromBackup: !fromPrimary });
+    } else {
+      sections.push(createBlankSection(id, primaryIndex));
+      sectionSources.push({ id, slot: null, fromBackup: false });
+      missingSections.push(id);
+    }
+  }
+
+  const game = detectGameGroup(sections);
+  const save: Gen3Save = {
+    buffer,
+    activeSlot: primary,
+    slot: rebuildSlot(validSections[primary], primaryIndex),
+    sections,
+    game,
+    trainer: parseTrainerInfo(sections, game),
+  };
+
+  const { pokemon, damaged, unreadableSlots } = salvagePokemon(save, missingSections);
+
+  return {
+    save,
+    pokemon,
+    damaged,
+    report: {
+      primarySlot: primary,
+      damagedSections,
+      sectionSources,
+      missingSections,
+      unreadableSlots,
+      gameDetected: !missingSections.includes(SECTION_ID_TRAINER_INFO),
+      intact: damagedSections.length === 0 && unreadableSlots.length === 0,
+    },
+  };
+}
+
+/**
+ * Extract every Pokémon, separating those that fail their checksum and
+ * listing the slots that could not be read
+ */
+function salvagePokemon(save: Gen3Save, missingSections: number[]): {
+  pokemon: ExtractedPokemon[];
+  damaged: ExtractedPokemon[];
+  unreadableSlots: Gen3UnreadableSlot[];
+} {
+  const pokemon: ExtractedPokemon[] = [];
+  const damaged: ExtractedPokemon[] = [];
+  const unreadableSlots: Gen3UnreadableSlot[] = [];
+  const isLost = (firstSectionId: number, offset: number, length: number) =>
+    findLostSection(missingSections, firstSectionId, offset, length);
+
+  // Slots straddling a lost section are already listed; skip their partial data
+  const collect = (entries: ExtractedPokemon[]) => {
+    for (const entry of entries) {
+      const alreadyListed = unreadableSlots.some(unreadable => unreadable.location === entry.location
+        && unreadable.slot === entry.slot
+        && (entry.location !== 'box' || unreadable.box === entry.box));
+
+      if (entry.isValid) {
+        pokemon.push(entry);
+      } else if (!alreadyListed) {
+        damaged.push(entry);
+        unreadableSlots.push({
+          location: entry.location,
+          ...(entry.location === 'box' ? { box: entry.box } : {}),
+          slot: entry.slot,
+          reason: 'pk3 checksum mismatch',
+        });
+      }
+    }
+  };
+
+  // Party
+  if (missingSections.includes(SECTION_ID_TEAM_ITEMS)) {
+    unreadableSlots.push({ location: 'party', reason: lostSectionReason(SECTION_ID_TEAM_ITEMS) });
+  } else {
+    try {
+      collect(extractPartyFromSave(save));
+    } catch (error) {
+      unreadableSlots.push({ location: 'party', reason: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Daycare
+  const daycareLayout = DAYCARE_LAYOUTS[save.game];
+  daycareLayout.slotOffsets.forEach((offset, slot) => {
+    const lost = isLost(SECTION_ID_TEAM_ITEMS, offset, PK3_SIZE);
+    if (lost !== undefined) {
+      unreadableSlots.push({ location: 'daycare', slot, reason: lostSectionReason(lost) });
+    }
+  });
+  collect(extractDaycareFromSave(save));
+
+  // PC boxes (slots in lost sections read back as empty)
+  for (let box = 0; box < NUM_BOXES; box++) {
+    for (let slot = 0; slot < BOX_SIZE; slot++) {
+      const lost = isLost(SECTION_ID_PC_BUFFER_A, getBoxSlotOffset(box, slot), PK3_SIZE);
+      if (lost !== undefined) {
+        unreadableSlots.push({ location: 'box', box, slot, reason: lostSectionReason(lost) });
+      }
+    }
+  }
+  collect(extractBoxPokemonFromSave(save));
+
+  return { pokemon, damaged, unreadableSlots };
+}
+
+/**
+ * Find the first missing section covering a block range, if any
+ */
+function findLostSection(missingSections: number[], firstSectionId: number, offset: number, length: number): number | undefined {
+  const first = resolveSectionAddress(firstSectionId, offset).sectionId;
+  const last = resolveSectionAddress(firstSectionId, offset + length - 1).sectionId;
+  return missingSections.find(id => id >= first && id <= last);
+}
+
+function lostSectionReason(sectionId: number): string {
+  return `Section ${sectionId} is damaged in both save slots`;
+}
+
+/**
+ * The save index shared by a slot's valid sections (the highest, if they disagree)
+ */
+function getSlotSaveIndex(validSections: ValidSection[]): number | null {
+  let index: number | null = null;
+  for (const { section } of validSections) {
+    if (index === null || isNewerSaveIndex(section.saveIndex, index)) {
+      index = section.saveIndex;
+    }
+  }
+  return index;
+}
+
+/**
+ * Compare save indices, allowing for 32-bit wraparound
+ */
+function isNewerSaveIndex(a: number, b: number): boolean {
+  const diff = (a - b) >>> 0;
+  return diff !== 0 && diff < 0x80000000;
+}
+
+/**
+ * Rebuild the primary slot's physical layout from its valid sections, so the
+ * commit rotates from it; damaged positions become placeholders, which makes
+ * every replaced section count as a pending change
+ */
+function rebuildSlot(validSections: ValidSection[], saveIndex: number): SaveSlot {
+  const anchor = validSections[0]!;
+  const rotation = (anchor.position - anchor.section.id + GEN3_NUM_SECTIONS) % GEN3_NUM_SECTIONS;
+
+  const sections = Array.from({ length: GEN3_NUM_SECTIONS }, (_, position) => {
+    const id = (position - rotation + GEN3_NUM_SECTIONS) % GEN3_NUM_SECTIONS;
+    return validSections.find(entry => entry.position === position && entry.section.id === id)?.section
+      ?? { ...createBlankSection(id, saveIndex), signature: 0 };
+  });
+
+  return { sections, saveIndex, isValid: false };
+}
+
+function createBlankSection(id: number, saveIndex: number): SaveSection {
+  const data = new ArrayBuffer(GEN3_SECTION_DATA_SIZE);
+  return {
+    id,
+    data,
+    checksum: calculateSectionChecksum(data),
+    signature: GEN3_SECTION_SIGNATURE,
+    saveIndex,
+  };
+}
@@ -82,11 +82,19 @@ export function calculateSectionChecksum(data: ArrayBuffer): number {
     throw new Error(`Invalid data size for checksum: expected ${GEN3_SECTION_DATA_SIZE}, got ${data.byteLength}`);
   }
 
+  return calculateBlockChecksum(data, GEN3_SECTION_DATA_SIZE);
+}
+
+/**
+ * Calculate the Gen 3 checksum over the first `length` bytes of a buffer
+ * Used directly for blocks outside the save slots, which checksum fewer bytes
+ */
+export function calculateBlockChecksum(data: ArrayBuffer, length: number): number {
   const view = new DataView(data);
   let sum = 0;
 
   // Sum all 32-bit words
-  for (let i = 0; i < GEN3_SECTION_DATA_SIZE; i += 4) {
+  for (let i = 0; i < length; i += 4) {
     sum += readU32(view, i);
   }
 
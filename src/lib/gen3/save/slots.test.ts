@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { summarizeGen3Slots, loadPreviousGen3Save, isPreviousGen3Save, restorePreviousSave } from './slots';
+import { loadGen3Save, loadGen3SaveSlot, exportGen3Save, extractPokemonFromSave } from './gen3Save';
+import { writeBlockBytes, getBoxSlotOffset } from './layout';
+import { encodePk3 } from '../pk3/pk3';
+import { encodePartyPk3 } from '../pk3/party';
+import { createTestSave, createTestPk3 } from '../../../test/gen3SaveFixture';
+import {
+  GEN3_SAVE_SLOT_B,
+  GEN3_SECTION_SIZE,
+  PARTY_COUNT_OFFSETS,
+  PARTY_DATA_OFFSETS,
+  TRAINER_PLAY_HOURS_OFFSET,
+} from './constants';
+
+const TEST_STATS = {
+  status: 0, level: 9, mailId: 0xFF, currentHp: 20, maxHp: 20,
+  attack: 10, defense: 10, speed: 10, spAtk: 10, spDef: 10,
+};
+
+/** An older save in slot A with one party Pokémon, and a newer one in slot B with a boxed Pokémon and more play time */
+function createSavedTwice(): ArrayBuffer {
+  const older = createTestSave({
+    game: 'FRLG',
+    setup: (sections) => {
+      new DataView(sections[1]!.buffer).setUint32(PARTY_COUNT_OFFSETS.FRLG, 1, true);
+      sections[1]!.set(new Uint8Array(encodePartyPk3(createTestPk3({ species: 25 }), TEST_STATS)), PARTY_DATA_OFFSETS.FRLG);
+      sections[0]![TRAINER_PLAY_HOURS_OFFSET] = 3;
+    },
+  });
+
+  let save = loadGen3Save(older);
+  save = writeBlockBytes(save, 0, TRAINER_PLAY_HOURS_OFFSET, Uint8Array.of(4));
+  save = writeBlockBytes(save, 5, getBoxSlotOffset(2, 0), new Uint8Array(encodePk3(createTestPk3({ species: 4, personality: 9 }))));
+  return exportGen3Save(save);
+}
+
+describe('Gen 3 save slots', () => {
+  it('should summarize both slots, active first', () => {
+    const [current, previous] = summarizeGen3Slots(createSavedTwice());
+
+    expect(current).toMatchObject({ slot: 'B', active: true, saveIndex: 11, valid: true, errors: [] });
+    expect(current!.contents!.trainer.playTime.hours).toBe(4);
+    expect(current!.contents!.boxCounts[2]).toBe(1);
+    expect(current!.contents!.boxTotal).toBe(1);
+
+    expect(previous).toMatchObject({ slot: 'A', active: false, saveIndex: 10, valid: true });
+    expect(previous!.contents!.game).toBe('FRLG');
+    expect(previous!.contents!.trainer.playTime.hours).toBe(3);
+    expect(previous!.contents!.party).toEqual([{ species: 25, level: 9, isEgg: false }]);
+    expect(previous!.contents!.boxTotal).toBe(0);
+  });
+
+  it('should report why a slot cannot be loaded', () => {
+    const buffer = createSavedTwice();
+    new Uint8Array(buffer)[GEN3_SAVE_SLOT_B + 3 * GEN3_SECTION_SIZE] ^= 0xFF;
+
+    const [current, previous] = summarizeGen3Slots(buffer);
+
+    expect(current!.slot).toBe('A');
+    expect(previous).toMatchObject({ slot: 'B', valid: false, contents: null });
+    expect(previous!.errors).toEqual([expect.stringMatching(/^Position 3: Checksum mismatch/)]);
+  });
+
+  it('should load the previous save for import', () => {
+    const previous = loadPreviousGen3Save(createSavedTwice());
+
+    expect(previous.activeSlot).toBe('A');
+    expect(extractPokemonFromSave(previous).map(p => p.location)).toEqual(['party']);
+    expect(isPreviousGen3Save(previous)).toBe(true);
+    expect(isPreviousGen3Save(loadGen3Save(createSavedTwice()))).toBe(false);
+  });
+
+  it('should restore the previous save and swap back on a second restore', () => {
+    const buffer = createSavedTwice();
+    const restored = restorePreviousSave(buffer);
+    const save = loadGen3Save(restored);
+
+    expect(save.activeSlot).toBe('A');
+    expect(save.slot.saveIndex).toBe(12);
+    expect(save.trainer.playTime.hours).toBe(3);
+    // The newer save is kept as the backup
+    expect(loadGen3SaveSlot(restored, 'B').trainer.playTime.hours).toBe(4);
+
+    const swappedBack = loadGen3Save(restorePreviousSave(restored));
+    expect(swappedBack.activeSlot).toBe('B');
+    expect(swappedBack.trainer.playTime.hours).toBe(4);
+  });
+
+  it('should refuse to restore a blank backup slot', () => {
+    const buffer = createSavedTwice();
+    new Uint8Array(buffer).fill(0, 0, GEN3_SAVE_SLOT_B);
+
+    expect(() => restorePreviousSave(buffer)).toThrow('Save slot A is invalid or corrupted');
+  });
+});
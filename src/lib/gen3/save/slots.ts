@@ -0,0 +1,158 @@
+/**
+ * Gen 3 save slots
+ * Summarizes both save slots side by side and restores the previous save
+ * by promoting the backup slot over the current one
+ */
+
+import {
+  validateSaveSize,
+  determineActiveSlot,
+  verifySectionIntegrity,
+  validateSectionIds,
+  SaveSlot,
+} from './sections';
+import {
+  loadGen3SaveSlot,
+  extractPartyFromSave,
+  extractBoxPokemonFromSave,
+  type Gen3Save,
+} from './gen3Save';
+import { decryptAndUnshufflePk3 } from '../pk3/pk3';
+import { parseGrowth, parseMisc, extractIVs } from '../pk3/substruct';
+import { writeU32 } from '../../utils/bin';
+import type { Gen3TrainerInfo } from './trainer';
+import {
+  GEN3_NUM_SECTIONS,
+  GEN3_SECTION_SIZE,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  SECTION_FOOTER_SAVE_INDEX_OFFSET,
+  NUM_BOXES,
+  Gen3GameGroup,
+} from './constants';
+
+type SlotName = 'A' | 'B';
+
+export interface Gen3SlotPartyMember {
+  species: number; // Gen 3 internal species index
+  level: number;
+  isEgg: boolean;
+}
+
+export interface Gen3SlotContents {
+  game: Gen3GameGroup;
+  trainer: Gen3TrainerInfo;
+  party: Gen3SlotPartyMember[];
+  boxCounts: number[]; // Pokémon stored in each of the 14 boxes
+  boxTotal: number;
+}
+
+export interface Gen3SlotSummary {
+  slot: SlotName;
+  active: boolean; // The slot the game loads
+  saveIndex: number;
+  valid: boolean;
+  errors: string[]; // Why the slot cannot be loaded
+  contents: Gen3SlotContents | null; // Null when the slot cannot be loaded
+}
+
+/**
+ * Summarize both save slots, active slot first
+ */
+export function summarizeGen3Slots(buffer: ArrayBuffer): Gen3SlotSummary[] {
+  const { activeSlot, slotA, slotB } = determineActiveSlot(buffer);
+  const backupSlot: SlotName = activeSlot === 'A' ? 'B' : 'A';
+  const slots: Record<SlotName, SaveSlot> = { A: slotA, B: slotB };
+
+  return [activeSlot, backupSlot].map(name => summarizeSlot(buffer, name, slots[name], name === activeSlot));
+}
+
+/**
+ * Load the previous save held in the backup slot
+ */
+export function loadPreviousGen3Save(buffer: ArrayBuffer): Gen3Save {
+  return loadGen3SaveSlot(buffer, getBackupSlot(buffer));
+}
+
+/**
+ * Whether a loaded save is the previous save rather than the one the game loads
+ * Committing it writes over the current save
+ */
+export function isPreviousGen3Save(save: Gen3Save): boolean {
+  return save.activeSlot === getBackupSlot(save.buffer);
+}
+
+/**
+ * Make the previous save the one the game loads, undoing the last in-game save
+ * The backup slot's save index is raised past the current one; no section
+ * data is touched, so the newer save stays in the other slot and restoring
+ * again swaps them back
+ */
+export function restorePreviousSave(buffer: ArrayBuffer): ArrayBuffer {
+  validateSaveSize(buffer);
+
+  const { activeSlot, slotA, slotB } = determineActiveSlot(buffer);
+  const backupSlot: SlotName = activeSlot === 'A' ? 'B' : 'A';
+  const active = activeSlot === 'A' ? slotA : slotB;
+
+  // Fails with a descriptive error when the backup slot is blank or damaged
+  loadGen3SaveSlot(buffer, backupSlot);
+
+  const result = buffer.slice(0);
+  const view = new DataView(result);
+  const slotOffset = backupSlot === 'A' ? GEN3_SAVE_SLOT_A : GEN3_SAVE_SLOT_B;
+  const saveIndex = (active.saveIndex + 1) >>> 0;
+
+  for (let position = 0; position < GEN3_NUM_SECTIONS; position++) {
+    writeU32(view, slotOffset + position * GEN3_SECTION_SIZE + SECTION_FOOTER_SAVE_INDEX_OFFSET, saveIndex);
+  }
+
+  return result;
+}
+
+function getBackupSlot(buffer: ArrayBuffer): SlotName {
+  return determineActiveSlot(buffer).activeSlot === 'A' ? 'B' : 'A';
+}
+
+function summarizeSlot(buffer: ArrayBuffer, name: SlotName, slot: SaveSlot, active: boolean): Gen3SlotSummary {
+  const errors = [
+    ...slot.sections.flatMap((section, position) =>
+      verifySectionIntegrity(section).errors.map(error => `Position ${position}: ${error}`)
+    ),
+    ...validateSectionIds(slot.sections).errors,
+  ];
+  const summary: Gen3SlotSummary = { slot: name, active, saveIndex: slot.saveIndex, valid: slot.isValid, errors, contents: null };
+
+  if (!slot.isValid) {
+    return summary;
+  }
+
+  try {
+    summary.contents = summarizeContents(loadGen3SaveSlot(buffer, name));
+  } catch (error) {
+    summary.errors.push(error instanceof Error ? error.message : String(error));
+  }
+  return summary;
+}
+
+function summarizeContents(save: Gen3Save): Gen3SlotContents {
+  const boxCounts = new Array<number>(NUM_BOXES).fill(0);
+  for (const entry of extractBoxPokemonFromSave(save)) {
+    boxCounts[entry.box]!++;
+  }
+
+  return {
+    game: save.game,
+    trainer: save.trainer,
+    party: extractPartyFromSave(save).map(entry => {
+      const substructures = decryptAndUnshufflePk3(entry.pk3);
+      return {
+        species: parseGrowth(substructures.growth).species,
+        level: entry.stats.level,
+        isEgg: extractIVs(parseMisc(substructures.misc).ivs).isEgg,
+      };
+    }),
+    boxCounts,
+    boxTotal: boxCounts.reduce((total, count) => total + count, 0),
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { formatPlayTime } from './trainer';
+import { loadGen3Save } from './gen3Save';
+import { createTestSave, TEST_EMERALD_SECURITY_KEY } from '../../../test/gen3SaveFixture';
+import { encodeGen3String } from '../../species/speciesTranscode';
+import { FRLG_SECURITY_KEY_OFFSET, Gen3GameGroup } from './constants';
+
+function createTrainerSave(game: Gen3GameGroup): ArrayBuffer {
+  return createTestSave({
+    game,
+    setup: (sections) => {
+      const trainer = sections[0]!;
+      const view = new DataView(trainer.buffer);
+      trainer.set(encodeGen3String('MAY', 8), 0x00);
+      trainer[0x08] = 1; // Female
+      view.setUint16(0x0A, 12345, true);
+      view.setUint16(0x0C, 54321, true);
+      view.setUint16(0x0E, 123, true);
+      trainer[0x10] = 4;
+      trainer[0x11] = 59;
+      trainer[0x12] = 30;
+      trainer[0x13] = 1; // LR button mode
+      view.setUint16(0x14, 2 | (5 << 3) | 0x100 | 0x200 | 0x400, true);
+      view.setUint32(FRLG_SECURITY_KEY_OFFSET, 0xCAFEBABE, true);
+    },
+  });
+}
+
+describe('Gen 3 trainer info', () => {
+  it('should decode the trainer card from section 0', () => {
+    const { trainer } = loadGen3Save(createTrainerSave('E'));
+
+    expect(trainer.name).toBe('MAY');
+    expect(trainer.gender).toBe('female');
+    expect(trainer.trainerId).toBe(12345);
+    expect(trainer.secretId).toBe(54321);
+    expect(trainer.playTime).toEqual({ hours: 123, minutes: 4, seconds: 59, frames: 30 });
+  });
+
+  it('should decode the options bitfield', () => {
+    const { trainer } = loadGen3Save(createTrainerSave('RS'));
+
+    expect(trainer.options).toEqual({
+      buttonMode: 1,
+      textSpeed: 2,
+      windowFrame: 5,
+      sound: 'stereo',
+      battleStyle: 'set',
+      battleScene: false,
+    });
+  });
+
+  it('should read the security key for each game group', () => {
+    const emerald = loadGen3Save(createTrainerSave('E')).trainer;
+    expect(emerald.gameCode).toBe(TEST_EMERALD_SECURITY_KEY);
+    expect(emerald.securityKey).toBe(TEST_EMERALD_SECURITY_KEY);
+
+    const fireRed = loadGen3Save(createTrainerSave('FRLG')).trainer;
+    expect(fireRed.gameCode).toBe(1);
+    expect(fireRed.securityKey).toBe(0xCAFEBABE);
+
+    expect(loadGen3Save(createTrainerSave('RS')).trainer.securityKey).toBe(0);
+  });
+
+  it('should format play time like the trainer card', () => {
+    expect(formatPlayTime({ hours: 7, minutes: 5, seconds: 0, frames: 0 })).toBe('7:05');
+  });
+});
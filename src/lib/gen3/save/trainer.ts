@@ -0,0 +1,114 @@
+/**
+ * Gen 3 trainer card parsing
+ * Decodes the player's name, IDs, play time, options and security key from section 0
+ */
+
+import { SaveSection } from './sections';
+import { readU8, readU16, readU32, safeSlice } from '../../utils/bin';
+import { decodeGen3String } from '../../species/speciesTranscode';
+import {
+  SECTION_ID_TRAINER_INFO,
+  TRAINER_NAME_OFFSET,
+  TRAINER_NAME_LENGTH,
+  TRAINER_GENDER_OFFSET,
+  TRAINER_ID_OFFSET,
+  TRAINER_SECRET_ID_OFFSET,
+  TRAINER_PLAY_HOURS_OFFSET,
+  TRAINER_PLAY_MINUTES_OFFSET,
+  TRAINER_PLAY_SECONDS_OFFSET,
+  TRAINER_PLAY_FRAMES_OFFSET,
+  TRAINER_OPTIONS_BUTTON_MODE_OFFSET,
+  TRAINER_OPTIONS_OFFSET,
+  TRAINER_GAME_CODE_OFFSET,
+  FRLG_SECURITY_KEY_OFFSET,
+  Gen3GameGroup,
+} from './constants';
+
+export interface Gen3PlayTime {
+  hours: number;
+  minutes: number;
+  seconds: number;
+  frames: number; // 1/60 of a second
+}
+
+export interface Gen3Options {
+  buttonMode: number; // 0 = Normal, 1 = LR, 2 = L=A
+  textSpeed: number; // 0 = Slow, 1 = Mid, 2 = Fast
+  windowFrame: number; // Frame style (0-19)
+  sound: 'mono' | 'stereo';
+  battleStyle: 'shift' | 'set';
+  battleScene: boolean; // Battle animations on
+}
+
+export interface Gen3TrainerInfo {
+  name: string;
+  gender: 'male' | 'female';
+  trainerId: number; // Public ID shown on the trainer card
+  secretId: number;
+  playTime: Gen3PlayTime;
+  options: Gen3Options;
+  gameCode: number; // Raw game code field (holds the security key in Emerald)
+  securityKey: number; // XOR key for money and item quantities (0 in Ruby/Sapphire)
+}
+
+/**
+ * Decode the trainer card from section 0
+ */
+export function parseTrainerInfo(sections: SaveSection[], game: Gen3GameGroup): Gen3TrainerInfo {
+  const trainerSection = sections.find(s => s.id === SECTION_ID_TRAINER_INFO);
+  if (!trainerSection) {
+    throw new Error('Trainer info section not found');
+  }
+
+  const view = new DataView(trainerSection.data);
+  const nameBytes = new Uint8Array(
+    safeSlice(trainerSection.data, TRAINER_NAME_OFFSET, TRAINER_NAME_OFFSET + TRAINER_NAME_LENGTH)
+  );
+  const options = readU16(view, TRAINER_OPTIONS_OFFSET);
+  const gameCode = readU32(view, TRAINER_GAME_CODE_OFFSET);
+
+  return {
+    name: decodeGen3String(nameBytes),
+    gender: readU8(view, TRAINER_GENDER_OFFSET) === 1 ? 'female' : 'male',
+    trainerId: readU16(view, TRAINER_ID_OFFSET),
+    secretId: readU16(view, TRAINER_SECRET_ID_OFFSET),
+    playTime: {
+      hours: readU16(view, TRAINER_PLAY_HOURS_OFFSET),
+      minutes: readU8(view, TRAINER_PLAY_MINUTES_OFFSET),
+      seconds: readU8(view, TRAINER_PLAY_SECONDS_OFFSET),
+      frames: readU8(view, TRAINER_PLAY_FRAMES_OFFSET),
+    },
+    options: {
+      buttonMode: readU8(view, TRAINER_OPTIONS_BUTTON_MODE_OFFSET),
+      textSpeed: options & 0x7,
+      windowFrame: (options >>> 3) & 0x1F,
+      sound: (options & 0x100) !== 0 ? 'stereo' : 'mono',
+      battleStyle: (options & 0x200) !== 0 ? 'set' : 'shift',
+      battleScene: (options & 0x400) === 0,
+    },
+    gameCode,
+    securityKey: getSecurityKey(view, game, gameCode),
+  };
+}
+
+/**
+ * Get the security key used to encrypt money and item quantities
+ * Emerald reuses the game code field; FireRed/LeafGreen store it separately
+ */
+function getSecurityKey(view: DataView, game: Gen3GameGroup, gameCode: number): number {
+  switch (game) {
+    case 'E':
+      return gameCode;
+    case 'FRLG':
+      return readU32(view, FRLG_SECURITY_KEY_OFFSET);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Format play time as it appears on the trainer card (e.g. "12:05")
+ */
+export function formatPlayTime(playTime: Gen3PlayTime): string {
+  return `${playTime.hours}:${playTime.minutes.toString().padStart(2, '0')}`;
+}
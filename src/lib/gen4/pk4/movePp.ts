@@ -0,0 +1,56 @@
+/**
+ * Move PP for Gen 4
+ * Pal Park refills every move's PP, so the converter needs each move's base
+ * PP as Gen 4 defines it (a few moves, such as Absorb, changed since Gen 3)
+ */
+
+/**
+ * Base PP by move ID (1-354, the moves that exist in Gen 3)
+ */
+const MOVE_BASE_PP: readonly number[] = [
+  0, // 0 no move
+  35, 25, 10, 15, 20, 20, 15, 15, 15, 35, // 1-10
+  30, 5, 10, 30, 30, 35, 35, 20, 15, 20, // 11-20
+  20, 15, 20, 30, 5, 25, 15, 15, 15, 25, // 21-30
+  20, 5, 35, 15, 20, 20, 20, 15, 30, 35, // 31-40
+  20, 20, 30, 25, 40, 20, 15, 20, 20, 20, // 41-50
+  30, 25, 15, 30, 25, 5, 15, 10, 5, 20, // 51-60
+  20, 20, 5, 35, 20, 25, 20, 20, 20, 15, // 61-70
+  25, 15, 10, 40, 25, 10, 35, 30, 15, 20, // 71-80
+  40, 10, 15, 30, 15, 20, 10, 15, 10, 5, // 81-90
+  10, 10, 25, 10, 20, 40, 30, 30, 20, 20, // 91-100
+  15, 10, 40, 15, 10, 30, 20, 20, 10, 40, // 101-110
+  40, 30, 30, 30, 20, 30, 10, 10, 20, 5, // 111-120
+  10, 30, 20, 20, 20, 5, 15, 10, 20, 15, // 121-130
+  15, 35, 20, 15, 10, 20, 30, 15, 40, 20, // 131-140
+  15, 10, 5, 10, 30, 10, 15, 20, 15, 40, // 141-150
+  40, 10, 5, 15, 10, 10, 10, 15, 30, 30, // 151-160
+  10, 10, 20, 10, 1, 1, 10, 10, 10, 5, // 161-170
+  15, 25, 15, 10, 15, 30, 5, 40, 15, 10, // 171-180
+  25, 10, 30, 10, 20, 10, 10, 10, 10, 10, // 181-190
+  20, 5, 40, 5, 5, 15, 5, 10, 5, 15, // 191-200
+  10, 10, 10, 20, 20, 40, 15, 10, 20, 20, // 201-210
+  25, 5, 15, 10, 5, 20, 15, 20, 25, 20, // 211-220
+  5, 30, 5, 10, 20, 40, 5, 20, 40, 20, // 221-230
+  15, 35, 10, 5, 5, 5, 15, 5, 20, 5, // 231-240
+  5, 15, 20, 10, 5, 5, 15, 15, 15, 15, // 241-250
+  10, 10, 10, 20, 10, 10, 10, 10, 15, 15, // 251-260
+  15, 10, 20, 20, 10, 20, 20, 20, 20, 20, // 261-270
+  10, 10, 10, 20, 20, 5, 15, 10, 10, 15, // 271-280
+  10, 20, 5, 5, 10, 10, 20, 5, 10, 20, // 281-290
+  10, 20, 20, 20, 5, 5, 15, 20, 10, 15, // 291-300
+  20, 15, 10, 10, 15, 10, 5, 5, 10, 15, // 301-310
+  10, 5, 20, 25, 5, 40, 10, 5, 40, 15, // 311-320
+  20, 20, 5, 15, 20, 30, 15, 15, 5, 10, // 321-330
+  30, 20, 30, 15, 5, 40, 15, 5, 20, 5, // 331-340
+  15, 25, 40, 15, 20, 15, 20, 15, 20, 10, // 341-350
+  20, 20, 5, 5, // 351-354
+];
+
+/**
+ * Full PP of a move in Gen 4: each PP Up adds a fifth of its base PP
+ */
+export function getGen4MaxPp(moveId: number, ppUps: number): number {
+  const basePp = MOVE_BASE_PP[moveId] ?? 0;
+  return basePp + Math.floor((basePp * ppUps) / 5);
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from 'vitest';
+import { checkPalParkEligibility, convertPk3ToPk4, convertItemToGen4, PAL_PARK_LOCATION } from './palPark';
+import { decodePk4, decodeGen4String, verifyPk4Checksum } from './pk4';
+import { readPk3Pokemon, writePk3Pokemon } from '../../gen3/pk3/pk3Pokemon';
+import { decodePk3 } from '../../gen3/pk3/pk3';
+import { calculateLevel } from '../../gen3/pk3/substruct';
+import { encodeGen3String, nationalToGen3Internal } from '../../species/speciesTranscode';
+import { createTestPk3 } from '../../../test/gen3SaveFixture';
+
+const TRANSFER_DATE = new Date(2026, 9, 19);
+
+// Gen 3 Pokémon and the pk4 that PKHeX.Core (26.1.22) converts each to on
+// 2026-10-19, written decrypted with blocks A-D in order. PKHeX is independent
+// of this converter and reproduces Pal Park's transfer down to the bytes each
+// language build leaves behind the names
+const VECTORS = [
+  {
+    name: 'an English Treecko holding Leftovers',
+    pk3: [
+      '2143658740e20100bbbcbdffffffffffffff0202cebfcdceffffff00963c0000',
+      '60a1238703a164874282478765a1647b61a1648761a1648761b1e1269e5e9bb8',
+      '6361648374a0ac8721be648761e76487',
+    ].join(''),
+    pk4: [
+      '214365870000737dfc00ea0040e20100401f000046410002040000fc00000000',
+      '0000000000000000010047006200000023191e0000000000ffffffbf03001f80',
+      '00000000000000002b012c012d01ffff420000000000000048a10c02e0ff0003',
+      '00000000000000003e012f013d013e01ffff0000000000000000001a0a130000',
+      '3700000496000000',
+    ].join(''),
+  },
+  {
+    name: 'a German Hariyama with quotes in its nickname',
+    pk3: [
+      'd7418e2bf204319cb1c7bbd2b2ffffffffff0502c5bbccc6ffffff0601b40000',
+      '2145bf4b2545bfb72545bfb7d945a5b62545bfb72651bfb725553aa6daba4088',
+      '2785bfb375449eb6ce76beb72703bfb7',
+    ].join(''),
+    pk4: [
+      'd7418e2b0000ee3f29014801f204319ceb330100462f0605040000fc00000000',
+      '0000000000000000fc001a01000000000e14000002000000ffffffbf03001f80',
+      '0000000000000000b60137012b014201b401ffff00000000a4a10c02e0ff0003',
+      '000000000000000035012b013c013601ffffffff000000000000001a0a130000',
+      '370000022a000000',
+    ].join(''),
+  },
+  {
+    name: 'a French Zangoose with full-length names',
+    pk3: [
+      '53a2f1e02a4d0600c1e6dddadad9aec7d5ec0302bbe1d9e0ddd9ff0b32bf0000',
+      'daefc5e177ef95e078e5e9f949ff7238861008df7b2ff7e47deff71c79eff7e0',
+      '79eff7e005ee3fe0b087f6e07ea9f7e0',
+    ].join(''),
+    pk4: [
+      '53a2f1e0000075864f01ea002a4d0600c968010046110d03040000fc00000000',
+      '0000000000000000a30032010e006200200c1e1e03010000ffffffbf03001f80',
+      '0200000000000000310156014d014a014a014901be01370145015c01ffff0001',
+      '00000000000000002b015101490150014d014901ffff37010000001a0a130000',
+      '3700300bab000000',
+    ].join(''),
+  },
+];
+
+function fromHex(hex: string): ArrayBuffer {
+  return Uint8Array.from(hex.match(/../g)!, byte => parseInt(byte, 16)).buffer;
+}
+
+function toDecryptedHex(pk4: ArrayBuffer): string {
+  const { blocks } = decodePk4(pk4);
+  const bytes = [...new Uint8Array(pk4, 0, 8), ...blocks.a, ...blocks.b, ...blocks.c, ...blocks.d];
+  return bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function convert(pk3: Parameters<typeof convertPk3ToPk4>[0]) {
+  const pk4 = decodePk4(convertPk3ToPk4(pk3, { transferDate: TRANSFER_DATE }));
+  const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { pk4, a: view(pk4.blocks.a), b: view(pk4.blocks.b), d: view(pk4.blocks.d) };
+}
+
+describe('Pal Park migration', () => {
+  it('should carry identity, moves and IVs over to a valid pk4', () => {
+    const pk3 = createTestPk3({ species: 25, heldItem: 200, moves: [84, 98], ivs: 0x3FFFFFFF, evs: [4, 0, 0, 252, 0, 0] });
+    const { pk4, a, b } = convert(pk3);
+
+    expect(verifyPk4Checksum(pk4)).toBe(true);
+    expect(pk4.personality).toBe(pk3.personality);
+    expect(a.getUint16(0x00, true)).toBe(25);
+    expect(a.getUint16(0x02, true)).toBe(234); // Leftovers
+    expect(a.getUint16(0x04, true)).toBe(0xE240);
+    expect(a.getUint16(0x06, true)).toBe(0x0001);
+    expect(a.getUint32(0x08, true)).toBe(1000);
+    expect(a.getUint8(0x0C)).toBe(70);
+    expect(a.getUint8(0x0D)).toBe(9); // Static
+    expect(a.getUint8(0x0F)).toBe(2); // English
+    expect([a.getUint8(0x10), a.getUint8(0x13)]).toEqual([4, 252]);
+
+    expect([b.getUint16(0x00, true), b.getUint16(0x02, true), b.getUint16(0x04, true)]).toEqual([84, 98, 0]);
+    expect(b.getUint8(0x08)).toBe(30); // Refilled to Thunder Shock's full PP
+    // All IVs 31, plus the nickname flag since "ABC" is not the species name
+    expect(b.getUint32(0x10, true)).toBe(0xBFFFFFFF);
+  });
+
+  it('should remap Hoenn species and take the ability from the ability slot', () => {
+    const pk3 = createTestPk3({ species: nationalToGen3Internal(252), experience: 2000 });
+    const { pk4, a } = convert(pk3);
+
+    expect(a.getUint16(0x00, true)).toBe(252);
+    expect(a.getUint8(0x0D)).toBe(65); // Overgrow
+    expect(decodeGen4String(pk4.blocks.c.slice(0, 22))).toBe('ABC');
+    expect(decodeGen4String(pk4.blocks.d.slice(0, 16))).toBe('TEST');
+  });
+
+  it('should not flag a Pokémon named after its species as nicknamed', () => {
+    const pk3 = createTestPk3({ species: 25, nickname: Array.from(encodeGen3String('PIKACHU', 10)) });
+    const { b } = convert(pk3);
+
+    expect(b.getUint32(0x10, true) & 0x80000000).toBe(0);
+  });
+
+  it('should record the Pal Park met data at the current level', () => {
+    const pk3 = createTestPk3({ species: 25, experience: 8000, origins: (3 << 7) | (4 << 11) | 5 | 0x8000 });
+    const { pk4, b, d } = convert(pk3);
+
+    expect(b.getUint16(0x1C, true)).toBe(0);
+    expect(b.getUint16(0x1E, true)).toBe(0); // Platinum locations are only set for places DP lacks
+    expect(d.getUint16(0x16, true)).toBe(0);
+    expect(d.getUint16(0x18, true)).toBe(PAL_PARK_LOCATION);
+    expect([d.getUint8(0x13), d.getUint8(0x14), d.getUint8(0x15)]).toEqual([26, 10, 19]);
+    expect(d.getUint8(0x1B)).toBe(4);
+    expect(d.getUint8(0x1E)).toBe(0); // HGSS ball
+    expect(d.getUint8(0x1C)).toBe(calculateLevel(8000, 25) | 0x80);
+    expect(pk4.blocks.c[0x17]).toBe(3); // Emerald
+  });
+
+  it('should convert contest ranks into Gen 4 ribbon flags', () => {
+    const pokemon = readPk3Pokemon(createTestPk3({ species: 25 }));
+    pokemon.ribbons = { ...pokemon.ribbons, cool: 2, tough: 4, champion: true, world: true };
+    const { b } = convert(writePk3Pokemon(pokemon));
+
+    expect(b.getUint32(0x14, true)).toBe((0b0011 | (0b1111 << 16) | (1 << 20) | (1 << 31)) >>> 0);
+  });
+
+  it.each(VECTORS)('should produce the same pk4 as PKHeX for $name', ({ pk3, pk4 }) => {
+    expect(toDecryptedHex(convertPk3ToPk4(decodePk3(fromHex(pk3)), { transferDate: TRANSFER_DATE }))).toBe(pk4);
+  });
+
+  it('should refuse Pokémon Pal Park would not accept', () => {
+    expect(checkPalParkEligibility(createTestPk3({ species: 25 }))).toEqual([]);
+
+    expect(checkPalParkEligibility(createTestPk3({ species: 25, moves: [33, 57] })))
+      .toEqual([expect.stringContaining('HM moves (#57)')]);
+    expect(checkPalParkEligibility(createTestPk3({ species: 25, heldItem: 121 })))
+      .toEqual(['It is holding Mail']);
+    expect(checkPalParkEligibility(createTestPk3({ species: 25, ivs: 0x7FFFFFFF })))
+      .toEqual(['Eggs cannot be migrated']);
+
+    const japanese = readPk3Pokemon(createTestPk3({ species: 25 }));
+    japanese.language = 1;
+    expect(checkPalParkEligibility(writePk3Pokemon(japanese)))
+      .toEqual([expect.stringContaining('Japanese names')]);
+
+    const corrupted = createTestPk3({ species: 25 });
+    corrupted.checksum ^= 0xFFFF;
+    expect(checkPalParkEligibility(corrupted)).toHaveLength(1);
+
+    expect(() => convertPk3ToPk4(createTestPk3({ species: 25, heldItem: 121 })))
+      .toThrow('Pal Park cannot migrate this Pokémon');
+  });
+
+  it('should map Gen 3 items into the Gen 4 item list', () => {
+    expect(convertItemToGen4(1)).toBe(1); // Master Ball
+    expect(convertItemToGen4(13)).toBe(17); // Potion
+    expect(convertItemToGen4(289)).toBe(328); // TM01
+    expect(convertItemToGen4(52)).toBeNull();
+    expect(convertItemToGen4(346)).toBeNull(); // HM08
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Pal Park migration (pk3 → pk4)
+ * Converts a Gen 3 Pokémon the way Pal Park does when it arrives in a DS game:
+ * remapped species and items, moves carried over with full PP, Gen 3 met data
+ * replaced by "met in Pal Park" at its current level, encrypted as a .pk4
+ */
+
+import { writeU8, writeU16, writeU32 } from '../../utils/bin';
+import { readPk3Pokemon, type Pk3Pokemon } from '../../gen3/pk3/pk3Pokemon';
+import { verifyPk3Checksum, type Pk3Data } from '../../gen3/pk3/pk3';
+import { calculateLevel } from '../../gen3/pk3/substruct';
+import { gen3InternalToNational, decodeGen3String, getSpeciesName } from '../../species/speciesTranscode';
+import { getSpeciesAbility } from '../../species/abilities';
+import { determineGen3Gender } from '../../parsers/genderDetermination';
+import { encodePk4, encodeGen4String, isGen4Encodable, PK4_BLOCK_SIZE, GEN4_STRING_TERMINATOR } from './pk4';
+import { getGen4MaxPp } from './movePp';
+
+export const PAL_PARK_LOCATION = 0x37;
+
+const NATIONAL_DEX_UNOWN = 201;
+const UNOWN_FORM_COUNT = 28;
+
+// Moves Pal Park refuses to migrate (Cut, Fly, Surf, Strength, Waterfall, Flash, Rock Smash, Dive)
+const HM_MOVES = new Set([15, 19, 57, 70, 127, 148, 249, 291]);
+
+// Gen 3 Mail (Orange Mail - Retro Mail); Pal Park refuses Pokémon holding it
+const GEN3_FIRST_MAIL = 121;
+const GEN3_LAST_MAIL = 132;
+
+// Gen 3 item ranges and the Gen 4 ID of their first item; Gen 4 inserted new
+// items between most groups, so each range keeps its order but moves
+const GEN3_TO_GEN4_ITEM_RANGES: readonly [first: number, last: number, gen4First: number][] = [
+  [1, 12, 1], // Master Ball - Premier Ball
+  [13, 37, 17], // Potion - Max Elixir
+  [38, 38, 42], // Lava Cookie
+  [39, 43, 65], // Blue Flute - White Flute
+  [44, 45, 43], // Berry Juice, Sacred Ash
+  [46, 47, 70], // Shoal Salt, Shoal Shell
+  [48, 51, 72], // Red Shard - Green Shard
+  [63, 71, 45], // HP Up - PP Max
+  [73, 79, 55], // Guard Spec. - X Special
+  [80, 81, 63], // Poké Doll, Fluffy Tail
+  [83, 86, 76], // Super Repel - Repel
+  [93, 98, 80], // Sun Stone - Leaf Stone
+  [103, 104, 86], // TinyMushroom, Big Mushroom
+  [106, 111, 88], // Pearl - Heart Scale
+  [133, 167, 149], // Cheri Berry - Belue Berry
+  [168, 175, 201], // Liechi Berry - Enigma Berry
+  [179, 225, 213], // BrightPowder - Stick
+  [254, 258, 260], // Red Scarf - Yellow Scarf
+  [289, 338, 328], // TM01 - TM50
+  // HM01 - HM08 (339-346) have no equivalent
+];
+
+// Gen 4 block offsets (relative to each block)
+const A_SPECIES = 0x00;
+const A_HELD_ITEM = 0x02;
+const A_TID = 0x04;
+const A_SID = 0x06;
+const A_EXPERIENCE = 0x08;
+const A_FRIENDSHIP = 0x0C;
+const A_ABILITY = 0x0D;
+const A_MARKINGS = 0x0E;
+const A_LANGUAGE = 0x0F;
+const A_EVS = 0x10;
+const A_CONTEST = 0x16;
+const B_MOVES = 0x00;
+const B_PP = 0x08;
+const B_PP_UPS = 0x0C;
+const B_IVS = 0x10;
+const B_HOENN_RIBBONS = 0x14;
+const B_FLAGS = 0x18; // Fateful encounter, gender, form
+const C_NICKNAME = 0x00;
+const C_ORIGIN_GAME = 0x17;
+const D_OT_NAME = 0x00;
+const D_MET_DATE = 0x13;
+const D_EGG_LOCATION_DP = 0x16;
+const D_MET_LOCATION_DP = 0x18;
+const D_POKERUS = 0x1A;
+const D_BALL = 0x1B;
+const D_MET_LEVEL = 0x1C; // Met level and OT gender
+
+const NICKNAME_CHARS = 11;
+const OT_NAME_CHARS = 8;
+
+const LANGUAGE_JAPANESE = 1;
+const LANGUAGE_ENGLISH = 2;
+const LANGUAGE_FRENCH = 3;
+const LANGUAGE_ITALIAN = 4;
+const LANGUAGE_GERMAN = 5;
+
+// What Pal Park leaves in the nickname past its terminator: leftovers of a
+// work buffer, which differ between the English, Italian and other European
+// builds (the first four bytes are always covered by a name and terminator)
+const NICKNAME_TRASH_ENGLISH = [0, 0, 0, 0, 0x18, 0x20, 0x0D, 0x02, 0x42, 0, 0, 0, 0, 0, 0, 0, 0x48, 0xA1, 0x0C, 0x02, 0xE0, 0xFF];
+const NICKNAME_TRASH_ITALIAN = [0, 0, 0, 0, 0x54, 0x20, 0x0D, 0x02, 0x42, 0, 0, 0, 0, 0, 0, 0, 0x84, 0xA1, 0x0C, 0x02, 0xE0, 0xFF];
+const NICKNAME_TRASH_EUROPEAN = [0, 0, 0, 0, 0x74, 0x20, 0x0D, 0x02, 0x42, 0, 0, 0, 0, 0, 0, 0, 0xA4, 0xA1, 0x0C, 0x02, 0xE0, 0xFF];
+
+const FRIENDSHIP_AFTER_MIGRATION = 70;
+
+export interface PalParkOptions {
+  transferDate?: Date; // Recorded as the met date; defaults to today
+}
+
+/**
+ * Reasons Pal Park would refuse to migrate a Pokémon (empty if it can)
+ */
+export function checkPalParkEligibility(pk3: Pk3Data): string[] {
+  if (!verifyPk3Checksum(pk3)) {
+    return ['Its data fails the checksum (it would be a Bad Egg)'];
+  }
+
+  const pokemon = readPk3Pokemon(pk3);
+  const reasons: string[] = [];
+
+  if (pokemon.language === LANGUAGE_JAPANESE) {
+    reasons.push('Japanese names use a character table the converter cannot read');
+  }
+  if (pokemon.isEgg || pokemon.sanityFlags.isBadEgg) {
+    reasons.push('Eggs cannot be migrated');
+  }
+  if (gen3InternalToNational(pokemon.species) === 0) {
+    reasons.push(`Species index ${pokemon.species} is not a Pokémon`);
+  }
+
+  const hmMoves = pokemon.moves.filter(move => HM_MOVES.has(move.id));
+  if (hmMoves.length > 0) {
+    reasons.push(`It knows HM moves (#${hmMoves.map(move => move.id).join(', #')}); make it forget them first`);
+  }
+
+  if (pokemon.heldItem >= GEN3_FIRST_MAIL && pokemon.heldItem <= GEN3_LAST_MAIL) {
+    reasons.push('It is holding Mail');
+  } else if (pokemon.heldItem !== 0 && convertItemToGen4(pokemon.heldItem) === null) {
+    reasons.push(`Held item #${pokemon.heldItem} has no Gen 4 equivalent`);
+  }
+
+  for (const [label, name] of [['Nickname', pokemon.nickname], ['OT name', pokemon.otName]] as const) {
+    const text = decodeName(name, pokemon.language);
+    if (!isGen4Encodable(text)) {
+      reasons.push(`${label} "${text}" uses characters the converter cannot write in Gen 4`);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Convert a Gen 3 Pokémon to an encrypted 136-byte .pk4 following Pal Park rules
+ */
+export function convertPk3ToPk4(pk3: Pk3Data, options: PalParkOptions = {}): ArrayBuffer {
+  const reasons = checkPalParkEligibility(pk3);
+  if (reasons.length > 0) {
+    throw new Error(`Pal Park cannot migrate this Pokémon:\n${reasons.join('\n')}`);
+  }
+
+  const pokemon = readPk3Pokemon(pk3);
+  const nationalDex = gen3InternalToNational(pokemon.species);
+  const level = calculateLevel(pokemon.experience, pokemon.species);
+  const transferDate = options.transferDate ?? new Date();
+  const blocks = {
+    a: new Uint8Array(PK4_BLOCK_SIZE),
+    b: new Uint8Array(PK4_BLOCK_SIZE),
+    c: new Uint8Array(PK4_BLOCK_SIZE),
+    d: new Uint8Array(PK4_BLOCK_SIZE),
+  };
+  const a = viewOf(blocks.a);
+  const b = viewOf(blocks.b);
+  const d = viewOf(blocks.d);
+
+  // Block A: identity, growth and EVs
+  writeU16(a, A_SPECIES, nationalDex);
+  writeU16(a, A_HELD_ITEM, pokemon.heldItem === 0 ? 0 : convertItemToGen4(pokemon.heldItem)!);
+  writeU16(a, A_TID, pokemon.otId & 0xFFFF);
+  writeU16(a, A_SID, pokemon.otId >>> 16);
+  writeU32(a, A_EXPERIENCE, pokemon.experience);
+  writeU8(a, A_FRIENDSHIP, FRIENDSHIP_AFTER_MIGRATION);
+  writeU8(a, A_ABILITY, getSpeciesAbility(nationalDex, pokemon.abilitySlot));
+  // Gen 4 swaps the square and triangle marking bits
+  writeU8(a, A_MARKINGS, (pokemon.markings & 0b1001) | ((pokemon.markings & 0b0010) << 1) | ((pokemon.markings & 0b0100) >> 1));
+  writeU8(a, A_LANGUAGE, pokemon.language);
+  [pokemon.evs.hp, pokemon.evs.attack, pokemon.evs.defense, pokemon.evs.speed, pokemon.evs.spAtk, pokemon.evs.spDef]
+    .forEach((ev, i) => writeU8(a, A_EVS + i, ev));
+  [pokemon.contest.coolness, pokemon.contest.beauty, pokemon.contest.cuteness, pokemon.contest.smartness, pokemon.contest.toughness, pokemon.contest.sheen]
+    .forEach((stat, i) => writeU8(a, A_CONTEST + i, stat));
+
+  // Block B: moves, IVs, ribbons, gender and form, Platinum locations
+  pokemon.moves.forEach((move, i) => {
+    writeU16(b, B_MOVES + i * 2, move.id);
+    writeU8(b, B_PP + i, getGen4MaxPp(move.id, move.ppUps));
+    writeU8(b, B_PP_UPS + i, move.ppUps);
+  });
+  const { hp, attack, defense, speed, spAtk, spDef } = pokemon.ivs;
+  const isNicknamed = decodeGen3String(pokemon.nickname).replace(/’/g, "'") !== getSpeciesName(nationalDex).toUpperCase();
+  writeU32(b, B_IVS, (hp | (attack << 5) | (defense << 10) | (speed << 15) | (spAtk << 20) | (spDef << 25)
+    | (isNicknamed ? 0x80000000 : 0)) >>> 0);
+  writeU32(b, B_HOENN_RIBBONS, convertRibbonsToGen4(pokemon));
+  const gender = determineGen3Gender(nationalDex, pokemon.personality);
+  writeU8(b, B_FLAGS, (pokemon.fatefulEncounter ? 0x01 : 0)
+    | (gender === 'F' ? 0x02 : 0)
+    | (gender === 'U' ? 0x04 : 0)
+    | (getForm(nationalDex, pokemon.personality) << 3));
+  // Pal Park is a DP location, so the Platinum met and egg locations stay 0
+
+  // Block C: nickname and origin game
+  const nickname = withTrash(encodeGen4String(decodeName(pokemon.nickname, pokemon.language), NICKNAME_CHARS), getNicknameTrash(pokemon.language));
+  blocks.c.set(nickname, C_NICKNAME);
+  blocks.c[C_ORIGIN_GAME] = pokemon.origins.game;
+
+  // Block D: OT, Pal Park met data, Pokérus and ball
+  // The OT name is converted in the buffer that held the nickname, so the
+  // nickname shows past the OT terminator
+  const otName = encodeGen4String(decodeName(pokemon.otName, pokemon.language), OT_NAME_CHARS);
+  blocks.d.set(withTrash(otName, nickname).subarray(0, OT_NAME_CHARS * 2), D_OT_NAME);
+  writeU8(d, D_MET_DATE, transferDate.getFullYear() - 2000);
+  writeU8(d, D_MET_DATE + 1, transferDate.getMonth() + 1);
+  writeU8(d, D_MET_DATE + 2, transferDate.getDate());
+  writeU16(d, D_EGG_LOCATION_DP, 0);
+  writeU16(d, D_MET_LOCATION_DP, PAL_PARK_LOCATION);
+  writeU8(d, D_POKERUS, (pokemon.pokerus.strain << 4) | pokemon.pokerus.days);
+  writeU8(d, D_BALL, pokemon.origins.ball);
+  writeU8(d, D_MET_LEVEL, level | (pokemon.origins.otGender === 'female' ? 0x80 : 0));
+  // The HGSS ball byte is only set for balls that exist only in HGSS, so it stays 0
+
+  return encodePk4(pokemon.personality, blocks);
+}
+
+/**
+ * Gen 4 ID of a Gen 3 item, or null if Gen 4 has no equivalent
+ */
+export function convertItemToGen4(gen3Item: number): number | null {
+  const range = GEN3_TO_GEN4_ITEM_RANGES.find(([first, last]) => gen3Item >= first && gen3Item <= last);
+  return range ? range[2] + (gen3Item - range[0]) : null;
+}
+
+/**
+ * Gen 3 ribbons in the Gen 4 Hoenn ribbon layout: each contest category takes
+ * four flags (Normal, Super, Hyper, Master) instead of a 0-4 rank
+ */
+function convertRibbonsToGen4(pokemon: Pk3Pokemon): number {
+  const { ribbons } = pokemon;
+  const ranks = [ribbons.cool, ribbons.beauty, ribbons.cute, ribbons.smart, ribbons.tough];
+  const flags = [
+    ribbons.champion, ribbons.winning, ribbons.victory, ribbons.artist, ribbons.effort,
+    ribbons.marine, ribbons.land, ribbons.sky, ribbons.country, ribbons.national, ribbons.earth, ribbons.world,
+  ];
+
+  let bits = 0;
+  ranks.forEach((rank, i) => {
+    bits |= ((1 << Math.min(rank, 4)) - 1) << (i * 4);
+  });
+  flags.forEach((flag, i) => {
+    if (flag) bits |= 1 << (20 + i);
+  });
+  return bits >>> 0;
+}
+
+/**
+ * Alternate form stored in Gen 4; Gen 3 derives Unown's letter from the PID
+ * and every other form (including Deoxys) migrates as form 0
+ */
+function getForm(nationalDex: number, personality: number): number {
+  if (nationalDex !== NATIONAL_DEX_UNOWN) {
+    return 0;
+  }
+  const letter = ((personality >>> 18) & 0xC0) | ((personality >>> 12) & 0x30) | ((personality >>> 6) & 0x0C) | (personality & 0x03);
+  return letter % UNOWN_FORM_COUNT;
+}
+
+/**
+ * Decode a Gen 3 name as its game prints it: French and German games show
+ * the quote characters as « » and „ “
+ */
+function decodeName(bytes: Uint8Array, language: number): string {
+  const text = decodeGen3String(bytes);
+  switch (language) {
+    case LANGUAGE_FRENCH: return text.replace(/“/g, '«').replace(/”/g, '»');
+    case LANGUAGE_GERMAN: return text.replace(/“/g, '„').replace(/”/g, '“');
+    default: return text;
+  }
+}
+
+/**
+ * Nickname trash for a language; Japanese leaves none
+ */
+function getNicknameTrash(language: number): readonly number[] {
+  switch (language) {
+    case LANGUAGE_JAPANESE: return [];
+    case LANGUAGE_ITALIAN: return NICKNAME_TRASH_ITALIAN;
+    case LANGUAGE_ENGLISH: return NICKNAME_TRASH_ENGLISH;
+    default: return NICKNAME_TRASH_EUROPEAN;
+  }
+}
+
+/**
+ * A terminated Gen 4 string with the bytes after its terminator taken from trash
+ */
+function withTrash(str: Uint8Array, trash: ArrayLike<number>): Uint8Array {
+  const view = viewOf(str);
+  let end = 0;
+  while (end + 2 < str.length && view.getUint16(end, true) !== GEN4_STRING_TERMINATOR) end += 2;
+
+  const bytes = new Uint8Array(str.length);
+  bytes.set(Array.from(trash).slice(0, str.length));
+  bytes.set(str.subarray(0, end + 2));
+  return bytes;
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+  return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
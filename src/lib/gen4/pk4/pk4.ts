@@ -0,0 +1,193 @@
+/**
+ * Gen 4 pk4 (136-byte box Pokémon) structure
+ * Handles the four 32-byte blocks, their PID-based shuffle, the checksum and
+ * the checksum-seeded PRNG encryption, and the Gen 4 character encoding
+ */
+
+import { readU16, readU32, writeU16, writeU32 } from '../../utils/bin';
+import { PK3_SUBSTRUCTURE_ORDERS } from '../../gen3/save/constants';
+
+export const PK4_SIZE = 136;
+export const PK4_BLOCK_SIZE = 32;
+export const PK4_PERSONALITY_OFFSET = 0x00; // u32
+export const PK4_SANITY_OFFSET = 0x04; // u16
+export const PK4_CHECKSUM_OFFSET = 0x06; // u16
+export const PK4_DATA_OFFSET = 0x08; // Four 32-byte blocks
+
+const PK4_DATA_SIZE = PK4_BLOCK_SIZE * 4;
+
+// Encryption PRNG (the same linear congruential generator the games use everywhere)
+const PRNG_MULTIPLIER = 0x41C64E6D;
+const PRNG_INCREMENT = 0x6073;
+
+export const GEN4_STRING_TERMINATOR = 0xFFFF;
+
+// Gen 4 character codes for the Latin characters a Gen 3 name can contain
+const GEN4_CHAR_CODES: Record<string, number> = {
+  ...Object.fromEntries([...'0123456789'].map((char, i) => [char, 0x0121 + i])),
+  ...Object.fromEntries([...'ABCDEFGHIJKLMNOPQRSTUVWXYZ'].map((char, i) => [char, 0x012B + i])),
+  ...Object.fromEntries([...'abcdefghijklmnopqrstuvwxyz'].map((char, i) => [char, 0x0145 + i])),
+  '!': 0x01AB, '?': 0x01AC, ',': 0x01AD, '.': 0x01AE, '…': 0x01AF, '・': 0x01B0,
+  '/': 0x01B1, '‘': 0x01B2, "'": 0x01B3, '’': 0x01B3, '“': 0x01B4, '”': 0x01B5, '„': 0x01B6,
+  '«': 0x01B7, '»': 0x01B8,
+  '♂': 0x01BB, '♀': 0x01BC, '-': 0x01BE, ':': 0x01C4, ' ': 0x01DE,
+};
+
+export interface Pk4Blocks {
+  a: Uint8Array; // 32 bytes: species, item, trainer IDs, experience, ability, EVs, contest stats
+  b: Uint8Array; // 32 bytes: moves, PP, IVs, Hoenn ribbons, gender and form, Platinum locations
+  c: Uint8Array; // 32 bytes: nickname, origin game
+  d: Uint8Array; // 32 bytes: OT name, dates, DP locations, Pokérus, ball, met level
+}
+
+export interface Pk4Data {
+  personality: number;
+  sanity: number;
+  checksum: number;
+  blocks: Pk4Blocks; // Decrypted and unshuffled
+}
+
+/**
+ * Block order index for a PID; Gen 4 shuffles with the same table as Gen 3
+ */
+export function getPk4ShuffleIndex(personality: number): number {
+  return ((personality & 0x3E000) >>> 13) % 24;
+}
+
+/**
+ * Sum of the 16-bit words of the unshuffled blocks, modulo 0x10000
+ */
+export function calculatePk4Checksum(blocks: Pk4Blocks): number {
+  const view = new DataView(joinBlocks(blocks).buffer);
+  let sum = 0;
+  for (let i = 0; i < PK4_DATA_SIZE; i += 2) {
+    sum += readU16(view, i);
+  }
+  return sum & 0xFFFF;
+}
+
+/**
+ * Build an encrypted 136-byte pk4 with a freshly calculated checksum
+ */
+export function encodePk4(personality: number, blocks: Pk4Blocks, sanity = 0): ArrayBuffer {
+  const buffer = new ArrayBuffer(PK4_SIZE);
+  const view = new DataView(buffer);
+  const checksum = calculatePk4Checksum(blocks);
+
+  writeU32(view, PK4_PERSONALITY_OFFSET, personality);
+  writeU16(view, PK4_SANITY_OFFSET, sanity);
+  writeU16(view, PK4_CHECKSUM_OFFSET, checksum);
+
+  const order = shuffleOrder(personality);
+  const data = new Uint8Array(buffer, PK4_DATA_OFFSET, PK4_DATA_SIZE);
+  [blocks.a, blocks.b, blocks.c, blocks.d].forEach((block, i) => {
+    data.set(block, order[i]! * PK4_BLOCK_SIZE);
+  });
+  cryptPk4Data(data, checksum);
+
+  return buffer;
+}
+
+/**
+ * Decrypt and unshuffle a 136-byte pk4 (or the first 136 bytes of a party pk4)
+ */
+export function decodePk4(buffer: ArrayBuffer): Pk4Data {
+  if (buffer.byteLength < PK4_SIZE) {
+    throw new Error(`Invalid pk4 size: expected at least ${PK4_SIZE}, got ${buffer.byteLength}`);
+  }
+
+  const view = new DataView(buffer);
+  const personality = readU32(view, PK4_PERSONALITY_OFFSET);
+  const checksum = readU16(view, PK4_CHECKSUM_OFFSET);
+
+  const data = new Uint8Array(buffer.slice(PK4_DATA_OFFSET, PK4_DATA_OFFSET + PK4_DATA_SIZE));
+  cryptPk4Data(data, checksum);
+
+  const order = shuffleOrder(personality);
+  const block = (i: number) => data.slice(order[i]! * PK4_BLOCK_SIZE, (order[i]! + 1) * PK4_BLOCK_SIZE);
+
+  return {
+    personality,
+    sanity: readU16(view, PK4_SANITY_OFFSET),
+    checksum,
+    blocks: { a: block(0), b: block(1), c: block(2), d: block(3) },
+  };
+}
+
+/**
+ * Verify the checksum of a decoded pk4
+ */
+export function verifyPk4Checksum(pk4: Pk4Data): boolean {
+  return calculatePk4Checksum(pk4.blocks) === pk4.checksum;
+}
+
+/**
+ * Whether every character of a string exists in the supported Gen 4 charset
+ */
+export function isGen4Encodable(str: string): boolean {
+  return [...str].every(char => GEN4_CHAR_CODES[char] !== undefined);
+}
+
+/**
+ * Encode a string as Gen 4 16-bit characters, terminated and zero padded
+ * maxChars includes the terminator
+ */
+export function encodeGen4String(str: string, maxChars: number): Uint8Array {
+  const bytes = new Uint8Array(maxChars * 2);
+  const view = new DataView(bytes.buffer);
+  const chars = [...str].slice(0, maxChars - 1);
+
+  chars.forEach((char, i) => {
+    const code = GEN4_CHAR_CODES[char];
+    if (code === undefined) {
+      throw new Error(`Character "${char}" cannot be written in Gen 4`);
+    }
+    writeU16(view, i * 2, code);
+  });
+  writeU16(view, chars.length * 2, GEN4_STRING_TERMINATOR);
+
+  return bytes;
+}
+
+/**
+ * Decode a Gen 4 string up to its terminator
+ */
+export function decodeGen4String(bytes: Uint8Array): string {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chars = Object.fromEntries(Object.entries(GEN4_CHAR_CODES).map(([char, code]) => [code, char]));
+  let str = '';
+
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    const code = readU16(view, i);
+    if (code === GEN4_STRING_TERMINATOR) break;
+    str += chars[code] ?? '?';
+  }
+  return str;
+}
+
+/**
+ * XOR the data with the PRNG stream seeded by the checksum (symmetric)
+ */
+function cryptPk4Data(data: Uint8Array, seed: number): void {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let state = seed >>> 0;
+
+  for (let i = 0; i < data.byteLength; i += 2) {
+    state = (Math.imul(state, PRNG_MULTIPLIER) + PRNG_INCREMENT) >>> 0;
+    writeU16(view, i, readU16(view, i) ^ (state >>> 16));
+  }
+}
+
+function shuffleOrder(personality: number): number[] {
+  const order = PK3_SUBSTRUCTURE_ORDERS[getPk4ShuffleIndex(personality)];
+  if (!order) {
+    throw new Error(`Invalid block order index: ${getPk4ShuffleIndex(personality)}`);
+  }
+  return order;
+}
+
+function joinBlocks(blocks: Pk4Blocks): Uint8Array {
+  const data = new Uint8Array(PK4_DATA_SIZE);
+  [blocks.a, blocks.b, blocks.c, blocks.d].forEach((block, i) => data.set(block, i * PK4_BLOCK_SIZE));
+  return data;
+}
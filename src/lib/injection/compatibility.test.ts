@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { checkInjectionCompatibility, formatCompatibilityFindings } from './compatibility';
+import { loadGen3Save } from '../gen3/save/gen3Save';
+import { setNationalDexUnlocked } from '../gen3/save/pokedex';
+import { commitGen3Save } from '../gen3/save/commit';
+import { createTestSave, createTestPk3 } from '../../test/gen3SaveFixture';
+
+const KANTO_LOCATION = 0x58; // Pallet Town
+const HOENN_LOCATION = 0x10;
+const origins = (game: number) => (game << 7) | (4 << 11) | 5;
+
+describe('Gen 3 injection compatibility check', () => {
+  it('should report nothing for Pokémon that fit the target game', () => {
+    const report = checkInjectionCompatibility(createTestSave({ game: 'E' }), [
+      createTestPk3({ species: 25, heldItem: 13 }),
+      createTestPk3({ species: 27, metLocation: KANTO_LOCATION }),
+    ]);
+
+    expect(report).toMatchObject({ game: 'E', pokemon: [], hasErrors: false, hasWarnings: false });
+  });
+
+  it('should flag held items missing from the target game as errors', () => {
+    const report = checkInjectionCompatibility(createTestSave({ game: 'RS' }), [
+      createTestPk3({ species: 25 }),
+      createTestPk3({ species: 25, heldItem: 375 }),
+    ]);
+
+    expect(report.hasErrors).toBe(true);
+    expect(report.pokemon).toHaveLength(1);
+    expect(report.pokemon[0]).toMatchObject({ index: 1, nationalDex: 25 });
+    expect(formatCompatibilityFindings(report, 'error')).toEqual(['ABC (#25): Held item #375 does not exist in Ruby/Sapphire']);
+  });
+
+  it('should warn about non-Kanto species until FRLG has the National Dex', () => {
+    const pokemon = [createTestPk3({ species: 152, metLocation: KANTO_LOCATION }), createTestPk3({ species: 25, metLocation: KANTO_LOCATION })];
+    const buffer = createTestSave({ game: 'FRLG' });
+
+    const locked = checkInjectionCompatibility(buffer, pokemon);
+    expect(locked.nationalDexUnlocked).toBe(false);
+    expect(locked.pokemon.map(entry => entry.findings.map(finding => finding.issue))).toEqual([['national-dex']]);
+    expect(locked.hasErrors).toBe(false);
+
+    const unlocked = commitGen3Save(setNationalDexUnlocked(loadGen3Save(buffer), true));
+    expect(checkInjectionCompatibility(unlocked, pokemon).hasWarnings).toBe(false);
+  });
+
+  it('should warn about species outside the Hoenn Pokédex until RS/E has the National Dex', () => {
+    const pokemon = [createTestPk3({ species: 1 }), createTestPk3({ species: 74 }), createTestPk3({ species: 280 })];
+
+    for (const game of ['RS', 'E'] as const) {
+      const buffer = createTestSave({ game });
+      expect(formatCompatibilityFindings(checkInjectionCompatibility(buffer, pokemon), 'warning'))
+        .toEqual(['ABC (#1): Bulbasaur is not in the Hoenn Pokédex and will not be registered until the National Pokédex is obtained']);
+
+      const unlocked = commitGen3Save(setNationalDexUnlocked(loadGen3Save(buffer), true));
+      expect(checkInjectionCompatibility(unlocked, pokemon).hasWarnings).toBe(false);
+    }
+  });
+
+  it('should warn when Deoxys changes form in the target game', () => {
+    const emeraldDeoxys = createTestPk3({ species: 410, origins: origins(3) });
+
+    expect(checkInjectionCompatibility(createTestSave({ game: 'E' }), [emeraldDeoxys]).pokemon).toEqual([]);
+    expect(formatCompatibilityFindings(checkInjectionCompatibility(createTestSave({ game: 'RS' }), [emeraldDeoxys]), 'warning'))
+      .toEqual(['ABC (#386): Deoxys (Speed Forme where it was caught) will appear in its Normal Forme in Ruby/Sapphire']);
+
+    const fireRedDeoxys = createTestPk3({ species: 410, origins: origins(4), metLocation: KANTO_LOCATION });
+    const issues = checkInjectionCompatibility(createTestSave({ game: 'FRLG' }), [fireRedDeoxys]).pokemon[0]!.findings.map(f => f.issue);
+    expect(issues).toContain('deoxys-form');
+  });
+
+  it('should warn about met locations the target game cannot name', () => {
+    const report = checkInjectionCompatibility(createTestSave({ game: 'FRLG' }), [
+      createTestPk3({ species: 25, metLocation: HOENN_LOCATION }),
+      createTestPk3({ species: 25, metLocation: 0xFF }),
+    ]);
+
+    expect(formatCompatibilityFindings(report, 'warning'))
+      .toEqual(['ABC (#25): Met location 0x10 has no name in FireRed/LeafGreen and will show as "a faraway place"']);
+    expect(checkInjectionCompatibility(createTestSave({ game: 'RS' }), [createTestPk3({ species: 25, metLocation: KANTO_LOCATION })]).hasWarnings)
+      .toBe(true);
+  });
+});
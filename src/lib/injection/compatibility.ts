@@ -0,0 +1,159 @@
+/**
+ * Gen 3 target-game compatibility check
+ * Inspects the target save's game and progress and reports, per Pokémon,
+ * anything that will not work or will look different after injection
+ */
+
+import { decryptAndUnshufflePk3, type Pk3Data } from '../gen3/pk3/pk3.js';
+import { parseGrowth, parseMisc } from '../gen3/pk3/substruct.js';
+import { loadGen3Save } from '../gen3/save/gen3Save.js';
+import { isNationalDexUnlocked } from '../gen3/save/pokedex.js';
+import { isItemInGame } from '../gen3/save/items.js';
+import { gen3InternalToNational, decodeGen3String, getSpeciesName } from '../species/speciesTranscode.js';
+import { Gen3GameOrigin } from '../constants/gen3.js';
+import { GEN3_GAME_GROUP_NAMES, type Gen3GameGroup } from '../gen3/save/constants.js';
+
+const NATIONAL_DEX_MEW = 151;
+const NATIONAL_DEX_TREECKO = 252;
+const NATIONAL_DEX_DEOXYS = 386;
+
+// Earlier species in the Hoenn Pokédex, alongside every species from Treecko on
+const HOENN_DEX_EARLIER_SPECIES = new Set([
+  25, 26, 27, 28, 37, 38, 39, 40, 41, 42, 43, 44, 45, 54, 55, 63, 64, 65, 66, 67,
+  68, 72, 73, 74, 75, 76, 81, 82, 84, 85, 88, 89, 100, 101, 109, 110, 111, 112, 116, 117,
+  118, 119, 120, 121, 127, 129, 130, 169, 170, 171, 172, 174, 177, 178, 182, 183, 184, 202, 203, 214,
+  218, 219, 222, 227, 230, 231, 232,
+]);
+
+// Map sections each game has names for; other met locations show as "a faraway place"
+const MET_LOCATION_RANGES: Record<Gen3GameGroup, [number, number]> = {
+  RS: [0x00, 0x57], // Hoenn
+  E: [0x00, 0xD4], // Hoenn and Kanto
+  FRLG: [0x58, 0xC4], // Kanto and the Sevii Islands
+};
+const MET_LOCATION_IN_GAME_TRADE = 0xFE;
+const MET_LOCATION_FATEFUL_ENCOUNTER = 0xFF;
+
+// Deoxys takes a different form in each game
+const DEOXYS_FORMS: Record<number, string> = {
+  [Gen3GameOrigin.SAPPHIRE]: 'Normal',
+  [Gen3GameOrigin.RUBY]: 'Normal',
+  [Gen3GameOrigin.EMERALD]: 'Speed',
+  [Gen3GameOrigin.FIRERED]: 'Attack',
+  [Gen3GameOrigin.LEAFGREEN]: 'Defense',
+};
+
+export type CompatibilityIssue = 'held-item' | 'national-dex' | 'deoxys-form' | 'met-location';
+
+export interface CompatibilityFinding {
+  issue: CompatibilityIssue;
+  severity: 'error' | 'warning'; // Errors block the injection; warnings need the user's go-ahead
+  message: string;
+}
+
+export interface PokemonCompatibility {
+  index: number; // Position in the list that was checked
+  nickname: string;
+  nationalDex: number;
+  findings: CompatibilityFinding[];
+}
+
+export interface CompatibilityReport {
+  game: Gen3GameGroup;
+  nationalDexUnlocked: boolean;
+  pokemon: PokemonCompatibility[]; // Only Pokémon with findings
+  hasErrors: boolean;
+  hasWarnings: boolean;
+}
+
+/**
+ * Check a list of Pokémon against the save they are about to be injected into
+ */
+export function checkInjectionCompatibility(saveBuffer: ArrayBuffer, pokemon: Pk3Data[]): CompatibilityReport {
+  const save = loadGen3Save(saveBuffer);
+  const { game } = save;
+  const nationalDexUnlocked = isNationalDexUnlocked(save);
+  const gameName = GEN3_GAME_GROUP_NAMES[game];
+
+  const checked = pokemon.map((pk3Data, index): PokemonCompatibility => {
+    const substructures = decryptAndUnshufflePk3(pk3Data);
+    const growth = parseGrowth(substructures.growth);
+    const misc = parseMisc(substructures.misc);
+    const nationalDex = gen3InternalToNational(growth.species);
+    const findings: CompatibilityFinding[] = [];
+
+    if (growth.item !== 0 && !isItemInGame(growth.item, game)) {
+      findings.push({
+        issue: 'held-item',
+        severity: 'error',
+        message: `Held item #${growth.item} does not exist in ${gameName}`,
+      });
+    }
+
+    if (!nationalDexUnlocked && !isInRegionalDex(nationalDex, game)) {
+      findings.push({
+        issue: 'national-dex',
+        severity: 'warning',
+        message: `${getSpeciesName(nationalDex)} is not in the ${game === 'FRLG' ? 'Kanto' : 'Hoenn'} Pokédex `
+          + 'and will not be registered until the National Pokédex is obtained',
+      });
+    }
+
+    if (nationalDex === NATIONAL_DEX_DEOXYS) {
+      const originForm = DEOXYS_FORMS[(misc.origins >>> 7) & 0xF];
+      const targetForms = game === 'FRLG' ? ['Attack', 'Defense'] : [game === 'E' ? 'Speed' : 'Normal'];
+
+      if (targetForms.some(form => form !== originForm)) {
+        findings.push({
+          issue: 'deoxys-form',
+          severity: 'warning',
+          message: `Deoxys${originForm ? ` (${originForm} Forme where it was caught)` : ''} will appear in its `
+            + (game === 'FRLG' ? 'Attack Forme in FireRed and Defense Forme in LeafGreen' : `${targetForms[0]} Forme in ${gameName}`),
+        });
+      }
+    }
+
+    const [firstLocation, lastLocation] = MET_LOCATION_RANGES[game];
+    const hasLocationName = (misc.metLocation >= firstLocation && misc.metLocation <= lastLocation)
+      || misc.metLocation === MET_LOCATION_IN_GAME_TRADE
+      || misc.metLocation === MET_LOCATION_FATEFUL_ENCOUNTER;
+    if (!hasLocationName) {
+      findings.push({
+        issue: 'met-location',
+        severity: 'warning',
+        message: `Met location 0x${misc.metLocation.toString(16).toUpperCase().padStart(2, '0')} has no name in ${gameName} and will show as "a faraway place"`,
+      });
+    }
+
+    return { index, nickname: decodeGen3String(pk3Data.nickname), nationalDex, findings };
+  });
+
+  const withFindings = checked.filter(entry => entry.findings.length > 0);
+  const severities = withFindings.flatMap(entry => entry.findings.map(finding => finding.severity));
+
+  return {
+    game,
+    nationalDexUnlocked,
+    pokemon: withFindings,
+    hasErrors: severities.includes('error'),
+    hasWarnings: severities.includes('warning'),
+  };
+}
+
+/**
+ * Whether a species is listed in the target game's own Pokédex
+ */
+function isInRegionalDex(nationalDex: number, game: Gen3GameGroup): boolean {
+  return game === 'FRLG'
+    ? nationalDex <= NATIONAL_DEX_MEW
+    : nationalDex >= NATIONAL_DEX_TREECKO || HOENN_DEX_EARLIER_SPECIES.has(nationalDex);
+}
+
+/**
+ * One line per finding, prefixed with the Pokémon it belongs to
+ */
+export function formatCompatibilityFindings(report: CompatibilityReport, severity: CompatibilityFinding['severity']): string[] {
+  return report.pokemon.flatMap(entry => entry.findings
+    .filter(finding => finding.severity === severity)
+    .map(finding => `${entry.nickname} (#${entry.nationalDex}): ${finding.message}`));
+}
@@ -1,18 +1,21 @@
 import { describe, it, expect } from 'vitest';
-import { calculatePokemonLocation } from './gen3';
+import { calculatePokemonLocation, injectPokemonToGen3Save, injectMultiplePokemon, validateInjectionTarget, findEmptySlots } from './gen3';
+import { loadGen3Save, getPartyCount, extractPartyFromSave } from '../gen3/save/gen3Save';
+import { PARTY_COUNT_OFFSETS } from '../gen3/save/constants';
+import { calcGen3HP, calcGen3Stat, applyNatureModifier } from '../parsers/statCalculations';
+import { calculateLevelFromExp } from '../parsers/experienceCalculations';
+import { getPokedex } from '../gen3/save/pokedex';
+import { createTestSave, createTestPk3 } from '../../test/gen3SaveFixture';
 
 /**
  * Test the Gen 3 PC section Pokemon location calculation
  * This validates the fix for the "Could not find PC section 5" error
  */
 
-// Constants matching those in gen3.ts
-const SECTION_ID_PC_BUFFER_A = 5;
-const GEN3_SECTION_DATA_SIZE = 0xFF4; // 4084 bytes
+// PC storage layout: 0xF80 bytes per section, 4-byte current-box header before the slots
+const SECTION_CHUNK_SIZE = 0xF80;
+const PC_BOXES_OFFSET = 4;
 const PK3_SIZE = 80;
-const PC_METADATA_SIZE = 144;
-const SECTION_5_POKEMON_CAPACITY = Math.floor((GEN3_SECTION_DATA_SIZE - PC_METADATA_SIZE) / PK3_SIZE); // 49
-const OTHER_SECTION_POKEMON_CAPACITY = Math.floor(GEN3_SECTION_DATA_SIZE / PK3_SIZE); // 51
 const NUM_BOXES = 14;
 const POKEMON_PER_BOX = 30;
 
@@ -20,33 +23,27 @@ describe('Gen 3 PC Section Pokemon Location Calculation', () => {
   it('should calculate correct section for Box 0, Slot 0', () => {
     const result = calculatePokemonLocation(0);
     expect(result.sectionId).toBe(5); // Section 5
-    expect(result.offsetInSection).toBe(144); // After metadata
+    expect(result.offsetInSection).toBe(PC_BOXES_OFFSET); // After the current-box header
   });
 
-  it('should calculate correct section for first Pokemon in Section 5', () => {
-    const result = calculatePokemonLocation(0);
-    expect(result.sectionId).toBe(5);
-    expect(result.offsetInSection).toBe(144); // PC_METADATA_SIZE
-  });
-
-  it('should calculate correct section for last Pokemon in Section 5', () => {
-    // Pokemon 48 is the last one in section 5 (0-indexed)
-    const result = calculatePokemonLocation(48);
+  it('should calculate correct section for the Pokemon straddling Sections 5 and 6', () => {
+    // Pokemon 49 starts in section 5 and continues into section 6
+    const result = calculatePokemonLocation(49);
     expect(result.sectionId).toBe(5);
-    expect(result.offsetInSection).toBe(144 + (48 * 80));
+    expect(result.offsetInSection).toBe(4 + 49 * 80);
+    expect(result.offsetInSection + PK3_SIZE).toBeGreaterThan(SECTION_CHUNK_SIZE);
   });
 
-  it('should calculate correct section for first Pokemon in Section 6', () => {
-    // Pokemon 49 is the first in section 6
-    const result = calculatePokemonLocation(49);
+  it('should calculate correct section for first Pokemon starting in Section 6', () => {
+    const result = calculatePokemonLocation(50);
     expect(result.sectionId).toBe(6);
-    expect(result.offsetInSection).toBe(0); // Start of section 6
+    expect(result.offsetInSection).toBe(4 + 50 * 80 - SECTION_CHUNK_SIZE); // 36
   });
 
   it('should calculate correct section for Box 1, Slot 0', () => {
     const pokemonIndex = 1 * POKEMON_PER_BOX + 0; // Box 1, Slot 0 = Pokemon 30
     const result = calculatePokemonLocation(pokemonIndex);
-    expect(result.sectionId).toBe(5); // Still in section 5 (holds 49 total)
+    expect(result.sectionId).toBe(5);
   });
 
   it('should calculate correct section for Box 2, Slot 0', () => {
@@ -58,57 +55,175 @@ describe('Gen 3 PC Section Pokemon Location Calculation', () => {
   it('should calculate correct section for Box 5, Slot 0', () => {
     const pokemonIndex = 5 * POKEMON_PER_BOX + 0; // Box 5, Slot 0 = Pokemon 150
     const result = calculatePokemonLocation(pokemonIndex);
-    // Pokemon 49-99 in section 6, 100-150 in section 7
-    expect(result.sectionId).toBe(7);
+    expect(result.sectionId).toBe(8);
+    expect(result.offsetInSection).toBe(4 + 150 * 80 - 3 * SECTION_CHUNK_SIZE); // 100
   });
 
   it('should calculate correct section for last Pokemon (Box 13, Slot 29)', () => {
     const pokemonIndex = 13 * POKEMON_PER_BOX + 29; // Pokemon 419 (0-indexed)
     const result = calculatePokemonLocation(pokemonIndex);
     expect(result.sectionId).toBe(13); // Section 13
+    expect(result.offsetInSection).toBe(1780);
   });
 
   it('should throw error for invalid Pokemon index', () => {
     expect(() => calculatePokemonLocation(-1)).toThrow('Invalid pokemon index');
-    expect(() => calculatePokemonLocation(420)).toThrow('Invalid pokemon index');
+    expect(() => calculatePokemonLocation(NUM_BOXES * POKEMON_PER_BOX)).toThrow('Invalid pokemon index');
   });
 
   it('should verify all Pokemon fit within sections 5-13', () => {
     // Verify that all 420 Pokemon (14 boxes * 30) fit correctly
     const totalPokemon = NUM_BOXES * POKEMON_PER_BOX; // 420
-    
+
     for (let i = 0; i < totalPokemon; i++) {
       const result = calculatePokemonLocation(i);
-      
+
       // Section ID should be between 5 and 13
       expect(result.sectionId).toBeGreaterThanOrEqual(5);
       expect(result.sectionId).toBeLessThanOrEqual(13);
-      
-      // Offset should be within section data size
+
+      // Offset should be within the section's chunk
       expect(result.offsetInSection).toBeGreaterThanOrEqual(0);
-      expect(result.offsetInSection).toBeLessThan(GEN3_SECTION_DATA_SIZE);
+      expect(result.offsetInSection).toBeLessThan(SECTION_CHUNK_SIZE);
     }
   });
 
   it('should have correct capacity distribution', () => {
-    // Section 5: 49 Pokemon
-    let count5 = 0;
-    // Sections 6-12: 51 Pokemon each
-    const countOthers: { [key: number]: number } = {};
-    
+    // Number of Pokemon starting in each section
+    const counts: { [key: number]: number } = {};
+
     for (let i = 0; i < NUM_BOXES * POKEMON_PER_BOX; i++) {
       const result = calculatePokemonLocation(i);
-      if (result.sectionId === 5) {
-        count5++;
-      } else {
-        countOthers[result.sectionId] = (countOthers[result.sectionId] || 0) + 1;
-      }
+      counts[result.sectionId] = (counts[result.sectionId] || 0) + 1;
     }
-    
-    expect(count5).toBe(49); // Section 5 has 49 Pokemon
-    expect(countOthers[6]).toBe(51); // Section 6 has 51
-    expect(countOthers[7]).toBe(51); // Section 7 has 51
-    expect(countOthers[12]).toBe(51); // Section 12 has 51
-    expect(countOthers[13]).toBe(14); // Section 13 has remaining 14
+
+    expect(counts[5]).toBe(50);
+    expect(counts[6]).toBe(50);
+    expect(counts[7]).toBe(49);
+    expect(counts[12]).toBe(49);
+    expect(counts[13]).toBe(23); // Section 13 only holds 0x7D0 bytes
+  });
+});
+
+describe('Gen 3 party injection', () => {
+  function createSaveWithPartyCount(game: 'RS' | 'E' | 'FRLG', count: number): ArrayBuffer {
+    return createTestSave({
+      game,
+      setup: (sections) => {
+        new DataView(sections[1]!.buffer).setUint32(PARTY_COUNT_OFFSETS[game], count, true);
+      },
+    });
+  }
+
+  it('should append to the party and update the party count', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const pk3 = createTestPk3({ species: 25, personality: 0xABCD0000 });
+      const result = injectPokemonToGen3Save(createSaveWithPartyCount(game, 0), pk3, { location: 'party', slotIndex: 0 });
+
+      const save = loadGen3Save(result);
+      const party = extractPartyFromSave(save);
+      expect(getPartyCount(save)).toBe(1);
+      expect(party).toHaveLength(1);
+      expect(party[0]!.pk3.personality).toBe(0xABCD0000);
+      expect(party[0]!.isValid).toBe(true);
+    }
+  });
+
+  it('should compute battle stats from base stats, IVs, EVs, nature and level', () => {
+    // Treecko: Gen 3 internal index 277, National Dex 252 (base 40/45/35/70/65/55)
+    const personality = 25 * 1000 + 3; // Adamant: +Atk -SpA
+    const experience = 8000;
+    const evs = [40, 80, 12, 100, 0, 252];
+    const pk3 = createTestPk3({ species: 277, personality, experience, evs, ivs: 0x3FFFFFFF });
+
+    const result = injectPokemonToGen3Save(createSaveWithPartyCount('E', 0), pk3, { location: 'party', slotIndex: 0 });
+    const stats = extractPartyFromSave(loadGen3Save(result))[0]!.stats;
+
+    const level = calculateLevelFromExp(277, experience);
+    expect(stats.level).toBe(level);
+    expect(stats.maxHp).toBe(calcGen3HP(40, 31, 40, level));
+    expect(stats.currentHp).toBe(stats.maxHp);
+    expect(stats.attack).toBe(applyNatureModifier(calcGen3Stat(45, 31, 80, level), 3, 'attack'));
+    expect(stats.defense).toBe(calcGen3Stat(35, 31, 12, level));
+    expect(stats.speed).toBe(calcGen3Stat(70, 31, 100, level));
+    expect(stats.spAtk).toBe(applyNatureModifier(calcGen3Stat(65, 31, 0, level), 3, 'specialAttack'));
+    expect(stats.spDef).toBe(calcGen3Stat(55, 31, 252, level));
+    expect(stats.status).toBe(0);
+    expect(stats.mailId).toBe(0xFF);
+  });
+
+  it('should give Shedinja exactly 1 HP', () => {
+    // Shedinja: Gen 3 internal index 303
+    const pk3 = createTestPk3({ species: 303, experience: 50000 });
+    const result = injectPokemonToGen3Save(createSaveWithPartyCount('E', 0), pk3, { location: 'party', slotIndex: 0 });
+
+    expect(extractPartyFromSave(loadGen3Save(result))[0]!.stats.maxHp).toBe(1);
+  });
+
+  it('should overwrite an occupied slot without changing the party count', () => {
+    const save = createSaveWithPartyCount('FRLG', 0);
+    const first = injectPokemonToGen3Save(save, createTestPk3({ species: 1, personality: 1 }), { location: 'party', slotIndex: 0 });
+    const second = injectPokemonToGen3Save(first, createTestPk3({ species: 4, personality: 2 }), { location: 'party', slotIndex: 0 });
+
+    const loaded = loadGen3Save(second);
+    expect(getPartyCount(loaded)).toBe(1);
+    expect(extractPartyFromSave(loaded)[0]!.pk3.personality).toBe(2);
+  });
+
+  it('should reject slots that would leave a gap in the party', () => {
+    const save = createSaveWithPartyCount('E', 2);
+    const pk3 = createTestPk3({ species: 1 });
+
+    expect(() => injectPokemonToGen3Save(save, pk3, { location: 'party', slotIndex: 4 })).toThrow('slots must be filled in order');
+    expect(() => injectPokemonToGen3Save(save, pk3, { location: 'party', slotIndex: 6 })).toThrow('Invalid party slot index');
+    expect(validateInjectionTarget(save, { location: 'party', slotIndex: 2 }).valid).toBe(true);
+    expect(validateInjectionTarget(save, { location: 'party', slotIndex: 3 }).valid).toBe(false);
+  });
+});
+
+describe('Gen 3 injection commits', () => {
+  it('should keep the previous save intact in the other slot', () => {
+    const original = createTestSave({ saveIndex: 20 });
+    const pk3 = createTestPk3({ species: 1 });
+    const result = injectPokemonToGen3Save(original, pk3, { boxIndex: 0, slotIndex: 0 });
+
+    expect(new Uint8Array(result, 0, 0xE000)).toEqual(new Uint8Array(original, 0, 0xE000));
+    expect(loadGen3Save(result).activeSlot).toBe('B');
+    expect(loadGen3Save(result).slot.saveIndex).toBe(21);
+  });
+
+  it('should advance the save index once for multiple injections', () => {
+    const original = createTestSave({ saveIndex: 20 });
+    const result = injectMultiplePokemon(original, [
+      { pk3Data: createTestPk3({ species: 1, personality: 1 }), target: { boxIndex: 0, slotIndex: 0 } },
+      { pk3Data: createTestPk3({ species: 4, personality: 2 }), target: { boxIndex: 0, slotIndex: 1 } },
+      { pk3Data: createTestPk3({ species: 7, personality: 3 }), target: { location: 'party', slotIndex: 0 } },
+    ]);
+
+    const save = loadGen3Save(result);
+    expect(save.slot.saveIndex).toBe(21);
+    expect(extractPartyFromSave(save).map(p => p.pk3.personality)).toEqual([3]);
+    expect(findEmptySlots(result)).toHaveLength(14 * 30 - 2);
+    expect(new Uint8Array(result, 0, 0xE000)).toEqual(new Uint8Array(original, 0, 0xE000));
+  });
+});
+
+describe('Gen 3 injection Pokédex registration', () => {
+  it('should leave the Pokédex untouched by default', () => {
+    const result = injectPokemonToGen3Save(createTestSave(), createTestPk3({ species: 25 }), { boxIndex: 0, slotIndex: 0 });
+
+    expect(getPokedex(loadGen3Save(result)).owned).toEqual([]);
+  });
+
+  it('should mark injected species as seen and owned when requested', () => {
+    const result = injectMultiplePokemon(createTestSave({ game: 'FRLG' }), [
+      { pk3Data: createTestPk3({ species: 25, personality: 1 }), target: { boxIndex: 0, slotIndex: 0 } },
+      { pk3Data: createTestPk3({ species: 277, personality: 2 }), target: { location: 'party', slotIndex: 0 } },
+    ], { registerPokedex: true });
+
+    const pokedex = getPokedex(loadGen3Save(result));
+    expect(pokedex.seen).toEqual([25, 252]);
+    expect(pokedex.owned).toEqual([25, 252]);
+    expect(pokedex.seenCopiesInSync).toBe(true);
   });
 });
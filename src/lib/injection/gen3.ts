@@ -3,37 +3,59 @@
  * Safely injects Pokémon into Gen 3 save files with integrity preservation
  */
 
-import { readU16, readU32, writeU8, writeU16, writeU32 } from '../utils/bin.js';
+import { readU32, writeU32 } from '../utils/bin.js';
 import { encodePk3, type Pk3Data } from '../gen3/pk3/pk3.js';
+import { encodePartyPk3, calculatePartyStats } from '../gen3/pk3/party.js';
+import { loadGen3Save, getPartyCount, type Gen3Save } from '../gen3/save/gen3Save.js';
+import { commitGen3Save, replaceSectionData } from '../gen3/save/commit.js';
+import { registerPokedexEntry } from '../gen3/save/pokedex.js';
+import { setDaycarePokemon, getDaycareCount } from '../gen3/save/daycare.js';
+import {
+  resolvePCAddress,
+  getBoxSlotOffset,
+  readBlockBytes,
+  writeBlockBytes,
+  type SectionAddress,
+} from '../gen3/save/layout.js';
 import {
   GEN3_SAVE_SIZE,
-  GEN3_SAVE_SLOT_SIZE,
-  GEN3_NUM_SECTIONS,
-  GEN3_SECTION_SIZE,
-  GEN3_SECTION_DATA_SIZE,
+  SECTION_ID_TEAM_ITEMS,
   SECTION_ID_PC_BUFFER_A,
+  PC_BOXES_OFFSET,
   PK3_SIZE,
+  PK3_PARTY_SIZE,
+  PARTY_SIZE,
+  PARTY_COUNT_OFFSETS,
+  PARTY_DATA_OFFSETS,
+  DAYCARE_SLOT_COUNT,
 } from '../gen3/save/constants.js';
-import { calculateGen3SectionChecksum } from '../parsers/utils.js';
 
 // Gen 3 has 14 boxes with 30 Pokémon each
 const NUM_BOXES = 14;
 const POKEMON_PER_BOX = 30;
 
-// PC Buffer structure:
-// Section 5: 144 bytes metadata (4 bytes current box + 126 bytes box names + 14 bytes wallpapers)
-//            followed by 49 Pokemon (80 bytes each)
-// Sections 6-12: 51 Pokemon each (80 bytes each)
-// Section 13: Remaining 14 Pokemon
-const PC_METADATA_SIZE = 144;
-const SECTION_5_POKEMON_CAPACITY = Math.floor((GEN3_SECTION_DATA_SIZE - PC_METADATA_SIZE) / PK3_SIZE); // 49
-const OTHER_SECTION_POKEMON_CAPACITY = Math.floor(GEN3_SECTION_DATA_SIZE / PK3_SIZE); // 51
-
-export interface InjectionTarget {
+export interface BoxInjectionTarget {
+  location?: 'box'; // PC box (default)
   boxIndex: number; // 0-13 (14 boxes in Gen 3)
   slotIndex: number; // 0-29 (30 Pokémon per box)
 }
 
+export interface PartyInjectionTarget {
+  location: 'party';
+  slotIndex: number; // 0-5; must be an occupied slot or the next free one
+}
+
+export interface DaycareInjectionTarget {
+  location: 'daycare';
+  slotIndex: number; // 0-1; must be an occupied slot or the next free one
+}
+
+export type InjectionTarget = BoxInjectionTarget | PartyInjectionTarget | DaycareInjectionTarget;
+
+export interface InjectionOptions {
+  registerPokedex?: boolean; // Mark each injected species as seen and owned, as receiving it in-game would
+}
+
 export interface InjectionResult {
   success: boolean;
   error?: string;
@@ -41,46 +63,75 @@ export interface InjectionResult {
 }
 
 /**
- * Calculate which PC section and offset within that section for a given Pokemon index
- * Exported for testing purposes
+ * Calculate which PC section and offset within that section a given Pokemon index starts at
+ * Slots are packed contiguously after the current-box header, so a Pokémon may
+ * continue into the next section
  */
-export function calculatePokemonLocation(pokemonIndex: number): { sectionId: number; offsetInSection: number } {
+export function calculatePokemonLocation(pokemonIndex: number): SectionAddress {
   if (pokemonIndex < 0 || pokemonIndex >= NUM_BOXES * POKEMON_PER_BOX) {
     throw new Error(`Invalid pokemon index: ${pokemonIndex}`);
   }
 
-  // Section 5 has metadata at the start, then 49 Pokemon
-  if (pokemonIndex < SECTION_5_POKEMON_CAPACITY) {
-    return {
-      sectionId: SECTION_ID_PC_BUFFER_A,
-      offsetInSection: PC_METADATA_SIZE + (pokemonIndex * PK3_SIZE),
-    };
-  }
-
-  // Remaining Pokemon are in sections 6-13, each holding 51 Pokemon
-  const remainingIndex = pokemonIndex - SECTION_5_POKEMON_CAPACITY;
-  const sectionOffset = Math.floor(remainingIndex / OTHER_SECTION_POKEMON_CAPACITY);
-  const pokemonOffsetInSection = remainingIndex % OTHER_SECTION_POKEMON_CAPACITY;
-
-  return {
-    sectionId: SECTION_ID_PC_BUFFER_A + 1 + sectionOffset,
-    offsetInSection: pokemonOffsetInSection * PK3_SIZE,
-  };
+  return resolvePCAddress(PC_BOXES_OFFSET + pokemonIndex * PK3_SIZE);
 }
 
 /**
  * Inject a Pokémon into a specific box/slot in a Gen 3 save file
+ * The result is committed to the inactive slot; the original save is kept as the backup
  */
 export function injectPokemonToGen3Save(
   saveBuffer: ArrayBuffer,
   pk3Data: Pk3Data,
-  target: InjectionTarget
+  target: InjectionTarget,
+  options: InjectionOptions = {}
+): ArrayBuffer {
+  return injectMultiplePokemon(saveBuffer, [{ pk3Data, target }], options);
+}
+
+/**
+ * Inject multiple Pokémon into a Gen 3 save file
+ * All injections are applied before a single commit, so the save counter
+ * advances once and the original save remains the backup
+ */
+export function injectMultiplePokemon(
+  saveBuffer: ArrayBuffer,
+  injections: Array<{ pk3Data: Pk3Data; target: InjectionTarget }>,
+  options: InjectionOptions = {}
 ): ArrayBuffer {
   // Validate save buffer
   if (saveBuffer.byteLength !== GEN3_SAVE_SIZE) {
     throw new Error(`Invalid save size: expected ${GEN3_SAVE_SIZE}, got ${saveBuffer.byteLength}`);
   }
 
+  let save = loadGen3Save(saveBuffer);
+
+  for (const { pk3Data, target } of injections) {
+    save = applyPokemonInjection(save, pk3Data, target, options);
+  }
+
+  return commitGen3Save(save);
+}
+
+/**
+ * Apply a single injection to a loaded save without committing it
+ */
+export function applyPokemonInjection(
+  save: Gen3Save,
+  pk3Data: Pk3Data,
+  target: InjectionTarget,
+  options: InjectionOptions = {}
+): Gen3Save {
+  const result = target.location === 'party' ? applyPartyInjection(save, pk3Data, target.slotIndex)
+    : target.location === 'daycare' ? setDaycarePokemon(save, target.slotIndex, pk3Data)
+    : applyBoxInjection(save, pk3Data, target);
+
+  return options.registerPokedex ? registerPokedexEntry(result, pk3Data) : result;
+}
+
+/**
+ * Write a Pokémon into a PC box slot
+ */
+function applyBoxInjection(save: Gen3Save, pk3Data: Pk3Data, target: BoxInjectionTarget): Gen3Save {
   // Validate target
   if (target.boxIndex < 0 || target.boxIndex >= NUM_BOXES) {
     throw new Error(`Invalid box index: ${target.boxIndex} (must be 0-${NUM_BOXES - 1})`);
@@ -89,94 +140,60 @@ export function injectPokemonToGen3Save(
     throw new Error(`Invalid slot index: ${target.slotIndex} (must be 0-${POKEMON_PER_BOX - 1})`);
   }
 
-  // Clone save buffer to avoid mutating input
-  const newSave = saveBuffer.slice(0);
-  const view = new DataView(newSave);
-
-  // Find active save slot
-  // Use >= to give slot 0 precedence when counters are equal (edge case but per pokeemerald spec)
-  // Reference: https://github.com/pret/pokeemerald and Bulbapedia Gen 3 save structure
-  const slot0Index = readU32(view, 0x0FFC);
-  const slot1Index = readU32(view, GEN3_SAVE_SLOT_SIZE + 0x0FFC);
-  const activeSaveOffset = slot0Index >= slot1Index ? 0 : GEN3_SAVE_SLOT_SIZE;
-
-  // Calculate which section and offset within section
-  const pokemonIndex = target.boxIndex * POKEMON_PER_BOX + target.slotIndex;
-  const location = calculatePokemonLocation(pokemonIndex);
-  const sectionId = location.sectionId;
-  const offsetInSection = location.offsetInSection;
-
-  // Find the section
-  const sectionOffset = findSectionOffset(view, activeSaveOffset, sectionId);
-  if (sectionOffset === -1) {
-    // Debug: list all sections found in save
-    const foundSections: number[] = [];
-    for (let i = 0; i < GEN3_NUM_SECTIONS; i++) {
-      const offset = activeSaveOffset + (i * GEN3_SECTION_SIZE);
-      const footerOffset = offset + GEN3_SECTION_DATA_SIZE;
-      const id = readU16(view, footerOffset);
-      foundSections.push(id);
-    }
-    throw new Error(
-      `Could not find PC section ${sectionId} in save file. ` +
-      `Looking for Box ${target.boxIndex + 1}, Slot ${target.slotIndex + 1} (pokemonIndex=${pokemonIndex}, sectionId=${sectionId}). ` +
-      `Found sections: [${foundSections.join(', ')}]`
-    );
+  // Write Pokémon data, which may span two PC sections
+  const offset = getBoxSlotOffset(target.boxIndex, target.slotIndex);
+  return writeBlockBytes(save, SECTION_ID_PC_BUFFER_A, offset, new Uint8Array(encodePk3(pk3Data)));
+}
+
+/**
+ * Inject a Pokémon into a party slot, building its battle stats and
+ * growing the party count when the next free slot is used
+ */
+function applyPartyInjection(save: Gen3Save, pk3Data: Pk3Data, slotIndex: number): Gen3Save {
+  if (slotIndex < 0 || slotIndex >= PARTY_SIZE) {
+    throw new Error(`Invalid party slot index: ${slotIndex} (must be 0-${PARTY_SIZE - 1})`);
   }
 
-  // Encode pk3 data
-  const pk3Buffer = encodePk3(pk3Data);
-  const pk3Bytes = new Uint8Array(pk3Buffer);
+  const teamSection = save.sections.find(s => s.id === SECTION_ID_TEAM_ITEMS);
+  if (!teamSection) {
+    throw new Error('Team/items section not found');
+  }
 
-  // Write Pokémon data into section
-  const writeOffset = sectionOffset + offsetInSection;
-  for (let i = 0; i < PK3_SIZE; i++) {
-    writeU8(view, writeOffset + i, pk3Bytes[i] ?? 0);
+  const partyCount = getPartyCount(save);
+  if (slotIndex > partyCount) {
+    throw new Error(
+      `Cannot inject into party slot ${slotIndex + 1}: the party has ${partyCount} Pokémon and slots must be filled in order`
+    );
   }
 
-  // Recalculate section checksum
-  const checksumValue = calculateGen3SectionChecksum(view, sectionOffset, GEN3_SECTION_DATA_SIZE);
-  writeU16(view, sectionOffset + GEN3_SECTION_DATA_SIZE, checksumValue);
+  // Write the 100-byte party structure with freshly computed battle stats
+  const data = teamSection.data.slice(0);
+  const partyBytes = new Uint8Array(encodePartyPk3(pk3Data, calculatePartyStats(pk3Data)));
+  new Uint8Array(data).set(partyBytes, PARTY_DATA_OFFSETS[save.game] + slotIndex * PK3_PARTY_SIZE);
 
-  // Increment save counter
-  const saveCounterOffset = activeSaveOffset + (GEN3_NUM_SECTIONS * GEN3_SECTION_SIZE) - 4;
-  const currentCounter = readU32(view, saveCounterOffset);
-  writeU32(view, saveCounterOffset, (currentCounter + 1) >>> 0);
+  if (slotIndex === partyCount) {
+    writeU32(new DataView(data), PARTY_COUNT_OFFSETS[save.game], partyCount + 1);
+  }
 
-  return newSave;
+  return replaceSectionData(save, SECTION_ID_TEAM_ITEMS, data);
 }
 
 /**
- * Inject multiple Pokémon into a Gen 3 save file
+ * Describe an injection target for messages ("Box 2 slot 5")
  */
-export function injectMultiplePokemon(
-  saveBuffer: ArrayBuffer,
-  injections: Array<{ pk3Data: Pk3Data; target: InjectionTarget }>
-): ArrayBuffer {
-  let currentSave = saveBuffer;
-
-  for (const { pk3Data, target } of injections) {
-    currentSave = injectPokemonToGen3Save(currentSave, pk3Data, target);
-  }
-
-  return currentSave;
+export function describeInjectionTarget(target: InjectionTarget): string {
+  if (target.location === 'party') return `Party slot ${target.slotIndex + 1}`;
+  if (target.location === 'daycare') return `Daycare slot ${target.slotIndex + 1}`;
+  return `Box ${target.boxIndex + 1} slot ${target.slotIndex + 1}`;
 }
 
 /**
- * Find a section by ID in the active save slot
+ * Key identifying the slot an injection target writes to
  */
-function findSectionOffset(view: DataView, saveSlotOffset: number, sectionId: number): number {
-  for (let i = 0; i < GEN3_NUM_SECTIONS; i++) {
-    const sectionOffset = saveSlotOffset + (i * GEN3_SECTION_SIZE);
-    const footerOffset = sectionOffset + GEN3_SECTION_DATA_SIZE;
-    const id = readU16(view, footerOffset);
-
-    if (id === sectionId) {
-      return sectionOffset;
-    }
-  }
-
-  return -1;
+export function getInjectionTargetKey(target: InjectionTarget): string {
+  return target.location === 'party' || target.location === 'daycare'
+    ? `${target.location}-${target.slotIndex}`
+    : `box-${target.boxIndex}-${target.slotIndex}`;
 }
 
 /**
@@ -190,6 +207,14 @@ export function validateInjectionTarget(
     return { valid: false, reason: 'Invalid save file size' };
   }
 
+  if (target.location === 'party') {
+    return validatePartyTarget(saveBuffer, target.slotIndex);
+  }
+
+  if (target.location === 'daycare') {
+    return validateDaycareTarget(saveBuffer, target.slotIndex);
+  }
+
   if (target.boxIndex < 0 || target.boxIndex >= NUM_BOXES) {
     return { valid: false, reason: `Box index out of range (0-${NUM_BOXES - 1})` };
   }
@@ -201,37 +226,65 @@ export function validateInjectionTarget(
   return { valid: true };
 }
 
+/**
+ * Validate a party slot against the current party count
+ */
+function validatePartyTarget(saveBuffer: ArrayBuffer, slotIndex: number): { valid: boolean; reason?: string } {
+  if (slotIndex < 0 || slotIndex >= PARTY_SIZE) {
+    return { valid: false, reason: `Party slot out of range (0-${PARTY_SIZE - 1})` };
+  }
+
+  let partyCount: number;
+  try {
+    partyCount = getPartyCount(loadGen3Save(saveBuffer));
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : 'Could not read party from save file' };
+  }
+
+  if (slotIndex > partyCount) {
+    return { valid: false, reason: `Party has ${partyCount} Pokémon; the next free slot is ${partyCount + 1}` };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a Daycare slot against the Pokémon already in the Daycare
+ */
+function validateDaycareTarget(saveBuffer: ArrayBuffer, slotIndex: number): { valid: boolean; reason?: string } {
+  if (slotIndex < 0 || slotIndex >= DAYCARE_SLOT_COUNT) {
+    return { valid: false, reason: `Daycare slot out of range (0-${DAYCARE_SLOT_COUNT - 1})` };
+  }
+
+  let daycareCount: number;
+  try {
+    daycareCount = getDaycareCount(loadGen3Save(saveBuffer));
+  } catch (error) {
+    return { valid: false, reason: error instanceof Error ? error.message : 'Could not read Daycare from save file' };
+  }
+
+  if (slotIndex > daycareCount) {
+    return { valid: false, reason: `Daycare has ${daycareCount} Pokémon; the next free slot is ${daycareCount + 1}` };
+  }
+
+  return { valid: true };
+}
+
 /**
  * Get list of empty slots in save file
  */
-export function findEmptySlots(saveBuffer: ArrayBuffer): InjectionTarget[] {
-  const view = new DataView(saveBuffer);
-  const emptySlots: InjectionTarget[] = [];
-
-  // Find active save slot
-  // Use >= to give slot 0 precedence when counters are equal (edge case but per pokeemerald spec)
-  // Reference: https://github.com/pret/pokeemerald and Bulbapedia Gen 3 save structure
-  const slot0Index = readU32(view, 0x0FFC);
-  const slot1Index = readU32(view, GEN3_SAVE_SLOT_SIZE + 0x0FFC);
-  const activeSaveOffset = slot0Index >= slot1Index ? 0 : GEN3_SAVE_SLOT_SIZE;
-
-  // Check each PC section for empty slots
+export function findEmptySlots(saveBuffer: ArrayBuffer): BoxInjectionTarget[] {
+  const { sections } = loadGen3Save(saveBuffer);
+  const emptySlots: BoxInjectionTarget[] = [];
+
   for (let boxIndex = 0; boxIndex < NUM_BOXES; boxIndex++) {
     for (let slotIndex = 0; slotIndex < POKEMON_PER_BOX; slotIndex++) {
-      const pokemonIndex = boxIndex * POKEMON_PER_BOX + slotIndex;
-      const location = calculatePokemonLocation(pokemonIndex);
-      const sectionId = location.sectionId;
-      const offsetInSection = location.offsetInSection;
-
-      const sectionOffset = findSectionOffset(view, activeSaveOffset, sectionId);
-      if (sectionOffset !== -1) {
-        const readOffset = sectionOffset + offsetInSection;
-
-        // Check if slot is empty (all zeros or zero personality value)
-        const personality = readU32(view, readOffset);
-        if (personality === 0) {
-          emptySlots.push({ boxIndex, slotIndex });
-        }
+      const offset = getBoxSlotOffset(boxIndex, slotIndex);
+
+      // Check if slot is empty (zero personality value)
+      const personality = readBlockBytes(sections, SECTION_ID_PC_BUFFER_A, offset, 4);
+      if (readU32(new DataView(personality.buffer), 0) === 0) {
+        emptySlots.push({ boxIndex, slotIndex });
       }
     }
   }
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { planBoxPlacements } from './placement';
+import { injectMultiplePokemon } from './gen3';
+import { createTestSave, createTestPk3 } from '../../test/gen3SaveFixture';
+
+const targets = (placements: ReturnType<typeof planBoxPlacements>) => placements.map(p => p.target);
+
+/**
+ * A save with Box 1 slots 1-2 and every slot of Box 2 but the last occupied
+ */
+function createPartlyFilledSave(): ArrayBuffer {
+  const filler = [
+    { boxIndex: 0, slotIndex: 0 },
+    { boxIndex: 0, slotIndex: 1 },
+    ...Array.from({ length: 29 }, (_, slotIndex) => ({ boxIndex: 1, slotIndex })),
+  ];
+  return injectMultiplePokemon(
+    createTestSave(),
+    filler.map((target, i) => ({ pk3Data: createTestPk3({ species: 1, personality: i + 1 }), target }))
+  );
+}
+
+describe('Gen 3 box placement planner', () => {
+  const group = [createTestPk3({ species: 25 }), createTestPk3({ species: 4 }), createTestPk3({ species: 1 })];
+
+  it('should fill the first empty slots', () => {
+    expect(targets(planBoxPlacements(createPartlyFilledSave(), group, { strategy: 'first-empty' }))).toEqual([
+      { boxIndex: 0, slotIndex: 2 },
+      { boxIndex: 0, slotIndex: 3 },
+      { boxIndex: 0, slotIndex: 4 },
+    ]);
+  });
+
+  it('should skip reserved boxes', () => {
+    const placements = planBoxPlacements(createPartlyFilledSave(), group, { strategy: 'first-empty', reservedBoxes: [0] });
+    expect(targets(placements)).toEqual([
+      { boxIndex: 1, slotIndex: 29 },
+      { boxIndex: 2, slotIndex: 0 },
+      { boxIndex: 2, slotIndex: 1 },
+    ]);
+  });
+
+  it('should keep a group together in the first box with room', () => {
+    const pair = group.slice(0, 2);
+    expect(targets(planBoxPlacements(createPartlyFilledSave(), pair, { strategy: 'same-box', reservedBoxes: [0] }))).toEqual([
+      { boxIndex: 2, slotIndex: 0 },
+      { boxIndex: 2, slotIndex: 1 },
+    ]);
+
+    const tooMany = Array.from({ length: 31 }, () => createTestPk3({ species: 1 }));
+    expect(() => planBoxPlacements(createTestSave(), tooMany, { strategy: 'same-box' })).toThrow('No box has 31 empty slots');
+  });
+
+  it('should sort by National Dex into a box range', () => {
+    const placements = planBoxPlacements(createPartlyFilledSave(), group, { strategy: 'dex-order', boxRange: [1, 2] });
+    expect(placements.map(p => p.pk3Data)).toEqual([group[2], group[1], group[0]]);
+    expect(targets(placements)).toEqual([
+      { boxIndex: 1, slotIndex: 29 },
+      { boxIndex: 2, slotIndex: 0 },
+      { boxIndex: 2, slotIndex: 1 },
+    ]);
+
+    expect(() => planBoxPlacements(createPartlyFilledSave(), group, { strategy: 'dex-order', boxRange: [1, 1] }))
+      .toThrow('Not enough empty box slots: 1 available for 3 Pokémon');
+    expect(() => planBoxPlacements(createTestSave(), group, { strategy: 'dex-order', boxRange: [3, 1] }))
+      .toThrow('Invalid box range');
+  });
+
+  it('should walk forward from a starting slot across boxes', () => {
+    const placements = planBoxPlacements(createTestSave(), group, {
+      strategy: 'sequential',
+      start: { boxIndex: 2, slotIndex: 29 },
+      reservedBoxes: [3],
+    });
+    expect(targets(placements)).toEqual([
+      { boxIndex: 2, slotIndex: 29 },
+      { boxIndex: 4, slotIndex: 0 },
+      { boxIndex: 4, slotIndex: 1 },
+    ]);
+
+    expect(() => planBoxPlacements(createTestSave(), group, { strategy: 'sequential', start: { boxIndex: 13, slotIndex: 28 } }))
+      .toThrow('Ran out of space in save file');
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Gen 3 box placement planner
+ * Chooses PC box slots for a group of Pokémon before injection; the result
+ * feeds straight into an injection transaction
+ */
+
+import { decryptAndUnshufflePk3, type Pk3Data } from '../gen3/pk3/pk3.js';
+import { parseGrowth } from '../gen3/pk3/substruct.js';
+import { gen3InternalToNational } from '../species/speciesTranscode.js';
+import { findEmptySlots, type BoxInjectionTarget } from './gen3.js';
+import type { InjectionPlacement } from './transaction.js';
+import { NUM_BOXES, BOX_SIZE } from '../gen3/save/constants.js';
+
+export type BoxPlacementStrategy =
+  | 'sequential' // Walk forward from a starting slot, occupied or not
+  | 'first-empty' // Fill the first empty slots in box order
+  | 'same-box' // Keep the whole group together in the first box with room
+  | 'dex-order'; // Sort by National Dex number into the empty slots of a box range
+
+export interface BoxPlacementOptions {
+  strategy: BoxPlacementStrategy;
+  start?: BoxInjectionTarget; // First slot for 'sequential' (default Box 1 slot 1)
+  boxRange?: [number, number]; // Inclusive box range for 'dex-order' (default every box)
+  reservedBoxes?: number[]; // Boxes that are never placed into
+}
+
+/**
+ * Choose a box slot for each Pokémon, in the order they will be injected
+ */
+export function planBoxPlacements(
+  saveBuffer: ArrayBuffer,
+  pokemon: Pk3Data[],
+  options: BoxPlacementOptions
+): InjectionPlacement[] {
+  const reserved = new Set(options.reservedBoxes ?? []);
+  const isUsable = (boxIndex: number) => !reserved.has(boxIndex);
+
+  if (options.strategy === 'sequential') {
+    return placeInOrder(pokemon, getSequentialSlots(options.start ?? { boxIndex: 0, slotIndex: 0 }, isUsable, pokemon.length));
+  }
+
+  const emptySlots = findEmptySlots(saveBuffer).filter(slot => isUsable(slot.boxIndex));
+
+  if (options.strategy === 'same-box') {
+    for (let boxIndex = 0; boxIndex < NUM_BOXES; boxIndex++) {
+      const boxSlots = emptySlots.filter(slot => slot.boxIndex === boxIndex);
+      if (boxSlots.length >= pokemon.length) {
+        return placeInOrder(pokemon, boxSlots);
+      }
+    }
+    throw new Error(`No box has ${pokemon.length} empty slots to keep the group together`);
+  }
+
+  if (options.strategy === 'dex-order') {
+    const [first, last] = options.boxRange ?? [0, NUM_BOXES - 1];
+    if (!Number.isInteger(first) || !Number.isInteger(last) || first < 0 || last >= NUM_BOXES || first > last) {
+      throw new Error(`Invalid box range ${first + 1}-${last + 1} (boxes 1-${NUM_BOXES})`);
+    }
+
+    const sorted = pokemon
+      .map((pk3Data, index) => ({ pk3Data, index, nationalDex: getNationalDex(pk3Data) }))
+      .sort((a, b) => a.nationalDex - b.nationalDex || a.index - b.index)
+      .map(entry => entry.pk3Data);
+    return placeInOrder(sorted, emptySlots.filter(slot => slot.boxIndex >= first && slot.boxIndex <= last));
+  }
+
+  return placeInOrder(pokemon, emptySlots);
+}
+
+/**
+ * Slots from a starting point onwards, skipping reserved boxes
+ */
+function getSequentialSlots(
+  start: BoxInjectionTarget,
+  isUsable: (boxIndex: number) => boolean,
+  count: number
+): BoxInjectionTarget[] {
+  const slots: BoxInjectionTarget[] = [];
+  let { boxIndex, slotIndex } = start;
+
+  while (slots.length < count && boxIndex < NUM_BOXES) {
+    if (isUsable(boxIndex)) {
+      slots.push({ boxIndex, slotIndex });
+    }
+
+    slotIndex++;
+    if (slotIndex >= BOX_SIZE || !isUsable(boxIndex)) {
+      slotIndex = 0;
+      boxIndex++;
+    }
+  }
+
+  if (slots.length < count) {
+    throw new Error('Ran out of space in save file');
+  }
+  return slots;
+}
+
+function placeInOrder(pokemon: Pk3Data[], slots: BoxInjectionTarget[]): InjectionPlacement[] {
+  if (slots.length < pokemon.length) {
+    throw new Error(`Not enough empty box slots: ${slots.length} available for ${pokemon.length} Pokémon`);
+  }
+  return pokemon.map((pk3Data, i) => ({ pk3Data, target: slots[i]! }));
+}
+
+function getNationalDex(pk3Data: Pk3Data): number {
+  return gen3InternalToNational(parseGrowth(decryptAndUnshufflePk3(pk3Data).growth).species);
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { planInjectionTransaction, commitInjectionTransaction, type InjectionPlacement } from './transaction';
+import { injectPokemonToGen3Save } from './gen3';
+import { loadGen3Save, extractPokemonFromSave } from '../gen3/save/gen3Save';
+import { createTestSave, createTestPk3 } from '../../test/gen3SaveFixture';
+
+describe('Gen 3 injection transactions', () => {
+  it('should plan and commit a valid batch with one counter increment', () => {
+    const buffer = createTestSave({ saveIndex: 10 });
+    const placements: InjectionPlacement[] = [
+      { pk3Data: createTestPk3({ species: 25, personality: 1 }), target: { boxIndex: 0, slotIndex: 0 } },
+      { pk3Data: createTestPk3({ species: 4, personality: 2 }), target: { boxIndex: 3, slotIndex: 29 } },
+      { pk3Data: createTestPk3({ species: 7, personality: 3 }), target: { location: 'party', slotIndex: 0 } },
+      { pk3Data: createTestPk3({ species: 1, personality: 4 }), target: { location: 'party', slotIndex: 1 } },
+    ];
+
+    const plan = planInjectionTransaction(buffer, placements);
+    expect(plan.valid).toBe(true);
+    expect(plan.placements.map(p => p.label)).toEqual(['Box 1 slot 1', 'Box 4 slot 30', 'Party slot 1', 'Party slot 2']);
+    expect(plan.placements.map(p => p.nationalDex)).toEqual([25, 4, 7, 1]);
+    expect(plan.placements.every(p => p.replaces === null)).toBe(true);
+
+    const save = loadGen3Save(commitInjectionTransaction(buffer, placements));
+    expect(save.slot.saveIndex).toBe(11);
+    expect(extractPokemonFromSave(save).map(p => p.pk3.personality).sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should reject the whole batch when any placement is invalid', () => {
+    const buffer = injectPokemonToGen3Save(createTestSave(), createTestPk3({ species: 25, nickname: [0xBB] }), { boxIndex: 0, slotIndex: 1 });
+    const original = buffer.slice(0);
+    const placements: InjectionPlacement[] = [
+      { pk3Data: createTestPk3({ species: 4 }), target: { boxIndex: 0, slotIndex: 0 } },
+      { pk3Data: createTestPk3({ species: 7 }), target: { boxIndex: 0, slotIndex: 1 } },
+    ];
+
+    const plan = planInjectionTransaction(buffer, placements);
+    expect(plan.valid).toBe(false);
+    expect(plan.placements[1]!.replaces).toBe('A');
+    expect(plan.errors).toEqual(['Box 1 slot 2: Slot is occupied by A']);
+
+    expect(() => commitInjectionTransaction(buffer, placements)).toThrow('Injection transaction rejected; nothing was written');
+    expect(new Uint8Array(buffer)).toEqual(new Uint8Array(original));
+  });
+
+  it('should allow replacing occupied slots when asked', () => {
+    const buffer = injectPokemonToGen3Save(createTestSave(), createTestPk3({ species: 25 }), { boxIndex: 0, slotIndex: 1 });
+    const placements: InjectionPlacement[] = [{ pk3Data: createTestPk3({ species: 7, personality: 9 }), target: { boxIndex: 0, slotIndex: 1 } }];
+
+    expect(planInjectionTransaction(buffer, placements, { replaceOccupied: true }).valid).toBe(true);
+    const [pokemon] = extractPokemonFromSave(loadGen3Save(commitInjectionTransaction(buffer, placements, { replaceOccupied: true })));
+    expect(pokemon!.pk3.personality).toBe(9);
+  });
+
+  it('should refuse an occupied Daycare slot unless replacing is allowed', () => {
+    const buffer = commitInjectionTransaction(createTestSave(), [
+      { pk3Data: createTestPk3({ species: 25 }), target: { location: 'daycare', slotIndex: 0 } },
+    ]);
+    const placements: InjectionPlacement[] = [
+      { pk3Data: createTestPk3({ species: 7, personality: 9 }), target: { location: 'daycare', slotIndex: 0 } },
+    ];
+
+    expect(planInjectionTransaction(buffer, placements).errors).toEqual(['Daycare slot 1: Slot is occupied by ABC']);
+    expect(planInjectionTransaction(buffer, placements, { replaceOccupied: true }).valid).toBe(true);
+  });
+
+  it('should reject duplicate targets, bad checksums and out-of-order party slots', () => {
+    const corrupted = createTestPk3({ species: 1 });
+    corrupted.checksum ^= 0xFFFF;
+
+    const plan = planInjectionTransaction(createTestSave(), [
+      { pk3Data: createTestPk3({ species: 25 }), target: { boxIndex: 2, slotIndex: 2 } },
+      { pk3Data: createTestPk3({ species: 4 }), target: { boxIndex: 2, slotIndex: 2 } },
+      { pk3Data: corrupted, target: { boxIndex: 2, slotIndex: 3 } },
+      { pk3Data: createTestPk3({ species: 7 }), target: { location: 'party', slotIndex: 1 } },
+      { pk3Data: createTestPk3({ species: 7 }), target: { boxIndex: 14, slotIndex: 0 } },
+    ]);
+
+    expect(plan.valid).toBe(false);
+    expect(plan.errors).toEqual([
+      'Box 3 slot 3: Target is already used by placement 1',
+      'Box 3 slot 4: Pokémon data fails its checksum',
+      'Party slot 2: Slots must be filled in order; the next free slot is 1',
+      'Box 15 slot 1: Box or slot out of range (boxes 0-13, slots 0-29)',
+    ]);
+  });
+
+  it('should reject an empty batch', () => {
+    expect(() => commitInjectionTransaction(createTestSave(), [])).toThrow('no placements given');
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Gen 3 injection transactions
+ * Validates a whole batch of placements up front and produces a dry-run
+ * plan; the batch is committed with a single save counter increment, or
+ * not at all
+ */
+
+import { decryptAndUnshufflePk3, isProbablyEmptyPk3, verifyPk3Checksum, decodePk3, type Pk3Data } from '../gen3/pk3/pk3.js';
+import { parseGrowth } from '../gen3/pk3/substruct.js';
+import { loadGen3Save, getPartyCount, extractPartyFromSave, type Gen3Save } from '../gen3/save/gen3Save.js';
+import { extractDaycareFromSave, getDaycareCount } from '../gen3/save/daycare.js';
+import { getBoxSlotOffset, readBlockBytes } from '../gen3/save/layout.js';
+import { gen3InternalToNational, decodeGen3String } from '../species/speciesTranscode.js';
+import {
+  injectMultiplePokemon,
+  describeInjectionTarget,
+  getInjectionTargetKey,
+  type InjectionTarget,
+  type InjectionOptions,
+} from './gen3.js';
+import {
+  SECTION_ID_PC_BUFFER_A,
+  PK3_SIZE,
+  NUM_BOXES,
+  BOX_SIZE,
+  PARTY_SIZE,
+  DAYCARE_SLOT_COUNT,
+} from '../gen3/save/constants.js';
+
+export interface InjectionPlacement {
+  pk3Data: Pk3Data;
+  target: InjectionTarget;
+}
+
+export interface TransactionOptions extends InjectionOptions {
+  replaceOccupied?: boolean; // Allow placements over Pokémon already in the save
+}
+
+export interface PlannedPlacement {
+  target: InjectionTarget;
+  label: string; // "Box 2 slot 5"
+  nationalDex: number;
+  nickname: string;
+  replaces: string | null; // Nickname of the Pokémon being replaced
+  errors: string[];
+}
+
+export interface InjectionPlan {
+  valid: boolean;
+  placements: PlannedPlacement[];
+  errors: string[]; // Every placement error, prefixed with its target
+}
+
+/**
+ * Validate a batch of placements without writing anything
+ */
+export function planInjectionTransaction(
+  saveBuffer: ArrayBuffer,
+  placements: InjectionPlacement[],
+  options: TransactionOptions = {}
+): InjectionPlan {
+  const save = loadGen3Save(saveBuffer);
+  const party = extractPartyFromSave(save);
+  const daycare = extractDaycareFromSave(save);
+  const usedTargets = new Map<string, number>();
+
+  // Party and Daycare slots fill in order, so track how full each would be
+  let partyCount = getPartyCount(save);
+  let daycareCount = getDaycareCount(save);
+
+  const planned = placements.map(({ pk3Data, target }, index): PlannedPlacement => {
+    const errors: string[] = [];
+    const substructures = decryptAndUnshufflePk3(pk3Data);
+    let replaces: string | null = null;
+
+    if (!verifyPk3Checksum(pk3Data)) {
+      errors.push('Pokémon data fails its checksum');
+    }
+
+    const key = getInjectionTargetKey(target);
+    const earlier = usedTargets.get(key);
+    if (earlier !== undefined) {
+      errors.push(`Target is already used by placement ${earlier + 1}`);
+    }
+    usedTargets.set(key, index);
+
+    if (target.location === 'party' || target.location === 'daycare') {
+      const capacity = target.location === 'party' ? PARTY_SIZE : DAYCARE_SLOT_COUNT;
+      const count = target.location === 'party' ? partyCount : daycareCount;
+      const occupant = target.location === 'party' ? party[target.slotIndex] : daycare[target.slotIndex];
+
+      if (!Number.isInteger(target.slotIndex) || target.slotIndex < 0 || target.slotIndex >= capacity) {
+        errors.push(`Slot index out of range (0-${capacity - 1})`);
+      } else if (target.slotIndex > count) {
+        errors.push(`Slots must be filled in order; the next free slot is ${count + 1}`);
+      } else if (target.slotIndex === count) {
+        if (target.location === 'party') partyCount++;
+        else daycareCount++;
+      } else if (earlier === undefined) {
+        replaces = occupant ? decodeGen3String(occupant.pk3.nickname) : null;
+        if (!options.replaceOccupied) errors.push(`Slot is occupied${replaces ? ` by ${replaces}` : ''}`);
+      }
+    } else if (!isBoxTargetInRange(target.boxIndex, target.slotIndex)) {
+      errors.push(`Box or slot out of range (boxes 0-${NUM_BOXES - 1}, slots 0-${BOX_SIZE - 1})`);
+    } else if (earlier === undefined) {
+      replaces = readBoxOccupant(save, target.boxIndex, target.slotIndex);
+      if (replaces !== null && !options.replaceOccupied) errors.push(`Slot is occupied by ${replaces}`);
+    }
+
+    return {
+      target,
+      label: describeInjectionTarget(target),
+      nationalDex: gen3InternalToNational(parseGrowth(substructures.growth).species),
+      nickname: decodeGen3String(pk3Data.nickname),
+      replaces,
+      errors,
+    };
+  });
+
+  const errors = planned.flatMap(placement => placement.errors.map(error => `${placement.label}: ${error}`));
+  return { valid: errors.length === 0, placements: planned, errors };
+}
+
+/**
+ * Commit a batch of placements in a single save, refusing the whole batch if any placement is invalid
+ */
+export function commitInjectionTransaction(
+  saveBuffer: ArrayBuffer,
+  placements: InjectionPlacement[],
+  options: TransactionOptions = {}
+): ArrayBuffer {
+  if (placements.length === 0) {
+    throw new Error('Injection transaction rejected: no placements given');
+  }
+
+  const plan = planInjectionTransaction(saveBuffer, placements, options);
+  if (!plan.valid) {
+    throw new Error(`Injection transaction rejected; nothing was written:\n${plan.errors.join('\n')}`);
+  }
+
+  return injectMultiplePokemon(saveBuffer, placements, options);
+}
+
+function isBoxTargetInRange(boxIndex: number, slotIndex: number): boolean {
+  return Number.isInteger(boxIndex) && Number.isInteger(slotIndex)
+    && boxIndex >= 0 && boxIndex < NUM_BOXES
+    && slotIndex >= 0 && slotIndex < BOX_SIZE;
+}
+
+/**
+ * Nickname of the Pokémon in a box slot, or null if the slot is empty
+ */
+function readBoxOccupant(save: Gen3Save, boxIndex: number, slotIndex: number): string | null {
+  const buffer = new ArrayBuffer(PK3_SIZE);
+  new Uint8Array(buffer).set(readBlockBytes(save.sections, SECTION_ID_PC_BUFFER_A, getBoxSlotOffset(boxIndex, slotIndex), PK3_SIZE));
+  return isProbablyEmptyPk3(buffer) ? null : decodeGen3String(decodePk3(buffer).nickname);
+}
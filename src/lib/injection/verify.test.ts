@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { verifyInjection } from './verify';
+import { injectMultiplePokemon, applyPokemonInjection, type InjectionTarget } from './gen3';
+import { loadGen3Save } from '../gen3/save/gen3Save';
+import { commitGen3Save } from '../gen3/save/commit';
+import { writeBlockBytes } from '../gen3/save/layout';
+import { createTestSave, createTestPk3 } from '../../test/gen3SaveFixture';
+import type { Pk3Data } from '../gen3/pk3/pk3';
+import { GEN3_SAVE_SLOT_B, HALL_OF_FAME_OFFSET } from '../gen3/save/constants';
+
+function createInjections(): Array<{ pk3Data: Pk3Data; target: InjectionTarget }> {
+  return [
+    { pk3Data: createTestPk3({ species: 25, personality: 1 }), target: { boxIndex: 1, slotIndex: 19 } }, // Straddles sections 5 and 6
+    { pk3Data: createTestPk3({ species: 4, personality: 2 }), target: { location: 'party', slotIndex: 0 } },
+    { pk3Data: createTestPk3({ species: 7, personality: 3 }), target: { location: 'daycare', slotIndex: 0 } },
+    { pk3Data: createTestPk3({ species: 201, personality: 4 }), target: { boxIndex: 13, slotIndex: 29 } }, // Unown
+  ];
+}
+
+describe('Gen 3 post-injection verification', () => {
+  it('should accept a correct injection in each game', () => {
+    for (const game of ['RS', 'E', 'FRLG'] as const) {
+      const original = createTestSave({ game });
+      const injections = createInjections();
+      const output = injectMultiplePokemon(original, injections, { registerPokedex: true });
+
+      const report = verifyInjection(original, output, injections, { registerPokedex: true });
+
+      expect(report.errors).toEqual([]);
+      expect(report.valid).toBe(true);
+    }
+  });
+
+  it('should flag Pokédex writes that were not requested', () => {
+    const original = createTestSave();
+    const injections = createInjections();
+    const output = injectMultiplePokemon(original, injections, { registerPokedex: true });
+
+    const report = verifyInjection(original, output, injections);
+
+    expect(report.valid).toBe(false);
+    expect(report.unexpectedWrites.map(range => range.sectionId)).toContain(0);
+  });
+
+  it('should fence writes outside the injected slots', () => {
+    const original = createTestSave();
+    const injections = createInjections().slice(0, 1);
+    const save = applyPokemonInjection(loadGen3Save(original), injections[0]!.pk3Data, injections[0]!.target);
+    const output = commitGen3Save(writeBlockBytes(save, 1, 0x10, Uint8Array.of(0xAA, 0xBB)));
+
+    const report = verifyInjection(original, output, injections);
+
+    expect(report.valid).toBe(false);
+    expect(report.unexpectedWrites).toEqual([{ sectionId: 1, start: 0x10, end: 0x12 }]);
+    expect(report.errors).toContain('Unexpected write in section 1 at 0x10-0x11');
+  });
+
+  it('should detect an injected slot that does not match its source Pokémon', () => {
+    const original = createTestSave();
+    const target: InjectionTarget = { boxIndex: 0, slotIndex: 0 };
+    const output = injectMultiplePokemon(original, [{ pk3Data: createTestPk3({ species: 25 }), target }]);
+
+    const report = verifyInjection(original, output, [{ pk3Data: createTestPk3({ species: 26 }), target }]);
+
+    expect(report.valid).toBe(false);
+    expect(report.errors).toContain('Box 1 slot 1 does not match the injected Pokémon');
+  });
+
+  it('should detect changes outside the committed slot', () => {
+    const original = createTestSave();
+    const injections = createInjections().slice(0, 1);
+    const output = injectMultiplePokemon(original, injections);
+    new Uint8Array(output)[HALL_OF_FAME_OFFSET + 5] = 0x42;
+
+    const report = verifyInjection(original, output, injections);
+
+    expect(report.valid).toBe(false);
+    expect(report.outsideSlotWrites).toEqual([HALL_OF_FAME_OFFSET + 5]);
+  });
+
+  it('should detect a damaged committed slot', () => {
+    const original = createTestSave();
+    const injections = createInjections().slice(0, 1);
+    const output = injectMultiplePokemon(original, injections);
+    new Uint8Array(output)[GEN3_SAVE_SLOT_B + 0x100] ^= 0xFF;
+
+    const report = verifyInjection(original, output, injections);
+
+    expect(report.valid).toBe(false);
+    expect(report.errors[0]).toBe('Output save is active in slot A (expected slot B)');
+  });
+});
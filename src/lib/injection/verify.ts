@@ -0,0 +1,222 @@
+/**
+ * Gen 3 post-injection verification
+ * Reparses an injected save, checks every injected slot against its source
+ * pk3 and fences writes to the bytes the injection was expected to touch
+ */
+
+import { encodePk3, decryptAndUnshufflePk3, type Pk3Data } from '../gen3/pk3/pk3.js';
+import { encodePartyPk3, calculatePartyStats } from '../gen3/pk3/party.js';
+import { parseGrowth } from '../gen3/pk3/substruct.js';
+import { loadGen3Save, type Gen3Save } from '../gen3/save/gen3Save.js';
+import { verifySectionIntegrity } from '../gen3/save/sections.js';
+import { getBoxSlotOffset, readBlockBytes } from '../gen3/save/layout.js';
+import { gen3InternalToNational } from '../species/speciesTranscode.js';
+import type { Gen3ByteRange } from '../gen3/save/diff.js';
+import { getInjectionTargetKey, describeInjectionTarget, type InjectionTarget, type InjectionOptions } from './gen3.js';
+import {
+  GEN3_NUM_SECTIONS,
+  GEN3_SECTION_DATA_SIZE,
+  GEN3_SAVE_SIZE,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  GEN3_SAVE_SLOT_SIZE,
+  SECTION_CHUNK_SIZE,
+  SECTION_ID_TRAINER_INFO,
+  SECTION_ID_TEAM_ITEMS,
+  SECTION_ID_PC_BUFFER_A,
+  PK3_SIZE,
+  PK3_PARTY_SIZE,
+  PARTY_COUNT_OFFSETS,
+  PARTY_DATA_OFFSETS,
+  DAYCARE_LAYOUTS,
+  DAYCARE_MAIL_SIZE,
+  POKEDEX_OWNED_OFFSET,
+  POKEDEX_SEEN_OFFSET,
+  POKEDEX_SEEN_COPY_OFFSETS,
+  POKEDEX_UNOWN_PERSONALITY_OFFSET,
+  POKEDEX_SPINDA_PERSONALITY_OFFSET,
+} from '../gen3/save/constants.js';
+
+const NATIONAL_DEX_UNOWN = 201;
+const NATIONAL_DEX_SPINDA = 327;
+
+export interface InjectionVerification {
+  valid: boolean;
+  errors: string[];
+  unexpectedWrites: Gen3ByteRange[]; // Changed section bytes outside the injected slots, counters and Pokédex flags
+  outsideSlotWrites: number[]; // Physical offsets changed outside the committed slot (first few only)
+}
+
+// Report at most this many stray physical offsets
+const MAX_REPORTED_OFFSETS = 16;
+
+/**
+ * Verify an injected save against the original and the injections applied to it
+ */
+export function verifyInjection(
+  original: ArrayBuffer,
+  output: ArrayBuffer,
+  injections: Array<{ pk3Data: Pk3Data; target: InjectionTarget }>,
+  options: InjectionOptions = {}
+): InjectionVerification {
+  const errors: string[] = [];
+  const before = loadGen3Save(original);
+
+  if (output.byteLength !== GEN3_SAVE_SIZE) {
+    errors.push(`Output save is ${output.byteLength} bytes (expected ${GEN3_SAVE_SIZE})`);
+    return { valid: false, errors, unexpectedWrites: [], outsideSlotWrites: [] };
+  }
+
+  let after: Gen3Save;
+  try {
+    after = loadGen3Save(output);
+  } catch (error) {
+    errors.push(`Output save does not load: ${error instanceof Error ? error.message : String(error)}`);
+    return { valid: false, errors, unexpectedWrites: [], outsideSlotWrites: [] };
+  }
+
+  // Footers: the commit goes to the other slot with the next save index
+  const expectedSlot = before.activeSlot === 'A' ? 'B' : 'A';
+  if (after.activeSlot !== expectedSlot) {
+    errors.push(`Output save is active in slot ${after.activeSlot} (expected slot ${expectedSlot})`);
+  }
+  const expectedIndex = (before.slot.saveIndex + 1) >>> 0;
+  for (const section of after.sections) {
+    const integrity = verifySectionIntegrity(section);
+    if (!integrity.valid) {
+      errors.push(`Section ${section.id}: ${integrity.errors.join('; ')}`);
+    }
+    if (section.saveIndex !== expectedIndex) {
+      errors.push(`Section ${section.id} has save index ${section.saveIndex} (expected ${expectedIndex})`);
+    }
+  }
+
+  // Injected slots: only the last injection into each target is expected to survive
+  const finalInjections = injections.filter((injection, i) =>
+    !injections.slice(i + 1).some(later => getInjectionTargetKey(later.target) === getInjectionTargetKey(injection.target))
+  );
+  for (const { pk3Data, target } of finalInjections) {
+    const expected = target.location === 'party'
+      ? new Uint8Array(encodePartyPk3(pk3Data, calculatePartyStats(pk3Data)))
+      : new Uint8Array(encodePk3(pk3Data));
+    const [firstSectionId, offset] = getTargetLocation(after, target);
+    const actual = readBlockBytes(after.sections, firstSectionId, offset, expected.length);
+
+    if (!actual.every((byte, i) => byte === expected[i])) {
+      errors.push(`${describeInjectionTarget(target)} does not match the injected Pokémon`);
+    }
+  }
+
+  // Section data: every change must fall inside an expected range
+  const unexpectedWrites = findUnexpectedWrites(before, after, getAllowedRanges(before, injections, options));
+  for (const range of unexpectedWrites) {
+    errors.push(`Unexpected write in section ${range.sectionId} at 0x${range.start.toString(16)}-0x${(range.end - 1).toString(16)}`);
+  }
+
+  // Physical bytes: nothing outside the committed slot may change
+  const outsideSlotWrites = findOutsideSlotWrites(original, output, expectedSlot === 'A' ? GEN3_SAVE_SLOT_A : GEN3_SAVE_SLOT_B);
+  if (outsideSlotWrites.length > 0) {
+    errors.push(
+      `Bytes changed outside the committed save slot, starting at 0x${outsideSlotWrites[0]!.toString(16)}`
+    );
+  }
+
+  return { valid: errors.length === 0, errors, unexpectedWrites, outsideSlotWrites };
+}
+
+/**
+ * Block ranges (first section ID, logical offset, length) an injection may write
+ */
+function getAllowedRanges(
+  save: Gen3Save,
+  injections: Array<{ pk3Data: Pk3Data; target: InjectionTarget }>,
+  options: InjectionOptions
+): [number, number, number][] {
+  const { game } = save;
+  const ranges: [number, number, number][] = [];
+
+  for (const { pk3Data, target } of injections) {
+    const [firstSectionId, offset] = getTargetLocation(save, target);
+
+    if (target.location === 'party') {
+      ranges.push([firstSectionId, offset, PK3_PARTY_SIZE], [SECTION_ID_TEAM_ITEMS, PARTY_COUNT_OFFSETS[game], 4]);
+    } else if (target.location === 'daycare') {
+      const layout = DAYCARE_LAYOUTS[game];
+      ranges.push(
+        [firstSectionId, offset, PK3_SIZE],
+        [SECTION_ID_TEAM_ITEMS, layout.mailOffsets[target.slotIndex]!, DAYCARE_MAIL_SIZE],
+        [SECTION_ID_TEAM_ITEMS, layout.stepsOffsets[target.slotIndex]!, 4]
+      );
+    } else {
+      ranges.push([firstSectionId, offset, PK3_SIZE]);
+    }
+
+    if (options.registerPokedex) {
+      const nationalDex = gen3InternalToNational(parseGrowth(decryptAndUnshufflePk3(pk3Data).growth).species);
+      const flagByte = (nationalDex - 1) >> 3;
+
+      ranges.push(
+        [SECTION_ID_TRAINER_INFO, POKEDEX_OWNED_OFFSET + flagByte, 1],
+        [SECTION_ID_TRAINER_INFO, POKEDEX_SEEN_OFFSET + flagByte, 1],
+        ...POKEDEX_SEEN_COPY_OFFSETS[game].map(copy => [SECTION_ID_TEAM_ITEMS, copy + flagByte, 1] as [number, number, number])
+      );
+      if (nationalDex === NATIONAL_DEX_UNOWN) ranges.push([SECTION_ID_TRAINER_INFO, POKEDEX_UNOWN_PERSONALITY_OFFSET, 4]);
+      if (nationalDex === NATIONAL_DEX_SPINDA) ranges.push([SECTION_ID_TRAINER_INFO, POKEDEX_SPINDA_PERSONALITY_OFFSET, 4]);
+    }
+  }
+
+  return ranges;
+}
+
+function findUnexpectedWrites(before: Gen3Save, after: Gen3Save, allowed: [number, number, number][]): Gen3ByteRange[] {
+  const fence = Array.from({ length: GEN3_NUM_SECTIONS }, () => new Uint8Array(GEN3_SECTION_DATA_SIZE));
+  for (const [firstSectionId, offset, length] of allowed) {
+    for (let i = offset; i < offset + length; i++) {
+      fence[firstSectionId + Math.floor(i / SECTION_CHUNK_SIZE)]![i % SECTION_CHUNK_SIZE] = 1;
+    }
+  }
+
+  const ranges: Gen3ByteRange[] = [];
+  for (let id = 0; id < GEN3_NUM_SECTIONS; id++) {
+    const dataBefore = new Uint8Array(before.sections.find(s => s.id === id)!.data);
+    const dataAfter = new Uint8Array(after.sections.find(s => s.id === id)!.data);
+    let start = -1;
+
+    for (let i = 0; i <= GEN3_SECTION_DATA_SIZE; i++) {
+      const unexpected = i < GEN3_SECTION_DATA_SIZE && dataBefore[i] !== dataAfter[i] && fence[id]![i] === 0;
+      if (unexpected && start === -1) {
+        start = i;
+      } else if (!unexpected && start !== -1) {
+        ranges.push({ sectionId: id, start, end: i });
+        start = -1;
+      }
+    }
+  }
+
+  return ranges;
+}
+
+function findOutsideSlotWrites(original: ArrayBuffer, output: ArrayBuffer, slotOffset: number): number[] {
+  const bytesBefore = new Uint8Array(original);
+  const bytesAfter = new Uint8Array(output);
+  const offsets: number[] = [];
+
+  for (let i = 0; i < GEN3_SAVE_SIZE && offsets.length < MAX_REPORTED_OFFSETS; i++) {
+    const inSlot = i >= slotOffset && i < slotOffset + GEN3_SAVE_SLOT_SIZE;
+    if (!inSlot && bytesBefore[i] !== bytesAfter[i]) {
+      offsets.push(i);
+    }
+  }
+
+  return offsets;
+}
+
+function getTargetLocation(save: Gen3Save, target: InjectionTarget): [number, number] {
+  if (target.location === 'party') {
+    return [SECTION_ID_TEAM_ITEMS, PARTY_DATA_OFFSETS[save.game] + target.slotIndex * PK3_PARTY_SIZE];
+  }
+  if (target.location === 'daycare') {
+    return [SECTION_ID_TEAM_ITEMS, DAYCARE_LAYOUTS[save.game].slotOffsets[target.slotIndex]!];
+  }
+  return [SECTION_ID_PC_BUFFER_A, getBoxSlotOffset(target.boxIndex, target.slotIndex)];
+}
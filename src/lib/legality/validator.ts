@@ -5,7 +5,7 @@
 
 import type { VaultPokemon, Gen3Pokemon, LegalityCheck, IVs, EVs } from '../types';
 import { calculatePk3Checksum, decryptAndUnshufflePk3 } from '../gen3/pk3/pk3';
-import { serializePk3ForStorage, deserializePk3FromStorage } from '../db/vaultDb';
+import { serializePk3ForStorage, deserializePk3FromStorage } from '../db/vaultRows';
 
 /**
  * Perform full legality check on a Pokémon
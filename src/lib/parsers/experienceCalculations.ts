@@ -54,71 +54,76 @@ const EXP_TABLE: number[][] = [
   [31610, 17561, 21952, 17242, 27440, 18439],
   [34632, 19511, 24389, 19411, 30486, 20974],
   [37800, 21600, 27000, 21760, 33750, 23760],
-  [41117, 23832, 29791, 24294, 37238, 26811],
-  [44580, 26214, 32768, 27021, 40960, 30146],
-  [48197, 28749, 35937, 29949, 44921, 33780],
-  [51962, 31443, 39304, 33084, 49130, 37731],
-  [55872, 34300, 42875, 36435, 53593, 42017],
-  [59927, 37324, 46656, 40007, 58320, 46656],
-  [64132, 40522, 50653, 43808, 63316, 51685],
-  [68482, 43897, 54872, 47846, 68590, 57097],
-  [72977, 47455, 59319, 52127, 74148, 62913],
-  [77622, 51200, 64000, 56660, 80000, 69173],
-  [82412, 55136, 68921, 61450, 86151, 75896],
-  [87352, 59270, 74088, 66505, 92610, 83102],
-  [92437, 63605, 79507, 71833, 99383, 90813],
-  [97672, 68147, 85184, 77440, 106480, 99072],
-  [103052, 72900, 91125, 83335, 113906, 107913],
-  [108577, 77868, 97336, 89523, 121670, 117367],
-  [114247, 83058, 103823, 96012, 129778, 127473],
-  [120072, 88473, 110592, 102810, 138240, 138267],
-  [126042, 94119, 117649, 109923, 147061, 149787],
-  [132157, 100000, 125000, 117360, 156250, 162080],
-  [138417, 106120, 132651, 125126, 165813, 175194],
-  [144822, 112486, 140608, 133229, 175760, 189168],
-  [151372, 119101, 148877, 141677, 186096, 204024],
-  [158067, 125971, 157464, 150476, 196830, 219801],
-  [164907, 133100, 166375, 159635, 207968, 236523],
-  [171892, 140492, 175616, 169159, 219520, 254240],
-  [179022, 148154, 185193, 179056, 231491, 273007],
-  [186297, 156089, 195112, 189334, 243890, 292878],
-  [193717, 164303, 205379, 200037, 256723, 313927],
-  [201282, 172798, 216000, 211164, 270000, 336213],
-  [208992, 181584, 226981, 222737, 283726, 359879],
-  [216847, 190662, 238328, 234749, 297910, 385003],
-  [224842, 200037, 250047, 247212, 312558, 411671],
-  [232992, 209715, 262144, 260122, 327680, 439939],
-  [241277, 219700, 274625, 273495, 343281, 469863],
-  [249707, 229996, 287496, 287336, 359370, 501521],
-  [258282, 240610, 300763, 301651, 375953, 535012],
-  [267002, 251545, 314432, 316460, 393040, 570420],
-  [275867, 262807, 328509, 331776, 410636, 607785],
-  [284877, 274400, 343000, 347600, 428750, 647157],
-  [294032, 286328, 357911, 363963, 447388, 688618],
-  [303327, 298598, 373248, 380872, 466560, 732257],
-  [312777, 311213, 389017, 398338, 486271, 778154],
-  [322362, 324179, 405224, 416369, 506530, 826398],
-  [332097, 337500, 421875, 434975, 527343, 877071],
-  [341977, 351180, 438976, 454164, 548720, 930273],
-  [352002, 365226, 456533, 473953, 570666, 986027],
-  [362167, 379641, 474552, 494349, 593190, 1044440],
-  [372477, 394431, 493039, 515366, 616298, 1105618],
-  [382932, 409600, 512000, 537010, 640000, 1169679],
-  [393532, 425152, 531441, 559274, 664301, 1236645],
-  [404272, 441094, 551368, 582182, 689210, 1306548],
-  [415167, 457429, 571787, 605741, 714733, 1379416],
-  [426207, 474163, 592704, 629975, 740880, 1455278],
-  [437402, 491300, 614125, 654889, 767656, 1534176],
-  [448742, 508844, 636056, 680499, 795070, 1616137],
-  [460227, 526802, 658503, 706820, 823128, 1701210],
-  [471862, 545177, 681472, 733866, 851840, 1789443],
-  [483642, 563975, 704969, 761653, 881211, 1880885],
-  [495567, 583200, 729000, 790196, 911250, 1975587],
-  [507642, 602856, 753571, 819520, 941963, 2073610],
-  [519862, 622950, 778688, 849629, 973360, 2174999],
-  [532227, 643485, 804357, 880539, 1005446, 2279812],
-  [544737, 664467, 830584, 912264, 1038230, 2388103],
-  [557392, 685900, 857375, 944819, 1071718, 2499928],
+  [41111, 23832, 29791, 24294, 37238, 26811],
+  [44564, 26214, 32768, 27021, 40960, 30146],
+  [48155, 28749, 35937, 29949, 44921, 33780],
+  [51881, 31443, 39304, 33084, 49130, 37731],
+  [55737, 34300, 42875, 36435, 53593, 42017],
+  [59719, 37324, 46656, 40007, 58320, 46656],
+  [63822, 40522, 50653, 43808, 63316, 50653],
+  [68041, 43897, 54872, 47846, 68590, 55969],
+  [72369, 47455, 59319, 52127, 74148, 60505],
+  [76800, 51200, 64000, 56660, 80000, 66560],
+  [81326, 55136, 68921, 61450, 86151, 71677],
+  [85942, 59270, 74088, 66505, 92610, 78533],
+  [90637, 63605, 79507, 71833, 99383, 84277],
+  [95406, 68147, 85184, 77440, 106480, 91998],
+  [100237, 72900, 91125, 83335, 113906, 98415],
+  [105122, 77868, 97336, 89523, 121670, 107069],
+  [110052, 83058, 103823, 96012, 129778, 114205],
+  [115015, 88473, 110592, 102810, 138240, 123863],
+  [120001, 94119, 117649, 109923, 147061, 131766],
+  [125000, 100000, 125000, 117360, 156250, 142500],
+  [131324, 106120, 132651, 125126, 165813, 151222],
+  [137795, 112486, 140608, 133229, 175760, 163105],
+  [144410, 119101, 148877, 141677, 186096, 172697],
+  [151165, 125971, 157464, 150476, 196830, 185807],
+  [158056, 133100, 166375, 159635, 207968, 196322],
+  [165079, 140492, 175616, 169159, 219520, 210739],
+  [172229, 148154, 185193, 179056, 231491, 222231],
+  [179503, 156089, 195112, 189334, 243890, 238036],
+  [186894, 164303, 205379, 199999, 256723, 250562],
+  [194400, 172800, 216000, 211060, 270000, 267840],
+  [202013, 181584, 226981, 222522, 283726, 281456],
+  [209728, 190662, 238328, 234393, 297910, 300293],
+  [217540, 200037, 250047, 246681, 312558, 315059],
+  [225443, 209715, 262144, 259392, 327680, 335544],
+  [233431, 219700, 274625, 272535, 343281, 351520],
+  [241496, 229996, 287496, 286115, 359370, 373744],
+  [249633, 240610, 300763, 300140, 375953, 390991],
+  [257834, 251545, 314432, 314618, 393040, 415050],
+  [267406, 262807, 328509, 329555, 410636, 433631],
+  [276458, 274400, 343000, 344960, 428750, 459620],
+  [286328, 286328, 357911, 360838, 447388, 479600],
+  [296358, 298598, 373248, 377197, 466560, 507617],
+  [305767, 311213, 389017, 394045, 486271, 529063],
+  [316074, 324179, 405224, 411388, 506530, 559209],
+  [326531, 337500, 421875, 429235, 527343, 582187],
+  [336255, 351180, 438976, 447591, 548720, 614566],
+  [346965, 365226, 456533, 466464, 570666, 639146],
+  [357812, 379641, 474552, 485862, 593190, 673863],
+  [367807, 394431, 493039, 505791, 616298, 700115],
+  [378880, 409600, 512000, 526260, 640000, 737280],
+  [390077, 425152, 531441, 547274, 664301, 765275],
+  [400293, 441094, 551368, 568841, 689210, 804997],
+  [411686, 457429, 571787, 590969, 714733, 834809],
+  [423190, 474163, 592704, 613664, 740880, 877201],
+  [433572, 491300, 614125, 636935, 767656, 908905],
+  [445239, 508844, 636056, 660787, 795070, 954084],
+  [457001, 526802, 658503, 685228, 823128, 987754],
+  [467489, 545177, 681472, 710266, 851840, 1035837],
+  [479378, 563975, 704969, 735907, 881211, 1071552],
+  [491346, 583200, 729000, 762160, 911250, 1122660],
+  [501878, 602856, 753571, 789030, 941963, 1160499],
+  [513934, 622950, 778688, 816525, 973360, 1214753],
+  [526049, 643485, 804357, 844653, 1005446, 1254796],
+  [536557, 664467, 830584, 873420, 1038230, 1312322],
+  [548720, 685900, 857375, 902835, 1071718, 1354652],
+  [560922, 707788, 884736, 932903, 1105920, 1415577],
+  [571333, 730138, 912673, 963632, 1140841, 1460276],
+  [583539, 752953, 941192, 995030, 1176490, 1524731],
+  [591882, 776239, 970299, 1027103, 1212873, 1571884],
+  [600000, 800000, 1000000, 1059860, 1250000, 1640000],
 ];
 
 /**
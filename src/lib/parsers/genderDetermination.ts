@@ -22,7 +22,7 @@ export enum GenderRatio {
  * Value: Gender ratio threshold
  */
 const SPECIES_GENDER_RATIOS: { [key: number]: number } = {
-  // Gen 1 starters (87.5% male)
+  // Gen 1
   1: GenderRatio.MALE_87_5,   // Bulbasaur
   2: GenderRatio.MALE_87_5,   // Ivysaur
   3: GenderRatio.MALE_87_5,   // Venusaur
@@ -32,40 +32,150 @@ const SPECIES_GENDER_RATIOS: { [key: number]: number } = {
   7: GenderRatio.MALE_87_5,   // Squirtle
   8: GenderRatio.MALE_87_5,   // Wartortle
   9: GenderRatio.MALE_87_5,   // Blastoise
-  
-  // Common Gen 1 Pokemon
+  10: GenderRatio.MALE_50,    // Caterpie
+  11: GenderRatio.MALE_50,    // Metapod
+  12: GenderRatio.MALE_50,    // Butterfree
+  13: GenderRatio.MALE_50,    // Weedle
+  14: GenderRatio.MALE_50,    // Kakuna
+  15: GenderRatio.MALE_50,    // Beedrill
+  16: GenderRatio.MALE_50,    // Pidgey
+  17: GenderRatio.MALE_50,    // Pidgeotto
+  18: GenderRatio.MALE_50,    // Pidgeot
+  19: GenderRatio.MALE_50,    // Rattata
+  20: GenderRatio.MALE_50,    // Raticate
+  21: GenderRatio.MALE_50,    // Spearow
+  22: GenderRatio.MALE_50,    // Fearow
+  23: GenderRatio.MALE_50,    // Ekans
+  24: GenderRatio.MALE_50,    // Arbok
   25: GenderRatio.MALE_50,    // Pikachu
   26: GenderRatio.MALE_50,    // Raichu
+  27: GenderRatio.MALE_50,    // Sandshrew
+  28: GenderRatio.MALE_50,    // Sandslash
   29: GenderRatio.FEMALE_ONLY,// Nidoran♀
   30: GenderRatio.FEMALE_ONLY,// Nidorina
   31: GenderRatio.FEMALE_ONLY,// Nidoqueen
   32: GenderRatio.MALE_ONLY,  // Nidoran♂
   33: GenderRatio.MALE_ONLY,  // Nidorino
   34: GenderRatio.MALE_ONLY,  // Nidoking
+  35: GenderRatio.MALE_25,    // Clefairy
+  36: GenderRatio.MALE_25,    // Clefable
+  37: GenderRatio.MALE_25,    // Vulpix
+  38: GenderRatio.MALE_25,    // Ninetales
+  39: GenderRatio.MALE_25,    // Jigglypuff
+  40: GenderRatio.MALE_25,    // Wigglytuff
+  41: GenderRatio.MALE_50,    // Zubat
+  42: GenderRatio.MALE_50,    // Golbat
+  43: GenderRatio.MALE_50,    // Oddish
+  44: GenderRatio.MALE_50,    // Gloom
+  45: GenderRatio.MALE_50,    // Vileplume
+  46: GenderRatio.MALE_50,    // Paras
+  47: GenderRatio.MALE_50,    // Parasect
+  48: GenderRatio.MALE_50,    // Venonat
+  49: GenderRatio.MALE_50,    // Venomoth
+  50: GenderRatio.MALE_50,    // Diglett
+  51: GenderRatio.MALE_50,    // Dugtrio
+  52: GenderRatio.MALE_50,    // Meowth
+  53: GenderRatio.MALE_50,    // Persian
+  54: GenderRatio.MALE_50,    // Psyduck
+  55: GenderRatio.MALE_50,    // Golduck
+  56: GenderRatio.MALE_50,    // Mankey
+  57: GenderRatio.MALE_50,    // Primeape
+  58: GenderRatio.MALE_75,    // Growlithe
+  59: GenderRatio.MALE_75,    // Arcanine
+  60: GenderRatio.MALE_50,    // Poliwag
+  61: GenderRatio.MALE_50,    // Poliwhirl
+  62: GenderRatio.MALE_50,    // Poliwrath
+  63: GenderRatio.MALE_75,    // Abra
+  64: GenderRatio.MALE_75,    // Kadabra
+  65: GenderRatio.MALE_75,    // Alakazam
+  66: GenderRatio.MALE_75,    // Machop
+  67: GenderRatio.MALE_75,    // Machoke
+  68: GenderRatio.MALE_75,    // Machamp
+  69: GenderRatio.MALE_50,    // Bellsprout
+  70: GenderRatio.MALE_50,    // Weepinbell
+  71: GenderRatio.MALE_50,    // Victreebel
+  72: GenderRatio.MALE_50,    // Tentacool
+  73: GenderRatio.MALE_50,    // Tentacruel
+  74: GenderRatio.MALE_50,    // Geodude
+  75: GenderRatio.MALE_50,    // Graveler
+  76: GenderRatio.MALE_50,    // Golem
+  77: GenderRatio.MALE_50,    // Ponyta
+  78: GenderRatio.MALE_50,    // Rapidash
+  79: GenderRatio.MALE_50,    // Slowpoke
+  80: GenderRatio.MALE_50,    // Slowbro
   81: GenderRatio.GENDERLESS, // Magnemite
   82: GenderRatio.GENDERLESS, // Magneton
-  120: GenderRatio.GENDERLESS,// Staryu
-  121: GenderRatio.GENDERLESS,// Starmie
-  113: GenderRatio.FEMALE_ONLY,// Chansey
+  83: GenderRatio.MALE_50,    // Farfetch'd
+  84: GenderRatio.MALE_50,    // Doduo
+  85: GenderRatio.MALE_50,    // Dodrio
+  86: GenderRatio.MALE_50,    // Seel
+  87: GenderRatio.MALE_50,    // Dewgong
+  88: GenderRatio.MALE_50,    // Grimer
+  89: GenderRatio.MALE_50,    // Muk
+  90: GenderRatio.MALE_50,    // Shellder
+  91: GenderRatio.MALE_50,    // Cloyster
+  92: GenderRatio.MALE_50,    // Gastly
+  93: GenderRatio.MALE_50,    // Haunter
+  94: GenderRatio.MALE_50,    // Gengar
+  95: GenderRatio.MALE_50,    // Onix
+  96: GenderRatio.MALE_50,    // Drowzee
+  97: GenderRatio.MALE_50,    // Hypno
+  98: GenderRatio.MALE_50,    // Krabby
+  99: GenderRatio.MALE_50,    // Kingler
+  100: GenderRatio.GENDERLESS,// Voltorb
+  101: GenderRatio.GENDERLESS,// Electrode
+  102: GenderRatio.MALE_50,   // Exeggcute
+  103: GenderRatio.MALE_50,   // Exeggutor
+  104: GenderRatio.MALE_50,   // Cubone
+  105: GenderRatio.MALE_50,   // Marowak
   106: GenderRatio.MALE_ONLY, // Hitmonlee
   107: GenderRatio.MALE_ONLY, // Hitmonchan
+  108: GenderRatio.MALE_50,   // Lickitung
+  109: GenderRatio.MALE_50,   // Koffing
+  110: GenderRatio.MALE_50,   // Weezing
+  111: GenderRatio.MALE_50,   // Rhyhorn
+  112: GenderRatio.MALE_50,   // Rhydon
+  113: GenderRatio.FEMALE_ONLY,// Chansey
+  114: GenderRatio.MALE_50,   // Tangela
+  115: GenderRatio.FEMALE_ONLY,// Kangaskhan
+  116: GenderRatio.MALE_50,   // Horsea
+  117: GenderRatio.MALE_50,   // Seadra
+  118: GenderRatio.MALE_50,   // Goldeen
+  119: GenderRatio.MALE_50,   // Seaking
+  120: GenderRatio.GENDERLESS,// Staryu
+  121: GenderRatio.GENDERLESS,// Starmie
   122: GenderRatio.MALE_50,   // Mr. Mime
+  123: GenderRatio.MALE_50,   // Scyther
+  124: GenderRatio.FEMALE_ONLY,// Jynx
+  125: GenderRatio.MALE_75,   // Electabuzz
+  126: GenderRatio.MALE_75,   // Magmar
   127: GenderRatio.MALE_50,   // Pinsir
   128: GenderRatio.MALE_ONLY, // Tauros
+  129: GenderRatio.MALE_50,   // Magikarp
+  130: GenderRatio.MALE_50,   // Gyarados
   131: GenderRatio.MALE_50,   // Lapras
   132: GenderRatio.GENDERLESS,// Ditto
   133: GenderRatio.MALE_87_5, // Eevee
   134: GenderRatio.MALE_87_5, // Vaporeon
   135: GenderRatio.MALE_87_5, // Jolteon
   136: GenderRatio.MALE_87_5, // Flareon
+  137: GenderRatio.GENDERLESS,// Porygon
+  138: GenderRatio.MALE_87_5, // Omanyte
+  139: GenderRatio.MALE_87_5, // Omastar
+  140: GenderRatio.MALE_87_5, // Kabuto
+  141: GenderRatio.MALE_87_5, // Kabutops
+  142: GenderRatio.MALE_87_5, // Aerodactyl
   143: GenderRatio.MALE_87_5, // Snorlax
   144: GenderRatio.GENDERLESS,// Articuno
   145: GenderRatio.GENDERLESS,// Zapdos
   146: GenderRatio.GENDERLESS,// Moltres
+  147: GenderRatio.MALE_50,   // Dratini
+  148: GenderRatio.MALE_50,   // Dragonair
+  149: GenderRatio.MALE_50,   // Dragonite
   150: GenderRatio.GENDERLESS,// Mewtwo
   151: GenderRatio.GENDERLESS,// Mew
-  
-  // Gen 2 starters (87.5% male)
+
+  // Gen 2
   152: GenderRatio.MALE_87_5, // Chikorita
   153: GenderRatio.MALE_87_5, // Bayleef
   154: GenderRatio.MALE_87_5, // Meganium
@@ -75,27 +185,99 @@ const SPECIES_GENDER_RATIOS: { [key: number]: number } = {
   158: GenderRatio.MALE_87_5, // Totodile
   159: GenderRatio.MALE_87_5, // Croconaw
   160: GenderRatio.MALE_87_5, // Feraligatr
-  
-  // Gen 2 Pokemon
+  161: GenderRatio.MALE_50,   // Sentret
+  162: GenderRatio.MALE_50,   // Furret
+  163: GenderRatio.MALE_50,   // Hoothoot
+  164: GenderRatio.MALE_50,   // Noctowl
+  165: GenderRatio.MALE_50,   // Ledyba
+  166: GenderRatio.MALE_50,   // Ledian
+  167: GenderRatio.MALE_50,   // Spinarak
+  168: GenderRatio.MALE_50,   // Ariados
+  169: GenderRatio.MALE_50,   // Crobat
+  170: GenderRatio.MALE_50,   // Chinchou
+  171: GenderRatio.MALE_50,   // Lanturn
+  172: GenderRatio.MALE_50,   // Pichu
+  173: GenderRatio.MALE_25,   // Cleffa
+  174: GenderRatio.MALE_25,   // Igglybuff
   175: GenderRatio.MALE_87_5, // Togepi
   176: GenderRatio.MALE_87_5, // Togetic
+  177: GenderRatio.MALE_50,   // Natu
+  178: GenderRatio.MALE_50,   // Xatu
+  179: GenderRatio.MALE_50,   // Mareep
+  180: GenderRatio.MALE_50,   // Flaaffy
+  181: GenderRatio.MALE_50,   // Ampharos
+  182: GenderRatio.MALE_50,   // Bellossom
+  183: GenderRatio.MALE_50,   // Marill
+  184: GenderRatio.MALE_50,   // Azumarill
+  185: GenderRatio.MALE_50,   // Sudowoodo
+  186: GenderRatio.MALE_50,   // Politoed
+  187: GenderRatio.MALE_50,   // Hoppip
+  188: GenderRatio.MALE_50,   // Skiploom
+  189: GenderRatio.MALE_50,   // Jumpluff
+  190: GenderRatio.MALE_50,   // Aipom
+  191: GenderRatio.MALE_50,   // Sunkern
+  192: GenderRatio.MALE_50,   // Sunflora
+  193: GenderRatio.MALE_50,   // Yanma
+  194: GenderRatio.MALE_50,   // Wooper
+  195: GenderRatio.MALE_50,   // Quagsire
   196: GenderRatio.MALE_87_5, // Espeon
   197: GenderRatio.MALE_87_5, // Umbreon
+  198: GenderRatio.MALE_50,   // Murkrow
+  199: GenderRatio.MALE_50,   // Slowking
+  200: GenderRatio.MALE_50,   // Misdreavus
+  201: GenderRatio.GENDERLESS,// Unown
+  202: GenderRatio.MALE_50,   // Wobbuffet
+  203: GenderRatio.MALE_50,   // Girafarig
+  204: GenderRatio.MALE_50,   // Pineco
+  205: GenderRatio.MALE_50,   // Forretress
+  206: GenderRatio.MALE_50,   // Dunsparce
+  207: GenderRatio.MALE_50,   // Gligar
+  208: GenderRatio.MALE_50,   // Steelix
+  209: GenderRatio.MALE_25,   // Snubbull
+  210: GenderRatio.MALE_25,   // Granbull
+  211: GenderRatio.MALE_50,   // Qwilfish
+  212: GenderRatio.MALE_50,   // Scizor
+  213: GenderRatio.MALE_50,   // Shuckle
+  214: GenderRatio.MALE_50,   // Heracross
+  215: GenderRatio.MALE_50,   // Sneasel
+  216: GenderRatio.MALE_50,   // Teddiursa
+  217: GenderRatio.MALE_50,   // Ursaring
+  218: GenderRatio.MALE_50,   // Slugma
+  219: GenderRatio.MALE_50,   // Magcargo
+  220: GenderRatio.MALE_50,   // Swinub
+  221: GenderRatio.MALE_50,   // Piloswine
+  222: GenderRatio.MALE_25,   // Corsola
+  223: GenderRatio.MALE_50,   // Remoraid
+  224: GenderRatio.MALE_50,   // Octillery
+  225: GenderRatio.MALE_50,   // Delibird
+  226: GenderRatio.MALE_50,   // Mantine
+  227: GenderRatio.MALE_50,   // Skarmory
+  228: GenderRatio.MALE_50,   // Houndour
+  229: GenderRatio.MALE_50,   // Houndoom
+  230: GenderRatio.MALE_50,   // Kingdra
+  231: GenderRatio.MALE_50,   // Phanpy
+  232: GenderRatio.MALE_50,   // Donphan
+  233: GenderRatio.GENDERLESS,// Porygon2
+  234: GenderRatio.MALE_50,   // Stantler
+  235: GenderRatio.MALE_50,   // Smeargle
   236: GenderRatio.MALE_ONLY, // Tyrogue
   237: GenderRatio.MALE_ONLY, // Hitmontop
-  238: GenderRatio.MALE_50,   // Smoochum
-  239: GenderRatio.MALE_50,   // Elekid
-  240: GenderRatio.MALE_50,   // Magby
+  238: GenderRatio.FEMALE_ONLY,// Smoochum
+  239: GenderRatio.MALE_75,   // Elekid
+  240: GenderRatio.MALE_75,   // Magby
   241: GenderRatio.FEMALE_ONLY,// Miltank
   242: GenderRatio.FEMALE_ONLY,// Blissey
   243: GenderRatio.GENDERLESS,// Raikou
   244: GenderRatio.GENDERLESS,// Entei
   245: GenderRatio.GENDERLESS,// Suicune
+  246: GenderRatio.MALE_50,   // Larvitar
+  247: GenderRatio.MALE_50,   // Pupitar
+  248: GenderRatio.MALE_50,   // Tyranitar
   249: GenderRatio.GENDERLESS,// Lugia
   250: GenderRatio.GENDERLESS,// Ho-Oh
   251: GenderRatio.GENDERLESS,// Celebi
-  
-  // Gen 3 starters (87.5% male)
+
+  // Gen 3
   252: GenderRatio.MALE_87_5, // Treecko
   253: GenderRatio.MALE_87_5, // Grovyle
   254: GenderRatio.MALE_87_5, // Sceptile
@@ -105,17 +287,119 @@ const SPECIES_GENDER_RATIOS: { [key: number]: number } = {
   258: GenderRatio.MALE_87_5, // Mudkip
   259: GenderRatio.MALE_87_5, // Marshtomp
   260: GenderRatio.MALE_87_5, // Swampert
-  
-  // Gen 3 Pokemon
+  261: GenderRatio.MALE_50,   // Poochyena
+  262: GenderRatio.MALE_50,   // Mightyena
+  263: GenderRatio.MALE_50,   // Zigzagoon
+  264: GenderRatio.MALE_50,   // Linoone
+  265: GenderRatio.MALE_50,   // Wurmple
+  266: GenderRatio.MALE_50,   // Silcoon
+  267: GenderRatio.MALE_50,   // Beautifly
+  268: GenderRatio.MALE_50,   // Cascoon
+  269: GenderRatio.MALE_50,   // Dustox
+  270: GenderRatio.MALE_50,   // Lotad
+  271: GenderRatio.MALE_50,   // Lombre
+  272: GenderRatio.MALE_50,   // Ludicolo
+  273: GenderRatio.MALE_50,   // Seedot
+  274: GenderRatio.MALE_50,   // Nuzleaf
+  275: GenderRatio.MALE_50,   // Shiftry
+  276: GenderRatio.MALE_50,   // Taillow
+  277: GenderRatio.MALE_50,   // Swellow
+  278: GenderRatio.MALE_50,   // Wingull
+  279: GenderRatio.MALE_50,   // Pelipper
   280: GenderRatio.MALE_50,   // Ralts
   281: GenderRatio.MALE_50,   // Kirlia
   282: GenderRatio.MALE_50,   // Gardevoir
+  283: GenderRatio.MALE_50,   // Surskit
+  284: GenderRatio.MALE_50,   // Masquerain
+  285: GenderRatio.MALE_50,   // Shroomish
+  286: GenderRatio.MALE_50,   // Breloom
+  287: GenderRatio.MALE_50,   // Slakoth
+  288: GenderRatio.MALE_50,   // Vigoroth
+  289: GenderRatio.MALE_50,   // Slaking
+  290: GenderRatio.MALE_50,   // Nincada
+  291: GenderRatio.MALE_50,   // Ninjask
   292: GenderRatio.GENDERLESS,// Shedinja
+  293: GenderRatio.MALE_50,   // Whismur
+  294: GenderRatio.MALE_50,   // Loudred
+  295: GenderRatio.MALE_50,   // Exploud
+  296: GenderRatio.MALE_75,   // Makuhita
+  297: GenderRatio.MALE_75,   // Hariyama
+  298: GenderRatio.MALE_25,   // Azurill
+  299: GenderRatio.MALE_50,   // Nosepass
+  300: GenderRatio.MALE_25,   // Skitty
+  301: GenderRatio.MALE_25,   // Delcatty
+  302: GenderRatio.MALE_50,   // Sableye
   303: GenderRatio.MALE_50,   // Mawile
+  304: GenderRatio.MALE_50,   // Aron
+  305: GenderRatio.MALE_50,   // Lairon
+  306: GenderRatio.MALE_50,   // Aggron
+  307: GenderRatio.MALE_50,   // Meditite
+  308: GenderRatio.MALE_50,   // Medicham
+  309: GenderRatio.MALE_50,   // Electrike
+  310: GenderRatio.MALE_50,   // Manectric
+  311: GenderRatio.MALE_50,   // Plusle
+  312: GenderRatio.MALE_50,   // Minun
+  313: GenderRatio.MALE_ONLY, // Volbeat
+  314: GenderRatio.FEMALE_ONLY,// Illumise
+  315: GenderRatio.MALE_50,   // Roselia
+  316: GenderRatio.MALE_50,   // Gulpin
+  317: GenderRatio.MALE_50,   // Swalot
+  318: GenderRatio.MALE_50,   // Carvanha
+  319: GenderRatio.MALE_50,   // Sharpedo
+  320: GenderRatio.MALE_50,   // Wailmer
+  321: GenderRatio.MALE_50,   // Wailord
+  322: GenderRatio.MALE_50,   // Numel
+  323: GenderRatio.MALE_50,   // Camerupt
+  324: GenderRatio.MALE_50,   // Torkoal
+  325: GenderRatio.MALE_50,   // Spoink
+  326: GenderRatio.MALE_50,   // Grumpig
+  327: GenderRatio.MALE_50,   // Spinda
+  328: GenderRatio.MALE_50,   // Trapinch
+  329: GenderRatio.MALE_50,   // Vibrava
+  330: GenderRatio.MALE_50,   // Flygon
+  331: GenderRatio.MALE_50,   // Cacnea
+  332: GenderRatio.MALE_50,   // Cacturne
+  333: GenderRatio.MALE_50,   // Swablu
+  334: GenderRatio.MALE_50,   // Altaria
+  335: GenderRatio.MALE_50,   // Zangoose
+  336: GenderRatio.MALE_50,   // Seviper
   337: GenderRatio.GENDERLESS,// Lunatone
   338: GenderRatio.GENDERLESS,// Solrock
+  339: GenderRatio.MALE_50,   // Barboach
+  340: GenderRatio.MALE_50,   // Whiscash
+  341: GenderRatio.MALE_50,   // Corphish
+  342: GenderRatio.MALE_50,   // Crawdaunt
   343: GenderRatio.GENDERLESS,// Baltoy
   344: GenderRatio.GENDERLESS,// Claydol
+  345: GenderRatio.MALE_87_5, // Lileep
+  346: GenderRatio.MALE_87_5, // Cradily
+  347: GenderRatio.MALE_87_5, // Anorith
+  348: GenderRatio.MALE_87_5, // Armaldo
+  349: GenderRatio.MALE_50,   // Feebas
+  350: GenderRatio.MALE_50,   // Milotic
+  351: GenderRatio.MALE_50,   // Castform
+  352: GenderRatio.MALE_50,   // Kecleon
+  353: GenderRatio.MALE_50,   // Shuppet
+  354: GenderRatio.MALE_50,   // Banette
+  355: GenderRatio.MALE_50,   // Duskull
+  356: GenderRatio.MALE_50,   // Dusclops
+  357: GenderRatio.MALE_50,   // Tropius
+  358: GenderRatio.MALE_50,   // Chimecho
+  359: GenderRatio.MALE_50,   // Absol
+  360: GenderRatio.MALE_50,   // Wynaut
+  361: GenderRatio.MALE_50,   // Snorunt
+  362: GenderRatio.MALE_50,   // Glalie
+  363: GenderRatio.MALE_50,   // Spheal
+  364: GenderRatio.MALE_50,   // Sealeo
+  365: GenderRatio.MALE_50,   // Walrein
+  366: GenderRatio.MALE_50,   // Clamperl
+  367: GenderRatio.MALE_50,   // Huntail
+  368: GenderRatio.MALE_50,   // Gorebyss
+  369: GenderRatio.MALE_87_5, // Relicanth
+  370: GenderRatio.MALE_25,   // Luvdisc
+  371: GenderRatio.MALE_50,   // Bagon
+  372: GenderRatio.MALE_50,   // Shelgon
+  373: GenderRatio.MALE_50,   // Salamence
   374: GenderRatio.GENDERLESS,// Beldum
   375: GenderRatio.GENDERLESS,// Metang
   376: GenderRatio.GENDERLESS,// Metagross
@@ -133,11 +417,7 @@ const SPECIES_GENDER_RATIOS: { [key: number]: number } = {
 
 /**
  * Get gender ratio for a species
- * Returns 50/50 ratio as default if species not found in mapping
- * 
- * Note: This default assumes unknown species follow the most common 50/50 distribution.
- * Most Pokemon in the games have either 50/50 or 87.5% male ratios, so this is a
- * reasonable fallback for unmapped species, though not 100% accurate for all cases.
+ * Returns 50/50 ratio as default for IDs outside 1-386
  */
 function getGenderRatio(species: number): number {
   return SPECIES_GENDER_RATIOS[species] ?? GenderRatio.MALE_50;
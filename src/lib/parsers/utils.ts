@@ -31,12 +31,20 @@ const GEN12_CHAR_MAP: { [key: number]: string } = {
   
   // Special characters
   0x7F: ' ',
+  0x9A: '(',
+  0x9B: ')',
+  0x9C: ':',
+  0xE0: "'",
   0xE1: 'PK',
   0xE2: 'MN',
-  0xE6: '-',
-  0xE7: '?',
-  0xE8: '!',
-  0xF4: '.',
+  0xE3: '-',
+  0xE6: '?',
+  0xE7: '!',
+  0xE8: '.',
+  0xEF: '♂',
+  0xF3: '/',
+  0xF4: ',',
+  0xF5: '♀',
 };
 
 /**
@@ -74,6 +82,13 @@ export function decodeGen12String(view: DataView, offset: number, maxLength: num
   return chars.join('');
 }
 
+/**
+ * Whether every character of a string exists in the Gen 1/2 charset
+ */
+export function isGen12Encodable(str: string): boolean {
+  return [...str].every(char => GEN12_REVERSE_MAP[char] !== undefined);
+}
+
 /**
  * Encode string to Gen 1/2 format
  */
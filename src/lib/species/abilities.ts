@@ -0,0 +1,407 @@
+/**
+ * Species abilities for Gen 3
+ * Gen 3 stores only which of a species' two ability slots a Pokémon has;
+ * Gen 4 stores the ability ID itself, which uses the same numbering
+ */
+
+/**
+ * Ability IDs for both slots, by National Dex number (1-386)
+ * Species with a single ability list it twice
+ */
+const SPECIES_ABILITIES: readonly (readonly [number, number])[] = [
+  [0, 0], // 0 placeholder
+  [65, 65], // 1 Bulbasaur
+  [65, 65], // 2 Ivysaur
+  [65, 65], // 3 Venusaur
+  [66, 66], // 4 Charmander
+  [66, 66], // 5 Charmeleon
+  [66, 66], // 6 Charizard
+  [67, 67], // 7 Squirtle
+  [67, 67], // 8 Wartortle
+  [67, 67], // 9 Blastoise
+  [19, 19], // 10 Caterpie
+  [61, 61], // 11 Metapod
+  [14, 14], // 12 Butterfree
+  [19, 19], // 13 Weedle
+  [61, 61], // 14 Kakuna
+  [68, 68], // 15 Beedrill
+  [51, 51], // 16 Pidgey
+  [51, 51], // 17 Pidgeotto
+  [51, 51], // 18 Pidgeot
+  [50, 62], // 19 Rattata
+  [50, 62], // 20 Raticate
+  [51, 51], // 21 Spearow
+  [51, 51], // 22 Fearow
+  [22, 61], // 23 Ekans
+  [22, 61], // 24 Arbok
+  [9, 9], // 25 Pikachu
+  [9, 9], // 26 Raichu
+  [8, 8], // 27 Sandshrew
+  [8, 8], // 28 Sandslash
+  [38, 38], // 29 Nidoran♀
+  [38, 38], // 30 Nidorina
+  [38, 38], // 31 Nidoqueen
+  [38, 38], // 32 Nidoran♂
+  [38, 38], // 33 Nidorino
+  [38, 38], // 34 Nidoking
+  [56, 56], // 35 Clefairy
+  [56, 56], // 36 Clefable
+  [18, 18], // 37 Vulpix
+  [18, 18], // 38 Ninetales
+  [56, 56], // 39 Jigglypuff
+  [56, 56], // 40 Wigglytuff
+  [39, 39], // 41 Zubat
+  [39, 39], // 42 Golbat
+  [34, 34], // 43 Oddish
+  [34, 34], // 44 Gloom
+  [34, 34], // 45 Vileplume
+  [27, 27], // 46 Paras
+  [27, 27], // 47 Parasect
+  [14, 14], // 48 Venonat
+  [19, 19], // 49 Venomoth
+  [8, 71], // 50 Diglett
+  [8, 71], // 51 Dugtrio
+  [53, 53], // 52 Meowth
+  [7, 7], // 53 Persian
+  [6, 13], // 54 Psyduck
+  [6, 13], // 55 Golduck
+  [72, 72], // 56 Mankey
+  [72, 72], // 57 Primeape
+  [22, 18], // 58 Growlithe
+  [22, 18], // 59 Arcanine
+  [11, 6], // 60 Poliwag
+  [11, 6], // 61 Poliwhirl
+  [11, 6], // 62 Poliwrath
+  [28, 39], // 63 Abra
+  [28, 39], // 64 Kadabra
+  [28, 39], // 65 Alakazam
+  [62, 62], // 66 Machop
+  [62, 62], // 67 Machoke
+  [62, 62], // 68 Machamp
+  [34, 34], // 69 Bellsprout
+  [34, 34], // 70 Weepinbell
+  [34, 34], // 71 Victreebel
+  [29, 64], // 72 Tentacool
+  [29, 64], // 73 Tentacruel
+  [69, 5], // 74 Geodude
+  [69, 5], // 75 Graveler
+  [69, 5], // 76 Golem
+  [50, 18], // 77 Ponyta
+  [50, 18], // 78 Rapidash
+  [12, 20], // 79 Slowpoke
+  [12, 20], // 80 Slowbro
+  [42, 5], // 81 Magnemite
+  [42, 5], // 82 Magneton
+  [51, 39], // 83 Farfetch'd
+  [50, 48], // 84 Doduo
+  [50, 48], // 85 Dodrio
+  [47, 47], // 86 Seel
+  [47, 47], // 87 Dewgong
+  [1, 60], // 88 Grimer
+  [1, 60], // 89 Muk
+  [75, 75], // 90 Shellder
+  [75, 75], // 91 Cloyster
+  [26, 26], // 92 Gastly
+  [26, 26], // 93 Haunter
+  [26, 26], // 94 Gengar
+  [69, 5], // 95 Onix
+  [15, 15], // 96 Drowzee
+  [15, 15], // 97 Hypno
+  [52, 75], // 98 Krabby
+  [52, 75], // 99 Kingler
+  [43, 9], // 100 Voltorb
+  [43, 9], // 101 Electrode
+  [34, 34], // 102 Exeggcute
+  [34, 34], // 103 Exeggutor
+  [69, 31], // 104 Cubone
+  [69, 31], // 105 Marowak
+  [7, 7], // 106 Hitmonlee
+  [51, 51], // 107 Hitmonchan
+  [20, 12], // 108 Lickitung
+  [26, 26], // 109 Koffing
+  [26, 26], // 110 Weezing
+  [31, 69], // 111 Rhyhorn
+  [31, 69], // 112 Rhydon
+  [30, 32], // 113 Chansey
+  [34, 34], // 114 Tangela
+  [48, 48], // 115 Kangaskhan
+  [33, 33], // 116 Horsea
+  [38, 38], // 117 Seadra
+  [33, 41], // 118 Goldeen
+  [33, 41], // 119 Seaking
+  [35, 30], // 120 Staryu
+  [35, 30], // 121 Starmie
+  [43, 43], // 122 Mr. Mime
+  [68, 68], // 123 Scyther
+  [12, 12], // 124 Jynx
+  [9, 9], // 125 Electabuzz
+  [49, 49], // 126 Magmar
+  [52, 52], // 127 Pinsir
+  [22, 22], // 128 Tauros
+  [33, 33], // 129 Magikarp
+  [22, 22], // 130 Gyarados
+  [11, 75], // 131 Lapras
+  [7, 7], // 132 Ditto
+  [50, 50], // 133 Eevee
+  [11, 11], // 134 Vaporeon
+  [10, 10], // 135 Jolteon
+  [18, 18], // 136 Flareon
+  [36, 36], // 137 Porygon
+  [33, 75], // 138 Omanyte
+  [33, 75], // 139 Omastar
+  [33, 4], // 140 Kabuto
+  [33, 4], // 141 Kabutops
+  [69, 46], // 142 Aerodactyl
+  [17, 47], // 143 Snorlax
+  [46, 46], // 144 Articuno
+  [46, 46], // 145 Zapdos
+  [46, 46], // 146 Moltres
+  [61, 61], // 147 Dratini
+  [61, 61], // 148 Dragonair
+  [39, 39], // 149 Dragonite
+  [46, 46], // 150 Mewtwo
+  [28, 28], // 151 Mew
+  [65, 65], // 152 Chikorita
+  [65, 65], // 153 Bayleef
+  [65, 65], // 154 Meganium
+  [66, 66], // 155 Cyndaquil
+  [66, 66], // 156 Quilava
+  [66, 66], // 157 Typhlosion
+  [67, 67], // 158 Totodile
+  [67, 67], // 159 Croconaw
+  [67, 67], // 160 Feraligatr
+  [50, 51], // 161 Sentret
+  [50, 51], // 162 Furret
+  [15, 51], // 163 Hoothoot
+  [15, 51], // 164 Noctowl
+  [68, 48], // 165 Ledyba
+  [68, 48], // 166 Ledian
+  [68, 15], // 167 Spinarak
+  [68, 15], // 168 Ariados
+  [39, 39], // 169 Crobat
+  [10, 35], // 170 Chinchou
+  [10, 35], // 171 Lanturn
+  [9, 9], // 172 Pichu
+  [56, 56], // 173 Cleffa
+  [56, 56], // 174 Igglybuff
+  [55, 32], // 175 Togepi
+  [55, 32], // 176 Togetic
+  [28, 48], // 177 Natu
+  [28, 48], // 178 Xatu
+  [9, 9], // 179 Mareep
+  [9, 9], // 180 Flaaffy
+  [9, 9], // 181 Ampharos
+  [34, 34], // 182 Bellossom
+  [47, 37], // 183 Marill
+  [47, 37], // 184 Azumarill
+  [5, 69], // 185 Sudowoodo
+  [11, 6], // 186 Politoed
+  [34, 34], // 187 Hoppip
+  [34, 34], // 188 Skiploom
+  [34, 34], // 189 Jumpluff
+  [50, 53], // 190 Aipom
+  [34, 34], // 191 Sunkern
+  [34, 34], // 192 Sunflora
+  [3, 14], // 193 Yanma
+  [6, 11], // 194 Wooper
+  [6, 11], // 195 Quagsire
+  [28, 28], // 196 Espeon
+  [28, 28], // 197 Umbreon
+  [15, 15], // 198 Murkrow
+  [12, 20], // 199 Slowking
+  [26, 26], // 200 Misdreavus
+  [26, 26], // 201 Unown
+  [23, 23], // 202 Wobbuffet
+  [39, 48], // 203 Girafarig
+  [5, 5], // 204 Pineco
+  [5, 5], // 205 Forretress
+  [32, 50], // 206 Dunsparce
+  [52, 8], // 207 Gligar
+  [69, 5], // 208 Steelix
+  [22, 50], // 209 Snubbull
+  [22, 22], // 210 Granbull
+  [38, 33], // 211 Qwilfish
+  [68, 68], // 212 Scizor
+  [5, 5], // 213 Shuckle
+  [68, 62], // 214 Heracross
+  [39, 51], // 215 Sneasel
+  [53, 53], // 216 Teddiursa
+  [62, 62], // 217 Ursaring
+  [40, 49], // 218 Slugma
+  [40, 49], // 219 Magcargo
+  [12, 12], // 220 Swinub
+  [12, 12], // 221 Piloswine
+  [55, 30], // 222 Corsola
+  [55, 55], // 223 Remoraid
+  [21, 21], // 224 Octillery
+  [72, 55], // 225 Delibird
+  [33, 11], // 226 Mantine
+  [51, 5], // 227 Skarmory
+  [48, 18], // 228 Houndour
+  [48, 18], // 229 Houndoom
+  [33, 33], // 230 Kingdra
+  [53, 53], // 231 Phanpy
+  [5, 5], // 232 Donphan
+  [36, 36], // 233 Porygon2
+  [22, 22], // 234 Stantler
+  [20, 20], // 235 Smeargle
+  [62, 62], // 236 Tyrogue
+  [22, 22], // 237 Hitmontop
+  [12, 12], // 238 Smoochum
+  [9, 9], // 239 Elekid
+  [49, 49], // 240 Magby
+  [47, 47], // 241 Miltank
+  [30, 32], // 242 Blissey
+  [46, 46], // 243 Raikou
+  [46, 46], // 244 Entei
+  [46, 46], // 245 Suicune
+  [62, 62], // 246 Larvitar
+  [61, 61], // 247 Pupitar
+  [45, 45], // 248 Tyranitar
+  [46, 46], // 249 Lugia
+  [46, 46], // 250 Ho-Oh
+  [30, 30], // 251 Celebi
+  [65, 65], // 252 Treecko
+  [65, 65], // 253 Grovyle
+  [65, 65], // 254 Sceptile
+  [66, 66], // 255 Torchic
+  [66, 66], // 256 Combusken
+  [66, 66], // 257 Blaziken
+  [67, 67], // 258 Mudkip
+  [67, 67], // 259 Marshtomp
+  [67, 67], // 260 Swampert
+  [50, 50], // 261 Poochyena
+  [22, 22], // 262 Mightyena
+  [53, 53], // 263 Zigzagoon
+  [53, 53], // 264 Linoone
+  [19, 19], // 265 Wurmple
+  [61, 61], // 266 Silcoon
+  [68, 68], // 267 Beautifly
+  [61, 61], // 268 Cascoon
+  [19, 19], // 269 Dustox
+  [33, 44], // 270 Lotad
+  [33, 44], // 271 Lombre
+  [33, 44], // 272 Ludicolo
+  [34, 48], // 273 Seedot
+  [34, 48], // 274 Nuzleaf
+  [34, 48], // 275 Shiftry
+  [62, 62], // 276 Taillow
+  [62, 62], // 277 Swellow
+  [51, 51], // 278 Wingull
+  [51, 51], // 279 Pelipper
+  [28, 36], // 280 Ralts
+  [28, 36], // 281 Kirlia
+  [28, 36], // 282 Gardevoir
+  [33, 33], // 283 Surskit
+  [22, 22], // 284 Masquerain
+  [27, 27], // 285 Shroomish
+  [27, 27], // 286 Breloom
+  [54, 54], // 287 Slakoth
+  [72, 72], // 288 Vigoroth
+  [54, 54], // 289 Slaking
+  [14, 14], // 290 Nincada
+  [3, 3], // 291 Ninjask
+  [25, 25], // 292 Shedinja
+  [43, 43], // 293 Whismur
+  [43, 43], // 294 Loudred
+  [43, 43], // 295 Exploud
+  [47, 62], // 296 Makuhita
+  [47, 62], // 297 Hariyama
+  [47, 37], // 298 Azurill
+  [5, 42], // 299 Nosepass
+  [56, 56], // 300 Skitty
+  [56, 56], // 301 Delcatty
+  [51, 51], // 302 Sableye
+  [52, 22], // 303 Mawile
+  [5, 69], // 304 Aron
+  [5, 69], // 305 Lairon
+  [5, 69], // 306 Aggron
+  [74, 74], // 307 Meditite
+  [74, 74], // 308 Medicham
+  [9, 31], // 309 Electrike
+  [9, 31], // 310 Manectric
+  [57, 57], // 311 Plusle
+  [58, 58], // 312 Minun
+  [35, 68], // 313 Volbeat
+  [12, 12], // 314 Illumise
+  [30, 38], // 315 Roselia
+  [64, 60], // 316 Gulpin
+  [64, 60], // 317 Swalot
+  [24, 24], // 318 Carvanha
+  [24, 24], // 319 Sharpedo
+  [41, 12], // 320 Wailmer
+  [41, 12], // 321 Wailord
+  [12, 12], // 322 Numel
+  [40, 40], // 323 Camerupt
+  [73, 73], // 324 Torkoal
+  [47, 20], // 325 Spoink
+  [47, 20], // 326 Grumpig
+  [20, 20], // 327 Spinda
+  [52, 71], // 328 Trapinch
+  [26, 26], // 329 Vibrava
+  [26, 26], // 330 Flygon
+  [8, 8], // 331 Cacnea
+  [8, 8], // 332 Cacturne
+  [30, 30], // 333 Swablu
+  [30, 30], // 334 Altaria
+  [17, 17], // 335 Zangoose
+  [61, 61], // 336 Seviper
+  [26, 26], // 337 Lunatone
+  [26, 26], // 338 Solrock
+  [12, 12], // 339 Barboach
+  [12, 12], // 340 Whiscash
+  [52, 75], // 341 Corphish
+  [52, 75], // 342 Crawdaunt
+  [26, 26], // 343 Baltoy
+  [26, 26], // 344 Claydol
+  [21, 21], // 345 Lileep
+  [21, 21], // 346 Cradily
+  [4, 4], // 347 Anorith
+  [4, 4], // 348 Armaldo
+  [33, 33], // 349 Feebas
+  [63, 63], // 350 Milotic
+  [59, 59], // 351 Castform
+  [16, 16], // 352 Kecleon
+  [15, 15], // 353 Shuppet
+  [15, 15], // 354 Banette
+  [26, 26], // 355 Duskull
+  [46, 46], // 356 Dusclops
+  [34, 34], // 357 Tropius
+  [26, 26], // 358 Chimecho
+  [46, 46], // 359 Absol
+  [23, 23], // 360 Wynaut
+  [39, 39], // 361 Snorunt
+  [39, 39], // 362 Glalie
+  [47, 47], // 363 Spheal
+  [47, 47], // 364 Sealeo
+  [47, 47], // 365 Walrein
+  [75, 75], // 366 Clamperl
+  [33, 33], // 367 Huntail
+  [33, 33], // 368 Gorebyss
+  [33, 69], // 369 Relicanth
+  [33, 33], // 370 Luvdisc
+  [69, 69], // 371 Bagon
+  [69, 69], // 372 Shelgon
+  [22, 22], // 373 Salamence
+  [29, 29], // 374 Beldum
+  [29, 29], // 375 Metang
+  [29, 29], // 376 Metagross
+  [29, 29], // 377 Regirock
+  [29, 29], // 378 Regice
+  [29, 29], // 379 Registeel
+  [26, 26], // 380 Latias
+  [26, 26], // 381 Latios
+  [2, 2], // 382 Kyogre
+  [70, 70], // 383 Groudon
+  [76, 76], // 384 Rayquaza
+  [32, 32], // 385 Jirachi
+  [46, 46], // 386 Deoxys
+];
+
+/**
+ * Get the ability ID for a species and ability slot (0 or 1)
+ * Returns 0 for numbers outside the Gen 3 range
+ */
+export function getSpeciesAbility(nationalDex: number, abilitySlot: 0 | 1): number {
+  return SPECIES_ABILITIES[nationalDex]?.[abilitySlot] ?? 0;
+}
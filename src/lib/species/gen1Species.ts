@@ -0,0 +1,181 @@
+/**
+ * Gen 1 species data
+ * Red/Blue/Yellow store species by their own internal index rather than the
+ * National Dex number, and box data repeats each species' types
+ */
+
+export interface Gen1SpeciesData {
+  index: number; // Internal species index
+  types: [number, number]; // Gen 1 type IDs; single-typed species list the type twice
+  special: number; // Base Special, which Gen 2 split into Sp. Atk and Sp. Def
+}
+
+/**
+ * [internal index, type 1, type 2, base Special] by National Dex number (1-151)
+ */
+const GEN1_SPECIES: readonly (readonly [number, number, number, number])[] = [
+  [0, 0, 0, 0], // 0 placeholder
+  [153, 22, 3, 65], // 1 Bulbasaur
+  [9, 22, 3, 80], // 2 Ivysaur
+  [154, 22, 3, 100], // 3 Venusaur
+  [176, 20, 20, 50], // 4 Charmander
+  [178, 20, 20, 65], // 5 Charmeleon
+  [180, 20, 2, 85], // 6 Charizard
+  [177, 21, 21, 50], // 7 Squirtle
+  [179, 21, 21, 65], // 8 Wartortle
+  [28, 21, 21, 85], // 9 Blastoise
+  [123, 7, 7, 20], // 10 Caterpie
+  [124, 7, 7, 25], // 11 Metapod
+  [125, 7, 2, 80], // 12 Butterfree
+  [112, 7, 3, 20], // 13 Weedle
+  [113, 7, 3, 25], // 14 Kakuna
+  [114, 7, 3, 45], // 15 Beedrill
+  [36, 0, 2, 35], // 16 Pidgey
+  [150, 0, 2, 50], // 17 Pidgeotto
+  [151, 0, 2, 70], // 18 Pidgeot
+  [165, 0, 0, 25], // 19 Rattata
+  [166, 0, 0, 50], // 20 Raticate
+  [5, 0, 2, 31], // 21 Spearow
+  [35, 0, 2, 61], // 22 Fearow
+  [108, 3, 3, 40], // 23 Ekans
+  [45, 3, 3, 65], // 24 Arbok
+  [84, 23, 23, 50], // 25 Pikachu
+  [85, 23, 23, 90], // 26 Raichu
+  [96, 4, 4, 30], // 27 Sandshrew
+  [97, 4, 4, 55], // 28 Sandslash
+  [15, 3, 3, 40], // 29 Nidoran♀
+  [168, 3, 3, 55], // 30 Nidorina
+  [16, 3, 4, 75], // 31 Nidoqueen
+  [3, 3, 3, 40], // 32 Nidoran♂
+  [167, 3, 3, 55], // 33 Nidorino
+  [7, 3, 4, 75], // 34 Nidoking
+  [4, 0, 0, 60], // 35 Clefairy
+  [142, 0, 0, 85], // 36 Clefable
+  [82, 20, 20, 65], // 37 Vulpix
+  [83, 20, 20, 100], // 38 Ninetales
+  [100, 0, 0, 25], // 39 Jigglypuff
+  [101, 0, 0, 50], // 40 Wigglytuff
+  [107, 3, 2, 40], // 41 Zubat
+  [130, 3, 2, 75], // 42 Golbat
+  [185, 22, 3, 75], // 43 Oddish
+  [186, 22, 3, 85], // 44 Gloom
+  [187, 22, 3, 100], // 45 Vileplume
+  [109, 7, 22, 55], // 46 Paras
+  [46, 7, 22, 80], // 47 Parasect
+  [65, 7, 3, 40], // 48 Venonat
+  [119, 7, 3, 90], // 49 Venomoth
+  [59, 4, 4, 45], // 50 Diglett
+  [118, 4, 4, 70], // 51 Dugtrio
+  [77, 0, 0, 40], // 52 Meowth
+  [144, 0, 0, 65], // 53 Persian
+  [47, 21, 21, 50], // 54 Psyduck
+  [128, 21, 21, 80], // 55 Golduck
+  [57, 1, 1, 35], // 56 Mankey
+  [117, 1, 1, 60], // 57 Primeape
+  [33, 20, 20, 50], // 58 Growlithe
+  [20, 20, 20, 80], // 59 Arcanine
+  [71, 21, 21, 40], // 60 Poliwag
+  [110, 21, 21, 50], // 61 Poliwhirl
+  [111, 21, 1, 70], // 62 Poliwrath
+  [148, 24, 24, 105], // 63 Abra
+  [38, 24, 24, 120], // 64 Kadabra
+  [149, 24, 24, 135], // 65 Alakazam
+  [106, 1, 1, 35], // 66 Machop
+  [41, 1, 1, 50], // 67 Machoke
+  [126, 1, 1, 65], // 68 Machamp
+  [188, 22, 3, 70], // 69 Bellsprout
+  [189, 22, 3, 85], // 70 Weepinbell
+  [190, 22, 3, 100], // 71 Victreebel
+  [24, 21, 3, 100], // 72 Tentacool
+  [155, 21, 3, 120], // 73 Tentacruel
+  [169, 5, 4, 30], // 74 Geodude
+  [39, 5, 4, 45], // 75 Graveler
+  [49, 5, 4, 55], // 76 Golem
+  [163, 20, 20, 65], // 77 Ponyta
+  [164, 20, 20, 80], // 78 Rapidash
+  [37, 21, 24, 40], // 79 Slowpoke
+  [8, 21, 24, 80], // 80 Slowbro
+  [173, 23, 23, 95], // 81 Magnemite
+  [54, 23, 23, 120], // 82 Magneton
+  [64, 0, 2, 58], // 83 Farfetch'd
+  [70, 0, 2, 35], // 84 Doduo
+  [116, 0, 2, 60], // 85 Dodrio
+  [58, 21, 21, 70], // 86 Seel
+  [120, 21, 25, 95], // 87 Dewgong
+  [13, 3, 3, 40], // 88 Grimer
+  [136, 3, 3, 65], // 89 Muk
+  [23, 21, 21, 45], // 90 Shellder
+  [139, 21, 25, 85], // 91 Cloyster
+  [25, 8, 3, 100], // 92 Gastly
+  [147, 8, 3, 115], // 93 Haunter
+  [14, 8, 3, 130], // 94 Gengar
+  [34, 5, 4, 30], // 95 Onix
+  [48, 24, 24, 90], // 96 Drowzee
+  [129, 24, 24, 115], // 97 Hypno
+  [78, 21, 21, 25], // 98 Krabby
+  [138, 21, 21, 50], // 99 Kingler
+  [6, 23, 23, 55], // 100 Voltorb
+  [141, 23, 23, 80], // 101 Electrode
+  [12, 22, 24, 60], // 102 Exeggcute
+  [10, 22, 24, 125], // 103 Exeggutor
+  [17, 4, 4, 40], // 104 Cubone
+  [145, 4, 4, 50], // 105 Marowak
+  [43, 1, 1, 35], // 106 Hitmonlee
+  [44, 1, 1, 35], // 107 Hitmonchan
+  [11, 0, 0, 60], // 108 Lickitung
+  [55, 3, 3, 60], // 109 Koffing
+  [143, 3, 3, 85], // 110 Weezing
+  [18, 4, 5, 30], // 111 Rhyhorn
+  [1, 4, 5, 45], // 112 Rhydon
+  [40, 0, 0, 105], // 113 Chansey
+  [30, 22, 22, 100], // 114 Tangela
+  [2, 0, 0, 40], // 115 Kangaskhan
+  [92, 21, 21, 70], // 116 Horsea
+  [93, 21, 21, 95], // 117 Seadra
+  [157, 21, 21, 50], // 118 Goldeen
+  [158, 21, 21, 80], // 119 Seaking
+  [27, 21, 21, 70], // 120 Staryu
+  [152, 21, 24, 100], // 121 Starmie
+  [42, 24, 24, 100], // 122 Mr. Mime
+  [26, 7, 2, 55], // 123 Scyther
+  [72, 25, 24, 95], // 124 Jynx
+  [53, 23, 23, 85], // 125 Electabuzz
+  [51, 20, 20, 85], // 126 Magmar
+  [29, 7, 7, 55], // 127 Pinsir
+  [60, 0, 0, 70], // 128 Tauros
+  [133, 21, 21, 20], // 129 Magikarp
+  [22, 21, 2, 100], // 130 Gyarados
+  [19, 21, 25, 95], // 131 Lapras
+  [76, 0, 0, 48], // 132 Ditto
+  [102, 0, 0, 65], // 133 Eevee
+  [105, 21, 21, 110], // 134 Vaporeon
+  [104, 23, 23, 110], // 135 Jolteon
+  [103, 20, 20, 110], // 136 Flareon
+  [170, 0, 0, 75], // 137 Porygon
+  [98, 5, 21, 90], // 138 Omanyte
+  [99, 5, 21, 115], // 139 Omastar
+  [90, 5, 21, 45], // 140 Kabuto
+  [91, 5, 21, 70], // 141 Kabutops
+  [171, 5, 2, 60], // 142 Aerodactyl
+  [132, 0, 0, 65], // 143 Snorlax
+  [74, 25, 2, 125], // 144 Articuno
+  [75, 23, 2, 125], // 145 Zapdos
+  [73, 20, 2, 125], // 146 Moltres
+  [88, 26, 26, 50], // 147 Dratini
+  [89, 26, 26, 70], // 148 Dragonair
+  [66, 26, 2, 100], // 149 Dragonite
+  [131, 24, 24, 154], // 150 Mewtwo
+  [21, 24, 24, 100], // 151 Mew
+];
+
+/**
+ * Gen 1 data for a National Dex number, or undefined outside Kanto's 151
+ */
+export function getGen1SpeciesData(nationalDex: number): Gen1SpeciesData | undefined {
+  const entry = nationalDex > 0 ? GEN1_SPECIES[nationalDex] : undefined;
+  if (!entry) {
+    return undefined;
+  }
+  const [index, type1, type2, special] = entry;
+  return { index, types: [type1, type2], special };
+}
@@ -3,8 +3,7 @@
  * Maps species IDs to names for display
  */
 
-// Basic species name mapping (Gen 1-3)
-// This is a subset - full implementation would have all 386 species
+// Species names by National Dex number (Gen 1-3)
 export const SPECIES_NAMES: Record<number, string> = {
   0: 'None',
   1: 'Bulbasaur',
@@ -57,9 +56,207 @@ export const SPECIES_NAMES: Record<number, string> = {
   48: 'Venonat',
   49: 'Venomoth',
   50: 'Diglett',
-  // ... (abbreviated for brevity, add full list in production)
+  51: 'Dugtrio',
+  52: 'Meowth',
+  53: 'Persian',
+  54: 'Psyduck',
+  55: 'Golduck',
+  56: 'Mankey',
+  57: 'Primeape',
+  58: 'Growlithe',
+  59: 'Arcanine',
+  60: 'Poliwag',
+  61: 'Poliwhirl',
+  62: 'Poliwrath',
+  63: 'Abra',
+  64: 'Kadabra',
+  65: 'Alakazam',
+  66: 'Machop',
+  67: 'Machoke',
+  68: 'Machamp',
+  69: 'Bellsprout',
+  70: 'Weepinbell',
+  71: 'Victreebel',
+  72: 'Tentacool',
+  73: 'Tentacruel',
+  74: 'Geodude',
+  75: 'Graveler',
+  76: 'Golem',
+  77: 'Ponyta',
+  78: 'Rapidash',
+  79: 'Slowpoke',
+  80: 'Slowbro',
+  81: 'Magnemite',
+  82: 'Magneton',
+  83: "Farfetch'd",
+  84: 'Doduo',
+  85: 'Dodrio',
+  86: 'Seel',
+  87: 'Dewgong',
+  88: 'Grimer',
+  89: 'Muk',
+  90: 'Shellder',
+  91: 'Cloyster',
+  92: 'Gastly',
+  93: 'Haunter',
+  94: 'Gengar',
+  95: 'Onix',
+  96: 'Drowzee',
+  97: 'Hypno',
+  98: 'Krabby',
+  99: 'Kingler',
+  100: 'Voltorb',
+  101: 'Electrode',
+  102: 'Exeggcute',
+  103: 'Exeggutor',
+  104: 'Cubone',
+  105: 'Marowak',
+  106: 'Hitmonlee',
+  107: 'Hitmonchan',
+  108: 'Lickitung',
+  109: 'Koffing',
+  110: 'Weezing',
+  111: 'Rhyhorn',
+  112: 'Rhydon',
+  113: 'Chansey',
+  114: 'Tangela',
+  115: 'Kangaskhan',
+  116: 'Horsea',
+  117: 'Seadra',
+  118: 'Goldeen',
+  119: 'Seaking',
+  120: 'Staryu',
+  121: 'Starmie',
+  122: 'Mr. Mime',
+  123: 'Scyther',
+  124: 'Jynx',
+  125: 'Electabuzz',
+  126: 'Magmar',
+  127: 'Pinsir',
+  128: 'Tauros',
+  129: 'Magikarp',
+  130: 'Gyarados',
+  131: 'Lapras',
+  132: 'Ditto',
+  133: 'Eevee',
+  134: 'Vaporeon',
+  135: 'Jolteon',
+  136: 'Flareon',
+  137: 'Porygon',
+  138: 'Omanyte',
+  139: 'Omastar',
+  140: 'Kabuto',
+  141: 'Kabutops',
+  142: 'Aerodactyl',
+  143: 'Snorlax',
+  144: 'Articuno',
+  145: 'Zapdos',
+  146: 'Moltres',
+  147: 'Dratini',
+  148: 'Dragonair',
+  149: 'Dragonite',
   150: 'Mewtwo',
   151: 'Mew',
+  152: 'Chikorita',
+  153: 'Bayleef',
+  154: 'Meganium',
+  155: 'Cyndaquil',
+  156: 'Quilava',
+  157: 'Typhlosion',
+  158: 'Totodile',
+  159: 'Croconaw',
+  160: 'Feraligatr',
+  161: 'Sentret',
+  162: 'Furret',
+  163: 'Hoothoot',
+  164: 'Noctowl',
+  165: 'Ledyba',
+  166: 'Ledian',
+  167: 'Spinarak',
+  168: 'Ariados',
+  169: 'Crobat',
+  170: 'Chinchou',
+  171: 'Lanturn',
+  172: 'Pichu',
+  173: 'Cleffa',
+  174: 'Igglybuff',
+  175: 'Togepi',
+  176: 'Togetic',
+  177: 'Natu',
+  178: 'Xatu',
+  179: 'Mareep',
+  180: 'Flaaffy',
+  181: 'Ampharos',
+  182: 'Bellossom',
+  183: 'Marill',
+  184: 'Azumarill',
+  185: 'Sudowoodo',
+  186: 'Politoed',
+  187: 'Hoppip',
+  188: 'Skiploom',
+  189: 'Jumpluff',
+  190: 'Aipom',
+  191: 'Sunkern',
+  192: 'Sunflora',
+  193: 'Yanma',
+  194: 'Wooper',
+  195: 'Quagsire',
+  196: 'Espeon',
+  197: 'Umbreon',
+  198: 'Murkrow',
+  199: 'Slowking',
+  200: 'Misdreavus',
+  201: 'Unown',
+  202: 'Wobbuffet',
+  203: 'Girafarig',
+  204: 'Pineco',
+  205: 'Forretress',
+  206: 'Dunsparce',
+  207: 'Gligar',
+  208: 'Steelix',
+  209: 'Snubbull',
+  210: 'Granbull',
+  211: 'Qwilfish',
+  212: 'Scizor',
+  213: 'Shuckle',
+  214: 'Heracross',
+  215: 'Sneasel',
+  216: 'Teddiursa',
+  217: 'Ursaring',
+  218: 'Slugma',
+  219: 'Magcargo',
+  220: 'Swinub',
+  221: 'Piloswine',
+  222: 'Corsola',
+  223: 'Remoraid',
+  224: 'Octillery',
+  225: 'Delibird',
+  226: 'Mantine',
+  227: 'Skarmory',
+  228: 'Houndour',
+  229: 'Houndoom',
+  230: 'Kingdra',
+  231: 'Phanpy',
+  232: 'Donphan',
+  233: 'Porygon2',
+  234: 'Stantler',
+  235: 'Smeargle',
+  236: 'Tyrogue',
+  237: 'Hitmontop',
+  238: 'Smoochum',
+  239: 'Elekid',
+  240: 'Magby',
+  241: 'Miltank',
+  242: 'Blissey',
+  243: 'Raikou',
+  244: 'Entei',
+  245: 'Suicune',
+  246: 'Larvitar',
+  247: 'Pupitar',
+  248: 'Tyranitar',
+  249: 'Lugia',
+  250: 'Ho-Oh',
+  251: 'Celebi',
   252: 'Treecko',
   253: 'Grovyle',
   254: 'Sceptile',
@@ -84,7 +281,110 @@ export const SPECIES_NAMES: Record<number, string> = {
   273: 'Seedot',
   274: 'Nuzleaf',
   275: 'Shiftry',
-  // Add more as needed
+  276: 'Taillow',
+  277: 'Swellow',
+  278: 'Wingull',
+  279: 'Pelipper',
+  280: 'Ralts',
+  281: 'Kirlia',
+  282: 'Gardevoir',
+  283: 'Surskit',
+  284: 'Masquerain',
+  285: 'Shroomish',
+  286: 'Breloom',
+  287: 'Slakoth',
+  288: 'Vigoroth',
+  289: 'Slaking',
+  290: 'Nincada',
+  291: 'Ninjask',
+  292: 'Shedinja',
+  293: 'Whismur',
+  294: 'Loudred',
+  295: 'Exploud',
+  296: 'Makuhita',
+  297: 'Hariyama',
+  298: 'Azurill',
+  299: 'Nosepass',
+  300: 'Skitty',
+  301: 'Delcatty',
+  302: 'Sableye',
+  303: 'Mawile',
+  304: 'Aron',
+  305: 'Lairon',
+  306: 'Aggron',
+  307: 'Meditite',
+  308: 'Medicham',
+  309: 'Electrike',
+  310: 'Manectric',
+  311: 'Plusle',
+  312: 'Minun',
+  313: 'Volbeat',
+  314: 'Illumise',
+  315: 'Roselia',
+  316: 'Gulpin',
+  317: 'Swalot',
+  318: 'Carvanha',
+  319: 'Sharpedo',
+  320: 'Wailmer',
+  321: 'Wailord',
+  322: 'Numel',
+  323: 'Camerupt',
+  324: 'Torkoal',
+  325: 'Spoink',
+  326: 'Grumpig',
+  327: 'Spinda',
+  328: 'Trapinch',
+  329: 'Vibrava',
+  330: 'Flygon',
+  331: 'Cacnea',
+  332: 'Cacturne',
+  333: 'Swablu',
+  334: 'Altaria',
+  335: 'Zangoose',
+  336: 'Seviper',
+  337: 'Lunatone',
+  338: 'Solrock',
+  339: 'Barboach',
+  340: 'Whiscash',
+  341: 'Corphish',
+  342: 'Crawdaunt',
+  343: 'Baltoy',
+  344: 'Claydol',
+  345: 'Lileep',
+  346: 'Cradily',
+  347: 'Anorith',
+  348: 'Armaldo',
+  349: 'Feebas',
+  350: 'Milotic',
+  351: 'Castform',
+  352: 'Kecleon',
+  353: 'Shuppet',
+  354: 'Banette',
+  355: 'Duskull',
+  356: 'Dusclops',
+  357: 'Tropius',
+  358: 'Chimecho',
+  359: 'Absol',
+  360: 'Wynaut',
+  361: 'Snorunt',
+  362: 'Glalie',
+  363: 'Spheal',
+  364: 'Sealeo',
+  365: 'Walrein',
+  366: 'Clamperl',
+  367: 'Huntail',
+  368: 'Gorebyss',
+  369: 'Relicanth',
+  370: 'Luvdisc',
+  371: 'Bagon',
+  372: 'Shelgon',
+  373: 'Salamence',
+  374: 'Beldum',
+  375: 'Metang',
+  376: 'Metagross',
+  377: 'Regirock',
+  378: 'Regice',
+  379: 'Registeel',
   380: 'Latias',
   381: 'Latios',
   382: 'Kyogre',
@@ -121,6 +421,53 @@ export function isValidGen3Species(speciesId: number): boolean {
   return speciesId >= 1 && speciesId <= 386;
 }
 
+/**
+ * National Dex numbers for Gen 3 internal species indices 277-411
+ * Gen 3 stores Hoenn species in its own internal order after 25 unused
+ * placeholder slots (252-276); species 1-251 share the National Dex number
+ */
+const GEN3_HOENN_INTERNAL_TO_NATIONAL: readonly number[] = [
+  252, 253, 254, 255, 256, 257, 258, 259, 260, 261, // 277-286: Treecko-Poochyena
+  262, 263, 264, 265, 266, 267, 268, 269, 270, 271, // 287-296: Mightyena-Lombre
+  272, 273, 274, 275, 290, 291, 292, 276, 277, 285, // 297-306: Ludicolo-Shroomish
+  286, 327, 278, 279, 283, 284, 320, 321, 300, 301, // 307-316: Breloom-Delcatty
+  352, 343, 344, 299, 324, 302, 339, 340, 370, 341, // 317-326: Kecleon-Corphish
+  342, 349, 350, 318, 319, 328, 329, 330, 296, 297, // 327-336: Crawdaunt-Hariyama
+  309, 310, 322, 323, 363, 364, 365, 331, 332, 361, // 337-346: Electrike-Snorunt
+  362, 337, 338, 298, 325, 326, 311, 312, 303, 307, // 347-356: Glalie-Meditite
+  308, 333, 334, 360, 355, 356, 315, 287, 288, 289, // 357-366: Medicham-Slaking
+  316, 317, 357, 293, 294, 295, 366, 367, 368, 359, // 367-376: Gulpin-Absol
+  353, 354, 336, 335, 369, 304, 305, 306, 351, 313, // 377-386: Shuppet-Volbeat
+  314, 345, 346, 347, 348, 280, 281, 282, 371, 372, // 387-396: Illumise-Shelgon
+  373, 374, 375, 376, 377, 378, 379, 382, 383, 384, // 397-406: Salamence-Rayquaza
+  380, 381, 385, 386, 358, //                          407-411: Latias-Chimecho
+];
+
+const GEN3_FIRST_HOENN_INTERNAL_INDEX = 277;
+
+/**
+ * Convert a Gen 3 internal species index to its National Dex number
+ * Returns 0 for the unused placeholder indices and out-of-range values
+ */
+export function gen3InternalToNational(internalIndex: number): number {
+  if (internalIndex >= 1 && internalIndex <= 251) {
+    return internalIndex;
+  }
+  return GEN3_HOENN_INTERNAL_TO_NATIONAL[internalIndex - GEN3_FIRST_HOENN_INTERNAL_INDEX] ?? 0;
+}
+
+/**
+ * Convert a National Dex number (1-386) to the Gen 3 internal species index
+ * Returns 0 for numbers outside the Gen 3 range
+ */
+export function nationalToGen3Internal(nationalDex: number): number {
+  if (nationalDex >= 1 && nationalDex <= 251) {
+    return nationalDex;
+  }
+  const index = GEN3_HOENN_INTERNAL_TO_NATIONAL.indexOf(nationalDex);
+  return index === -1 ? 0 : index + GEN3_FIRST_HOENN_INTERNAL_INDEX;
+}
+
 /**
  * Gen 3 character encoding table
  * Maps Gen 3 character codes to Unicode
@@ -146,24 +493,37 @@ export const GEN3_CHAR_MAP: Record<number, string> = {
   0xA1: '0', 0xA2: '1', 0xA3: '2', 0xA4: '3', 0xA5: '4',
   0xA6: '5', 0xA7: '6', 0xA8: '7', 0xA9: '8', 0xAA: '9',
   // Special characters
-  0xAB: '!', 0xAC: '?', 0xAD: '.', 0xAE: '-',
-  0xB8: '♂', 0xB9: '♀',
+  0xAB: '!', 0xAC: '?', 0xAD: '.', 0xAE: '-', 0xAF: '・',
+  0xB0: '…', 0xB1: '“', 0xB2: '”', 0xB3: '‘', 0xB4: '’',
+  0xB5: '♂', 0xB6: '♀', 0xB7: '$', 0xB8: ',', 0xB9: '×',
+  0xBA: '/', 0xF0: ':',
 };
 
 /**
  * Decode Gen 3 encoded string to Unicode
  */
 export function decodeGen3String(bytes: Uint8Array): string {
+  let end = bytes.indexOf(0xFF);
+  if (end === -1) end = bytes.length;
+  // 0x00 is a space inside a name, but zero-filled padding after it is not
+  while (end > 0 && bytes[end - 1] === 0x00) end--;
+
   const chars: string[] = [];
-  for (let i = 0; i < bytes.length; i++) {
-    const byte = bytes[i];
-    if (byte === 0xFF || byte === 0x00) break; // Terminator
-    const char = GEN3_CHAR_MAP[byte!] ?? String.fromCharCode(byte!);
-    chars.push(char);
+  for (let i = 0; i < end; i++) {
+    const byte = bytes[i]!;
+    chars.push(GEN3_CHAR_MAP[byte] ?? String.fromCharCode(byte));
   }
   return chars.join('');
 }
 
+/**
+ * Check whether every character of a string exists in the Gen 3 charset
+ */
+export function isGen3Encodable(str: string): boolean {
+  const supported = new Set(Object.values(GEN3_CHAR_MAP).filter(Boolean));
+  return [...str].every(char => supported.has(char));
+}
+
 /**
  * Encode Unicode string to Gen 3 encoding
  */
@@ -0,0 +1,28 @@
+/**
+ * Browser download helper for generated save files
+ */
+
+// Delay before cleaning up download link to ensure download starts
+const DOWNLOAD_CLEANUP_DELAY_MS = 100;
+
+/**
+ * Offer a buffer to the user as a file download
+ */
+export function downloadBuffer(buffer: ArrayBuffer, fileName: string): void {
+  const blob = new Blob([buffer], { type: 'application/octet-stream' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.style.display = 'none';
+  document.body.appendChild(a);
+
+  // Trigger download
+  a.click();
+
+  // Clean up after a short delay to ensure download starts
+  setTimeout(() => {
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, DOWNLOAD_CLEANUP_DELAY_MS);
+}
@@ -102,6 +102,59 @@ export function makeErrorUserFriendly(error: Error): UserFriendlyError {
     };
   }
 
+  // A Pokémon cannot exist in the target game
+  if (message.includes('Injection blocked by compatibility problems')) {
+    return {
+      title: '❌ Not Compatible With This Game',
+      message: 'At least one Pokémon cannot be used in the target game, so none were injected. Your save file is unchanged.',
+      technicalDetails: message,
+      suggestions: [
+        'Remove the held item from the Pokémon listed, or inject them into a game that has it',
+        'Deselect the Pokémon listed and inject the rest',
+      ],
+    };
+  }
+
+  // A placement in the batch was invalid, so nothing was injected
+  if (message.includes('Injection transaction rejected')) {
+    return {
+      title: '❌ Injection Not Applied',
+      message: 'At least one Pokémon could not be placed, so none were injected. Your save file is unchanged.',
+      technicalDetails: message,
+      suggestions: [
+        'Use "Preview placements" to see which target slots are the problem',
+        'Choose a different starting box or slot, or allow replacing occupied slots',
+      ],
+    };
+  }
+
+  // Post-injection verification refused the export
+  if (message.includes('Injection verification failed')) {
+    return {
+      title: '❌ Injection Could Not Be Verified',
+      message: 'The modified save did not pass verification, so it was not downloaded. Your original save file is unchanged.',
+      technicalDetails: message,
+      suggestions: [
+        'Try the injection again with a fresh copy of your save file',
+        'Report the verification details as a bug so the cause can be fixed',
+      ],
+    };
+  }
+
+  // Gen 3 damaged sections or slot (recoverable)
+  if (message.includes('Invalid sections detected') || message.includes('is invalid or corrupted')) {
+    return {
+      title: '❌ Damaged Save File',
+      message: 'Part of this save file is damaged, so it cannot be loaded normally.',
+      technicalDetails: message,
+      suggestions: [
+        'Enable recovery mode on the Import tab to salvage every Pokémon that can still be read',
+        'Recovery mode combines the intact sections of both save slots and reports what was lost',
+        'Re-dump the save file from your cartridge or emulator if possible',
+      ],
+    };
+  }
+
   // Generic save integrity failure
   if (message.includes('integrity checks') || message.includes('failed validation')) {
     return {
@@ -0,0 +1,13 @@
+import { describe, it, expect } from 'vitest';
+import { sha256Hex } from './hash';
+
+describe('sha256Hex', () => {
+  it('should hash an empty buffer', async () => {
+    expect(await sha256Hex(new ArrayBuffer(0))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('should hash known input', async () => {
+    expect(await sha256Hex(Uint8Array.of(0x61, 0x62, 0x63).buffer))
+      .toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+});
@@ -0,0 +1,11 @@
+/**
+ * Content hashing for stored save files
+ */
+
+/**
+ * Compute the SHA-256 digest of a buffer as a lowercase hex string
+ */
+export async function sha256Hex(buffer: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
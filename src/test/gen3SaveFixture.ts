@@ -0,0 +1,165 @@
+/**
+ * Test fixtures for building synthetic Gen 3 save files and Pokémon
+ */
+
+import { calculateSectionChecksum } from '../lib/gen3/save/sections';
+import { calculatePk3Checksum, shuffleAndEncryptPk3, Pk3Data } from '../lib/gen3/pk3/pk3';
+import {
+  GEN3_SAVE_SIZE,
+  GEN3_SECTION_SIZE,
+  GEN3_SECTION_DATA_SIZE,
+  GEN3_SECTION_SIGNATURE,
+  GEN3_NUM_SECTIONS,
+  GEN3_SAVE_SLOT_A,
+  GEN3_SAVE_SLOT_B,
+  SECTION_FOOTER_ID_OFFSET,
+  SECTION_FOOTER_CHECKSUM_OFFSET,
+  SECTION_FOOTER_SIGNATURE_OFFSET,
+  SECTION_FOOTER_SAVE_INDEX_OFFSET,
+  TRAINER_GAME_CODE_OFFSET,
+  GAME_CODE_RS,
+  GAME_CODE_FRLG,
+  SECTION_CHUNK_SIZE,
+  Gen3GameGroup,
+} from '../lib/gen3/save/constants';
+
+export const TEST_EMERALD_SECURITY_KEY = 0x1A2B3C4D;
+
+export interface TestSaveOptions {
+  game?: Gen3GameGroup;
+  activeSlot?: 'A' | 'B';
+  saveIndex?: number; // Save index of the active slot (backup slot gets saveIndex - 1)
+  rotation?: number; // Physical position of section 0 in the active slot
+  setup?: (sections: Uint8Array[]) => void; // Edit section data, indexed by section ID
+}
+
+/**
+ * Build a valid 128KB save with both slots populated
+ */
+export function createTestSave(options: TestSaveOptions = {}): ArrayBuffer {
+  const {
+    game = 'E',
+    activeSlot = 'A',
+    saveIndex = 10,
+    rotation = 0,
+    setup,
+  } = options;
+
+  const sections = Array.from({ length: GEN3_NUM_SECTIONS }, () => new Uint8Array(GEN3_SECTION_DATA_SIZE));
+  const gameCode = game === 'RS' ? GAME_CODE_RS : game === 'FRLG' ? GAME_CODE_FRLG : TEST_EMERALD_SECURITY_KEY;
+  new DataView(sections[0]!.buffer).setUint32(TRAINER_GAME_CODE_OFFSET, gameCode, true);
+  setup?.(sections);
+
+  const buffer = new ArrayBuffer(GEN3_SAVE_SIZE);
+  const activeOffset = activeSlot === 'A' ? GEN3_SAVE_SLOT_A : GEN3_SAVE_SLOT_B;
+  const backupOffset = activeSlot === 'A' ? GEN3_SAVE_SLOT_B : GEN3_SAVE_SLOT_A;
+
+  writeTestSlot(buffer, activeOffset, sections, saveIndex, rotation);
+  writeTestSlot(buffer, backupOffset, sections, saveIndex - 1, (rotation + GEN3_NUM_SECTIONS - 1) % GEN3_NUM_SECTIONS);
+
+  return buffer;
+}
+
+/**
+ * Write 14 sections into a slot, placing section 0 at physical position `rotation`
+ */
+export function writeTestSlot(
+  buffer: ArrayBuffer,
+  slotOffset: number,
+  sections: Uint8Array[],
+  saveIndex: number,
+  rotation: number
+): void {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+
+  sections.forEach((data, id) => {
+    const offset = slotOffset + ((id + rotation) % GEN3_NUM_SECTIONS) * GEN3_SECTION_SIZE;
+    bytes.set(data, offset);
+    view.setUint16(offset + SECTION_FOOTER_ID_OFFSET, id, true);
+    view.setUint16(offset + SECTION_FOOTER_CHECKSUM_OFFSET, calculateSectionChecksum(data.slice().buffer), true);
+    view.setUint32(offset + SECTION_FOOTER_SIGNATURE_OFFSET, GEN3_SECTION_SIGNATURE, true);
+    view.setUint32(offset + SECTION_FOOTER_SAVE_INDEX_OFFSET, saveIndex >>> 0, true);
+  });
+}
+
+/**
+ * Write bytes into a multi-section block (SaveBlock1 from section 1, PC from section 5)
+ * using the game's 0xF80-byte chunking
+ */
+export function writeTestBlock(
+  sections: Uint8Array[],
+  firstSectionId: number,
+  logicalOffset: number,
+  bytes: ArrayLike<number>
+): void {
+  for (let i = 0; i < bytes.length; i++) {
+    const offset = logicalOffset + i;
+    sections[firstSectionId + Math.floor(offset / SECTION_CHUNK_SIZE)]![offset % SECTION_CHUNK_SIZE] = bytes[i]!;
+  }
+}
+
+export interface TestPk3Options {
+  species: number;
+  personality?: number;
+  otId?: number;
+  experience?: number;
+  heldItem?: number;
+  moves?: number[];
+  ivs?: number; // Packed IV/egg/ability word
+  evs?: number[]; // HP, Atk, Def, Spe, SpA, SpD
+  metLocation?: number;
+  origins?: number;
+  nickname?: number[];
+}
+
+/**
+ * Build a valid (checksummed, shuffled and encrypted) pk3
+ */
+export function createTestPk3(options: TestPk3Options): Pk3Data {
+  const personality = options.personality ?? 0x12345678;
+  const otId = options.otId ?? 0x0001E240;
+
+  const growth = new Uint8Array(12);
+  const growthView = new DataView(growth.buffer);
+  growthView.setUint16(0, options.species, true);
+  growthView.setUint16(2, options.heldItem ?? 0, true);
+  growthView.setUint32(4, options.experience ?? 1000, true);
+  growth[9] = 70;
+
+  const attacks = new Uint8Array(12);
+  const attacksView = new DataView(attacks.buffer);
+  (options.moves ?? [33]).slice(0, 4).forEach((move, i) => {
+    attacksView.setUint16(i * 2, move, true);
+    attacks[8 + i] = 35;
+  });
+
+  const evs = new Uint8Array(12);
+  (options.evs ?? []).slice(0, 6).forEach((ev, i) => {
+    evs[i] = ev;
+  });
+
+  const misc = new Uint8Array(12);
+  const miscView = new DataView(misc.buffer);
+  misc[1] = options.metLocation ?? 0x10;
+  miscView.setUint16(2, options.origins ?? ((3 << 7) | (4 << 11) | 5), true);
+  miscView.setUint32(4, (options.ivs ?? 0x3FFFFFFF) >>> 0, true);
+
+  const substructures = { growth, attacks, evs, misc };
+  const nickname = new Uint8Array(10).fill(0xFF);
+  nickname.set((options.nickname ?? [0xBB, 0xBC, 0xBD]).slice(0, 10));
+  const otName = new Uint8Array(7).fill(0xFF);
+  otName.set([0xCE, 0xBF, 0xCD, 0xCE]);
+
+  return {
+    personality,
+    otId,
+    nickname,
+    language: 0x0202,
+    otName,
+    markings: 0,
+    checksum: calculatePk3Checksum(substructures),
+    unknown: 0,
+    data: shuffleAndEncryptPk3(substructures, personality, otId),
+  };
+}